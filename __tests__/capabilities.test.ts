@@ -0,0 +1,41 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { detectCapabilities, readDbMetadata } from '../src/capabilities.js';
+import { listSources } from '../src/tools/list-sources.js';
+
+/** The layout of schema version 2 */
+function olderDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL, in_force_date TEXT);
+    CREATE TABLE legal_provisions (id INTEGER PRIMARY KEY, document_id TEXT, provision_ref TEXT, content TEXT);
+    CREATE VIRTUAL TABLE provisions_fts USING fts5(content, title);
+    CREATE TABLE cross_references (id INTEGER PRIMARY KEY, source_document_id TEXT, target_document_id TEXT);
+    CREATE TABLE db_metadata (key TEXT PRIMARY KEY, value TEXT);
+    INSERT INTO db_metadata VALUES ('schema_version', '2');
+  `);
+  return db;
+}
+
+describe('detectCapabilities', () => {
+  it('reports only core features on an older database', () => {
+    expect([...detectCapabilities(olderDb())]).toEqual(['core_legislation']);
+  });
+
+  it('detects added columns', () => {
+    const db = olderDb();
+    db.exec('ALTER TABLE legal_documents ADD COLUMN official_number TEXT');
+    expect([...detectCapabilities(db)]).toEqual(['core_legislation', 'official_numbers']);
+  });
+});
+
+describe('list_sources', () => {
+  it('reports the schema version and capabilities', async () => {
+    const { results } = await listSources(olderDb());
+    expect(results.database).toMatchObject({ schema_version: '2', capabilities: ['core_legislation'] });
+  });
+
+  it('defaults the version of databases without metadata', () => {
+    expect(readDbMetadata(new Database(':memory:')).schema_version).toBe('1.0');
+  });
+});
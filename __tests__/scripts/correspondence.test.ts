@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SUGGESTION_THRESHOLD, suggestCorrespondence } from '../../scripts/lib/correspondence.js';
+
+const article = (provision_ref: string, content: string) => ({ provision_ref, content });
+
+describe('suggestCorrespondence', () => {
+  // Five word pairs: "người nào", "nào truy", "truy cập", "cập trái", "trái phép"
+  const older = [article('dieu226a', 'Điều 226a. Người nào truy cập trái phép')];
+
+  it('suggests an article at the Dice threshold and not below it', () => {
+    // Two of three pairs shared: 2 * 2 / (5 + 3) = 0.5
+    const atThreshold = article('dieu289', 'Điều 289. Người nào truy xuất');
+    // One of three: 2 * 1 / (5 + 3) = 0.25
+    const below = article('dieu290', 'Điều 290. Người nào sử dụng');
+    expect(SUGGESTION_THRESHOLD).toBe(0.5);
+    expect(suggestCorrespondence(older, [atThreshold])).toEqual([{ from: 'dieu226a', to: 'dieu289', similarity: 0.5 }]);
+    expect(suggestCorrespondence(older, [below])).toEqual([]);
+  });
+
+  it('takes the most similar article and ignores the article headings', () => {
+    const newer = [
+      article('dieu289', 'Điều 289. Người nào truy xuất'),
+      article('dieu300', 'Điều 300. Người nào truy cập trái phép'),
+    ];
+    expect(suggestCorrespondence(older, newer)).toEqual([{ from: 'dieu226a', to: 'dieu300', similarity: 1 }]);
+  });
+
+  it('leaves out curated articles and empty text', () => {
+    const newer = [article('dieu289', 'Điều 289. Người nào truy cập trái phép')];
+    expect(suggestCorrespondence(older, newer, new Set(['dieu226a']))).toEqual([]);
+    expect(suggestCorrespondence([article('dieu1', 'Điều 1.')], [article('dieu1', 'Điều 1.')])).toEqual([]);
+  });
+});
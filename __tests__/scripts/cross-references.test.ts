@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { documentResolver, extractCrossReferences } from '../../scripts/lib/cross-references.js';
+
+const DOCUMENTS = [
+  { id: 'penal-code-2015', title: 'Bộ luật Hình sự 2015', title_en: 'Penal Code 2015', short_name: 'BLHS 2015', official_number: '100/2015/QH13' },
+  { id: 'enterprise-law-2020', title: 'Luật Doanh nghiệp 2020', title_en: 'Law on Enterprises 2020', short_name: null, official_number: '59/2020/QH14' },
+  { id: 'cybersecurity-law-2018', title: 'Luật An ninh mạng 2018', title_en: 'Cybersecurity Law 2018', short_name: null, official_number: '24/2018/QH14' },
+];
+
+const resolve = documentResolver(DOCUMENTS);
+/** Every article up to 430 exists */
+const hasProvision = (_documentId: string, ref: string) => Number(ref.replace('dieu', '')) <= 430;
+
+const targets = (provisionRef: string, content: string, documentId = 'penal-code-2015') =>
+  extractCrossReferences(documentId, provisionRef, content, resolve, hasProvision)
+    .map(r => r.target_segment_ref ?? (r.target_provision_ref ? `${r.target_document_id}:${r.target_provision_ref}` : r.target_document_id));
+
+describe('extractCrossReferences', () => {
+  it('expands an enumeration of the statute\'s own articles', () => {
+    expect(targets('dieu174', 'Đã bị xử lý kỷ luật về hành vi quy định tại các Điều 170, 171 và 173 của Bộ luật này mà còn vi phạm'))
+      .toEqual(['penal-code-2015:dieu170', 'penal-code-2015:dieu171', 'penal-code-2015:dieu173']);
+  });
+
+  it('expands enumerated clauses of one article', () => {
+    expect(targets('dieu12', 'Người từ đủ 14 tuổi phải chịu trách nhiệm hình sự theo khoản 1, khoản 2 Điều 9 của Bộ luật này'))
+      .toEqual(['dieu9.k1', 'dieu9.k2']);
+    expect(targets('dieu51', 'các tình tiết quy định tại điểm a, b và đ khoản 1 Điều 52')).toEqual([
+      'dieu52.k1.a', 'dieu52.k1.b', 'dieu52.k1.dd',
+    ]);
+  });
+
+  it('keeps clauses of the citing article', () => {
+    expect(targets('dieu9', 'Trường hợp quy định tại điểm b khoản 1 Điều này')).toEqual(['dieu9.k1.b']);
+  });
+
+  it('resolves other statutes by name or number and drops unknown ones', () => {
+    expect(targets('dieu8', 'theo quy định tại Điều 17 Luật Doanh nghiệp và Nghị định số 13/2023/NĐ-CP', 'cybersecurity-law-2018'))
+      .toEqual(['enterprise-law-2020:dieu17']);
+    expect(targets('dieu8', 'quy định của Luật số 59/2020/QH14', 'cybersecurity-law-2018')).toEqual(['enterprise-law-2020']);
+    expect(targets('dieu8', 'Luật Doanh nghiệp số 68/2014/QH13', 'cybersecurity-law-2018')).toEqual([]);
+  });
+
+  it('skips article headings run into the text and missing articles', () => {
+    expect(targets('dieu68', 'bảo vệ Tổ quốc.Chương VQUỐC HỘI Điều 69. Quốc hội là cơ quan')).toEqual([]);
+    expect(targets('dieu8', 'Điều 8. Tội phạm theo Điều 999 của Bộ luật này')).toEqual([]);
+  });
+});
+
+describe('documentResolver', () => {
+  it('needs a unique name match and an exact number', () => {
+    expect(resolve('Bộ luật hình sự năm 2015')).toBe('penal-code-2015');
+    expect(resolve('Luật')).toBeNull();
+    expect(resolve('100/2015/QH13')).toBe('penal-code-2015');
+    expect(resolve('101/2015/QH13')).toBeNull();
+  });
+});
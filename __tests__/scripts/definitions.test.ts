@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { documentDefinitionReport, extractDefinitions, isInterpretationArticle } from '../../scripts/lib/definitions.js';
+
+const ARTICLE =
+  'Điều 2. Giải thích từ ngữ Trong Nghị định này, các từ ngữ dưới đây được hiểu như sau: ' +
+  '1. Dữ liệu cá nhân là thông tin dưới dạng ký hiệu, chữ viết, chữ số gắn liền với một con người cụ thể. ' +
+  '2. Dữ liệu cá nhân nhạy cảm gồm: a) Quan điểm chính trị, quan điểm tôn giáo; ' +
+  'b) Tình trạng sức khỏe là thông tin về sức khỏe thể chất của chủ thể dữ liệu. ' +
+  '3. Xử lý dữ liệu cá nhân được hiểu là một hoặc nhiều hoạt động tác động tới dữ liệu cá nhân. ' +
+  '4. Việc xử lý nói trên phải tuân thủ quy định của pháp luật.';
+
+describe('isInterpretationArticle', () => {
+  it('recognises the title or the lead-in', () => {
+    expect(isInterpretationArticle('Giải thích từ ngữ', '')).toBe(true);
+    expect(isInterpretationArticle('', 'Các từ ngữ dưới đây được hiểu như sau: 1. ...')).toBe(true);
+    expect(isInterpretationArticle('Chính sách của Nhà nước', 'Nhà nước bảo hộ')).toBe(false);
+  });
+});
+
+describe('extractDefinitions', () => {
+  const { definitions, report } = extractDefinitions(ARTICLE, 'dieu2', 'Giải thích từ ngữ');
+
+  it('takes one term per clause, with "được hiểu là" before "là"', () => {
+    expect(definitions.filter(d => !d.point).map(d => [d.clause, d.term])).toEqual([
+      ['1', 'Dữ liệu cá nhân'],
+      ['2', 'Dữ liệu cá nhân nhạy cảm'],
+      ['3', 'Xử lý dữ liệu cá nhân'],
+    ]);
+    expect(definitions[0].definition).toBe('thông tin dưới dạng ký hiệu, chữ viết, chữ số gắn liền với một con người cụ thể.');
+  });
+
+  it('keeps points in the clause definition and records term points as sub-definitions', () => {
+    const sensitive = definitions.find(d => d.clause === '2' && !d.point);
+    expect(sensitive?.definition).toContain('a) Quan điểm chính trị, quan điểm tôn giáo');
+    expect(definitions.find(d => d.point)).toMatchObject({ clause: '2', point: 'b', term: 'Tình trạng sức khỏe' });
+  });
+
+  it('continues the previous definition with a clause that has no term', () => {
+    expect(report.continued).toEqual(['4']);
+    expect(definitions.find(d => d.clause === '3')?.definition).toContain('Việc xử lý nói trên');
+  });
+
+  it('reads English translations and glosses', () => {
+    const english = extractDefinitions('1. “Cyberspace” means the network of information technology infrastructure.', 'dieu2');
+    expect(english.definitions[0]).toMatchObject({ term: 'Cyberspace', term_en: 'Cyberspace' });
+    const gloss = extractDefinitions('1. Trang thông tin điện tử (Website) là trang thông tin trên môi trường mạng.', 'dieu4');
+    expect(gloss.definitions[0]).toMatchObject({ term: 'Trang thông tin điện tử', term_en: 'Website' });
+  });
+
+  it('rejects running text before the connective', () => {
+    expect(extractDefinitions('1. Nền kinh tế Việt Nam, theo Hiến pháp, là nền kinh tế thị trường.', 'dieu51')
+      .definitions).toEqual([]);
+  });
+});
+
+describe('documentDefinitionReport', () => {
+  it('totals articles and lists those without terms', () => {
+    const empty = extractDefinitions('Luật này quy định về an ninh mạng.', 'dieu1').report;
+    const report = documentDefinitionReport('pdp', [extractDefinitions(ARTICLE, 'dieu2').report, empty]);
+    expect(report.definitions).toBe(4);
+    expect(report.zero_term_articles).toEqual(['dieu1']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { compareWithCensus, extractDocumentDates, type DocumentDates } from '../../scripts/lib/document-dates.js';
+import { extractEffectiveDates } from '../../scripts/lib/effective-dates.js';
+
+const PAGE =
+  'Số hiệu: 24/2018/QH14 Ngày ban hành: 12/06/2018 Ngày hiệu lực: 01/01/2019 ' +
+  'CỘNG HÒA XÃ HỘI CHỦ NGHĨA VIỆT NAM Độc lập - Tự do - Hạnh phúc Hà Nội, ngày 12 tháng 6 năm 2018 LUẬT AN NINH MẠNG';
+
+const PENAL_ARTICLES = [{
+  content: 'Điều 426.Hiệu lực thi hànhBộ luật nàycó hiệu lực thi hành từ ngày 01 tháng 7 năm 2016 .' +
+    'Bộluật hình sự số 15/1999/QH10 và Luật số37/2009/QH12 sửa đổi, bổ sung một số điều của Bộ luật hình sự ' +
+    'hết hiệu lựcthi hành kể từ ngày Bộ luật này có hiệu lực thi hành.' +
+    'Bộ luật này đã được Quốc hội nước Cộng hòa xã hội chủ nghĩa Việt Nam khóa XIII, kỳ họp thứ 10 thông qua ngày 27 tháng 11 năm 2015.',
+}];
+
+function datesOf(page: string | null, articles: { content: string }[], today = '2024-01-01'): DocumentDates {
+  const effective = extractEffectiveDates(articles.map((a, i) => ({ provision_ref: `dieu${i + 1}`, ...a })));
+  return extractDocumentDates(page, articles, effective, null, today);
+}
+
+describe('extractDocumentDates', () => {
+  it('reads the passing date, the in-force article and repeal clauses', () => {
+    const dates = datesOf(null, PENAL_ARTICLES);
+    expect(dates).toMatchObject({
+      official_number: null,
+      issued_date: '2015-11-27',
+      signed_date: null,
+      in_force_date: '2016-07-01',
+      status: 'in_force',
+    });
+    expect(dates.repeals.map(r => r.official_number)).toEqual(['15/1999/QH10', '37/2009/QH12']);
+  });
+
+  it('falls back on the dateline and the source page', () => {
+    const dates = datesOf(PAGE, [{ content: 'Điều 1. Phạm vi điều chỉnh Luật này quy định về an ninh mạng.' }], '2018-07-01');
+    expect(dates).toMatchObject({
+      official_number: '24/2018/QH14',
+      issued_date: '2018-06-12',
+      signed_date: '2018-06-12',
+      in_force_date: '2019-01-01',
+      status: 'not_yet_in_force',
+    });
+  });
+
+  it('counts decisions from the day they are signed', () => {
+    const page = 'Bạc Liêu, ngày 05 tháng 3 năm 2020 QUYẾT ĐỊNH';
+    expect(datesOf(page, [{ content: 'Quyết định này có hiệu lực kể từ ngày ký.' }]).in_force_date).toBe('2020-03-05');
+    expect(datesOf(page, [{ content: 'Quyết định này có hiệu lực sau 10 ngày kể từ ngày ký.' }]).in_force_date)
+      .toBe('2020-03-15');
+  });
+
+  it('reads a date stated in passing', () => {
+    expect(datesOf(null, [{ content: 'Hiến pháp này có hiệu lực từ ngày 01 tháng 01 năm 2014.' }]).in_force_date)
+      .toBe('2014-01-01');
+  });
+});
+
+describe('compareWithCensus', () => {
+  const census = {
+    official_number: '100/2015/QH13',
+    status: 'amended',
+    issued_date: '2015-11-27',
+    in_force_date: '2018-01-01',
+    replaces: [{ official_number: '15/1999/QH10', title: 'Bộ luật Hình sự 1999' }],
+  };
+
+  it('reports differing dates and repeals the census does not list', () => {
+    expect(compareWithCensus(census, datesOf(null, PENAL_ARTICLES))).toEqual([
+      { field: 'in_force_date', census: '2018-01-01', text: '2016-07-01' },
+      { field: 'repeals', census: null, text: '37/2009/QH12' },
+    ]);
+  });
+
+  it('ignores what the text does not state', () => {
+    const silent = datesOf(null, [{ content: 'Điều 1. Phạm vi điều chỉnh' }]);
+    expect(compareWithCensus(census, silent)).toEqual([]);
+    expect(compareWithCensus({ ...census, official_number: 'N/A' }, { ...silent, official_number: 'Khongso' })).toEqual([]);
+  });
+
+  it('reports a different document on the page', () => {
+    const page = datesOf('Số hiệu: 715/QĐ-UBND', [{ content: '' }]);
+    expect(compareWithCensus(census, page)).toEqual([
+      { field: 'official_number', census: '100/2015/QH13', text: '715/QĐ-UBND' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { extractEffectiveDates } from '../../scripts/lib/effective-dates.js';
+
+const article = (provision_ref: string, content: string) => ({ provision_ref, content });
+
+describe('extractEffectiveDates', () => {
+  it('reads the statute date and carve-outs from "Hiệu lực thi hành"', () => {
+    const { in_force_date, entries } = extractEffectiveDates([
+      article('dieu40', 'Điều 40. Hiệu lực thi hành1. Luật này có hiệu lực thi hành từ ngày 01 tháng 7 năm 2024. ' +
+        '2. Khoản 3 Điều 10, Điều 25 và Điều 26 của Luật này có hiệu lực thi hành từ ngày 01 tháng 01 năm 2025.'),
+    ]);
+    expect(in_force_date).toBe('2024-07-01');
+    expect(entries.map(e => [e.kind, e.segment_ref ?? e.provision_ref, e.date])).toEqual([
+      ['in_force', 'dieu10.k3', '2025-01-01'],
+      ['in_force', 'dieu25', '2025-01-01'],
+      ['in_force', 'dieu26', '2025-01-01'],
+    ]);
+  });
+
+  it('finds the article run into the one before it and skips repeals', () => {
+    const { in_force_date, entries } = extractEffectiveDates([
+      article('dieu425', 'bị phạt tù từ 05 năm đến 15 năm.Phần thứbaĐIỀU KHOẢN THI HÀNHĐiều 426.Hiệu lực thi hành' +
+        'Bộ luật nàycó hiệu lực thi hành từ ngày 01 tháng 7 năm 2016 .Bộluật hình sự số 15/1999/QH10 hết hiệu lực' +
+        'thi hành kể từ ngày Bộ luật này có hiệu lực thi hành.'),
+    ]);
+    expect(in_force_date).toBe('2016-07-01');
+    expect(entries).toEqual([]);
+  });
+
+  it('reads English translations', () => {
+    const { in_force_date, entries } = extractEffectiveDates([
+      article('dieu43', 'Article43. Effect1. This Law comes intoforce from January 01, 2019.2. Within 12 months fromthe ' +
+        'effective date of this Law, administrators of information systems shall ensure fulfillment of all ' +
+        'cybersecurity requirements.3. Within 12 months fromthe day on which an information system is added to the list, ' +
+        'its administrator shall ensure fulfillment of all requirements.'),
+    ]);
+    expect(in_force_date).toBe('2019-01-01');
+    expect(entries).toMatchObject([
+      { kind: 'transitional', provision_ref: 'dieu43', segment_ref: 'dieu43.k2', date: '2020-01-01' },
+    ]);
+    expect(extractEffectiveDates([article('dieu78', 'Article 78.-Implementation effectThis Law takes effect on January 1, 2007.')])
+      .in_force_date).toBe('2007-01-01');
+  });
+
+  it('counts a grace period from the statute date', () => {
+    const { entries } = extractEffectiveDates([
+      article('dieu43', 'Điều 43. Hiệu lực thi hành1. Luật này có hiệu lực thi hành từ ngày 01tháng 01 năm 2019.' +
+        '2. Hệ thống thông tin đang vận hành thì trong thời hạn 12 tháng kể từ ngày Luật này có hiệu lực thi hành, ' +
+        'chủ quản hệ thống thông tin phải bảo đảm đáp ứng đủ điều kiện an ninh mạng.'),
+    ]);
+    expect(entries.map(e => [e.kind, e.segment_ref, e.date])).toEqual([['transitional', 'dieu43.k2', '2020-01-01']]);
+  });
+
+  it('reads "Hiến pháp này có hiệu lực" without an in-force article', () => {
+    expect(extractEffectiveDates([
+      article('dieu120', 'Điều 120. Việc sửa đổi Hiến pháp. Hiến pháp này có hiệu lực từ ngày 01 tháng 01 năm 2014.'),
+    ]).in_force_date).toBe('2014-01-01');
+    expect(extractEffectiveDates([
+      article('dieu1', 'Điều 1. Phạm vi điều chỉnh Luật này quy định về an ninh mạng.'),
+    ])).toEqual({ in_force_date: null, entries: [] });
+  });
+
+  it('records a transitional article with the last date it names', () => {
+    const { entries } = extractEffectiveDates([
+      article('dieu55', 'Điều 55. Quy định chuyển tiếp Giấy phép đã cấp được tiếp tục sử dụng đến ngày 31 tháng 12 năm 2025; ' +
+        'hồ sơ nộp trước ngày 01 tháng 7 năm 2024 được giải quyết theo quy định cũ.'),
+    ]);
+    expect(entries).toMatchObject([{ kind: 'transitional', provision_ref: 'dieu55', segment_ref: null, date: '2025-12-31' }]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { seedHeadings } from '../../scripts/lib/headings.js';
+
+const article = (provision_ref: string, content: string, chapter?: string) => ({ provision_ref, content, chapter });
+
+const headingsOf = (provisions: ReturnType<typeof article>[]) =>
+  Object.fromEntries([...seedHeadings(provisions)].map(([ref, path]) => [ref, path]));
+
+describe('seedHeadings', () => {
+  it('places a heading before the article that follows it in the text', () => {
+    const paths = headingsOf([
+      // Scraped seeds label an article with the next heading on the page
+      article('dieu1', 'Điều 1. Phạm vi điều chỉnh ... Điều 2. Giải thích từ ngữ ...Chương IIBẢO VỆ AN NINH MẠNGĐiều 3. Hệ thống', 'Chương II'),
+      article('dieu4', 'Điều 4. Thẩm định ...Chương IIIPHÒNG NGỪA'),
+      article('dieu5', 'Điều 5. Phòng, chống gián điệp mạng'),
+    ]);
+    expect(paths).toEqual({
+      dieu1: { part: null, chapter: 'Chương I', muc: null },
+      dieu4: { part: null, chapter: 'Chương II. BẢO VỆ AN NINH MẠNG', muc: null },
+      dieu5: { part: null, chapter: 'Chương III. PHÒNG NGỪA', muc: null },
+    });
+  });
+
+  it('merges the headings of an English translation after the text', () => {
+    const paths = headingsOf([
+      article('dieu3', 'Điều 3. Chính sách ...Điều 4. Nguyên tắc ...Chương IIBẢO VỆ HỆ THỐNGĐiều 5. Biện pháp'),
+      article('dieu7', 'Điều 7. Hiệu lực thi hành ... thông qua.ChapterIGENERAL PROVISIONS'),
+      article('dieu1', 'Article1. Scope'),
+      article('dieu4', 'Article4. Principles ...ChapterIIPROTECTION OF SYSTEMS'),
+      article('dieu6', 'Article6. Protection ...ChapterIIIIMPLEMENTATION PROVISIONS'),
+    ]);
+    expect(paths.dieu1.chapter).toBe('Chương I. GENERAL PROVISIONS');
+    expect(paths.dieu4.chapter).toBe('Chương I. GENERAL PROVISIONS');
+    expect(paths.dieu6.chapter).toBe('Chương II. BẢO VỆ HỆ THỐNG');
+    expect(paths.dieu7.chapter).toBe('Chương III. IMPLEMENTATION PROVISIONS');
+  });
+
+  it('reads Parts, which end the Chương before them, and Mục', () => {
+    const paths = headingsOf([
+      article('dieu1', 'Điều 1. Nhiệm vụ ...Chương IITỘI PHẠMMục 1. QUY ĐỊNH CHUNGĐiều 2. Khái niệm'),
+      article('dieu3', 'Điều 3. Phân loại ...Mục 2. CÁC TỘI KHÁCĐiều 4. Cố ý'),
+      article('dieu5', 'Điều 5. Vô ý ...Phần thứhaiCÁC TỘI PHẠMĐiều 6. Tội phản bội'),
+      article('dieu7', 'Điều 7. Tội gián điệp ...Chương IIICÁC TỘI XÂM PHẠM AN NINHĐiều 8. Tội bạo loạn'),
+    ]);
+    expect(paths.dieu1).toEqual({ part: 'Phần thứ nhất', chapter: 'Chương I', muc: null });
+    expect(paths.dieu3).toEqual({ part: 'Phần thứ nhất', chapter: 'Chương II. TỘI PHẠM', muc: 'Mục 1. QUY ĐỊNH CHUNG' });
+    expect(paths.dieu5).toEqual({ part: 'Phần thứ nhất', chapter: 'Chương II. TỘI PHẠM', muc: 'Mục 2. CÁC TỘI KHÁC' });
+    expect(paths.dieu7).toEqual({ part: 'Phần thứ hai. CÁC TỘI PHẠM', chapter: null, muc: null });
+  });
+
+  it('leaves the articles after a heading missing from the text unplaced', () => {
+    const paths = headingsOf([
+      article('dieu1', 'Điều 1. Phạm vi ...Chương IIQUY ĐỊNH CHUNGĐiều 2. Đối tượng'),
+      article('dieu3', 'Điều 3. Giải thích từ ngữ'),
+      article('dieu6', 'Điều 6. Xử lý vi phạm ...Chương IVĐIỀU KHOẢN THI HÀNHĐiều 7. Hiệu lực'),
+      article('dieu7', 'Điều 7. Hiệu lực thi hành'),
+    ]);
+    expect(paths.dieu3.chapter).toBeNull();
+    expect(paths.dieu7.chapter).toBe('Chương IV. ĐIỀU KHOẢN THI HÀNH');
+  });
+
+  it('keeps the headings of a seed whose text shows none', () => {
+    expect(headingsOf([
+      article('dieu2', 'Điều 2. Đối tượng áp dụng', 'Chương I. NHỮNG QUY ĐỊNH CHUNG'),
+      article('dieu3', 'Điều 3. Giải thích từ ngữ', 'Chương XIII của Bộ luật này'),
+    ])).toEqual({
+      dieu2: { part: null, chapter: 'Chương I. NHỮNG QUY ĐỊNH CHUNG', muc: null },
+      dieu3: { part: null, chapter: null, muc: null },
+    });
+  });
+});
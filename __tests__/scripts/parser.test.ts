@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseVietnameseHtml, splitArticleHeading, splitTitle, type ActIndexEntry } from '../../scripts/lib/parser.js';
+
+describe('splitArticleHeading', () => {
+  it('splits label, title and body', () => {
+    expect(splitArticleHeading('Điều 3. Giải thích từ ngữ\nTrong Luật này, các từ ngữ dưới đây')).toEqual({
+      label: 'Điều 3.',
+      title: 'Giải thích từ ngữ',
+      body: 'Trong Luật này, các từ ngữ dưới đây',
+    });
+  });
+
+  it('drops the dash of older English translations', () => {
+    expect(splitArticleHeading('Article 4.-Interpretation of terms\nIn this Law')?.title).toBe('Interpretation of terms');
+    expect(splitArticleHeading('Article 1.- Scope of regulation\nThis Law')?.title).toBe('Scope of regulation');
+  });
+
+  it('returns null for text without an article label', () => {
+    expect(splitArticleHeading('Chương I. NHỮNG QUY ĐỊNH CHUNG')).toBeNull();
+  });
+});
+
+describe('splitTitle', () => {
+  it('ends a title glued to the body', () => {
+    expect(splitTitle('Đối tượng áp dụngLuật này áp dụng đối với')).toEqual({
+      title: 'Đối tượng áp dụng',
+      body: 'Luật này áp dụng đối với',
+    });
+  });
+
+  it('gives no title when the article opens with a clause', () => {
+    expect(splitTitle('1. Mọi người có quyền').title).toBe('');
+  });
+});
+
+describe('parseVietnameseHtml', () => {
+  const act: ActIndexEntry = {
+    id: 'cybersecurity-law-2018', title: 'Luật An ninh mạng 2018', titleEn: 'Cybersecurity Law 2018', shortName: '',
+    status: 'in_force', issuedDate: '2018-06-12', inForceDate: '2019-01-01', url: '', officialNumber: '24/2018/QH14',
+  };
+  const article = (n: number, heading: string, body: string) =>
+    `<p><a name="dieu_${n}"><b>${heading}</b></a></p><p>${body}</p>`;
+
+  it('keeps the Vietnamese article over a translation appended to the page', () => {
+    const html = [
+      article(1, 'Điều 1. Phạm vi điều chỉnh', 'Luật này quy định về hoạt động bảo vệ an ninh quốc gia trên không gian mạng.'),
+      article(2, 'Điều 2. Giải thích từ ngữ', 'Trong Luật này, các từ ngữ dưới đây được hiểu như sau:</p><p>1. Không gian mạng là mạng lưới kết nối.'),
+      ...[3, 4, 5, 6].map(n => article(n, `Điều ${n}. Tiêu đề ${n}`, `Nội dung của điều ${n} trong Luật này.`)),
+      article(1, 'Article 1. Scope', 'This Law provides for protection of national security in cyberspace.'),
+      article(2, 'Article 2. Definitions', '1. “cyberspace” means a network of information technology infrastructure.'),
+    ].join('\n');
+    const parsed = parseVietnameseHtml(html, act);
+    expect(parsed.provisions.map(p => p.title)).toEqual([
+      'Phạm vi điều chỉnh', 'Giải thích từ ngữ', 'Tiêu đề 3', 'Tiêu đề 4', 'Tiêu đề 5', 'Tiêu đề 6',
+    ]);
+    expect(parsed.definitions.map(d => d.term)).toEqual(['Không gian mạng']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { addToCorpus, emptyCorpus, emptyStats, repairAct, repairText, type RepairableAct } from '../../scripts/lib/text-repair.js';
+
+function corpusOf(...texts: string[]) {
+  const corpus = emptyCorpus();
+  for (const text of texts) addToCorpus(corpus, text);
+  return corpus;
+}
+
+describe('addToCorpus', () => {
+  it('counts syllables and single-spaced pairs only', () => {
+    const corpus = corpusOf('Nhà nước bảo hộ, Nhà  nước');
+    expect(corpus.unigrams.get('nhà')).toBe(2);
+    expect(corpus.bigrams.get('nhà nước')).toBe(1);
+    expect(corpus.bigrams.has('hộ nhà')).toBe(false);
+  });
+});
+
+describe('repairText', () => {
+  it('re-splits run-together syllables', () => {
+    const stats = emptyStats();
+    expect(repairText('Nhànước bảo vệ quyền hợppháp của cánhân', emptyCorpus(), stats))
+      .toBe('Nhà nước bảo vệ quyền hợp pháp của cá nhân');
+    expect(stats.syllableSplits).toBe(3);
+  });
+
+  it('picks the split the corpus supports', () => {
+    const text = 'nhànước';
+    expect(repairText(text, corpusOf('nhà nước', 'nhà nước'), emptyStats())).toBe('nhà nước');
+    expect(repairText(text, corpusOf('nhàn ước', 'nhàn ước'), emptyStats())).toBe('nhàn ước');
+  });
+
+  it('restores the space after punctuation', () => {
+    const stats = emptyStats();
+    expect(repairText('tổ chức,cá nhân;cơ quan', emptyCorpus(), stats)).toBe('tổ chức, cá nhân; cơ quan');
+    expect(stats.punctuationSpacing).toBe(2);
+  });
+
+  it('leaves valid syllables and ASCII words alone', () => {
+    expect(repairText('Luật An ninh mạng cybersecurity ofregulation', emptyCorpus(), emptyStats()))
+      .toBe('Luật An ninh mạng cybersecurity ofregulation');
+  });
+});
+
+describe('repairAct', () => {
+  it('repairs provisions and definitions and recomputes segments', () => {
+    const act: RepairableAct = {
+      provisions: [{
+        provision_ref: 'dieu3',
+        content: 'Điều 3. Giải thích 1. Dữliệu cánhân là thông tin. 2. Xửlý dữ liệu.',
+        segments: [],
+      }],
+      definitions: [{ term: 'Dữliệu cánhân', definition: 'là thông tin' }],
+    };
+    const stats = repairAct(act, emptyCorpus());
+    expect(act.provisions![0].content).toBe('Điều 3. Giải thích 1. Dữ liệu cá nhân là thông tin. 2. Xử lý dữ liệu.');
+    expect(act.definitions![0].term).toBe('Dữ liệu cá nhân');
+    expect(act.provisions![0].segments!.map(s => s.segment_ref)).toEqual(['dieu3.k1', 'dieu3.k2']);
+    expect(stats.syllableSplits).toBe(5);
+  });
+});
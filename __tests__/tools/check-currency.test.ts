@@ -0,0 +1,117 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { checkCurrency } from '../../src/tools/check-currency.js';
+
+function currencyDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT, status TEXT NOT NULL,
+      issued_date TEXT, in_force_date TEXT, repealed_date TEXT, official_number TEXT, official_number_normalized TEXT
+    );
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, section TEXT NOT NULL,
+      content TEXT NOT NULL, repealed INTEGER NOT NULL DEFAULT 0, repealed_date TEXT, repealing_instrument TEXT
+    );
+    CREATE TABLE provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, version INTEGER NOT NULL,
+      valid_from TEXT, valid_to TEXT, amending_instrument TEXT, content TEXT
+    );
+  `);
+  const document = db.prepare('INSERT INTO legal_documents VALUES (?, ?, NULL, NULL, ?, ?, ?, ?, ?, ?)');
+  document.run('cybersecurity-law-2018', 'Luật An ninh mạng 2018', 'in_force', '2018-06-12', '2019-01-01', null, '24/2018/QH14', '24/2018/QH14');
+  document.run('telecommunications-law-2009', 'Luật Viễn thông 2009', 'in_force', '2009-11-23', '2010-07-01', '2024-07-01', '41/2009/QH12', '41/2009/QH12');
+  document.run('penal-code-2015', 'Bộ luật Hình sự 2015', 'in_force', '2015-11-27', '2018-01-01', '2999-01-01', '100/2015/QH13', '100/2015/QH13');
+
+  const provision = db.prepare(
+    'INSERT INTO legal_provisions (document_id, provision_ref, section, content, repealed, repealed_date, repealing_instrument) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+  provision.run('cybersecurity-law-2018', 'dieu8', '8', 'Điều 8. Các hành vi bị nghiêm cấm về an ninh mạng\n1. ...\n2. ...', 0, null, null);
+  provision.run('telecommunications-law-2009', 'dieu3', '3', 'Điều 3. Giải thích từ ngữ', 0, null, null);
+  provision.run('telecommunications-law-2009', 'dieu20', '20', 'Điều 20. (được bãi bỏ)', 1, '2015-01-01', 'Luật số 71/2014/QH13');
+  provision.run('penal-code-2015', 'dieu2', '2', 'Điều 2. Cơ sở của trách nhiệm hình sự', 0, null, null);
+
+  const version = db.prepare(
+    'INSERT INTO provision_versions (document_id, provision_ref, version, valid_from, valid_to, amending_instrument, content) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+  version.run('penal-code-2015', 'dieu2', 1, '2018-01-01', '2019-01-01', null, 'Điều 2. (bản 2015)');
+  version.run('penal-code-2015', 'dieu2', 2, '2019-01-01', null, 'Luật số 12/2017/QH14', null);
+  return db;
+}
+
+describe('checkCurrency for a provision', () => {
+  const db = currencyDb();
+  const check = async (document_id: string, provision_ref: string, as_of_date?: string) =>
+    (await checkCurrency(db, { document_id, provision_ref, as_of_date })).results;
+
+  it('answers a clause or point for its article', async () => {
+    const result = await check('Luật An ninh mạng', 'dieu8.k2');
+    expect(result.provision).toMatchObject({
+      provision_ref: 'dieu8',
+      segment_ref: 'dieu8.k2',
+      status: 'in_force',
+      repealed_date: null,
+      valid_to: null,
+    });
+    expect(result.warnings).toEqual([]);
+    expect((await check('cybersecurity-law-2018', 'dieu8.k2.dd')).provision?.segment_ref).toBe('dieu8.k2.dd');
+    expect((await check('cybersecurity-law-2018', 'dieu99.k1')).warnings)
+      .toEqual(['Provision "dieu99.k1" not found in document "cybersecurity-law-2018"']);
+  });
+
+  it('ends the articles of a repealed statute with the statute', async () => {
+    const before = await check('telecommunications-law-2009', 'dieu3', '2015-06-01');
+    expect(before.provision).toMatchObject({
+      status: 'in_force',
+      repealed_date: '2024-07-01',
+      repealed_with_statute: true,
+      valid_to: '2024-07-01',
+    });
+    expect(before.warnings).toContain('Provision "dieu3" has since been repealed with the statute with effect from 2024-07-01.');
+
+    const after = await check('telecommunications-law-2009', 'dieu3');
+    expect(after.provision).toMatchObject({ status: 'repealed', effective_date: '2024-07-01', valid_to: '2024-07-01' });
+    expect(after.warnings).toContain('Provision "dieu3" was repealed with the statute with effect from 2024-07-01 and is no longer valid.');
+  });
+
+  it('keeps an article\'s own earlier repeal', async () => {
+    const result = await check('telecommunications-law-2009', 'dieu20', '2016-01-01');
+    expect(result.provision).toMatchObject({
+      status: 'repealed',
+      repealed_date: '2015-01-01',
+      repealing_instrument: 'Luật số 71/2014/QH13',
+      valid_to: '2015-01-01',
+    });
+    expect(result.provision?.repealed_with_statute).toBeUndefined();
+  });
+
+  it('ends a wording at the next one or a later repeal of the statute', async () => {
+    const original = await check('penal-code-2015', 'dieu2', '2018-06-01');
+    expect(original.provision).toMatchObject({ status: 'in_force', version: 1, valid_to: '2019-01-01' });
+    expect(original.warnings).toContain('Provision "dieu2" has since been amended by Luật số 12/2017/QH14 with effect from 2019-01-01.');
+
+    const current = await check('penal-code-2015', 'dieu2');
+    expect(current.provision).toMatchObject({ status: 'amended', version: 2, valid_to: '2999-01-01' });
+    expect(current.warnings).toContain('Provision "dieu2" is to be repealed with the statute with effect from 2999-01-01.');
+  });
+});
+
+describe('checkCurrency for a statute', () => {
+  const db = currencyDb();
+
+  it('reads the status from the repeal date, not the stored status', async () => {
+    // Stored as in force at build; the repeal has taken effect since
+    const repealed = (await checkCurrency(db, { document_id: '41/2009/QH12' })).results;
+    expect(repealed).toMatchObject({ status: 'repealed', repealed_date: '2024-07-01' });
+    expect(repealed.warnings).toContain('This statute has been repealed and is no longer in force.');
+
+    const asOf = (await checkCurrency(db, { document_id: 'telecommunications-law-2009', as_of_date: '2015-06-01' })).results;
+    expect(asOf).toMatchObject({ status: 'in_force', current_status: 'repealed' });
+  });
+
+  it('does not count a repeal dated in the future', async () => {
+    const result = (await checkCurrency(db, { document_id: 'penal-code-2015' })).results;
+    expect(result).toMatchObject({ status: 'in_force', repealed_date: '2999-01-01' });
+    expect(result.warnings).toEqual([]);
+  });
+});
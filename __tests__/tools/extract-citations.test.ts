@@ -0,0 +1,105 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { extractCitationsTool } from '../../src/tools/extract-citations.js';
+import { validateCitationTool } from '../../src/tools/validate-citation.js';
+
+const ARTICLE_17 = 'Điều 17. Quyền thành lập doanh nghiệp\n1. Tổ chức, cá nhân có quyền thành lập doanh nghiệp.\n' +
+  '2. Tổ chức, cá nhân sau đây không có quyền thành lập doanh nghiệp:\na) Cơ quan nhà nước;\nb) Cán bộ, công chức.';
+
+function citedDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT, status TEXT NOT NULL,
+      issued_date TEXT, in_force_date TEXT, repealed_date TEXT, official_number TEXT, official_number_normalized TEXT
+    );
+    CREATE TABLE legal_provisions (
+      document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, section TEXT NOT NULL, content TEXT NOT NULL,
+      repealed INTEGER NOT NULL DEFAULT 0, repealed_date TEXT
+    );
+  `);
+  const document = db.prepare('INSERT INTO legal_documents VALUES (?, ?, NULL, NULL, ?, NULL, ?, ?, ?, ?)');
+  document.run('enterprise-law-2020', 'Luật Doanh nghiệp 2020', 'in_force', '2021-01-01', null, '59/2020/QH14', '59/2020/QH14');
+  document.run('cybersecurity-law-2018', 'Luật An ninh mạng 2018', 'amended', '2019-01-01', null, '24/2018/QH14', '24/2018/QH14');
+  // Stored as repealed, though the repeal takes effect later
+  document.run('telecom-law-2009', 'Luật Viễn thông 2009', 'repealed', '2010-07-01', '2999-07-01', '41/2009/QH12', '41/2009/QH12');
+  document.run('e-transactions-law-2005', 'Luật Giao dịch điện tử 2005', 'in_force', '2006-03-01', '2024-07-01', '51/2005/QH11', '51/2005/QH11');
+  const provision = db.prepare('INSERT INTO legal_provisions VALUES (?, ?, ?, ?, ?, ?)');
+  provision.run('enterprise-law-2020', 'dieu17', '17', ARTICLE_17, 0, null);
+  provision.run('enterprise-law-2020', 'dieu18', '18', 'Điều 18. Đăng ký doanh nghiệp', 1, '2020-06-01');
+  provision.run('enterprise-law-2020', 'dieu19', '19', 'Điều 19. Hồ sơ đăng ký', 1, '2999-01-01');
+  provision.run('cybersecurity-law-2018', 'dieu8', '8', 'Điều 8. Các hành vi bị nghiêm cấm về an ninh mạng', 0, null);
+  provision.run('e-transactions-law-2005', 'dieu4', '4', 'Điều 4. Giải thích từ ngữ', 0, null);
+  provision.run('telecom-law-2009', 'dieu3', '3', 'Điều 3. Giải thích từ ngữ', 0, null);
+  return db;
+}
+
+describe('status of cited laws', () => {
+  const db = citedDb();
+
+  it('checks citations of repealed and amended laws as such', async () => {
+    const { citations, summary } = (await extractCitationsTool(db, {
+      text: 'Theo Điều 17 Luật Doanh nghiệp 2020, Điều 8 Luật An ninh mạng 2018 và Điều 4 Luật Giao dịch điện tử 2005.',
+    })).results;
+    expect(citations.map(c => [c.document_id, c.check])).toEqual([
+      ['enterprise-law-2020', 'valid'],
+      ['cybersecurity-law-2018', 'amended'],
+      ['e-transactions-law-2005', 'repealed'],
+    ]);
+    expect(citations[2].warnings).toEqual(['WARNING: This statute has been repealed.']);
+    expect(summary).toMatchObject({ total: 3, valid: 1, amended: 1, repealed: 1, not_found: 0 });
+  });
+});
+
+describe('repeal status of cited laws and articles', () => {
+  const db = citedDb();
+  const check = async (text: string) => (await extractCitationsTool(db, { text })).results.citations[0];
+
+  it('flags an article once its repeal has taken effect', async () => {
+    expect(await check('Điều 18 Luật Doanh nghiệp 2020')).toMatchObject({ check: 'repealed' });
+    expect(await check('Điều 17 Luật Doanh nghiệp 2020')).toMatchObject({ check: 'valid', warnings: [] });
+  });
+
+  it('does not flag a repeal dated in the future', async () => {
+    expect(await check('Điều 19 Luật Doanh nghiệp 2020')).toMatchObject({
+      check: 'valid',
+      warnings: ['Note: Điều 19 is to be repealed from 2999-01-01'],
+    });
+    expect(await check('Điều 3 Luật Viễn thông 2009')).toMatchObject({
+      check: 'valid',
+      document_status: 'in_force',
+      warnings: [],
+    });
+  });
+
+  it('flags a document past its repeal date whatever its stored status', async () => {
+    expect(await check('Luật Giao dịch điện tử 2005')).toMatchObject({ check: 'repealed', document_status: 'repealed' });
+
+    const validated = (await validateCitationTool(db, { citation: 'Luật Giao dịch điện tử 2005' })).results;
+    expect(validated.status).toBe('repealed');
+    expect(validated.warnings).toEqual([expect.stringMatching(/^WARNING: This statute has been repealed/)]);
+    expect((await validateCitationTool(db, { citation: 'Luật Viễn thông 2009' })).results)
+      .toMatchObject({ status: 'in_force', warnings: [] });
+  });
+});
+
+describe('clauses and points of cited articles', () => {
+  const db = citedDb();
+
+  it('checks that a cited clause or point is in the article text', async () => {
+    const { citations } = (await extractCitationsTool(db, {
+      text: 'Theo điểm b khoản 2 Điều 17 Luật Doanh nghiệp 2020; khoản 3 Điều 17 Luật Doanh nghiệp 2020; ' +
+        'điểm c khoản 2 Điều 17 Luật Doanh nghiệp 2020.',
+    })).results;
+    expect(citations.map(c => [c.clause, c.point, c.check])).toEqual([
+      ['2', 'b', 'valid'],
+      ['3', undefined, 'not_found'],
+      ['2', 'c', 'not_found'],
+    ]);
+    expect(citations[1].warnings).toEqual(['Clause "khoản 3" not found in the text of Điều 17']);
+
+    const validated = (await validateCitationTool(db, { citation: 'điểm c khoản 2 Điều 17 Luật Doanh nghiệp 2020' })).results;
+    expect(validated).toMatchObject({ valid: false, pinpoint: { clause_found: true, point_found: false } });
+    expect(validated.warnings).toEqual(['Point "điểm c" not found in the text of Điều 17']);
+  });
+});
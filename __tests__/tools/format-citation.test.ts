@@ -0,0 +1,52 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { formatCitationTool } from '../../src/tools/format-citation.js';
+
+function documentsDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT,
+      official_number TEXT, official_number_normalized TEXT
+    )
+  `);
+  const insert = db.prepare('INSERT INTO legal_documents VALUES (?, ?, ?, ?, ?, ?)');
+  insert.run('cybersecurity-law-2018', 'Luật An ninh mạng 2018', 'Cybersecurity Law 2018', null, '24/2018/QH14', '24/2018/QH14');
+  insert.run('constitution-2013', 'Hiến pháp 2013', 'Constitution 2013', null, null, null);
+  return db;
+}
+
+describe('formatCitationTool', () => {
+  const db = documentsDb();
+  const format = async (citation: string, style?: 'full' | 'short' | 'pinpoint' | 'english') =>
+    (await formatCitationTool(db, { citation, format: style })).results;
+
+  it('writes the full form with the canonical title and number', async () => {
+    expect(await format('khoản 2 Điều 8 Luật An ninh mạng')).toMatchObject({
+      formatted: 'khoản 2 Điều 8 Luật An ninh mạng số 24/2018/QH14',
+      format: 'full',
+      document_id: 'cybersecurity-law-2018',
+      warnings: [],
+    });
+    expect((await format('Điều 8 Luật số 24/2018/QH14')).formatted).toBe('Điều 8 Luật An ninh mạng số 24/2018/QH14');
+    expect((await format('Điều 2 Hiến pháp 2013')).formatted).toBe('Điều 2 Hiến pháp năm 2013');
+  });
+
+  it('writes the short and pinpoint forms', async () => {
+    expect((await format('khoản 2 Điều 8 Luật An ninh mạng', 'short')).formatted).toBe('khoản 2 Điều 8 Luật số 24/2018/QH14');
+    expect((await format('khoản 2 Điều 8 Luật An ninh mạng', 'pinpoint')).formatted).toBe('khoản 2 Điều 8');
+  });
+
+  it('writes the English form', async () => {
+    expect((await format('khoản 2 Điều 8 Luật An ninh mạng số 24/2018/QH14', 'english')).formatted)
+      .toBe('Article 8(2), Cybersecurity Law No. 24/2018/QH14');
+    expect((await format('Điều 2 Hiến pháp 2013', 'english')).formatted).toBe('Article 2, Constitution 2013');
+  });
+
+  it('keeps the typed title of an unknown document and warns', async () => {
+    const result = await format('Điều 5 Luật Dữ liệu');
+    expect(result.formatted).toBe('Điều 5 Luật Dữ liệu');
+    expect(result.document_id).toBeUndefined();
+    expect(result.warnings).toEqual([expect.stringMatching(/^Document not found/)]);
+  });
+});
@@ -0,0 +1,120 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { getArticleCorrespondence } from '../../src/tools/get-article-correspondence.js';
+
+function correspondenceDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT, status TEXT NOT NULL,
+      official_number TEXT, official_number_normalized TEXT
+    );
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, title TEXT
+    );
+    CREATE TABLE article_correspondence (
+      id INTEGER PRIMARY KEY, from_document_id TEXT, from_number TEXT, from_number_normalized TEXT, from_title TEXT,
+      from_provision_ref TEXT NOT NULL, to_document_id TEXT NOT NULL, to_provision_ref TEXT,
+      match_type TEXT NOT NULL, source TEXT NOT NULL, similarity REAL, note TEXT
+    );
+    CREATE TABLE document_replacements (
+      id INTEGER PRIMARY KEY, successor_id TEXT NOT NULL, successor_number TEXT, successor_title TEXT NOT NULL,
+      predecessor_id TEXT, predecessor_number TEXT NOT NULL, predecessor_number_normalized TEXT NOT NULL,
+      predecessor_title TEXT, effective_date TEXT, source TEXT NOT NULL
+    );
+  `);
+  const document = db.prepare('INSERT INTO legal_documents VALUES (?, ?, NULL, NULL, ?, ?, ?)');
+  document.run('penal-code-2015', 'Bộ luật Hình sự 2015', 'in_force', '100/2015/QH13', '100/2015/QH13');
+  document.run('telecommunications-law-2023', 'Luật Viễn thông 2023', 'in_force', '24/2023/QH15', '24/2023/QH15');
+  document.run('telecommunications-law-2009', 'Luật Viễn thông 2009', 'in_force', '41/2009/QH12', '41/2009/QH12');
+
+  const provision = db.prepare('INSERT INTO legal_provisions (document_id, provision_ref, title) VALUES (?, ?, ?)');
+  provision.run('penal-code-2015', 'dieu289', 'Tội xâm nhập trái phép vào mạng máy tính, mạng viễn thông hoặc phương tiện điện tử của người khác');
+  provision.run('penal-code-2015', 'dieu249', 'Tội tàng trữ trái phép chất ma túy');
+  provision.run('telecommunications-law-2023', 'dieu3', 'Giải thích từ ngữ');
+
+  const row = db.prepare(
+    `INSERT INTO article_correspondence (from_document_id, from_number, from_number_normalized, from_title,
+       from_provision_ref, to_document_id, to_provision_ref, match_type, source, similarity, note)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  // The 1999 Code is not in the database: known by its number and title only
+  const code1999 = [null, '15/1999/QH10', '15/1999/QH10', 'Bộ luật Hình sự 1999'];
+  row.run(...code1999, 'dieu226a', 'penal-code-2015', 'dieu289', 'equivalent', 'curated', null, null);
+  row.run(...code1999, 'dieu194', 'penal-code-2015', 'dieu249', 'split', 'curated', null, 'Tách theo hành vi');
+  row.run(...code1999, 'dieu194', 'penal-code-2015', 'dieu250', 'split', 'curated', null, 'Tách theo hành vi');
+  row.run(...code1999, 'dieu7', 'penal-code-2015', null, 'dropped', 'curated', null, null);
+  row.run('telecommunications-law-2009', '41/2009/QH12', '41/2009/QH12', 'Luật Viễn thông 2009',
+    'dieu3', 'telecommunications-law-2023', 'dieu3', 'equivalent', 'suggested', 0.82, null);
+
+  const replacement = db.prepare(
+    `INSERT INTO document_replacements (successor_id, successor_number, successor_title, predecessor_number,
+       predecessor_number_normalized, effective_date, source) VALUES (?, ?, ?, ?, ?, ?, 'census')`
+  );
+  replacement.run('penal-code-2015', '100/2015/QH13', 'Bộ luật Hình sự 2015', '15/1999/QH10', '15/1999/QH10', '2018-01-01');
+  // Replaced too, but no correspondence table was curated for it
+  replacement.run('penal-code-2015', '100/2015/QH13', 'Bộ luật Hình sự 2015', '21/2017/QH14', '21/2017/QH14', '2018-01-01');
+  return db;
+}
+
+describe('getArticleCorrespondence', () => {
+  const db = correspondenceDb();
+  const counterparts = async (input: Parameters<typeof getArticleCorrespondence>[1]) =>
+    (await getArticleCorrespondence(db, input)).results?.counterparts.map(c => [c.document_id, c.provision_ref, c.match_type]);
+
+  it('finds an old law by citation, number or title', async () => {
+    const { results } = await getArticleCorrespondence(db, { citation: 'Điều 226a Bộ luật Hình sự 1999' });
+    expect(results?.from).toEqual({
+      document_id: null,
+      official_number: '15/1999/QH10',
+      title: 'Bộ luật Hình sự 1999',
+      provision_ref: 'dieu226a',
+    });
+    expect(results?.counterparts).toEqual([{
+      document_id: 'penal-code-2015',
+      document_title: 'Bộ luật Hình sự 2015',
+      provision_ref: 'dieu289',
+      article_title: 'Tội xâm nhập trái phép vào mạng máy tính, mạng viễn thông hoặc phương tiện điện tử của người khác',
+      match_type: 'equivalent',
+      source: 'curated',
+      similarity: null,
+      note: null,
+      in_database: true,
+    }]);
+
+    const expected = [['penal-code-2015', 'dieu289', 'equivalent']];
+    expect(await counterparts({ document_id: '15/1999/QH10', provision_ref: '226a' })).toEqual(expected);
+    expect(await counterparts({ document_id: 'Bộ luật Hình sự 1999', provision_ref: 'Điều 226a' })).toEqual(expected);
+    // "năm" and diacritics are ignored in titles
+    expect(await counterparts({ document_id: 'Bo luat Hinh su nam 1999', provision_ref: 'dieu226a' })).toEqual(expected);
+  });
+
+  it('finds an old law in the database by its ID', async () => {
+    const { results } = await getArticleCorrespondence(db, { document_id: 'telecommunications-law-2009', provision_ref: '3' });
+    expect(results?.counterparts).toMatchObject([
+      { document_id: 'telecommunications-law-2023', provision_ref: 'dieu3', source: 'suggested', similarity: 0.82 },
+    ]);
+    // Its title resolves to the same ID
+    expect(await counterparts({ citation: 'Điều 3 Luật Viễn thông 2009' }))
+      .toEqual([['telecommunications-law-2023', 'dieu3', 'equivalent']]);
+  });
+
+  it('lists every article a split went to, and dropped articles', async () => {
+    const { results } = await getArticleCorrespondence(db, { document_id: '15/1999/QH10', provision_ref: 'dieu194' });
+    expect(results?.counterparts.map(c => [c.provision_ref, c.match_type, c.in_database])).toEqual([
+      ['dieu249', 'split', true],
+      ['dieu250', 'split', false],
+    ]);
+    expect(await counterparts({ document_id: '15/1999/QH10', provision_ref: 'dieu7' }))
+      .toEqual([['penal-code-2015', null, 'dropped']]);
+  });
+
+  it('notes an article or a law with no table', async () => {
+    expect((await getArticleCorrespondence(db, { document_id: '15/1999/QH10', provision_ref: 'dieu999' }))._metadata)
+      .toHaveProperty('note', 'dieu999 of Bộ luật Hình sự 1999 (15/1999/QH10) is not in the correspondence table');
+    expect((await getArticleCorrespondence(db, { document_id: '21/2017/QH14', provision_ref: 'dieu1' }))._metadata)
+      .toHaveProperty('note', 'No article correspondence is recorded for "21/2017/QH14"; it was replaced by Bộ luật Hình sự 2015 (100/2015/QH13) with effect from 2018-01-01');
+    expect((await getArticleCorrespondence(db, { document_id: '15/1999/QH10' }))._metadata)
+      .toHaveProperty('note', 'Name the old article: pass citation, or document_id and provision_ref');
+  });
+});
@@ -0,0 +1,96 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { getDefinitions } from '../../src/tools/get-definitions.js';
+import { searchDefinitions } from '../../src/tools/search-definitions.js';
+import { normalizeForMatch } from '../../src/utils/vietnamese-text.js';
+
+type Definition = [documentId: string, term: string, termEn: string | null, definition: string, clause: string];
+
+const DEFINITIONS: Definition[] = [
+  ['cybersecurity-law-2018', 'An ninh mạng', 'cybersecurity', 'sự bảo đảm hoạt động trên không gian mạng không gây phương hại đến an ninh quốc gia', '1'],
+  ['cybersecurity-law-2018', 'Không gian mạng', null, 'mạng lưới kết nối của cơ sở hạ tầng công nghệ thông tin', '3'],
+  ['cybersecurity-law-2018', 'Không gian mạng quốc gia', null, 'không gian mạng do Chính phủ xác lập, quản lý và kiểm soát', '4'],
+  ['information-technology-law-2006', 'Môi trường mạng', null, 'môi trường trong đó thông tin được cung cấp qua cơ sở hạ tầng thông tin', '3'],
+];
+
+function definitionsDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT, status TEXT NOT NULL);
+    CREATE TABLE definitions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, term TEXT NOT NULL, term_en TEXT,
+      definition TEXT NOT NULL, source_provision TEXT, clause TEXT, point TEXT
+    );
+    CREATE VIRTUAL TABLE definitions_fts USING fts5(term, definition, tokenize='unicode61 remove_diacritics 0');
+    CREATE VIRTUAL TABLE definitions_fts_folded USING fts5(term, definition, tokenize='unicode61');
+  `);
+  const document = db.prepare('INSERT INTO legal_documents VALUES (?, ?, ?, NULL, ?)');
+  document.run('cybersecurity-law-2018', 'Luật An ninh mạng 2018', 'Cybersecurity Law 2018', 'in_force');
+  document.run('information-technology-law-2006', 'Luật Công nghệ thông tin 2006', 'Law on Information Technology 2006', 'in_force');
+  const definition = db.prepare(
+    'INSERT INTO definitions (document_id, term, term_en, definition, source_provision, clause) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const fts = db.prepare('INSERT INTO definitions_fts (rowid, term, definition) VALUES (?, ?, ?)');
+  const folded = db.prepare('INSERT INTO definitions_fts_folded (rowid, term, definition) VALUES (?, ?, ?)');
+  for (const [documentId, term, termEn, text, clause] of DEFINITIONS) {
+    const id = Number(definition.run(documentId, term, termEn, text, 'dieu2', clause).lastInsertRowid);
+    fts.run(id, term, text);
+    folded.run(id, normalizeForMatch(term), normalizeForMatch(text));
+  }
+  return db;
+}
+
+describe('getDefinitions', () => {
+  const db = definitionsDb();
+
+  it('finds a term in every document, whole-term matches first', async () => {
+    const { results } = await getDefinitions(db, { term: 'không gian mạng' });
+    expect(results.map(r => [r.term, r.match])).toEqual([
+      ['Không gian mạng', 'exact'],
+      ['Không gian mạng quốc gia', 'partial'],
+    ]);
+    expect(results[0]).toMatchObject({ document_id: 'cybersecurity-law-2018', source_provision: 'dieu2', clause: '3' });
+    // Without diacritics, or by the English term
+    expect((await getDefinitions(db, { term: 'khong gian mang' })).results[0].term).toBe('Không gian mạng');
+    expect((await getDefinitions(db, { term: 'Cybersecurity' })).results.map(r => r.term)).toEqual(['An ninh mạng']);
+  });
+
+  it('lists the definitions of one document', async () => {
+    const { results } = await getDefinitions(db, { document_id: 'Luật An ninh mạng' });
+    expect(results.map(r => r.term)).toEqual(['An ninh mạng', 'Không gian mạng', 'Không gian mạng quốc gia']);
+    expect(results[0].match).toBeUndefined();
+    expect((await getDefinitions(db, { term: 'mạng', document_id: 'information-technology-law-2006' })).results
+      .map(r => r.term)).toEqual(['Môi trường mạng']);
+  });
+
+  it('notes a term it cannot find and a missing query', async () => {
+    const missing = await getDefinitions(db, { term: 'dữ liệu cá nhân' });
+    expect(missing.results).toEqual([]);
+    expect(missing._metadata).toHaveProperty('note', expect.stringMatching(/^No definition of "dữ liệu cá nhân" found/));
+    expect((await getDefinitions(db, { document_id: 'Luật Dữ liệu' }))._metadata)
+      .toHaveProperty('note', expect.stringMatching(/^No document found/));
+    expect((await getDefinitions(db, {}))._metadata).toHaveProperty('note', 'Provide a term, a document_id, or both');
+  });
+});
+
+describe('searchDefinitions', () => {
+  const db = definitionsDb();
+
+  it('ranks term matches before hits in the definition text', async () => {
+    const { results } = await searchDefinitions(db, { query: 'không gian mạng' });
+    expect(results.map(r => [r.term, r.matched_in])).toEqual([
+      ['Không gian mạng', 'term'],
+      ['Không gian mạng quốc gia', 'term'],
+      ['An ninh mạng', 'definition'],
+    ]);
+  });
+
+  it('searches one document, with or without diacritics', async () => {
+    const { results } = await searchDefinitions(db, { query: 'co so ha tang', document_id: 'information-technology-law-2006' });
+    expect(results.map(r => [r.document_id, r.term, r.matched_in])).toEqual([
+      ['information-technology-law-2006', 'Môi trường mạng', 'definition'],
+    ]);
+    expect((await searchDefinitions(db, { query: 'mạng', document_id: 'Luật Dữ liệu' }))._metadata)
+      .toHaveProperty('note', expect.stringMatching(/^No document found/));
+  });
+});
@@ -0,0 +1,96 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { getDocumentStructure } from '../../src/tools/get-document-structure.js';
+
+type Row = [ref: string, part: string | null, chapter: string | null, muc: string | null];
+
+function structureDb(rows: Row[]): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT);
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      part TEXT, chapter TEXT, muc TEXT, section TEXT NOT NULL, title TEXT
+    );
+  `);
+  db.prepare('INSERT INTO legal_documents VALUES (?, ?, NULL, NULL)').run('penal-code-2015', 'Bộ luật Hình sự 2015');
+  const insert = db.prepare(
+    'INSERT INTO legal_provisions (document_id, provision_ref, part, chapter, muc, section, title) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+  for (const [ref, part, chapter, muc] of rows) {
+    insert.run('penal-code-2015', ref, part, chapter, muc, ref.slice(4), `Điều ${ref.slice(4)}`);
+  }
+  return db;
+}
+
+const PART_ONE = 'Phần thứ nhất. NHỮNG QUY ĐỊNH CHUNG';
+const PART_TWO = 'Phần thứ hai. CÁC TỘI PHẠM';
+
+describe('getDocumentStructure', () => {
+  it('nests Mục under Chương under Phần in article order', async () => {
+    // Seed order, not article order
+    const db = structureDb([
+      ['dieu3', PART_ONE, 'Chương II. TỘI PHẠM', 'Mục 1. QUY ĐỊNH CHUNG'],
+      ['dieu1', PART_ONE, 'Chương I. ĐIỀU KHOẢN CƠ BẢN', null],
+      ['dieu4', PART_ONE, 'Chương II. TỘI PHẠM', 'Mục 2. CÁC TỘI KHÁC'],
+      ['dieu2', PART_ONE, 'Chương I. ĐIỀU KHOẢN CƠ BẢN', null],
+      ['dieu5', PART_TWO, 'Chương III. CÁC TỘI XÂM PHẠM AN NINH', null],
+    ]);
+    const structure = (await getDocumentStructure(db, { document_id: 'penal-code-2015', include_articles: false })).results!;
+
+    expect(structure.article_count).toBe(5);
+    const outline = (nodes: typeof structure.outline): unknown[] => nodes.map(node => ({
+      label: node.label,
+      count: node.article_count,
+      first: node.first_article,
+      last: node.last_article,
+      ...(node.children.length > 0 ? { children: outline(node.children) } : {}),
+    }));
+    expect(outline(structure.outline)).toEqual([
+      { label: 'Phần thứ nhất', count: 4, first: 'dieu1', last: 'dieu4', children: [
+        { label: 'Chương I', count: 2, first: 'dieu1', last: 'dieu2' },
+        { label: 'Chương II', count: 2, first: 'dieu3', last: 'dieu4', children: [
+          { label: 'Mục 1', count: 1, first: 'dieu3', last: 'dieu3' },
+          { label: 'Mục 2', count: 1, first: 'dieu4', last: 'dieu4' },
+        ] },
+      ] },
+      { label: 'Phần thứ hai', count: 1, first: 'dieu5', last: 'dieu5', children: [
+        { label: 'Chương III', count: 1, first: 'dieu5', last: 'dieu5' },
+      ] },
+    ]);
+    expect(structure.outline[0].name).toBe('NHỮNG QUY ĐỊNH CHUNG');
+    expect(structure.outline[0].articles).toBeUndefined();
+  });
+
+  it('lists articles under their innermost heading', async () => {
+    const db = structureDb([
+      ['dieu1', null, 'Chương I', null],
+      ['dieu2', null, 'Chương II. QUYỀN CON NGƯỜI', 'Mục 1. QUYỀN'],
+    ]);
+    const structure = (await getDocumentStructure(db, { document_id: 'Bộ luật Hình sự' })).results!;
+    expect(structure.outline[0].articles).toEqual([{ provision_ref: 'dieu1', section: '1', title: 'Điều 1' }]);
+    expect(structure.outline[1].articles).toBeUndefined();
+    expect(structure.outline[1].children[0].articles?.map(a => a.provision_ref)).toEqual(['dieu2']);
+  });
+
+  it('keeps articles before the first heading apart from unplaced ones', async () => {
+    const db = structureDb([
+      ['dieu1', null, null, null],
+      ['dieu2', null, 'Chương I', null],
+      ['dieu3', null, null, null],
+      ['dieu4', null, 'Chương I', null],
+      ['dieu5', null, 'Chương III', null],
+    ]);
+    const structure = (await getDocumentStructure(db, { document_id: 'penal-code-2015' })).results!;
+    expect(structure.articles?.map(a => a.provision_ref)).toEqual(['dieu1']);
+    expect(structure.unplaced?.map(a => a.provision_ref)).toEqual(['dieu3']);
+    // An unplaced article does not split the Chương around it
+    expect(structure.outline.map(node => [node.label, node.article_count])).toEqual([['Chương I', 2], ['Chương III', 1]]);
+  });
+
+  it('notes a document it cannot find', async () => {
+    const response = await getDocumentStructure(structureDb([]), { document_id: 'Luật Dữ liệu' });
+    expect(response.results).toBeNull();
+    expect(response._metadata).toHaveProperty('note', expect.stringMatching(/^No document found/));
+  });
+});
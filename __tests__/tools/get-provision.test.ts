@@ -0,0 +1,169 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { ALL_PROVISIONS_MAX_CHARS, getProvision, loadVersions, versionOn } from '../../src/tools/get-provision.js';
+import { decodeContinuationToken } from '../../src/utils/provision-chunks.js';
+
+/** An article of `sentences` short sentences, about 50 characters each */
+function articleText(n: number, sentences: number): string {
+  const body = Array.from({ length: sentences }, (_, i) => `Câu ${i + 1} của Điều ${n} quy định về an ninh mạng.`);
+  return `Điều ${n}. Quy định ${n} ${body.join(' ')}`;
+}
+
+function provisionsDb(articles: string[]): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, title_en TEXT, short_name TEXT, status TEXT NOT NULL,
+      issued_date TEXT, in_force_date TEXT, repealed_date TEXT, url TEXT
+    );
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      chapter TEXT, section TEXT NOT NULL, title TEXT, content TEXT NOT NULL
+    );
+  `);
+  db.prepare('INSERT INTO legal_documents VALUES (?, ?, NULL, NULL, ?, ?, ?, NULL, NULL)')
+    .run('cybersecurity-law-2018', 'Luật An ninh mạng 2018', 'in_force', '2018-06-12', '2019-01-01');
+  const insert = db.prepare(
+    'INSERT INTO legal_provisions (document_id, provision_ref, section, title, content) VALUES (?, ?, ?, ?, ?)'
+  );
+  articles.forEach((content, i) => insert.run('cybersecurity-law-2018', `dieu${i + 1}`, String(i + 1), `Quy định ${i + 1}`, content));
+  return db;
+}
+
+describe('getProvision continuation tokens', () => {
+  // Eight articles of two chunks each, well past ALL_PROVISIONS_MAX_CHARS together
+  const articles = Array.from({ length: 8 }, (_, i) => articleText(i + 1, 200));
+  const db = provisionsDb(articles);
+
+  /** Follow an article's continuation tokens to its last chunk */
+  async function walk(first: Awaited<ReturnType<typeof getProvision>>['results'][number]): Promise<string[]> {
+    const chunks = [first.content];
+    let token = first.continuation_token;
+    while (token) {
+      const [next] = (await getProvision(db, { document_id: '', continuation_token: token })).results;
+      expect(next.chunk_index).toBe(chunks.length);
+      chunks.push(next.content);
+      token = next.continuation_token;
+    }
+    return chunks;
+  }
+
+  it('returns a whole statute up to the cap and pages every article to its end', async () => {
+    expect(articles.join('').length).toBeGreaterThan(ALL_PROVISIONS_MAX_CHARS);
+    const response = await getProvision(db, { document_id: 'Luật An ninh mạng', as_of_date: '2020-01-01' });
+    const withText = response.results.filter(r => r.content !== '');
+    const withoutText = response.results.filter(r => r.content === '');
+    expect(withText.map(r => r.provision_ref)).toEqual(['dieu1', 'dieu2', 'dieu3', 'dieu4', 'dieu5', 'dieu6', 'dieu7']);
+    expect(withoutText.map(r => r.provision_ref)).toEqual(['dieu8']);
+    expect(withText.reduce((sum, r) => sum + r.content.length, 0)).toBeLessThanOrEqual(ALL_PROVISIONS_MAX_CHARS);
+    expect(response._metadata).toHaveProperty('note', expect.stringMatching(/^Text returned for 7 of 8 articles/));
+
+    for (const first of withText) {
+      expect(first).toMatchObject({ chunk_index: 0, chunk_count: 2 });
+      // Tokens keep the date the statute was read as of
+      expect(decodeContinuationToken(first.continuation_token!)).toMatchObject({ chunk: 1, as_of_date: '2020-01-01' });
+      const chunks = await walk(first);
+      expect(chunks.join(' ')).toBe(articles[Number(first.section) - 1]);
+    }
+
+    // An article left without text is fetched on its own and paged the same way
+    const [last] = (await getProvision(db, { document_id: 'cybersecurity-law-2018', provision_ref: 'dieu8' })).results;
+    expect(last.content_length).toBe(articles[7].length);
+    expect((await walk(last)).join(' ')).toBe(articles[7]);
+  });
+
+  it('notes a token past the last chunk or one it cannot read', async () => {
+    const [first] = (await getProvision(db, { document_id: 'cybersecurity-law-2018', provision_ref: 'dieu1' })).results;
+    const [second] = (await getProvision(db, { document_id: '', continuation_token: first.continuation_token })).results;
+    expect(second.continuation_token).toBeUndefined();
+
+    const past = Buffer.from(JSON.stringify({ ...decodeContinuationToken(first.continuation_token!), chunk: 2 })).toString('base64url');
+    expect((await getProvision(db, { document_id: '', continuation_token: past }))._metadata)
+      .toHaveProperty('note', 'Provision "dieu1" has only 2 chunk(s)');
+    expect((await getProvision(db, { document_id: '', continuation_token: 'not-a-token' }))._metadata)
+      .toHaveProperty('note', expect.stringMatching(/^Invalid continuation_token/));
+  });
+
+  it('returns nothing for a date before the statute was in force', async () => {
+    const response = await getProvision(db, { document_id: 'cybersecurity-law-2018', as_of_date: '2018-12-31' });
+    expect(response.results).toEqual([]);
+    expect(response._metadata).toHaveProperty('note', expect.stringMatching(/^"Luật An ninh mạng 2018" was not yet in force/));
+  });
+});
+
+const ARTICLE_2_2015 = 'Điều 2. Cơ sở của trách nhiệm hình sự\n1. Chỉ người nào phạm một tội đã được Bộ luật này quy định mới phải chịu trách nhiệm hình sự.';
+const ARTICLE_2_2017 = 'Điều 2. Cơ sở của trách nhiệm hình sự\n1. Chỉ người nào phạm một tội đã được Bộ luật Hình sự quy định mới phải chịu trách nhiệm hình sự.\n2. Chỉ pháp nhân thương mại nào phạm một tội đã được quy định tại Điều 76 của Bộ luật này mới phải chịu trách nhiệm hình sự.';
+
+/** Điều 2 with its 2015 and amended wordings, and an article added by the amendment */
+function versionsDb(): InstanceType<typeof Database> {
+  const db = provisionsDb([]);
+  db.exec(`
+    CREATE TABLE provision_versions (
+      id INTEGER PRIMARY KEY, provision_id INTEGER, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      version INTEGER NOT NULL, valid_from TEXT, valid_to TEXT, amending_instrument TEXT, content TEXT
+    );
+  `);
+  db.prepare('INSERT INTO legal_documents VALUES (?, ?, NULL, NULL, ?, ?, ?, NULL, NULL)')
+    .run('penal-code-2015', 'Bộ luật Hình sự 2015', 'amended', '2015-11-27', '2016-07-01');
+  const provision = db.prepare(
+    'INSERT INTO legal_provisions (document_id, provision_ref, section, title, content) VALUES (?, ?, ?, ?, ?)'
+  );
+  provision.run('penal-code-2015', 'dieu2', '2', 'Cơ sở của trách nhiệm hình sự', ARTICLE_2_2017);
+  provision.run('penal-code-2015', 'dieu2a', '2a', 'Điều khoản bổ sung', 'Điều 2a. Điều khoản bổ sung');
+  const version = db.prepare(
+    `INSERT INTO provision_versions (document_id, provision_ref, version, valid_from, valid_to, amending_instrument, content)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  version.run('penal-code-2015', 'dieu2', 1, '2016-07-01', '2018-01-01', null, ARTICLE_2_2015);
+  version.run('penal-code-2015', 'dieu2', 2, '2018-01-01', null, 'Luật số 12/2017/QH14', null);
+  version.run('penal-code-2015', 'dieu2a', 1, '2018-01-01', null, 'Luật số 12/2017/QH14', null);
+  return db;
+}
+
+describe('provision versions', () => {
+  const db = versionsDb();
+
+  it('loads wordings oldest first and picks the one in force on a date', () => {
+    const versions = loadVersions(db, 'penal-code-2015', 'dieu2');
+    expect(versions.map(v => [v.version, v.valid_from, v.valid_to])).toEqual([
+      [1, '2016-07-01', '2018-01-01'],
+      [2, '2018-01-01', null],
+    ]);
+    expect(versionOn(versions, '2016-07-01')?.version).toBe(1);
+    // valid_to is the first day of the next wording
+    expect(versionOn(versions, '2017-12-31')?.version).toBe(1);
+    expect(versionOn(versions, '2018-01-01')?.version).toBe(2);
+    expect(versionOn(versions, '2016-06-30')).toBeUndefined();
+    // Databases built before the table existed have no versions
+    expect(loadVersions(provisionsDb([]), 'penal-code-2015', 'dieu2')).toEqual([]);
+  });
+
+  it('returns the wording in force on as_of_date with every version listed', async () => {
+    const history = [
+      { version: 1, valid_from: '2016-07-01', valid_to: '2018-01-01', amending_instrument: null, current: false },
+      { version: 2, valid_from: '2018-01-01', valid_to: null, amending_instrument: 'Luật số 12/2017/QH14', current: true },
+    ];
+    const [before] = (await getProvision(db, { document_id: 'penal-code-2015', provision_ref: 'dieu2', as_of_date: '2017-06-01' })).results;
+    expect(before).toMatchObject({ content: ARTICLE_2_2015, content_length: ARTICLE_2_2015.length, version: 1, valid_to: '2018-01-01' });
+    expect(before.versions).toEqual(history);
+
+    const [current] = (await getProvision(db, { document_id: 'penal-code-2015', provision_ref: 'dieu2' })).results;
+    expect(current).toMatchObject({ content: ARTICLE_2_2017, version: 2, amending_instrument: 'Luật số 12/2017/QH14' });
+    expect(current.versions).toEqual(history);
+
+    // A clause of the earlier wording
+    expect((await getProvision(db, { document_id: 'penal-code-2015', provision_ref: 'dieu2.k2', as_of_date: '2017-06-01' }))._metadata)
+      .toHaveProperty('note', 'Segment "dieu2.k2" not found in document "penal-code-2015"');
+    expect((await getProvision(db, { document_id: 'penal-code-2015', provision_ref: 'dieu2.k2' })).results[0].content)
+      .toMatch(/^Chỉ pháp nhân thương mại/);
+  });
+
+  it('leaves out articles with no wording in force on the date', async () => {
+    const response = await getProvision(db, { document_id: 'penal-code-2015', provision_ref: 'dieu2a', as_of_date: '2017-06-01' });
+    expect(response.results).toEqual([]);
+    expect(response._metadata).toHaveProperty('note', 'Provision "dieu2a" had no wording in force on 2017-06-01');
+
+    const statute = (await getProvision(db, { document_id: 'penal-code-2015', as_of_date: '2017-06-01' })).results;
+    expect(statute.map(r => [r.provision_ref, r.version, r.content])).toEqual([['dieu2', 1, ARTICLE_2_2015]]);
+  });
+});
@@ -0,0 +1,176 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { getUpcomingChanges, MAX_WINDOW_DAYS } from '../../src/tools/get-upcoming-changes.js';
+
+function documentsDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, in_force_date TEXT, repealed_date TEXT
+    )
+  `);
+  db.prepare('INSERT INTO legal_documents VALUES (?, ?, ?, ?)')
+    .run('data-law-2024', 'Luật Dữ liệu 2024', '2025-07-01', null);
+  return db;
+}
+
+describe('getUpcomingChanges', () => {
+  const db = documentsDb();
+
+  it('rejects a days window that is not a whole number in range', async () => {
+    for (const days of [0, -5, 2.5, Number.NaN, MAX_WINDOW_DAYS + 1, 1e9]) {
+      const response = await getUpcomingChanges(db, { from_date: '2025-06-01', days });
+      expect(response.results).toBeNull();
+      expect(response._metadata).toHaveProperty('note', expect.stringMatching(/^Invalid days/));
+    }
+  });
+
+  it('rejects dates it cannot read', async () => {
+    expect((await getUpcomingChanges(db, { from_date: '31/02/2025' }))._metadata)
+      .toHaveProperty('note', expect.stringMatching(/^Invalid from_date "31\/02\/2025" — use a date \(YYYY-MM-DD; DD\/MM\/YYYY/));
+    expect((await getUpcomingChanges(db, { from_date: '2025-06-01', to_date: 'next month' }))._metadata)
+      .toHaveProperty('note', expect.stringMatching(/^Invalid to_date "next month"/));
+  });
+
+  it('lists changes inside a valid window', async () => {
+    const response = await getUpcomingChanges(db, { from_date: '2025-06-01', days: 30 });
+    expect(response.results).toMatchObject({ from_date: '2025-06-01', to_date: '2025-07-01', total: 1 });
+    expect(response.results?.changes[0]).toMatchObject({ document_id: 'data-law-2024', kind: 'in_force' });
+
+    const shorter = await getUpcomingChanges(db, { from_date: '2025-06-01', days: 29 });
+    expect(shorter.results?.total).toBe(0);
+  });
+});
+
+/** The Telecommunications Law 2009 giving way to its 2023 successor, with article changes around it */
+function changesDb(): InstanceType<typeof Database> {
+  const db = documentsDb();
+  db.exec(`
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      repealed INTEGER NOT NULL DEFAULT 0, repealed_date TEXT, repealing_instrument TEXT
+    );
+    CREATE TABLE provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, version INTEGER NOT NULL,
+      valid_from TEXT, amending_instrument TEXT
+    );
+    CREATE TABLE document_replacements (
+      id INTEGER PRIMARY KEY, successor_id TEXT NOT NULL, successor_number TEXT, successor_title TEXT NOT NULL,
+      predecessor_id TEXT, effective_date TEXT
+    );
+  `);
+  const document = db.prepare('INSERT INTO legal_documents VALUES (?, ?, ?, ?)');
+  document.run('telecommunications-law-2009', 'Luật Viễn thông 2009', '2010-07-01', '2024-07-01');
+  document.run('telecommunications-law-2023', 'Luật Viễn thông 2023', '2024-07-01', null);
+  document.run('cybersecurity-law-2018', 'Luật An ninh mạng 2018', '2019-01-01', null);
+
+  db.prepare(
+    `INSERT INTO document_replacements (successor_id, successor_number, successor_title, predecessor_id, effective_date)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run('telecommunications-law-2023', '24/2023/QH15', 'Luật Viễn thông 2023', 'telecommunications-law-2009', '2024-07-01');
+  db.prepare(
+    'INSERT INTO legal_provisions (document_id, provision_ref, repealed, repealed_date, repealing_instrument) VALUES (?, ?, 1, ?, ?)'
+  ).run('telecommunications-law-2009', 'dieu20', '2024-06-15', 'Luật số 71/2014/QH13');
+  const version = db.prepare(
+    'INSERT INTO provision_versions (document_id, provision_ref, version, valid_from, amending_instrument) VALUES (?, ?, ?, ?, ?)'
+  );
+  version.run('cybersecurity-law-2018', 'dieu10', 1, '2019-01-01', null);
+  version.run('cybersecurity-law-2018', 'dieu10', 2, '2024-07-01', 'Luật số 20/2024/QH15');
+  version.run('cybersecurity-law-2018', 'dieu9', 2, '2024-07-01', 'Luật số 20/2024/QH15');
+  return db;
+}
+
+describe('getUpcomingChanges events', () => {
+  const db = changesDb();
+  const changes = async (input: Parameters<typeof getUpcomingChanges>[1]) =>
+    (await getUpcomingChanges(db, input)).results?.changes ?? [];
+
+  it('lists every kind of change in date order', async () => {
+    const events = await changes({ from_date: '2024-06-01', to_date: '2024-07-31' });
+    expect(events.map(e => [e.date, e.kind, e.scope, e.document_id, e.provision_ref])).toEqual([
+      ['2024-06-15', 'repealed', 'provision', 'telecommunications-law-2009', 'dieu20'],
+      // Same day: by document, then statute changes before article ones, articles by number
+      ['2024-07-01', 'amended', 'provision', 'cybersecurity-law-2018', 'dieu9'],
+      ['2024-07-01', 'amended', 'provision', 'cybersecurity-law-2018', 'dieu10'],
+      ['2024-07-01', 'replaced', 'document', 'telecommunications-law-2009', undefined],
+      ['2024-07-01', 'in_force', 'document', 'telecommunications-law-2023', undefined],
+    ]);
+    expect(events[2]).toMatchObject({
+      from_status: 'in_force',
+      to_status: 'amended',
+      instrument: 'Luật số 20/2024/QH15',
+      description: 'dieu10 of Luật An ninh mạng 2018 takes a new wording (Luật số 20/2024/QH15)',
+    });
+  });
+
+  it('reports a repeal on the day a successor takes over as one replacement', async () => {
+    const events = await changes({ from_date: '2024-07-01', to_date: '2024-07-01', document_id: 'telecommunications-law-2009' });
+    expect(events).toEqual([{
+      date: '2024-07-01',
+      kind: 'replaced',
+      scope: 'document',
+      document_id: 'telecommunications-law-2009',
+      document_title: 'Luật Viễn thông 2009',
+      from_status: 'in_force',
+      to_status: 'replaced',
+      instrument: '24/2023/QH15',
+      description: 'Luật Viễn thông 2009 is replaced by Luật Viễn thông 2023 (24/2023/QH15)',
+    }]);
+  });
+
+  it('includes both ends of the window and nothing outside it', async () => {
+    expect((await changes({ from_date: '2024-06-15', to_date: '2024-06-15' })).map(e => e.provision_ref)).toEqual(['dieu20']);
+    expect(await changes({ from_date: '2024-06-16', to_date: '2024-06-30' })).toEqual([]);
+    expect((await changes({ from_date: '01/07/2024', days: 1 })).map(e => e.date))
+      .toEqual(['2024-07-01', '2024-07-01', '2024-07-01', '2024-07-01']);
+    // The original wording of an article is not an amendment
+    expect(await changes({ from_date: '2019-01-01', to_date: '2019-01-01', document_id: 'cybersecurity-law-2018' }))
+      .toMatchObject([{ kind: 'in_force', scope: 'document' }]);
+  });
+
+  it('exports the same events as iCalendar', async () => {
+    const { results } = await getUpcomingChanges(db, { from_date: '2024-07-01', days: 1, document_id: 'telecommunications-law-2009', format: 'ics' });
+    // Unfold the long lines
+    const ics = (results?.ics ?? '').replace(/\r\n /g, '');
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain('UID:replaced-telecommunications-law-2009-2024-07-01@vietnamese-law-mcp');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240701');
+    expect(ics).toContain('SUMMARY:Luật Viễn thông 2009 is replaced by Luật Viễn thông 2023 (24/2023/QH15)');
+    expect(ics).toContain('DESCRIPTION:in_force → replaced\\nInstrument: 24/2023/QH15');
+    expect((await getUpcomingChanges(db, { from_date: '2024-07-01' })).results?.ics).toBeUndefined();
+  });
+});
+
+describe('getUpcomingChanges per-article effective dates', () => {
+  const db = changesDb();
+  db.exec(`
+    CREATE TABLE provision_effective_dates (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, segment_ref TEXT,
+      kind TEXT NOT NULL, date TEXT
+    )
+  `);
+  const effective = db.prepare('INSERT INTO provision_effective_dates (document_id, provision_ref, segment_ref, kind, date) VALUES (?, ?, ?, ?, ?)');
+  effective.run('data-law-2024', 'dieu46', null, 'in_force', '2025-07-01');
+  effective.run('data-law-2024', 'dieu10', 'dieu10.k3', 'in_force', '2026-01-01');
+  effective.run('data-law-2024', 'dieu5', null, 'in_force', '2026-01-01');
+  effective.run('data-law-2024', 'dieu45', null, 'transitional', '2026-12-31');
+
+  it('lists articles and clauses starting after their statute and transitional periods ending', async () => {
+    const { results } = await getUpcomingChanges(db, { from_date: '2025-07-01', to_date: '2026-12-31', document_id: 'data-law-2024' });
+    expect(results?.changes.map(c => [c.date, c.kind, c.scope, c.provision_ref, c.segment_ref, c.description])).toEqual([
+      // dieu46 starts with the statute and is not listed again
+      ['2025-07-01', 'in_force', 'document', undefined, undefined, 'Luật Dữ liệu 2024 enters into force'],
+      ['2026-01-01', 'in_force', 'provision', 'dieu5', undefined, 'dieu5 of Luật Dữ liệu 2024 enters into force'],
+      ['2026-01-01', 'in_force', 'provision', 'dieu10', 'dieu10.k3', 'dieu10.k3 of Luật Dữ liệu 2024 enters into force'],
+      ['2026-12-31', 'transition_ends', 'provision', 'dieu45', undefined, 'The transitional period of dieu45 of Luật Dữ liệu 2024 ends'],
+    ]);
+    expect(results?.changes[3]).toMatchObject({ from_status: 'transitional', to_status: 'expired' });
+  });
+
+  it('gives each clause its own calendar event', async () => {
+    const { results } = await getUpcomingChanges(db, { from_date: '2026-01-01', days: 1, format: 'ics' });
+    expect(results?.ics).toContain('UID:in_force-data-law-2024-dieu5-2026-01-01@vietnamese-law-mcp');
+    expect(results?.ics).toContain('UID:in_force-data-law-2024-dieu10.k3-2026-01-01@vietnamese-law-mcp');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { extractCitations } from '../../src/utils/citation-extractor.js';
+
+const pins = (text: string) =>
+  extractCitations(text).map(({ article, clause, point, documentRef, relativeDocument }) =>
+    ({ article, clause, point, documentRef, relativeDocument }));
+
+describe('extractCitations', () => {
+  it('finds a pinpoint with its document and offsets', () => {
+    const text = 'Theo điểm a khoản 1 Điều 17 Luật Doanh nghiệp, doanh nghiệp phải';
+    const [citation] = extractCitations(text);
+    expect(citation).toMatchObject({
+      text: 'điểm a khoản 1 Điều 17 Luật Doanh nghiệp',
+      article: '17',
+      clause: '1',
+      point: 'a',
+      documentRef: 'Luật Doanh nghiệp',
+    });
+    expect(text.slice(citation.start, citation.end)).toBe(citation.text);
+  });
+
+  it('marks "Luật này" as the containing document', () => {
+    expect(pins('quy định tại Điều 26 của Luật này')).toEqual([
+      { article: '26', relativeDocument: true },
+    ]);
+  });
+
+  it('expands an article enumeration and carries the document to every item', () => {
+    const found = extractCitations('theo quy định tại các Điều 170, 171 và 173 của Bộ luật này.');
+    expect(found.map(c => c.article)).toEqual(['170', '171', '173']);
+    expect(found.every(c => c.relativeDocument && c.text === 'các Điều 170, 171 và 173 của Bộ luật này')).toBe(true);
+  });
+
+  it('expands repeated article keywords', () => {
+    expect(pins('Điều 5, Điều 6 và Điều 7 của Luật An ninh mạng').map(c => [c.article, c.documentRef])).toEqual([
+      ['5', 'Luật An ninh mạng'],
+      ['6', 'Luật An ninh mạng'],
+      ['7', 'Luật An ninh mạng'],
+    ]);
+  });
+
+  it('expands clause enumerations', () => {
+    expect(pins('khoản 1, khoản 2 Điều 9 của Luật này').map(c => [c.article, c.clause, c.relativeDocument])).toEqual([
+      ['9', '1', true],
+      ['9', '2', true],
+    ]);
+    expect(pins('khoản 1, 2 và 3 Điều 12').map(c => c.clause)).toEqual(['1', '2', '3']);
+  });
+
+  it('expands point enumerations and keeps đ', () => {
+    expect(pins('điểm a, b và đ khoản 1 Điều 9').map(c => [c.clause, c.point])).toEqual([
+      ['1', 'a'],
+      ['1', 'b'],
+      ['1', 'đ'],
+    ]);
+  });
+
+  it('does not read a following count as an article', () => {
+    expect(pins('trong thời hạn quy định tại Điều 5, 10 ngày').map(c => c.article)).toEqual(['5']);
+  });
+
+  it('keeps the full name of an amending law', () => {
+    const [citation] = extractCitations('Điều 3 Luật sửa đổi, bổ sung một số điều của Bộ luật Hình sự số 12/2017/QH14');
+    expect(citation.documentRef).toBe('Luật sửa đổi, bổ sung một số điều của Bộ luật Hình sự số 12/2017/QH14');
+  });
+
+  it('finds numbered documents with and without a pinpoint', () => {
+    expect(pins('Nghị định số 13/2023/NĐ-CP về bảo vệ dữ liệu')).toEqual([
+      { documentRef: 'Nghị định số 13/2023/NĐ-CP' },
+    ]);
+    expect(extractCitations('Under Decree No. 13/2023/ND-CP personal data')[0]).toMatchObject({
+      text: 'Decree No. 13/2023/ND-CP',
+      documentRef: 'Decree No. 13/2023/ND-CP',
+    });
+    expect(pins('Luật số 24/2018/QH14').map(c => c.documentRef)).toEqual(['Luật số 24/2018/QH14']);
+  });
+
+  it('reads English pinpoints and enumerations', () => {
+    expect(pins('Article 26(2)(a) of the Cybersecurity Law 2018')).toEqual([
+      { article: '26', clause: '2', point: 'a', documentRef: 'Cybersecurity Law 2018' },
+    ]);
+    expect(pins('Articles 5, 6 and 9 of the Cybersecurity Law 2018').map(c => c.article)).toEqual(['5', '6', '9']);
+  });
+
+  it('ignores lowercase uses of "luật"', () => {
+    expect(extractCitations('tuân thủ pháp luật về an ninh mạng')).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  articleProvisionRef,
+  cleanDocumentRef,
+  formatEnglishPinpoint,
+  formatVietnamesePinpoint,
+  parseCitation,
+} from '../../src/utils/citation-parser.js';
+
+describe('parseCitation', () => {
+  it('reads a Vietnamese pinpoint followed by the document', () => {
+    expect(parseCitation('điểm a khoản 1 Điều 17 Luật Doanh nghiệp')).toEqual({
+      article: '17',
+      clause: '1',
+      point: 'a',
+      documentRef: 'Luật Doanh nghiệp',
+    });
+  });
+
+  it('accepts text without diacritics', () => {
+    expect(parseCitation('khoan 2 dieu 8 Nghi dinh 13/2023/ND-CP')).toEqual({
+      article: '8',
+      clause: '2',
+      documentRef: 'Nghi dinh 13/2023/ND-CP',
+    });
+  });
+
+  it('keeps the point letter đ', () => {
+    expect(parseCitation('điểm đ khoản 1 Điều 8')).toMatchObject({ point: 'đ', clause: '1', article: '8' });
+  });
+
+  it('reads the English parenthesised form', () => {
+    expect(parseCitation('Article 26(2)(a) of the Cybersecurity Law 2018')).toEqual({
+      article: '26',
+      clause: '2',
+      point: 'a',
+      documentRef: 'Cybersecurity Law 2018',
+    });
+  });
+
+  it('reads a pinpoint written after the document', () => {
+    expect(parseCitation('Luật An ninh mạng 2018, Điều 26')).toEqual({
+      article: '26',
+      documentRef: 'Luật An ninh mạng 2018',
+    });
+  });
+
+  it('treats text without a pinpoint as a document reference', () => {
+    expect(parseCitation('Luật Giao dịch điện tử')).toEqual({ documentRef: 'Luật Giao dịch điện tử' });
+  });
+
+  it('returns null for empty input', () => {
+    expect(parseCitation('   ')).toBeNull();
+  });
+});
+
+describe('pinpoint formatting', () => {
+  const parsed = { article: '17', clause: '1', point: 'a' };
+
+  it('renders Vietnamese order', () => {
+    expect(formatVietnamesePinpoint(parsed)).toBe('điểm a khoản 1 Điều 17');
+  });
+
+  it('renders English order', () => {
+    expect(formatEnglishPinpoint(parsed)).toBe('Article 17(1)(a)');
+    expect(formatEnglishPinpoint({ clause: '1' })).toBe('');
+  });
+
+  it('builds provision refs', () => {
+    expect(articleProvisionRef('26')).toBe('dieu26');
+  });
+});
+
+describe('cleanDocumentRef', () => {
+  it('strips connectives and punctuation', () => {
+    expect(cleanDocumentRef(' của Luật này.')).toBe('Luật này');
+    expect(cleanDocumentRef('of the Enterprise Law,')).toBe('Enterprise Law');
+  });
+});
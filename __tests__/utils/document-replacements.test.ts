@@ -0,0 +1,82 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { describeSuccessors, findReplacedLaw, replacedBy, successorsOn } from '../../src/utils/document-replacements.js';
+import { statusAsOf } from '../../src/utils/as-of-date.js';
+
+function replacementsDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE document_replacements (
+      id INTEGER PRIMARY KEY, successor_id TEXT NOT NULL, successor_number TEXT, successor_title TEXT NOT NULL,
+      predecessor_id TEXT, predecessor_number TEXT NOT NULL, predecessor_number_normalized TEXT NOT NULL,
+      predecessor_title TEXT, effective_date TEXT, source TEXT NOT NULL, source_provision TEXT, context TEXT
+    )
+  `);
+  const insert = db.prepare(`
+    INSERT INTO document_replacements (successor_id, successor_number, successor_title, predecessor_id,
+      predecessor_number, predecessor_number_normalized, predecessor_title, effective_date, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  insert.run('e-transactions-law-2023', '20/2023/QH15', 'Luật Giao dịch điện tử 2023', null,
+    '51/2005/QH11', '51/2005/QH11', 'Luật Giao dịch điện tử 2005', '2024-07-01', 'census');
+  insert.run('telecommunications-law-2023', '24/2023/QH15', 'Luật Viễn thông 2023', 'telecommunications-law-2009',
+    '41/2009/QH12', '41/2009/QH12', 'Luật Viễn thông 2009', '2024-07-01', 'census');
+  return db;
+}
+
+describe('findReplacedLaw', () => {
+  const db = replacementsDb();
+
+  it('finds a law missing from the database by its number', () => {
+    const law = findReplacedLaw(db, 'Luật số 51/2005/QH11');
+    expect(law).toMatchObject({ official_number: '51/2005/QH11', title: 'Luật Giao dịch điện tử 2005' });
+    expect(law?.replaced_by.map(s => s.document_id)).toEqual(['e-transactions-law-2023']);
+  });
+
+  it('finds it by title, with or without diacritics and "năm"', () => {
+    expect(findReplacedLaw(db, 'Luật Giao dịch điện tử năm 2005')?.official_number).toBe('51/2005/QH11');
+    expect(findReplacedLaw(db, 'luat giao dich dien tu 2005')?.official_number).toBe('51/2005/QH11');
+  });
+
+  it('returns null for unknown laws', () => {
+    expect(findReplacedLaw(db, '99/2010/QH12')).toBeNull();
+    expect(findReplacedLaw(db, 'Luật Đất đai')).toBeNull();
+  });
+
+  it('returns null on databases without the table', () => {
+    expect(findReplacedLaw(new Database(':memory:'), '51/2005/QH11')).toBeNull();
+  });
+});
+
+describe('replacedBy', () => {
+  it('finds successors by id or number', () => {
+    const db = replacementsDb();
+    expect(replacedBy(db, 'telecommunications-law-2009').map(s => s.official_number)).toEqual(['24/2023/QH15']);
+    expect(replacedBy(db, 'unknown', '51/2005/QH11').map(s => s.document_id)).toEqual(['e-transactions-law-2023']);
+  });
+});
+
+describe('successorsOn', () => {
+  it('splits successors by date and names them', () => {
+    const [successor] = replacedBy(replacementsDb(), 'telecommunications-law-2009');
+    expect(successorsOn([successor], '2024-06-30')).toEqual({ current: [], upcoming: [successor] });
+    expect(successorsOn([successor], '2024-07-01').current).toEqual([successor]);
+    expect(describeSuccessors([successor])).toBe(
+      'replaced by Luật Viễn thông 2023 (24/2023/QH15) with effect from 2024-07-01',
+    );
+  });
+});
+
+describe('statusAsOf', () => {
+  const replaced = { status: 'repealed', issued_date: '2009-11-23', in_force_date: '2010-07-01', repealed_date: '2024-07-01' };
+
+  it('follows the in-force and repeal dates', () => {
+    expect(statusAsOf(replaced, '2010-01-01')).toBe('not_yet_in_force');
+    expect(statusAsOf(replaced, '2020-01-01')).toBe('in_force');
+    expect(statusAsOf(replaced, '2025-01-01')).toBe('repealed');
+  });
+
+  it('treats a repeal without a date as repealed once in force', () => {
+    expect(statusAsOf({ ...replaced, repealed_date: null }, '2020-01-01')).toBe('repealed');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adjacentChapter,
+  findHeadings,
+  headingLevel,
+  headingNumber,
+  headingsInText,
+  normalizeHeading,
+  splitHeading,
+  vietnameseLabel,
+} from '../../src/utils/document-structure.js';
+
+describe('normalizeHeading', () => {
+  it('normalises labels and names', () => {
+    expect(normalizeHeading('CHƯƠNG III')).toBe('CHƯƠNG III');
+    expect(normalizeHeading('Chương  II.  QUYỀN CON NGƯỜI')).toBe('Chương II. QUYỀN CON NGƯỜI');
+    expect(normalizeHeading('Mục 2: CÁC TỘI PHẠM THAM NHŨNG')).toBe('Mục 2. CÁC TỘI PHẠM THAM NHŨNG');
+  });
+
+  it('rejects running text when an uppercase name is required', () => {
+    expect(normalizeHeading('Chương XIII của Bộ luật này', true)).toBeNull();
+    expect(normalizeHeading('Điều 5')).toBeNull();
+  });
+});
+
+describe('splitHeading', () => {
+  it('splits label and name', () => {
+    expect(splitHeading('Chương II. QUYỀN CON NGƯỜI')).toEqual({ label: 'Chương II', name: 'QUYỀN CON NGƯỜI' });
+    expect(splitHeading('Mục 1')).toEqual({ label: 'Mục 1' });
+    expect(headingLevel('Phần thứ hai')).toBe('part');
+  });
+});
+
+describe('adjacentChapter', () => {
+  it('steps Roman chapter labels', () => {
+    expect(adjacentChapter('Chương IX. HÌNH PHẠT', 1)).toBe('Chương X');
+    expect(adjacentChapter('Chương XIV', -1)).toBe('Chương XIII');
+    expect(adjacentChapter('Chương I', -1)).toBeUndefined();
+  });
+});
+
+describe('headingsInText', () => {
+  it('finds headings run into the end of an article', () => {
+    expect(headingsInText('phạt tù.ChươngVIIIQUYẾT ĐỊNH HÌNH PHẠT Mục 1. QUY ĐỊNH CHUNGĐiều 50')).toEqual([
+      'Chương VIII. QUYẾT ĐỊNH HÌNH PHẠT',
+      'Mục 1. QUY ĐỊNH CHUNG',
+    ]);
+  });
+
+  it('joins spaced numerals', () => {
+    expect(headingsInText('tội phạm.Chương I I HIỆU LỰC CỦA BỘ LUẬT HÌNH SỰĐiều 5')).toEqual([
+      'Chương II. HIỆU LỰC CỦA BỘ LUẬT HÌNH SỰ',
+    ]);
+  });
+
+  it('gives back a name letter glued to the numeral', () => {
+    expect(headingsInText('Chương IXTHỜI HIỆU Điều 60. Chương XXÓA ÁN TÍCHĐiều 69', 'Chương VIII')).toEqual([
+      'Chương IX. THỜI HIỆU',
+      'Chương X. XÓA ÁN TÍCH',
+    ]);
+    // Chương V is missing from the text, and no name starts with I
+    expect(headingsInText('Chương VITRÁCH NHIỆMĐiều 36', 'Chương IV')).toEqual(['Chương VI. TRÁCH NHIỆM']);
+  });
+
+  it('ignores references to chapters', () => {
+    expect(headingsInText('các tội quy định tại Chương XI I I và Chương XXVI của Bộ luật này')).toEqual([]);
+    expect(headingsInText('theo quy định khác của Phần thứ nhất của Bộ luật này')).toEqual([]);
+  });
+
+  it('reads Part ordinals and English headings', () => {
+    expect(headingsInText('15 năm.Phần thứbaĐIỀU KHOẢN THI HÀNHĐiều 426.Hiệu lực')).toEqual([
+      'Phần thứ ba. ĐIỀU KHOẢN THI HÀNH',
+    ]);
+    expect(headingsInText('Criminal Code.PartOneGENERAL PROVISIONSChapterIBASIC CLAUSESArticle1. Objectives')).toEqual([
+      'Part One. GENERAL PROVISIONS',
+      'Chapter I. BASIC CLAUSES',
+    ]);
+    expect(headingsInText('funded by theState.Section 3. INTERNATIONAL COOPERATIONArticle 65.')).toEqual([
+      'Section 3. INTERNATIONAL COOPERATION',
+    ]);
+    // English names can start with I
+    expect(headingsInText('protection measures.ChapterVIIIMPLEMENTATION CLAUSES', 'Chương VI')).toEqual([
+      'Chapter VII. IMPLEMENTATION CLAUSES',
+    ]);
+    expect(headingsInText('CHAPTER II. PARTIES AND OTHERS Article 5')).toEqual(['CHAPTER II. PARTIES AND OTHERS']);
+  });
+
+  it('keeps a heading whose name the page cut off', () => {
+    expect(findHeadings("the Government'sregulations.Chapter III.........Hãy đăng nhập")).toEqual([
+      { heading: 'Chapter III', index: 28 },
+    ]);
+  });
+});
+
+describe('heading numbers', () => {
+  it('reads Roman numerals, digits and ordinals', () => {
+    expect(headingNumber('Chương XIV. CÁC TỘI')).toBe(14);
+    expect(headingNumber('Mục 3')).toBe(3);
+    expect(headingNumber('Phần thứ hai')).toBe(2);
+    expect(headingNumber('Part Three')).toBe(3);
+  });
+
+  it('gives translated headings their Vietnamese label', () => {
+    expect(vietnameseLabel('Chapter II. GENERAL PROVISIONS')).toBe('Chương II');
+    expect(vietnameseLabel('Section 1')).toBe('Mục 1');
+    expect(vietnameseLabel('Part One')).toBe('Phần thứ nhất');
+    expect(vietnameseLabel('CHƯƠNG III')).toBe('Chương III');
+  });
+});
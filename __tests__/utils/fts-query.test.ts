@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildFtsQueryVariants, sanitizeFtsInput, segmentTerms } from '../../src/utils/fts-query.js';
+
+describe('sanitizeFtsInput', () => {
+  it('keeps only bare-word characters', () => {
+    expect(sanitizeFtsInput('"dữ liệu" cá* (nhân)')).toBe('dữ liệu cá nhân');
+    expect(sanitizeFtsInput('Luật số 24/2018/QH14')).toBe('Luật số 24 2018 QH14');
+    expect(sanitizeFtsInput('an-ninh mạng.')).toBe('an ninh mạng');
+  });
+
+  it('drops upper-case operators but keeps the words in lower case', () => {
+    expect(sanitizeFtsInput('an ninh NOT mạng')).toBe('an ninh mạng');
+    expect(sanitizeFtsInput('privacy OR data NEAR protection')).toBe('privacy data protection');
+    expect(sanitizeFtsInput('terms and conditions or not')).toBe('terms and conditions or not');
+  });
+
+  it('returns an empty string for operators only', () => {
+    expect(sanitizeFtsInput(' AND * ')).toBe('');
+  });
+});
+
+describe('segmentTerms', () => {
+  it('groups lexicon words longest first, with or without diacritics', () => {
+    expect(segmentTerms(['mới', 'dữ', 'liệu', 'cá', 'nhân'])).toEqual(['mới', 'dữ liệu cá nhân']);
+    expect(segmentTerms(['du', 'lieu', 'ca', 'nhan'], 2)).toEqual(['du lieu', 'ca nhan']);
+  });
+
+  it('leaves terms outside the lexicon alone', () => {
+    expect(segmentTerms(['xyz', 'abc'])).toEqual(['xyz', 'abc']);
+  });
+});
+
+describe('buildFtsQueryVariants', () => {
+  it('runs from phrase to words to terms to prefix', () => {
+    expect(buildFtsQueryVariants('dữ liệu cá nhân')).toEqual([
+      '"dữ liệu cá nhân"',
+      '"dữ liệu" AND "cá nhân"',
+      'dữ AND liệu AND cá AND nhân',
+      'dữ AND liệu AND cá AND nhân*',
+    ]);
+  });
+
+  it('gives a single term a prefix variant', () => {
+    expect(buildFtsQueryVariants('privacy')).toEqual(['privacy', 'privacy*']);
+    expect(buildFtsQueryVariants('  ')).toEqual([]);
+  });
+});
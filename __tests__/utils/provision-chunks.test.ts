@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CHUNK_CHARS,
+  MAX_CHUNK_CHARS,
+  MIN_CHUNK_CHARS,
+  chunkSize,
+  chunkText,
+  decodeContinuationToken,
+  encodeContinuationToken,
+} from '../../src/utils/provision-chunks.js';
+
+describe('chunkSize', () => {
+  it('defaults and clamps the requested size', () => {
+    expect(chunkSize()).toBe(DEFAULT_CHUNK_CHARS);
+    expect(chunkSize(Number.NaN)).toBe(DEFAULT_CHUNK_CHARS);
+    expect(chunkSize(10)).toBe(MIN_CHUNK_CHARS);
+    expect(chunkSize(1e9)).toBe(MAX_CHUNK_CHARS);
+    expect(chunkSize(2500.7)).toBe(2500);
+  });
+});
+
+describe('chunkText', () => {
+  const clause = (n: number) => `${n}. ${'Người nào vi phạm quy định về an ninh mạng thì bị xử lý. '.repeat(6)}`;
+  const article = Array.from({ length: 12 }, (_, i) => clause(i + 1)).join(' ');
+
+  it('returns short text whole', () => {
+    expect(chunkText('Điều 1. Phạm vi điều chỉnh', 1000)).toEqual(['Điều 1. Phạm vi điều chỉnh']);
+  });
+
+  it('cuts at sentence boundaries and loses no text', () => {
+    const chunks = chunkText(article, 1000);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.length <= 1000)).toBe(true);
+    expect(chunks.slice(0, -1).every(c => c.endsWith('.'))).toBe(true);
+    expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(article.trim().replace(/\s+/g, ' '));
+  });
+});
+
+describe('continuation tokens', () => {
+  it('round-trip and reject malformed input', () => {
+    const token = { document_id: 'penal-code-2015', provision_ref: 'dieu51', chunk: 1, max_chars: 8000 };
+    expect(decodeContinuationToken(encodeContinuationToken(token))).toEqual(token);
+    expect(decodeContinuationToken('not a token')).toBeNull();
+    expect(decodeContinuationToken(Buffer.from('{"chunk":1}').toString('base64url'))).toBeNull();
+  });
+});
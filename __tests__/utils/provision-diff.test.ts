@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { diffProvisionText, diffWords, formatUnifiedDiff } from '../../src/utils/provision-diff.js';
+
+describe('diffWords', () => {
+  it('diffs words and ignores whitespace', () => {
+    expect(diffWords('Phạt tiền từ  10 triệu đồng', 'Phạt tiền từ 20 triệu\nđồng')).toEqual([
+      { op: 'equal', text: 'Phạt tiền từ' },
+      { op: 'delete', text: '10' },
+      { op: 'insert', text: '20' },
+      { op: 'equal', text: 'triệu đồng' },
+    ]);
+  });
+
+  it('treats punctuation as tokens of its own', () => {
+    expect(diffWords('tổ chức, cá nhân', 'tổ chức; cá nhân')).toEqual([
+      { op: 'equal', text: 'tổ chức' },
+      { op: 'delete', text: ',' },
+      { op: 'insert', text: ';' },
+      { op: 'equal', text: 'cá nhân' },
+    ]);
+  });
+
+  it('keeps numbers with separators whole', () => {
+    expect(diffWords('Luật số 24/2018/QH14 (sửa đổi).', 'Luật số 24/2018/QH14 (sửa đổi).')).toEqual([
+      { op: 'equal', text: 'Luật số 24/2018/QH14 (sửa đổi).' },
+    ]);
+  });
+});
+
+describe('diffProvisionText', () => {
+  const before = 'Điều 6. Bảo vệ 1. Nhà nước bảo vệ an ninh mạng. 2. Tổ chức, cá nhân phối hợp.';
+
+  it('pairs clauses by number and counts changed words', () => {
+    const diff = diffProvisionText('dieu6', before, 'Điều 6. Bảo vệ 1. Nhà nước bảo vệ an ninh mạng. 2. Tổ chức phối hợp. 3. Mới.');
+    expect(diff.clauses.map(c => [c.segment_ref, c.status])).toEqual([
+      ['dieu6', 'unchanged'],
+      ['dieu6.k1', 'unchanged'],
+      ['dieu6.k2', 'modified'],
+      ['dieu6.k3', 'added'],
+    ]);
+    expect(diff.summary).toMatchObject({ modified: 1, added: 1, words_deleted: 2, words_inserted: 1 });
+    expect(diff.identical).toBe(false);
+  });
+
+  it('splits out a clause numbered past a repealed one', () => {
+    const diff = diffProvisionText('dieu6', before, 'Điều 6. Bảo vệ 1. Nhà nước bảo vệ an ninh mạng. 3. Tổ chức, cá nhân phối hợp.');
+    expect(diff.clauses.map(c => [c.segment_ref, c.status])).toEqual([
+      ['dieu6', 'unchanged'],
+      ['dieu6.k1', 'unchanged'],
+      ['dieu6.k2', 'removed'],
+      ['dieu6.k3', 'added'],
+    ]);
+  });
+
+  it('reports identical wordings', () => {
+    expect(diffProvisionText('dieu6', before, before.replace(/ /g, '  ')).identical).toBe(true);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('renders changed clauses only, optionally as a word diff', () => {
+    const diff = diffProvisionText('dieu6', '1. Phạt 10 triệu.', '1. Phạt 20 triệu.');
+    expect(formatUnifiedDiff(diff, 'v1', 'v2')).toBe(
+      '--- v1\n+++ v2\n@@ dieu6.k1 (modified) @@\n-Phạt 10 triệu.\n+Phạt 20 triệu.\n',
+    );
+    expect(formatUnifiedDiff(diff, 'v1', 'v2', true)).toContain(' Phạt [-10-] {+20+} triệu.');
+  });
+});
@@ -0,0 +1,58 @@
+import Database from '@ansvar/mcp-sqlite';
+import { describe, expect, it } from 'vitest';
+import { foldedSnippet, searchProvisionsTranslated } from '../../src/utils/provision-search.js';
+
+const filler = 'Cơ quan nhà nước có thẩm quyền hướng dẫn thi hành quy định này theo chức năng nhiệm vụ. ';
+const CONTENT =
+  'Điều 5. Biện pháp xử lý Người mang thiết bị vào khu vực cấm bị xử phạt. ' +
+  filler.repeat(4) +
+  'Lực lượng chuyên trách bảo vệ an ninh mạng được bố trí tại Bộ Công an.';
+
+describe('foldedSnippet', () => {
+  it('centres on the whole phrase rather than a single syllable', () => {
+    const snippet = foldedSnippet(CONTENT, ['an', 'ninh', 'mang'], 16);
+    expect(snippet).toContain('>>>an ninh mạng<<<');
+    expect(snippet.startsWith('...')).toBe(true);
+    expect(snippet).not.toContain('Người mang');
+  });
+
+  it('marks matches in the original text, with diacritics', () => {
+    expect(foldedSnippet('Bảo vệ dữ liệu cá nhân.', ['du', 'lieu'], 32)).toBe('Bảo vệ >>>dữ liệu<<< cá nhân.');
+  });
+
+  it('matches whole words unless the term is a prefix', () => {
+    expect(foldedSnippet('Mạng lưới viễn thông', ['mang'], 32)).toBe('>>>Mạng<<< lưới viễn thông');
+    expect(foldedSnippet('Mạng lưới viễn thông', ['man'], 32)).toBe('Mạng lưới viễn thông');
+    expect(foldedSnippet('Mạng lưới viễn thông', ['vien*'], 32)).toBe('Mạng lưới >>>viễn<<< thông');
+  });
+});
+
+function searchDb(provisions: [string, string][]): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL, status TEXT);
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT, provision_ref TEXT, chapter TEXT, section TEXT, title TEXT, content TEXT
+    );
+    CREATE VIRTUAL TABLE provisions_fts USING fts5(content, title, tokenize='unicode61 remove_diacritics 0');
+    INSERT INTO legal_documents VALUES ('pdp', 'Nghị định 13/2023/NĐ-CP', 'in_force');
+  `);
+  provisions.forEach(([ref, content], i) => {
+    db.prepare('INSERT INTO legal_provisions VALUES (?, ?, ?, NULL, ?, NULL, ?)').run(i + 1, 'pdp', ref, ref, content);
+    db.prepare('INSERT INTO provisions_fts (rowid, content) VALUES (?, ?)').run(i + 1, content);
+  });
+  return db;
+}
+
+describe('searchProvisionsTranslated', () => {
+  it('ranks loose matches of the translation below the query as given', () => {
+    const db = searchDb([
+      ['dieu9', 'Dữ liệu được thu thập từ tổ chức, cá nhân khác.'],
+      ['dieu2', 'Article 2. Personal data means information about a specific person.'],
+      ['dieu3', 'Dữ liệu cá nhân được bảo vệ theo quy định của pháp luật.'],
+    ]);
+    const { rows, translation } = searchProvisionsTranslated(db, 'personal data', { limit: 10, snippetTokens: 16 });
+    expect(translation?.queries[0]).toEqual(['dữ liệu cá nhân']);
+    expect(rows.map(r => r.provision_ref)).toEqual(['dieu3', 'dieu2', 'dieu9']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  flattenSegments,
+  locatePinpoint,
+  parseSegmentRef,
+  segmentProvision,
+  segmentRef,
+} from '../../src/utils/provision-segments.js';
+
+const ARTICLE =
+  'Điều 8. Các hành vi bị nghiêm cấm 1. Sử dụng không gian mạng để thực hiện hành vi sau đây: ' +
+  'a) Tuyên truyền chống Nhà nước; b) Kích động gây bạo loạn. ' +
+  '2. Thực hiện tấn công mạng theo quy định tại khoản 1 Điều 9.3. Hành vi khác.';
+
+describe('segmentProvision', () => {
+  it('splits numbered clauses and lettered points', () => {
+    const clauses = segmentProvision(ARTICLE);
+    expect(clauses.map(c => c.number)).toEqual(['1', '2', '3']);
+    expect(clauses[0].points.map(p => p.letter)).toEqual(['a', 'b']);
+    expect(clauses[0].points[0].text).toBe('Tuyên truyền chống Nhà nước');
+    expect(clauses[2].text).toBe('Hành vi khác.');
+  });
+
+  it('ignores numbers that are references, not clause markers', () => {
+    const clauses = segmentProvision('Điều 3. Áp dụng 1. Theo Điều 2. Nội dung 2. Khoản hai.');
+    expect(clauses.map(c => c.text)).toEqual(['Theo Điều 2. Nội dung', 'Khoản hai.']);
+  });
+
+  it('accepts doubled dots and markers glued to the previous word', () => {
+    expect(segmentProvision('Điều 1. Phạm vi 1..Thông tin số an ninh mạng2. Ưu tiên').map(c => c.text))
+      .toEqual(['Thông tin số an ninh mạng', 'Ưu tiên']);
+  });
+
+  it('accepts a clause number skipped by a repeal, but not a later first clause', () => {
+    expect(segmentProvision('Điều 4. Nguyên tắc 1. Tuân thủ Hiến pháp. 3. Bảo đảm hài hòa.').map(c => c.number))
+      .toEqual(['1', '3']);
+    expect(segmentProvision('Điều 4. Nguyên tắc 1. Tuân thủ. 9. Khác.').map(c => c.number)).toEqual(['1']);
+    expect(segmentProvision('Điều 4. Nguyên tắc 3. Bảo đảm hài hòa.')).toEqual([]);
+  });
+
+  it('returns nothing for articles without clauses', () => {
+    expect(segmentProvision('Điều 1. Luật này có hiệu lực từ ngày 01 tháng 01 năm 2019.')).toEqual([]);
+  });
+});
+
+describe('locatePinpoint', () => {
+  it('finds a clause and point', () => {
+    expect(locatePinpoint(ARTICLE, '1', 'b')).toEqual({
+      clause_found: true,
+      point_found: true,
+      text: 'Kích động gây bạo loạn',
+    });
+  });
+
+  it('reports missing parts', () => {
+    expect(locatePinpoint(ARTICLE, '4')).toEqual({ clause_found: false });
+    expect(locatePinpoint(ARTICLE, '1', 'c')).toMatchObject({ clause_found: true, point_found: false });
+  });
+});
+
+describe('segment references', () => {
+  it('round-trips, writing đ as dd', () => {
+    expect(segmentRef('dieu8', '2', 'đ')).toBe('dieu8.k2.dd');
+    expect(parseSegmentRef('dieu8.k2.dd')).toEqual({ provision_ref: 'dieu8', clause: '2', point: 'đ' });
+    expect(parseSegmentRef('dieu8.a')).toEqual({ provision_ref: 'dieu8', point: 'a' });
+    expect(parseSegmentRef('article 8')).toBeNull();
+  });
+
+  it('flattens clauses followed by their points', () => {
+    expect(flattenSegments('dieu8', ARTICLE).map(r => r.segment_ref)).toEqual([
+      'dieu8.k1', 'dieu8.k1.a', 'dieu8.k1.b', 'dieu8.k2', 'dieu8.k3',
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { findEnglishDate, findVietnameseDate, isoDate, parseDate } from '../../src/utils/vietnamese-date.js';
+import { invalidDateNote, normalizeAsOfDate } from '../../src/utils/as-of-date.js';
+
+describe('parseDate', () => {
+  it('reads ISO and year-first dates', () => {
+    expect(parseDate('2023-07-01')).toBe('2023-07-01');
+    expect(parseDate('2023-07-01T10:00:00Z')).toBe('2023-07-01');
+    expect(parseDate('2023/7/1')).toBe('2023-07-01');
+  });
+
+  it('reads numeric dates day first', () => {
+    expect(parseDate('01/07/2023')).toBe('2023-07-01');
+    expect(parseDate('1-7-2023')).toBe('2023-07-01');
+    expect(parseDate('01.07.2023')).toBe('2023-07-01');
+    expect(parseDate('07/13/2023')).toBeNull();
+  });
+
+  it('reads the Vietnamese long form', () => {
+    expect(parseDate('ngày 12 tháng 6 năm 2018')).toBe('2018-06-12');
+    expect(parseDate('Hà Nội, ngày 12 tháng 6 năm 2018')).toBe('2018-06-12');
+    expect(parseDate('1 tháng 7, 2023')).toBe('2023-07-01');
+    expect(parseDate('ngay 01 thang 7 nam 2016')).toBe('2016-07-01');
+  });
+
+  it('reads English dates', () => {
+    expect(parseDate('1 July 2023')).toBe('2023-07-01');
+    expect(parseDate('1st of July, 2023')).toBe('2023-07-01');
+    expect(parseDate('July 1, 2023')).toBe('2023-07-01');
+    expect(parseDate('Sept 30 2023')).toBe('2023-09-30');
+  });
+
+  it('rejects impossible dates and other text', () => {
+    expect(parseDate('ngày 31 tháng 2 năm 2023')).toBeNull();
+    expect(parseDate('2023-13-01')).toBeNull();
+    expect(parseDate('Smarch 1, 2023')).toBeNull();
+    expect(parseDate('Luật An ninh mạng')).toBeNull();
+    expect(normalizeAsOfDate('  ')).toBeNull();
+  });
+
+  it('names the accepted formats for a date it cannot read', () => {
+    expect(invalidDateNote('as_of_date', '31/02/2023'))
+      .toBe('Invalid as_of_date "31/02/2023" — use a date (YYYY-MM-DD; DD/MM/YYYY and "ngày 01 tháng 7 năm 2023" also accepted)');
+  });
+});
+
+describe('isoDate', () => {
+  it('checks the day exists', () => {
+    expect(isoDate(29, 2, 2024)).toBe('2024-02-29');
+    expect(isoDate(29, 2, 2023)).toBeNull();
+  });
+});
+
+describe('findVietnameseDate', () => {
+  it('finds the first date with its position, with or without spaces', () => {
+    const text = 'Luật này có hiệu lực thi hành từ ngày 01tháng 01 năm 2019.';
+    const found = findVietnameseDate(text);
+    expect(found?.date).toBe('2019-01-01');
+    expect(text.slice(found!.index, found!.index + found!.length)).toBe('ngày 01tháng 01 năm 2019');
+    expect(findVietnameseDate('ban hành ngày 15/11/2023 và')?.date).toBe('2023-11-15');
+  });
+
+  it('ignores bare numbers and invalid dates', () => {
+    expect(findVietnameseDate('Nghị định số 13/2023/NĐ-CP')).toBeNull();
+    expect(findVietnameseDate('ngày 32 tháng 1 năm 2020, ngày 2 tháng 1 năm 2020')?.date).toBe('2020-01-02');
+  });
+});
+
+describe('findEnglishDate', () => {
+  it('finds month-first and day-first dates in running text', () => {
+    expect(findEnglishDate('This Law comes intoforce from January 01, 2019.')?.date).toBe('2019-01-01');
+    expect(findEnglishDate('passed on 28 November 2013 by the National Assembly')?.date).toBe('2013-11-28');
+  });
+
+  it('ignores words that only start like a month', () => {
+    expect(findEnglishDate('the mayor 12 2019')).toBeNull();
+  });
+});
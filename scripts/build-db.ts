@@ -12,12 +12,37 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { extractOfficialNumber, normalizeOfficialNumber } from '../src/utils/statute-id.js';
+import { flattenSegments, type SegmentRow } from '../src/utils/provision-segments.js';
+import { normalizeForMatch } from '../src/utils/vietnamese-text.js';
+import { SCHEMA_VERSION } from '../src/capabilities.js';
+import { MAX_TITLE_LENGTH, splitArticleHeading } from './lib/parser.js';
+import { extractRepealedInstruments } from './lib/repeal-clauses.js';
+import { extractEffectiveDates, type EffectiveDates } from './lib/effective-dates.js';
+import { documentResolver, extractCrossReferences, type DocumentNames } from './lib/cross-references.js';
+import { seedHeadings } from './lib/headings.js';
+import { suggestCorrespondence, type ArticleText, type CorrespondenceSeed } from './lib/correspondence.js';
+import { corpusFromAct, emptyCorpus, repairAct, type RepairStats } from './lib/text-repair.js';
+import {
+  documentDefinitionReport,
+  extractDefinitions,
+  isInterpretationArticle,
+  type DefinitionArticleReport,
+  type DefinitionReport,
+  type ParsedDefinition,
+} from './lib/definitions.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
 const DB_PATH = path.resolve(__dirname, '../data/database.db');
+const CENSUS_PATH = path.resolve(__dirname, '../data/census.json');
+const REPORT_DIR = path.resolve(__dirname, '../data/reports');
+const CORRESPONDENCE_DIR = path.resolve(__dirname, '../data/correspondence');
+
+/** Provision length at which ingests before full-text storage cut content. */
+const LEGACY_TRUNCATION_LENGTH = 12000;
 
 // Seed file types
 interface DocumentSeed {
@@ -29,25 +54,59 @@ interface DocumentSeed {
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
   issued_date?: string;
   in_force_date?: string;
+  /** Date the repeal took effect, for point-in-time queries */
+  repealed_date?: string;
+  official_number?: string;
   url?: string;
   description?: string;
   provisions?: ProvisionSeed[];
-  definitions?: DefinitionSeed[];
+  definitions?: ParsedDefinition[];
+  /** Written by ingest; seeds from before it are read at build */
+  effective_dates?: EffectiveDates;
 }
 
 interface ProvisionSeed {
   provision_ref: string;
+  part?: string;
   chapter?: string;
+  muc?: string;
   section: string;
   title?: string;
   content: string;
   metadata?: Record<string, unknown>;
+  segments?: SegmentRow[];
+  /** Content was cut short by the source or an older ingest */
+  truncated?: boolean;
+  /** Instrument that gave the article its current wording, if amended */
+  amending_instrument?: string;
+  /**
+   * Earlier wordings, oldest first, added to a seed by hand; ingestion only
+   * ever writes the current text. For Điều 2 of the Penal Code as worded
+   * before Law 12/2017/QH14:
+   *
+   *   "amending_instrument": "Luật số 12/2017/QH14",
+   *   "versions": [
+   *     { "content": "Điều 2. Cơ sở của trách nhiệm hình sự ...", "valid_to": "2018-01-01" }
+   *   ]
+   *
+   * Each wording runs up to its valid_to (exclusive), the day the next one
+   * took effect; valid_from defaults to the previous wording's valid_to, or
+   * for the first to the article's in-force date. The provision's content
+   * stays the current wording, valid from the last valid_to.
+   */
+  versions?: ProvisionVersionSeed[];
+  /** Date the article's repeal took effect; the statute itself may stay in force */
+  repealed_date?: string;
+  repealing_instrument?: string;
 }
 
-interface DefinitionSeed {
-  term: string;
-  definition: string;
-  source_provision?: string;
+interface ProvisionVersionSeed {
+  content: string;
+  valid_from?: string;
+  /** Day the next wording took effect */
+  valid_to: string;
+  /** Instrument that gave the article this wording; absent for the original text */
+  amending_instrument?: string;
 }
 
 type EUDocumentType = 'directive' | 'regulation';
@@ -75,24 +134,38 @@ CREATE TABLE legal_documents (
   title TEXT NOT NULL,
   title_en TEXT,
   short_name TEXT,
+  -- Status as the seed records it; tools read the status on a given day from
+  -- it and the dates, so a repeal dated after the build still takes effect
   status TEXT NOT NULL DEFAULT 'in_force'
     CHECK(status IN ('in_force', 'amended', 'repealed', 'not_yet_in_force')),
   issued_date TEXT,
   in_force_date TEXT,
+  repealed_date TEXT,
+  official_number TEXT,
+  official_number_normalized TEXT,
   url TEXT,
   description TEXT,
   last_updated TEXT DEFAULT (datetime('now'))
 );
 
+CREATE INDEX idx_documents_official_number ON legal_documents(official_number_normalized);
+
 -- Individual provisions from statutes
 CREATE TABLE legal_provisions (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL REFERENCES legal_documents(id),
   provision_ref TEXT NOT NULL,
+  part TEXT,
   chapter TEXT,
+  muc TEXT,
   section TEXT NOT NULL,
   title TEXT,
   content TEXT NOT NULL,
+  content_length INTEGER NOT NULL,
+  truncated INTEGER NOT NULL DEFAULT 0,
+  repealed INTEGER NOT NULL DEFAULT 0,
+  repealed_date TEXT,
+  repealing_instrument TEXT,
   metadata TEXT,
   UNIQUE(document_id, provision_ref)
 );
@@ -100,11 +173,66 @@ CREATE TABLE legal_provisions (
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
 
+-- Wordings of each article over time. valid_to is exclusive; the current
+-- version has valid_to NULL and content NULL (its text is legal_provisions.content)
+CREATE TABLE provision_versions (
+  id INTEGER PRIMARY KEY,
+  provision_id INTEGER NOT NULL REFERENCES legal_provisions(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  valid_from TEXT,
+  valid_to TEXT,
+  amending_instrument TEXT,
+  content TEXT,
+  UNIQUE(document_id, provision_ref, version)
+);
+
+CREATE INDEX idx_provision_versions_ref ON provision_versions(document_id, provision_ref);
+
+-- Articles and clauses with their own entry-into-force date, and transitional
+-- articles with the end of their period, from the "Hiệu lực thi hành" and
+-- "Quy định chuyển tiếp" articles. Articles not listed start with the document.
+CREATE TABLE provision_effective_dates (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  segment_ref TEXT,
+  kind TEXT NOT NULL CHECK(kind IN ('in_force', 'transitional')),
+  date TEXT,
+  source_provision TEXT,
+  context TEXT
+);
+
+CREATE INDEX idx_effective_dates_ref ON provision_effective_dates(document_id, provision_ref);
+
+-- Clauses (khoản) and points (điểm) of each article: dieu8.k2, dieu8.k2.a
+CREATE TABLE provision_segments (
+  id INTEGER PRIMARY KEY,
+  provision_id INTEGER NOT NULL REFERENCES legal_provisions(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  segment_ref TEXT NOT NULL,
+  clause TEXT,
+  point TEXT,
+  content TEXT NOT NULL,
+  UNIQUE(document_id, segment_ref)
+);
+
+CREATE INDEX idx_segments_provision ON provision_segments(provision_id);
+
 -- FTS5 for provision search
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
   content, title,
   content='legal_provisions',
   content_rowid='id',
+  tokenize='unicode61 remove_diacritics 0'
+);
+
+-- Same text with diacritics folded ("an ninh mang"); filled by the builder
+CREATE VIRTUAL TABLE provisions_fts_folded USING fts5(
+  content, title,
+  content='',
   tokenize='unicode61'
 );
 
@@ -125,13 +253,59 @@ CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
   VALUES (new.id, new.content, new.title);
 END;
 
--- Cross-references between provisions/documents
+-- Laws that repealed and replaced earlier ones, from the census and from
+-- "... hết hiệu lực" clauses. The older law is often not in the database,
+-- so both sides keep their number and title; IDs are census IDs when known.
+CREATE TABLE document_replacements (
+  id INTEGER PRIMARY KEY,
+  successor_id TEXT NOT NULL,
+  successor_number TEXT,
+  successor_title TEXT NOT NULL,
+  predecessor_id TEXT,
+  predecessor_number TEXT NOT NULL,
+  predecessor_number_normalized TEXT NOT NULL,
+  predecessor_title TEXT,
+  effective_date TEXT,
+  source TEXT NOT NULL CHECK(source IN ('census', 'text')),
+  source_provision TEXT,
+  context TEXT,
+  UNIQUE(successor_id, predecessor_number_normalized)
+);
+
+CREATE INDEX idx_replacements_predecessor ON document_replacements(predecessor_number_normalized);
+CREATE INDEX idx_replacements_predecessor_id ON document_replacements(predecessor_id);
+
+-- Where each article of a replaced law went in its successor. Curated rows
+-- come from data/correspondence; suggested rows are text-similarity matches.
+-- A split article has one row per new article; a dropped one has none (NULL).
+CREATE TABLE article_correspondence (
+  id INTEGER PRIMARY KEY,
+  from_document_id TEXT,
+  from_number TEXT,
+  from_number_normalized TEXT,
+  from_title TEXT,
+  from_provision_ref TEXT NOT NULL,
+  to_document_id TEXT NOT NULL,
+  to_provision_ref TEXT,
+  match_type TEXT NOT NULL CHECK(match_type IN ('equivalent', 'split', 'merged', 'dropped')),
+  source TEXT NOT NULL CHECK(source IN ('curated', 'suggested')),
+  similarity REAL,
+  note TEXT
+);
+
+CREATE INDEX idx_correspondence_from_number ON article_correspondence(from_number_normalized, from_provision_ref);
+CREATE INDEX idx_correspondence_from_id ON article_correspondence(from_document_id, from_provision_ref);
+
+-- Cross-references between provisions/documents, read from the article text
+-- ("Điều 26 của Luật này", "khoản 1 Điều này", "Luật Doanh nghiệp")
 CREATE TABLE cross_references (
   id INTEGER PRIMARY KEY,
   source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
   source_provision_ref TEXT,
   target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
   target_provision_ref TEXT,
+  target_segment_ref TEXT,
+  cited_as TEXT,
   ref_type TEXT NOT NULL DEFAULT 'references'
     CHECK(ref_type IN ('references', 'amended_by', 'implements', 'see_also'))
 );
@@ -147,6 +321,8 @@ CREATE TABLE definitions (
   term_en TEXT,
   definition TEXT NOT NULL,
   source_provision TEXT,
+  clause TEXT,
+  point TEXT,
   UNIQUE(document_id, term)
 );
 
@@ -155,6 +331,12 @@ CREATE VIRTUAL TABLE definitions_fts USING fts5(
   term, definition,
   content='definitions',
   content_rowid='id',
+  tokenize='unicode61 remove_diacritics 0'
+);
+
+CREATE VIRTUAL TABLE definitions_fts_folded USING fts5(
+  term, definition,
+  content='',
   tokenize='unicode61'
 );
 
@@ -247,6 +429,88 @@ function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   return Array.from(byRef.values());
 }
 
+/**
+ * Consolidated texts keep a repealed article as its heading followed by
+ * "(được bãi bỏ)" or "(bãi bỏ)" and nothing else.
+ */
+function isRepealedMarker(content: string): boolean {
+  const body = content.replace(/^\s*Điều\s+\d+[a-zđ]?\s*[.:]?/i, '').trim();
+  return /^\(?\s*(?:đã\s+)?(?:được\s+)?bãi\s+bỏ\s*\)?\s*\.?$/i.test(body);
+}
+
+type TitleCheck = 'ok' | 'repaired' | 'rejected';
+
+/**
+ * Quality check for article titles. Titles from older ingests can hold the
+ * whole article body (or a 120-character cut of it ending in "..."); those are
+ * re-derived from the content, and dropped when no proper heading is found.
+ * The dash of "Article 3.- Application" is stripped.
+ */
+function checkTitle(prov: ProvisionSeed): { title: string | null; check: TitleCheck } {
+  const raw = prov.title?.trim();
+  const title = raw?.replace(/^[-–—]\s*/, '');
+  if (!title) return { title: null, check: raw ? 'rejected' : 'ok' };
+  if (title !== raw && title.length <= MAX_TITLE_LENGTH && !/[.;]$/.test(title)) {
+    return { title, check: 'repaired' };
+  }
+  // Headings carry no final full stop; one that does is body text
+  if (title.length <= MAX_TITLE_LENGTH && !/[.;]$/.test(title)) return { title, check: 'ok' };
+
+  const repaired = splitArticleHeading(prov.content)?.title;
+  if (repaired && repaired.length < title.length) return { title: repaired, check: 'repaired' };
+  return { title: null, check: 'rejected' };
+}
+
+interface CensusEntry {
+  id: string;
+  title: string;
+  official_number?: string;
+  in_force_date?: string;
+  /** Laws this one repealed and replaced */
+  replaces?: { official_number: string; title: string }[];
+}
+
+/**
+ * Laws listed in census.json. Used for official numbers when a seed was
+ * written before official_number was carried through ingestion, and for
+ * which law replaced which.
+ */
+function loadCensusLaws(): CensusEntry[] {
+  if (!fs.existsSync(CENSUS_PATH)) return [];
+  const census = JSON.parse(fs.readFileSync(CENSUS_PATH, 'utf-8')) as { laws?: CensusEntry[] };
+  return census.laws ?? [];
+}
+
+/**
+ * Curated article correspondence tables from data/correspondence/*.json.
+ */
+function loadCorrespondenceSeeds(): CorrespondenceSeed[] {
+  if (!fs.existsSync(CORRESPONDENCE_DIR)) return [];
+  return fs.readdirSync(CORRESPONDENCE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(CORRESPONDENCE_DIR, file), 'utf-8')) as CorrespondenceSeed);
+}
+
+/**
+ * Write data/reports/definitions.json and list documents whose
+ * interpretation articles yielded no terms.
+ */
+function writeDefinitionReport(reports: DefinitionReport[]): void {
+  fs.mkdirSync(REPORT_DIR, { recursive: true });
+  const reportPath = path.join(REPORT_DIR, 'definitions.json');
+  fs.writeFileSync(reportPath, JSON.stringify(reports, null, 2) + '\n');
+
+  console.log('  Definition extraction (interpretation articles / terms):');
+  for (const report of reports) {
+    const zero = report.zero_term_articles.length > 0
+      ? `  zero terms: ${report.zero_term_articles.join(', ')}`
+      : '';
+    console.log(`    ${report.document_id.padEnd(45)} ${String(report.articles.length).padStart(3)} / ${report.definitions}${zero}`);
+  }
+  console.log(`  Report: ${reportPath}\n`);
+}
+
 function extractEuReferences(text: string): ExtractedEUReference[] {
   if (!text || text.trim().length === 0) return [];
 
@@ -321,18 +585,52 @@ function buildDatabase(): void {
   db.exec(SCHEMA);
 
   const insertDoc = db.prepare(`
-    INSERT INTO legal_documents (id, type, title, title_en, short_name, status, issued_date, in_force_date, url, description)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_documents (id, type, title, title_en, short_name, status, issued_date, in_force_date,
+      repealed_date, official_number, official_number_normalized, url, description)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertVersion = db.prepare(`
+    INSERT INTO provision_versions (provision_id, document_id, provision_ref, version, valid_from, valid_to,
+      amending_instrument, content)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertReplacement = db.prepare(`
+    INSERT OR IGNORE INTO document_replacements (successor_id, successor_number, successor_title, predecessor_id,
+      predecessor_number, predecessor_number_normalized, predecessor_title, effective_date, source,
+      source_provision, context)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertEffectiveDate = db.prepare(`
+    INSERT INTO provision_effective_dates (document_id, provision_ref, segment_ref, kind, date, source_provision, context)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, metadata)
+    INSERT INTO legal_provisions (document_id, provision_ref, part, chapter, muc, section, title, content,
+      content_length, truncated, repealed, repealed_date, repealing_instrument, metadata)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertSegment = db.prepare(`
+    INSERT OR IGNORE INTO provision_segments
+      (provision_id, document_id, provision_ref, segment_ref, clause, point, content)
     VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const insertProvisionFolded = db.prepare(
+    'INSERT INTO provisions_fts_folded (rowid, content, title) VALUES (?, ?, ?)'
+  );
+
+  const insertDefinitionFolded = db.prepare(
+    'INSERT INTO definitions_fts_folded (rowid, term, definition) VALUES (?, ?, ?)'
+  );
+
   const insertDefinition = db.prepare(`
-    INSERT OR IGNORE INTO definitions (document_id, term, term_en, definition, source_provision)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT OR IGNORE INTO definitions (document_id, term, term_en, definition, source_provision, clause, point)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertEuDocument = db.prepare(`
@@ -365,21 +663,122 @@ function buildDatabase(): void {
 
   let totalDocs = 0;
   let totalProvisions = 0;
+  let totalSegments = 0;
+  let totalVersions = 0;
+  let totalRepealedProvisions = 0;
+  let totalReplacements = 0;
+  let totalEffectiveDates = 0;
+  const titleIssues: { provision: string; check: TitleCheck; title: string }[] = [];
   let totalDefs = 0;
   let totalEuDocuments = 0;
   let totalEuReferences = 0;
   const primaryImplementationByDocument = new Set<string>();
+  const censusLaws = loadCensusLaws();
+  const censusOfficialNumbers = new Map(
+    censusLaws.filter(law => law.official_number).map(law => [law.id, law.official_number!]),
+  );
+  const censusByNumber = new Map<string, CensusEntry>();
+  for (const law of censusLaws) {
+    const key = law.official_number ? normalizeOfficialNumber(law.official_number) : null;
+    if (key) censusByNumber.set(key, law);
+  }
+
+  const seeds = seedFiles.map(file =>
+    JSON.parse(fs.readFileSync(path.join(SEED_DIR, file), 'utf-8')) as DocumentSeed
+  );
+
+  // Titles first: re-deriving them relies on the run-together text that the
+  // repair below splits up. Older ingests also cut content at exactly
+  // LEGACY_TRUNCATION_LENGTH characters; flag those before the repair changes lengths.
+  let truncatedCount = 0;
+  for (const seed of seeds) {
+    for (const prov of seed.provisions ?? []) {
+      prov.truncated ??= prov.content.length === LEGACY_TRUNCATION_LENGTH;
+      if (prov.truncated) truncatedCount++;
+
+      const { title, check } = checkTitle(prov);
+      if (check !== 'ok') {
+        titleIssues.push({ provision: `${seed.id}:${prov.provision_ref}`, check, title: prov.title ?? '' });
+      }
+      prov.title = title ?? undefined;
+    }
+  }
+
+  if (truncatedCount > 0) {
+    console.log(`  ${truncatedCount} provisions flagged as truncated (re-ingest to restore the full text)`);
+  }
+
+  if (titleIssues.length > 0) {
+    const repaired = titleIssues.filter(t => t.check === 'repaired').length;
+    console.log(
+      `  Title check: ${repaired} titles re-derived from content or stripped of a leading dash, ` +
+      `${titleIssues.length - repaired} dropped (over ${MAX_TITLE_LENGTH} chars or sentence text)`
+    );
+    for (const issue of titleIssues.slice(0, 10)) {
+      console.log(`    ${issue.check.padEnd(8)} ${issue.provision}: ${issue.title.substring(0, 60)}...`);
+    }
+  }
+
+  // Seeds from older ingests still have run-together syllables; the syllable
+  // counts of all seeds decide ambiguous splits
+  const corpus = emptyCorpus();
+  for (const seed of seeds) corpusFromAct(seed, corpus);
+  const repairs: { id: string; stats: RepairStats }[] = [];
+  for (const seed of seeds) {
+    const stats = repairAct(seed, corpus);
+    if (stats.syllableSplits + stats.punctuationSpacing > 0) repairs.push({ id: seed.id, stats });
+  }
+  if (repairs.length > 0) {
+    console.log('  Text repair (words re-split / spaces restored):');
+    for (const { id, stats } of repairs) {
+      console.log(`    ${id.padEnd(45)} ${String(stats.syllableSplits).padStart(6)} / ${stats.punctuationSpacing}`);
+    }
+    console.log('');
+  }
+
+  // Definitions are re-extracted from the (repaired) interpretation articles.
+  // The lists older seeds carry were cut from running text ("Nền kinh tế Việt
+  // Nam là ..." from the Constitution) and are dropped.
+  const definitionReports: DefinitionReport[] = [];
+  for (const seed of seeds) {
+    const articles: DefinitionArticleReport[] = [];
+    const extracted: ParsedDefinition[] = [];
+    for (const prov of seed.provisions ?? []) {
+      if (!isInterpretationArticle(prov.title ?? '', prov.content)) continue;
+      const { definitions, report } = extractDefinitions(prov.content, prov.provision_ref, prov.title ?? '');
+      extracted.push(...definitions);
+      articles.push(report);
+    }
+    seed.definitions = extracted;
+    definitionReports.push(documentDefinitionReport(seed.id, articles));
+  }
+  writeDefinitionReport(definitionReports);
 
   const loadAll = db.transaction(() => {
-    for (const file of seedFiles) {
-      const filePath = path.join(SEED_DIR, file);
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const seed = JSON.parse(content) as DocumentSeed;
+    // Census relations first; the same pair found in statute text is then ignored
+    for (const law of censusLaws) {
+      const successorNumber = law.official_number ? extractOfficialNumber(law.official_number) : null;
+      for (const predecessor of law.replaces ?? []) {
+        const key = normalizeOfficialNumber(predecessor.official_number);
+        if (!key) continue;
+        const replaced = insertReplacement.run(
+          law.id, successorNumber, law.title, censusByNumber.get(key)?.id ?? null,
+          predecessor.official_number, key, predecessor.title, law.in_force_date ?? null, 'census', null, null,
+        );
+        totalReplacements += replaced.changes;
+      }
+    }
+
+    for (const seed of seeds) {
+      // "N/A" (e.g. the Constitution) carries no number and is stored as NULL
+      const rawNumber = seed.official_number ?? censusOfficialNumbers.get(seed.id) ?? '';
+      const officialNumber = extractOfficialNumber(rawNumber);
 
       insertDoc.run(
         seed.id, seed.type ?? 'statute', seed.title, seed.title_en ?? null,
         seed.short_name ?? null, seed.status ?? 'in_force',
-        seed.issued_date ?? null, seed.in_force_date ?? null,
+        seed.issued_date ?? null, seed.in_force_date ?? null, seed.repealed_date ?? null,
+        officialNumber, officialNumber ? normalizeOfficialNumber(officialNumber) : null,
         seed.url ?? null, seed.description ?? null,
       );
       totalDocs++;
@@ -387,15 +786,77 @@ function buildDatabase(): void {
       if (seed.provisions && seed.provisions.length > 0) {
         const deduped = dedupeProvisions(seed.provisions);
 
+        // Articles that start on their own date; the first wording applies from then
+        const effective = seed.effective_dates ?? extractEffectiveDates(deduped);
+        const articleDates = new Map(effective.entries
+          .filter(e => e.kind === 'in_force' && !e.segment_ref && e.date)
+          .map(e => [e.provision_ref, e.date!]));
+        for (const entry of effective.entries) {
+          insertEffectiveDate.run(
+            seed.id, entry.provision_ref, entry.segment_ref, entry.kind, entry.date,
+            entry.source_provision, entry.context,
+          );
+          totalEffectiveDates++;
+        }
+
+        const headings = seedHeadings(deduped);
         for (const prov of deduped) {
+          const repealed = Boolean(prov.repealed_date || prov.repealing_instrument) || isRepealedMarker(prov.content);
+          const { part, chapter, muc } = headings.get(prov.provision_ref)!;
           const insertResult = insertProvision.run(
-            seed.id, prov.provision_ref, prov.chapter ?? null,
+            seed.id, prov.provision_ref, part, chapter, muc,
             prov.section, prov.title ?? null, prov.content,
+            prov.content.length, prov.truncated ? 1 : 0,
+            repealed ? 1 : 0, prov.repealed_date ?? null, prov.repealing_instrument ?? null,
             prov.metadata ? JSON.stringify(prov.metadata) : null,
           );
           totalProvisions++;
+          if (repealed) totalRepealedProvisions++;
 
           const provisionId = Number(insertResult.lastInsertRowid);
+          insertProvisionFolded.run(
+            provisionId, normalizeForMatch(prov.content), normalizeForMatch(prov.title ?? ''),
+          );
+
+          // Earlier wordings, then the current text from the day the last one ended
+          const history = prov.versions ?? [];
+          const startDate = articleDates.get(prov.provision_ref) ?? seed.in_force_date ?? null;
+          history.forEach((v, i) => {
+            insertVersion.run(
+              provisionId, seed.id, prov.provision_ref, i + 1,
+              v.valid_from ?? history[i - 1]?.valid_to ?? startDate, v.valid_to,
+              v.amending_instrument ?? null, v.content,
+            );
+          });
+          // A repealed article's last wording ends on the repeal date
+          insertVersion.run(
+            provisionId, seed.id, prov.provision_ref, history.length + 1,
+            history.at(-1)?.valid_to ?? startDate, prov.repealed_date ?? null,
+            prov.amending_instrument ?? null, null,
+          );
+          totalVersions += history.length + 1;
+
+          // Seeds written before segmentation existed are split here
+          const segments = prov.segments ?? flattenSegments(prov.provision_ref, prov.content);
+          for (const seg of segments) {
+            const segInsert = insertSegment.run(
+              provisionId, seed.id, prov.provision_ref, seg.segment_ref,
+              seg.clause, seg.point, seg.content,
+            );
+            if (segInsert.changes > 0) totalSegments++;
+          }
+
+          for (const repealed of extractRepealedInstruments(prov.content, officialNumber)) {
+            const key = normalizeOfficialNumber(repealed.official_number)!;
+            const known = censusByNumber.get(key);
+            const replaced = insertReplacement.run(
+              seed.id, officialNumber, seed.title, known?.id ?? null,
+              repealed.official_number, key, known?.title ?? repealed.title, seed.in_force_date ?? null,
+              'text', prov.provision_ref, repealed.context,
+            );
+            totalReplacements += replaced.changes;
+          }
+
           const extractedRefs = extractEuReferences(prov.content);
           if (extractedRefs.length > 0) {
             const sourceId = `${seed.id}:${prov.provision_ref}`;
@@ -432,21 +893,156 @@ function buildDatabase(): void {
       }
 
       for (const def of seed.definitions ?? []) {
-        insertDefinition.run(
-          seed.id, def.term, null, def.definition, def.source_provision ?? null,
+        const defInsert = insertDefinition.run(
+          seed.id, def.term, def.term_en ?? null, def.definition, def.source_provision ?? null,
+          def.clause ?? null, def.point ?? null,
         );
-        totalDefs++;
+        if (defInsert.changes > 0) {
+          insertDefinitionFolded.run(
+            Number(defInsert.lastInsertRowid), normalizeForMatch(def.term),
+            normalizeForMatch(`${def.term_en ?? ''} ${def.definition}`),
+          );
+          totalDefs++;
+        }
       }
     }
   });
 
   loadAll();
 
+  // A law recorded as replaced is repealed from the day its successor took
+  // over, even where its seed still calls it in force or amended
+  const replacedDocuments = db.prepare(`
+    UPDATE legal_documents
+    SET repealed_date = (
+      SELECT MIN(r.effective_date) FROM document_replacements r
+      WHERE r.effective_date IS NOT NULL
+        AND (r.predecessor_id = legal_documents.id OR r.predecessor_number_normalized = legal_documents.official_number_normalized)
+    )
+    WHERE repealed_date IS NULL AND EXISTS (
+      SELECT 1 FROM document_replacements r
+      WHERE r.effective_date IS NOT NULL
+        AND (r.predecessor_id = legal_documents.id OR r.predecessor_number_normalized = legal_documents.official_number_normalized)
+    )
+  `).run().changes;
+  // The last wording of each article ends with its statute
+  db.prepare(`
+    UPDATE provision_versions
+    SET valid_to = (SELECT ld.repealed_date FROM legal_documents ld WHERE ld.id = provision_versions.document_id)
+    WHERE valid_to IS NULL
+      AND document_id IN (SELECT id FROM legal_documents WHERE repealed_date IS NOT NULL)
+  `).run();
+  if (replacedDocuments > 0) {
+    console.log(`  ${replacedDocuments} replaced documents given the repeal date of their successor\n`);
+  }
+
+  // Article correspondence: curated tables, then suggestions for replaced
+  // laws whose text is in the database on both sides
+  const insertCorrespondence = db.prepare(`
+    INSERT INTO article_correspondence (from_document_id, from_number, from_number_normalized, from_title,
+      from_provision_ref, to_document_id, to_provision_ref, match_type, source, similarity, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const articlesOf = db.prepare('SELECT provision_ref, content FROM legal_provisions WHERE document_id = ? ORDER BY id');
+  const curated = new Map<string, Set<string>>();
+  let totalCorrespondence = 0;
+  let totalSuggestions = 0;
+
+  const loadCorrespondence = db.transaction(() => {
+    for (const table of loadCorrespondenceSeeds()) {
+      const fromLaw = typeof table.from === 'string'
+        ? censusLaws.find(law => law.id === table.from)
+        : censusByNumber.get(normalizeOfficialNumber(table.from.official_number) ?? '');
+      const fromId = typeof table.from === 'string' ? table.from : fromLaw?.id ?? null;
+      const fromNumber = typeof table.from === 'string'
+        ? fromLaw?.official_number ?? null
+        : table.from.official_number;
+      const fromTitle = typeof table.from === 'string' ? fromLaw?.title ?? null : table.from.title ?? fromLaw?.title ?? null;
+      const fromKey = fromNumber ? normalizeOfficialNumber(fromNumber) : null;
+
+      const covered = curated.get(`${fromId ?? fromKey}>${table.to}`) ?? new Set<string>();
+      curated.set(`${fromId ?? fromKey}>${table.to}`, covered);
+      for (const article of table.articles) {
+        covered.add(article.from);
+        for (const to of article.to.length > 0 ? article.to : [null]) {
+          insertCorrespondence.run(
+            fromId, fromNumber, fromKey, fromTitle, article.from, table.to, to,
+            article.to.length > 0 ? article.match : 'dropped', 'curated', null, article.note ?? null,
+          );
+          totalCorrespondence++;
+        }
+      }
+    }
+
+    const pairs = db.prepare(`
+      SELECT DISTINCT r.predecessor_id, r.successor_id, r.predecessor_number, r.predecessor_number_normalized,
+        r.predecessor_title
+      FROM document_replacements r
+      WHERE r.predecessor_id IN (SELECT document_id FROM legal_provisions)
+        AND r.successor_id IN (SELECT document_id FROM legal_provisions)
+    `).all() as {
+      predecessor_id: string; successor_id: string; predecessor_number: string;
+      predecessor_number_normalized: string; predecessor_title: string | null;
+    }[];
+    for (const pair of pairs) {
+      const skip = curated.get(`${pair.predecessor_id}>${pair.successor_id}`) ??
+        curated.get(`${pair.predecessor_number_normalized}>${pair.successor_id}`);
+      const suggestions = suggestCorrespondence(
+        articlesOf.all(pair.predecessor_id) as ArticleText[],
+        articlesOf.all(pair.successor_id) as ArticleText[],
+        skip,
+      );
+      for (const suggestion of suggestions) {
+        insertCorrespondence.run(
+          pair.predecessor_id, pair.predecessor_number, pair.predecessor_number_normalized, pair.predecessor_title,
+          suggestion.from, pair.successor_id, suggestion.to, 'equivalent', 'suggested', suggestion.similarity, null,
+        );
+        totalSuggestions++;
+      }
+    }
+  });
+
+  loadCorrespondence();
+
+  // Cross-references, once every document they may point at is loaded
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id,
+      target_provision_ref, target_segment_ref, cited_as, ref_type)
+    VALUES (?, ?, ?, ?, ?, ?, 'references')
+  `);
+  let totalCrossReferences = 0;
+
+  const loadCrossReferences = db.transaction(() => {
+    const resolveDocument = documentResolver(db.prepare(
+      'SELECT id, title, title_en, short_name, official_number FROM legal_documents'
+    ).all() as DocumentNames[]);
+    const provisions = db.prepare(
+      'SELECT document_id, provision_ref, content FROM legal_provisions ORDER BY id'
+    ).all() as { document_id: string; provision_ref: string; content: string }[];
+    const known = new Set(provisions.map(p => `${p.document_id}|${p.provision_ref}`));
+
+    for (const prov of provisions) {
+      const references = extractCrossReferences(
+        prov.document_id, prov.provision_ref, prov.content, resolveDocument,
+        (documentId, provisionRef) => known.has(`${documentId}|${provisionRef}`),
+      );
+      for (const ref of references) {
+        insertCrossReference.run(
+          prov.document_id, prov.provision_ref, ref.target_document_id,
+          ref.target_provision_ref, ref.target_segment_ref, ref.cited_as,
+        );
+        totalCrossReferences++;
+      }
+    }
+  });
+
+  loadCrossReferences();
+
   // Write build metadata
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   const writeMeta = db.transaction(() => {
     insertMeta.run('tier', 'free');
-    insertMeta.run('schema_version', '2');
+    insertMeta.run('schema_version', SCHEMA_VERSION);
     insertMeta.run('built_at', new Date().toISOString());
     insertMeta.run('builder', 'build-db.ts');
     insertMeta.run('jurisdiction', 'VN');
@@ -464,8 +1060,13 @@ function buildDatabase(): void {
 
   const size = fs.statSync(DB_PATH).size;
   console.log(
-    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
-    `${totalDefs} definitions, ${totalEuDocuments} EU documents, ${totalEuReferences} EU references`
+    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ${totalVersions} provision versions, ` +
+    `${totalRepealedProvisions} repealed provisions, ${totalEffectiveDates} article effective dates, ` +
+    `${totalSegments} segments, ` +
+    `${totalDefs} definitions, ${totalReplacements} law replacements, ` +
+    `${totalCorrespondence} curated and ${totalSuggestions} suggested article correspondences, ` +
+    `${totalCrossReferences} cross-references, ` +
+    `${totalEuDocuments} EU documents, ${totalEuReferences} EU references`
   );
   console.log(`Output: ${DB_PATH} (${(size / 1024 / 1024).toFixed(1)} MB)`);
 }
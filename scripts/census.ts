@@ -48,6 +48,13 @@ interface CensusLaw {
   url: string;
   description: string;
   classification: 'ingestable' | 'inaccessible' | 'metadata_only';
+  /** Laws this one repealed and replaced */
+  replaces?: CensusPredecessor[];
+}
+
+interface CensusPredecessor {
+  official_number: string;
+  title: string;
 }
 
 interface CensusOutput {
@@ -115,6 +122,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2017-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Quyen-dan-su/Bo-luat-dan-su-2015-296215.aspx',
     description: 'Comprehensive civil law code: property, contracts, torts, inheritance, intellectual property. 689 articles.',
+    replaces: [
+      { official_number: '33/2005/QH11', title: 'Bộ luật Dân sự 2005' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -129,6 +139,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2016-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thu-tuc-To-tung/Bo-luat-to-tung-dan-su-2015-296861.aspx',
     description: 'Civil procedure code governing courts, jurisdiction, evidence, appeals. 517 articles.',
+    replaces: [
+      { official_number: '24/2004/QH11', title: 'Bộ luật Tố tụng dân sự 2004' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -143,6 +156,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2018-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Trach-nhiem-hinh-su/Bo-luat-hinh-su-2015-296661.aspx',
     description: 'Criminal code. Articles 285-294 cover cybercrimes. Amended by Law 12/2017/QH14.',
+    replaces: [
+      { official_number: '15/1999/QH10', title: 'Bộ luật Hình sự 1999' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -157,6 +173,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2018-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Trach-nhiem-hinh-su/Bo-luat-to-tung-hinh-su-2015-296884.aspx',
     description: 'Criminal procedure code: investigation, prosecution, trial, appeals, enforcement. 510 articles.',
+    replaces: [
+      { official_number: '19/2003/QH11', title: 'Bộ luật Tố tụng hình sự 2003' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -171,6 +190,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2021-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Lao-dong-Tien-luong/Bo-Luat-lao-dong-2019-333670.aspx',
     description: 'Labour code: employment contracts, wages, working hours, occupational safety, trade unions, dispute resolution. 220 articles.',
+    replaces: [
+      { official_number: '10/2012/QH13', title: 'Bộ luật Lao động 2012' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -243,6 +265,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Cong-nghe-thong-tin/Luat-Vien-thong-2023-24-2023-QH15-583722.aspx',
     description: 'New telecommunications law replacing 2009 version. Cloud computing, OTT services, data center regulation, 5G spectrum.',
+    replaces: [
+      { official_number: '41/2009/QH12', title: 'Luật Viễn thông 2009' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -271,6 +296,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Cong-nghe-thong-tin/Luat-Giao-dich-dien-tu-2023-20-2023-QH15-567171.aspx',
     description: 'E-transactions: electronic signatures, digital certificates, electronic contracts, trust services, blockchain recognition.',
+    replaces: [
+      { official_number: '51/2005/QH11', title: 'Luật Giao dịch điện tử 2005' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -315,6 +343,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2021-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Doanh-nghiep/Luat-Doanh-nghiep-2020-so-59-2020-QH14-437468.aspx',
     description: 'Enterprise/company law: LLC, JSC, partnership, private enterprise; corporate governance, shareholder rights, dissolution.',
+    replaces: [
+      { official_number: '68/2014/QH13', title: 'Luật Doanh nghiệp 2014' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -329,6 +360,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2021-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Doanh-nghiep/Luat-Dau-tu-2020-so-61-2020-QH14-437486.aspx',
     description: 'Investment law: foreign investment, investment registration, incentives, special economic zones, PPPs.',
+    replaces: [
+      { official_number: '67/2014/QH13', title: 'Luật Đầu tư 2014' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -357,6 +391,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2019-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thuong-mai/Luat-canh-tranh-2018-23-2018-QH14-353991.aspx',
     description: 'Competition/antitrust: anti-competitive agreements, abuse of dominance, merger control, unfair practices.',
+    replaces: [
+      { official_number: '27/2004/QH11', title: 'Luật Cạnh tranh 2004' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -371,6 +408,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thuong-mai/Luat-Bao-ve-quyen-loi-nguoi-tieu-dung-2023-19-2023-QH15-567169.aspx',
     description: 'Consumer protection: e-commerce consumer rights, platform liability, data protection, dispute resolution.',
+    replaces: [
+      { official_number: '59/2010/QH12', title: 'Luật Bảo vệ quyền lợi người tiêu dùng 2010' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -385,6 +425,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2021-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Chung-khoan/Luat-Chung-khoan-2019-54-2019-QH14-405758.aspx',
     description: 'Securities regulation: stock exchange, public offering, disclosure requirements, insider trading, market manipulation.',
+    replaces: [
+      { official_number: '70/2006/QH11', title: 'Luật Chứng khoán 2006' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -399,6 +442,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Tien-te-Ngan-hang/Luat-Cac-to-chuc-tin-dung-2024-32-2024-QH15-599564.aspx',
     description: 'Banking and credit institutions: licensing, governance, deposits, lending, special control, resolution.',
+    replaces: [
+      { official_number: '47/2010/QH12', title: 'Luật Các tổ chức tín dụng 2010' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -413,6 +459,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2023-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bao-hiem/Luat-Kinh-doanh-bao-hiem-2022-08-2022-QH15-519924.aspx',
     description: 'Insurance regulation: life/non-life, reinsurance, insurance intermediaries, solvency requirements.',
+    replaces: [
+      { official_number: '24/2000/QH10', title: 'Luật Kinh doanh bảo hiểm 2000' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -427,6 +476,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2015-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Doanh-nghiep/Luat-pha-san-2014-51-2014-QH13-238640.aspx',
     description: 'Bankruptcy/insolvency: debt recovery, reorganization, liquidation, creditor rights.',
+    replaces: [
+      { official_number: '21/2004/QH11', title: 'Luật Phá sản 2004' },
+    ],
     classification: 'ingestable',
   },
 
@@ -443,6 +495,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2020-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thue-Phi-Le-Phi/Luat-Quan-ly-thue-2019-38-2019-QH14-415825.aspx',
     description: 'Tax administration: registration, filing, assessment, collection, transfer pricing, e-invoicing.',
+    replaces: [
+      { official_number: '78/2006/QH11', title: 'Luật Quản lý thuế 2006' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -457,6 +512,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thue-Phi-Le-Phi/Luat-Thue-gia-tri-gia-tang-2024-48-2024-QH15-637020.aspx',
     description: 'New VAT law: rates, exemptions, e-commerce VAT, digital service taxation, cross-border services.',
+    replaces: [
+      { official_number: '13/2008/QH12', title: 'Luật Thuế giá trị gia tăng 2008' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -499,6 +557,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2017-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Ke-toan-Kiem-toan/Luat-ke-toan-2015-298141.aspx',
     description: 'Accounting standards: bookkeeping, financial statements, audit requirements, accounting profession.',
+    replaces: [
+      { official_number: '03/2003/QH11', title: 'Luật Kế toán 2003' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -527,6 +588,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2017-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Tai-chinh-nha-nuoc/Luat-ngan-sach-nha-nuoc-2015-282443.aspx',
     description: 'State budget: budget cycle, revenue/expenditure, fiscal decentralization, public debt management.',
+    replaces: [
+      { official_number: '01/2002/QH11', title: 'Luật Ngân sách nhà nước 2002' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -541,6 +605,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2023-03-01',
     url: 'https://thuvienphapluat.vn/van-ban/Tien-te-Ngan-hang/Luat-Phong-chong-rua-tien-2022-14-2022-QH15-535866.aspx',
     description: 'AML law: CDD, suspicious transaction reporting, beneficial ownership, PEP screening, international cooperation.',
+    replaces: [
+      { official_number: '07/2012/QH13', title: 'Luật Phòng, chống rửa tiền 2012' },
+    ],
     classification: 'ingestable',
   },
 
@@ -573,6 +640,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-08-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bat-dong-san/Luat-Dat-dai-2024-31-2024-QH15-599565.aspx',
     description: 'Land law: land use rights, allocation, lease, compensation, conversion, land database, digital land registry.',
+    replaces: [
+      { official_number: '45/2013/QH13', title: 'Luật Đất đai 2013' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -587,6 +657,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bat-dong-san/Luat-Nha-o-2023-27-2023-QH15-583720.aspx',
     description: 'Housing: ownership, development, social housing, real estate transactions, foreign ownership.',
+    replaces: [
+      { official_number: '65/2014/QH13', title: 'Luật Nhà ở 2014' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -601,6 +674,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2015-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Xay-dung-Do-thi/Luat-xay-dung-2014-238644.aspx',
     description: 'Construction: permits, quality management, construction safety, contractor licensing.',
+    replaces: [
+      { official_number: '16/2003/QH11', title: 'Luật Xây dựng 2003' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -615,6 +691,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bat-dong-san/Luat-Kinh-doanh-bat-dong-san-2023-29-2023-QH15-583721.aspx',
     description: 'Real estate business: brokerage, development, property management, foreign investment in real estate.',
+    replaces: [
+      { official_number: '66/2014/QH13', title: 'Luật Kinh doanh bất động sản 2014' },
+    ],
     classification: 'ingestable',
   },
 
@@ -631,6 +710,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2022-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Tai-nguyen-Moi-truong/Luat-Bao-ve-moi-truong-2020-72-2020-QH14-453129.aspx',
     description: 'Environmental protection: EIA, pollution control, waste management, emissions trading, climate change adaptation.',
+    replaces: [
+      { official_number: '55/2014/QH13', title: 'Luật Bảo vệ môi trường 2014' },
+    ],
     classification: 'ingestable',
   },
 
@@ -647,6 +729,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2016-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thu-tuc-To-tung/Luat-To-tung-hanh-chinh-2015-296862.aspx',
     description: 'Administrative procedure: administrative lawsuits against government, judicial review, state liability.',
+    replaces: [
+      { official_number: '64/2010/QH12', title: 'Luật Tố tụng hành chính 2010' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -675,6 +760,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2019-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bo-may-hanh-chinh/Luat-phong-chong-tham-nhung-2018-36-2018-QH14-399962.aspx',
     description: 'Anti-corruption: asset declaration, conflicts of interest, whistleblower protection, private sector obligations.',
+    replaces: [
+      { official_number: '55/2005/QH11', title: 'Luật Phòng, chống tham nhũng 2005' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -689,6 +777,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2023-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bo-may-hanh-chinh/Luat-Thanh-tra-2022-11-2022-QH15-535867.aspx',
     description: 'Government inspection: administrative inspection, specialized inspection, complaint handling, inspection procedures.',
+    replaces: [
+      { official_number: '56/2010/QH12', title: 'Luật Thanh tra 2010' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -717,6 +808,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2019-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thu-tuc-To-tung/Luat-to-cao-2018-25-2018-QH14-356578.aspx',
     description: 'Whistleblowing/denunciation: reporting violations, whistleblower protection, investigation procedures.',
+    replaces: [
+      { official_number: '03/2011/QH13', title: 'Luật Tố cáo 2011' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -731,6 +825,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2018-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Trach-nhiem-hinh-su/Luat-trach-nhiem-boi-thuong-cua-Nha-nuoc-2017-322898.aspx',
     description: 'State compensation liability: government liability for wrongful acts, compensation procedures and amounts.',
+    replaces: [
+      { official_number: '35/2009/QH12', title: 'Luật Trách nhiệm bồi thường của Nhà nước 2009' },
+    ],
     classification: 'ingestable',
   },
 
@@ -761,6 +858,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Bao-hiem/Luat-Bao-hiem-xa-hoi-2024-41-2024-QH15-617638.aspx',
     description: 'Social insurance: pensions, unemployment, maternity, occupational injury, voluntary insurance.',
+    replaces: [
+      { official_number: '58/2014/QH13', title: 'Luật Bảo hiểm xã hội 2014' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -791,6 +891,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2020-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Giao-duc/Luat-Giao-duc-2019-43-2019-QH14-395428.aspx',
     description: 'Education system: compulsory education, higher education, vocational training, teacher qualifications.',
+    replaces: [
+      { official_number: '38/2005/QH11', title: 'Luật Giáo dục 2005' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -937,6 +1040,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Lao-dong-Tien-luong/Luat-Cong-doan-2024-50-2024-QH15-637024.aspx',
     description: 'Trade union law: union organization, worker representation, collective bargaining, union finances.',
+    replaces: [
+      { official_number: '12/2012/QH13', title: 'Luật Công đoàn 2012' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -981,6 +1087,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Dau-tu/Luat-Dau-thau-2023-22-2023-QH15-567175.aspx',
     description: 'Public procurement: bidding procedures, e-procurement, contractor selection, contract management.',
+    replaces: [
+      { official_number: '43/2013/QH13', title: 'Luật Đấu thầu 2013' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -995,6 +1104,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2020-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Dau-tu/Luat-Dau-tu-cong-2019-39-2019-QH14-415826.aspx',
     description: 'Public investment: project appraisal, ODA management, capital allocation, public-private partnerships.',
+    replaces: [
+      { official_number: '49/2014/QH13', title: 'Luật Đầu tư công 2014' },
+    ],
     classification: 'ingestable',
   },
 
@@ -1025,6 +1137,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2015-01-01',
     url: 'https://thuvienphapluat.vn/van-ban/Xuat-nhap-khau/Luat-Hai-quan-2014-54-2014-QH13-238643.aspx',
     description: 'Customs regulation: customs procedures, tariffs, duty assessment, authorized economic operators.',
+    replaces: [
+      { official_number: '29/2001/QH10', title: 'Luật Hải quan 2001' },
+    ],
     classification: 'ingestable',
   },
 
@@ -1041,6 +1156,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Dich-vu-phap-ly/Luat-Cong-chung-2024-43-2024-QH15-636958.aspx',
     description: 'Notarization: digital notarization, notary office requirements, electronic documents.',
+    replaces: [
+      { official_number: '53/2014/QH13', title: 'Luật Công chứng 2014' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -1159,6 +1277,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Thuong-mai/Luat-Gia-2023-16-2023-QH15-567165.aspx',
     description: 'Price regulation: price controls, appraisal, anti-profiteering, essential goods pricing.',
+    replaces: [
+      { official_number: '11/2012/QH13', title: 'Luật Giá 2012' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -1271,6 +1392,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2017-06-01',
     url: 'https://thuvienphapluat.vn/van-ban/Giao-duc/Luat-tre-em-2016-102-2016-QH13-303829.aspx',
     description: 'Children\'s rights: online safety, child data protection, child exploitation prevention.',
+    replaces: [
+      { official_number: '25/2004/QH11', title: 'Luật Bảo vệ, chăm sóc và giáo dục trẻ em 2004' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -1299,6 +1423,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2023-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Van-hoa-Xa-hoi/Luat-Phong-chong-bao-luc-gia-dinh-2022-13-2022-QH15-535870.aspx',
     description: 'Domestic violence: protection orders, shelters, mediation, offender programs.',
+    replaces: [
+      { official_number: '02/2007/QH12', title: 'Luật Phòng, chống bạo lực gia đình 2007' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -1327,6 +1454,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2025-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Van-hoa-Xa-hoi/Luat-Di-san-van-hoa-2024-62-2024-QH15-637090.aspx',
     description: 'Cultural heritage: tangible/intangible heritage, museum regulation, archaeological sites.',
+    replaces: [
+      { official_number: '28/2001/QH10', title: 'Luật Di sản văn hóa 2001' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -1383,6 +1513,9 @@ const VIETNAMESE_LAWS: CensusLaw[] = [
     in_force_date: '2024-07-01',
     url: 'https://thuvienphapluat.vn/van-ban/Doanh-nghiep/Luat-Hop-tac-xa-2023-17-2023-QH15-567167.aspx',
     description: 'Cooperatives: formation, governance, member rights, agricultural cooperatives, dissolution.',
+    replaces: [
+      { official_number: '23/2012/QH13', title: 'Luật Hợp tác xã 2012' },
+    ],
     classification: 'ingestable',
   },
   {
@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+/**
+ * Provision diff for Vietnamese Law MCP.
+ *
+ * Shows what changed in an article, clause by clause and word by word,
+ * either between two recorded versions in one database or between the same
+ * article in two database builds (e.g. before and after a re-ingest).
+ *
+ * Usage:
+ *   npm run diff:provision -- --document penal-code-2015 --provision dieu8
+ *   npm run diff:provision -- --document penal-code-2015 --provision dieu8 --from-version 1 --to-version 2
+ *   npm run diff:provision -- --document 24/2018/QH14 --from-db old.db --to-db data/database.db
+ *
+ * Options:
+ *   --db <path>                  Database for version diffs (default: data/database.db)
+ *   --from-version / --to-version, --from-date / --to-date
+ *   --from-db <path> --to-db <path>
+ *                                Compare two builds; without --provision, every article
+ *                                of the document that changed
+ *   --format unified|word|json   Output format (default: unified)
+ *
+ * Exit codes:
+ *   0 = no differences
+ *   1 = differences found
+ *   2 = error
+ */
+
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../src/utils/statute-id.js';
+import { diffProvisionText, formatUnifiedDiff, type ProvisionDiff } from '../src/utils/provision-diff.js';
+import { diffProvision } from '../src/tools/diff-provision.js';
+import { findProvision } from '../src/tools/get-provision.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DB_PATH = resolve(__dirname, '../data/database.db');
+
+type Format = 'unified' | 'word' | 'json';
+
+interface Args {
+  document?: string;
+  provision?: string;
+  db: string;
+  fromDb?: string;
+  toDb?: string;
+  fromVersion?: number;
+  toVersion?: number;
+  fromDate?: string;
+  toDate?: string;
+  format: Format;
+}
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const parsed: Args = { db: DEFAULT_DB_PATH, format: 'unified' };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--document': parsed.document = value; i++; break;
+      case '--provision': parsed.provision = value; i++; break;
+      case '--db': parsed.db = resolve(value); i++; break;
+      case '--from-db': parsed.fromDb = resolve(value); i++; break;
+      case '--to-db': parsed.toDb = resolve(value); i++; break;
+      case '--from-version': parsed.fromVersion = parseInt(value, 10); i++; break;
+      case '--to-version': parsed.toVersion = parseInt(value, 10); i++; break;
+      case '--from-date': parsed.fromDate = value; i++; break;
+      case '--to-date': parsed.toDate = value; i++; break;
+      case '--format':
+        if (value !== 'unified' && value !== 'word' && value !== 'json') {
+          throw new Error(`Unknown format "${value}" (use unified, word or json)`);
+        }
+        parsed.format = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown option "${args[i]}"`);
+    }
+  }
+
+  return parsed;
+}
+
+async function openDatabase(path: string): Promise<InstanceType<typeof Database>> {
+  if (!existsSync(path)) throw new Error(`Database not found: ${path}`);
+  const { default: Database } = await import('@ansvar/mcp-sqlite');
+  return new Database(path, { readonly: true });
+}
+
+/** Diff one version pair inside a database. */
+async function diffVersions(args: Args): Promise<boolean> {
+  const db = await openDatabase(args.db);
+  try {
+    const response = await diffProvision(db, {
+      document_id: args.document!,
+      provision_ref: args.provision,
+      from_version: args.fromVersion,
+      to_version: args.toVersion,
+      from_date: args.fromDate,
+      to_date: args.toDate,
+      word_diff: args.format === 'word',
+    });
+    const result = response.results;
+    if (!result) {
+      throw new Error((response._metadata as { note?: string }).note ?? 'Diff failed');
+    }
+
+    if (args.format === 'json') {
+      const { unified: _unified, ...structured } = result;
+      console.log(JSON.stringify(structured, null, 2));
+    } else {
+      process.stdout.write(result.unified);
+    }
+    return !result.identical;
+  } finally {
+    db.close();
+  }
+}
+
+/** Diff the current text of one article, or all articles of a document, between two builds. */
+async function diffBuilds(args: Args): Promise<boolean> {
+  const fromDb = await openDatabase(args.fromDb!);
+  const toDb = await openDatabase(args.toDb!);
+  try {
+    const fromId = resolveDocumentId(fromDb, args.document!);
+    const toId = resolveDocumentId(toDb, args.document!);
+    if (!fromId && !toId) throw new Error(`No document found matching "${args.document}" in either database`);
+
+    const refs = (db: InstanceType<typeof Database>, id: string | null): string[] => {
+      if (!id) return [];
+      if (args.provision) {
+        const provision = findProvision(db, id, args.provision);
+        return provision ? [String(provision.provision_ref)] : [];
+      }
+      return (db.prepare('SELECT provision_ref FROM legal_provisions WHERE document_id = ? ORDER BY id')
+        .all(id) as { provision_ref: string }[]).map(r => r.provision_ref);
+    };
+    const content = (db: InstanceType<typeof Database>, id: string | null, ref: string): string => {
+      if (!id) return '';
+      const row = db.prepare('SELECT content FROM legal_provisions WHERE document_id = ? AND provision_ref = ?')
+        .get(id, ref) as { content: string } | undefined;
+      return row?.content ?? '';
+    };
+
+    const allRefs = [...new Set([...refs(toDb, toId), ...refs(fromDb, fromId)])];
+    if (allRefs.length === 0) throw new Error(`Provision "${args.provision}" not found in either database`);
+
+    const diffs: ProvisionDiff[] = [];
+    for (const ref of allRefs) {
+      const diff = diffProvisionText(ref, content(fromDb, fromId, ref), content(toDb, toId, ref));
+      if (!diff.identical || args.provision) diffs.push(diff);
+    }
+
+    if (args.format === 'json') {
+      console.log(JSON.stringify(args.provision ? diffs[0] : diffs, null, 2));
+    } else {
+      for (const diff of diffs) {
+        process.stdout.write(formatUnifiedDiff(
+          diff,
+          `${args.fromDb}:${fromId ?? args.document}:${diff.provision_ref}`,
+          `${args.toDb}:${toId ?? args.document}:${diff.provision_ref}`,
+          args.format === 'word',
+        ));
+      }
+    }
+    return diffs.some(d => !d.identical);
+  } finally {
+    fromDb.close();
+    toDb.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  if (!args.document) throw new Error('--document is required');
+  if (Boolean(args.fromDb) !== Boolean(args.toDb)) throw new Error('--from-db and --to-db go together');
+  if (!args.fromDb && !args.provision) throw new Error('--provision is required when diffing versions');
+
+  const changed = args.fromDb ? await diffBuilds(args) : await diffVersions(args);
+  process.exit(changed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(`ERROR: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(2);
+});
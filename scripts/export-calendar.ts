@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+/**
+ * Upcoming-changes calendar export for Vietnamese Law MCP.
+ *
+ * Writes the statutes and articles that enter into force, are amended or are
+ * repealed in a date window as an iCalendar file, for import into a calendar.
+ *
+ * Usage:
+ *   npm run calendar:export
+ *   npm run calendar:export -- --from 2025-07-01 --to 2025-12-31 --out changes.ics
+ *   npm run calendar:export -- --document 24/2018/QH14 --days 365
+ *
+ * Options:
+ *   --from <date>       Start of the window (default: today)
+ *   --to <date>         End of the window, inclusive
+ *   --days <n>          Window length when --to is not given (default: 90)
+ *   --document <id>     Only changes to this statute
+ *   --db <path>         Database (default: data/database.db)
+ *   --out <path>        Output file (default: stdout)
+ */
+
+import { existsSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getUpcomingChanges, type GetUpcomingChangesInput } from '../src/tools/get-upcoming-changes.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DB_PATH = resolve(__dirname, '../data/database.db');
+
+interface Args extends GetUpcomingChangesInput {
+  db: string;
+  out?: string;
+}
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const parsed: Args = { db: DEFAULT_DB_PATH, format: 'ics' };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--from': parsed.from_date = value; i++; break;
+      case '--to': parsed.to_date = value; i++; break;
+      case '--days': parsed.days = parseInt(value, 10); i++; break;
+      case '--document': parsed.document_id = value; i++; break;
+      case '--db': parsed.db = resolve(value); i++; break;
+      case '--out': parsed.out = resolve(value); i++; break;
+      default:
+        throw new Error(`Unknown option "${args[i]}"`);
+    }
+  }
+
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { db: dbPath, out, ...input } = parseArgs();
+  if (!existsSync(dbPath)) throw new Error(`Database not found: ${dbPath}`);
+
+  const { default: Database } = await import('@ansvar/mcp-sqlite');
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    const response = await getUpcomingChanges(db, input);
+    const result = response.results;
+    if (!result?.ics) {
+      throw new Error((response._metadata as { note?: string }).note ?? 'Export failed');
+    }
+
+    if (out) {
+      writeFileSync(out, result.ics);
+      console.error(`${result.total} changes from ${result.from_date} to ${result.to_date} written to ${out}`);
+    } else {
+      process.stdout.write(result.ics);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main().catch(error => {
+  console.error(`ERROR: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -8,7 +8,11 @@
  * Pipeline:
  * 1. Load census.json (or fall back to KEY_VIETNAMESE_ACTS from parser.ts)
  * 2. For each law: fetch HTML, parse articles ("Điều N." pattern), extract definitions
- * 3. Save structured seed JSON files for build-db.ts
+ * 3. Repair run-together syllables ("Nhànước" -> "Nhà nước"), see lib/text-repair.ts
+ * 4. Read issuing, signing and in-force dates and repeal clauses from the text
+ *    and check them against the census (lib/document-dates.ts); differences
+ *    are listed in data/reports/ingest-dates.json, never silently applied
+ * 5. Save structured seed JSON files for build-db.ts
  *
  * Usage:
  *   npm run ingest                    # Full ingestion from census
@@ -25,7 +29,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { fetchWithRateLimit } from './lib/fetcher.js';
-import { parseVietnameseHtml, KEY_VIETNAMESE_ACTS, type ActIndexEntry, type ParsedAct } from './lib/parser.js';
+import { pageText, parseVietnameseHtml, KEY_VIETNAMESE_ACTS, type ActIndexEntry, type ParsedAct } from './lib/parser.js';
+import { corpusFromAct, repairAct } from './lib/text-repair.js';
+import { extractEffectiveDates } from './lib/effective-dates.js';
+import {
+  compareWithCensus,
+  extractDocumentDates,
+  type DateConflict,
+  type DocumentDates,
+} from './lib/document-dates.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -33,6 +45,7 @@ const __dirname = path.dirname(__filename);
 const SOURCE_DIR = path.resolve(__dirname, '../data/source');
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
 const CENSUS_PATH = path.resolve(__dirname, '../data/census.json');
+const REPORT_DIR = path.resolve(__dirname, '../data/reports');
 
 // Census types
 interface CensusLaw {
@@ -47,6 +60,7 @@ interface CensusLaw {
   in_force_date: string;
   url: string;
   description: string;
+  replaces?: { official_number: string; title: string }[];
   classification: 'ingestable' | 'inaccessible' | 'metadata_only';
 }
 
@@ -91,9 +105,90 @@ function censusLawToIndexEntry(law: CensusLaw): ActIndexEntry {
     url: law.url,
     officialNumber: law.official_number,
     description: law.description,
+    replaces: law.replaces,
   };
 }
 
+interface DateReport {
+  id: string;
+  official_number: string;
+  /** Read from the fetched page, or only from the articles of a cached seed */
+  read_from: 'page' | 'seed';
+  text: Omit<DocumentDates, 'repeals'> & { repeals: string[] };
+  conflicts: DateConflict[];
+}
+
+/**
+ * Dates and repeals the text states, checked against the census entry. The
+ * census values stay in the seed; only those it leaves empty are filled in.
+ */
+function reconcileDates(act: ActIndexEntry, parsed: ParsedAct, html: string | null): DateReport {
+  const effective = parsed.effective_dates ?? extractEffectiveDates(parsed.provisions);
+  const text = extractDocumentDates(html ? pageText(html) : null, parsed.provisions, effective, act.officialNumber);
+  const conflicts = compareWithCensus({
+    official_number: act.officialNumber,
+    status: act.status,
+    issued_date: act.issuedDate,
+    in_force_date: act.inForceDate,
+    replaces: act.replaces,
+  }, text);
+
+  if (!parsed.issued_date && text.issued_date) parsed.issued_date = text.issued_date;
+  if (!parsed.in_force_date && text.in_force_date) parsed.in_force_date = text.in_force_date;
+
+  return {
+    id: act.id,
+    official_number: act.officialNumber,
+    read_from: html ? 'page' : 'seed',
+    text: { ...text, repeals: text.repeals.map(r => r.official_number) },
+    conflicts,
+  };
+}
+
+/**
+ * Census entries whose dates or status differ from the KEY_VIETNAMESE_ACTS
+ * fallback list, which repeats them by hand.
+ */
+function fallbackListDrift(acts: ActIndexEntry[]): { id: string; field: string; census: string; fallback: string }[] {
+  const drift: { id: string; field: string; census: string; fallback: string }[] = [];
+  for (const fallback of KEY_VIETNAMESE_ACTS) {
+    const act = acts.find(a => a.id === fallback.id);
+    if (!act) continue;
+    const fields: [string, string, string][] = [
+      ['official_number', act.officialNumber, fallback.officialNumber],
+      ['status', act.status, fallback.status],
+      ['issued_date', act.issuedDate, fallback.issuedDate],
+      ['in_force_date', act.inForceDate, fallback.inForceDate],
+    ];
+    for (const [field, census, value] of fields) {
+      if (census !== value) drift.push({ id: act.id, field, census, fallback: value });
+    }
+  }
+  return drift;
+}
+
+/**
+ * Write data/reports/ingest-dates.json and list the conflicts.
+ */
+function writeDateReport(reports: DateReport[], acts: ActIndexEntry[]): void {
+  const drift = fallbackListDrift(acts);
+  fs.mkdirSync(REPORT_DIR, { recursive: true });
+  const reportPath = path.join(REPORT_DIR, 'ingest-dates.json');
+  fs.writeFileSync(reportPath, JSON.stringify({ documents: reports, fallback_list_drift: drift }, null, 2) + '\n');
+
+  const conflicting = reports.filter(r => r.conflicts.length > 0);
+  console.log(`\n  Date conflicts with the census: ${conflicting.length} of ${reports.length} documents`);
+  for (const report of conflicting) {
+    for (const c of report.conflicts) {
+      console.log(`    ${report.id.padEnd(40)} ${c.field.padEnd(16)} census ${c.census ?? '-'}, text ${c.text ?? '-'}`);
+    }
+  }
+  for (const d of drift) {
+    console.log(`    ${d.id.padEnd(40)} ${d.field.padEnd(16)} census ${d.census}, KEY_VIETNAMESE_ACTS ${d.fallback}`);
+  }
+  console.log(`  Report: ${reportPath}`);
+}
+
 /**
  * Load acts from census.json if available, otherwise fall back to KEY_VIETNAMESE_ACTS.
  */
@@ -129,7 +224,8 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
   let totalDefinitions = 0;
   const startTime = Date.now();
 
-  const report: { act: string; provisions: number; definitions: number; status: string }[] = [];
+  const report: { act: string; provisions: number; definitions: number; repairs: number; status: string }[] = [];
+  const dateReports: DateReport[] = [];
 
   for (const act of acts) {
     const sourceFile = path.join(SOURCE_DIR, `${act.id}.html`);
@@ -155,7 +251,9 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
         const defCount = existing.definitions?.length ?? 0;
         totalProvisions += provCount;
         totalDefinitions += defCount;
-        report.push({ act: act.shortName, provisions: provCount, definitions: defCount, status: 'cached' });
+        // Checked again without rewriting the seed
+        if (provCount > 0) dateReports.push(reconcileDates(act, { ...existing }, null));
+        report.push({ act: act.shortName, provisions: provCount, definitions: defCount, repairs: 0, status: 'cached' });
       } catch { /* ignore */ }
       skipped++;
       processed++;
@@ -187,10 +285,23 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
       }
 
       let parsed: ParsedAct;
+      let repairs = 0;
 
       if (html && html.length > 1000) {
         parsed = parseVietnameseHtml(html, act);
-        console.log(`    -> ${parsed.provisions.length} provisions, ${parsed.definitions.length} definitions`);
+        const repairStats = repairAct(parsed, corpusFromAct(parsed));
+        repairs = repairStats.syllableSplits + repairStats.punctuationSpacing;
+        // Read after repair, so run-together dates ("01tháng 7") are whole again
+        parsed.effective_dates = extractEffectiveDates(parsed.provisions);
+        const dates = reconcileDates(act, parsed, html);
+        dateReports.push(dates);
+        console.log(
+          `    -> ${parsed.provisions.length} provisions, ${parsed.definitions.length} definitions, ` +
+          `${repairStats.syllableSplits} words re-split, ${repairStats.punctuationSpacing} spaces restored`
+        );
+        if (dates.conflicts.length > 0) {
+          console.log(`    -> ${dates.conflicts.length} conflict(s) with the census: ${dates.conflicts.map(c => c.field).join(', ')}`);
+        }
       } else {
         // Create metadata-only seed with no provisions (will be counted but not useful for search)
         parsed = {
@@ -202,6 +313,7 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
           status: act.status,
           issued_date: act.issuedDate,
           in_force_date: act.inForceDate,
+          official_number: act.officialNumber,
           url: act.url,
           description: act.description,
           provisions: [],
@@ -218,12 +330,13 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
         act: act.shortName,
         provisions: parsed.provisions.length,
         definitions: parsed.definitions.length,
+        repairs,
         status: html ? 'OK' : 'metadata',
       });
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       console.log(`  ERROR ${act.shortName}: ${msg}`);
-      report.push({ act: act.shortName, provisions: 0, definitions: 0, status: `ERROR: ${msg.substring(0, 60)}` });
+      report.push({ act: act.shortName, provisions: 0, definitions: 0, repairs: 0, status: `ERROR: ${msg.substring(0, 60)}` });
       failed++;
     }
 
@@ -245,11 +358,12 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
   console.log('='.repeat(70));
 
   if (report.length > 0 && report.length <= 120) {
-    console.log(`\n  ${'Act'.padEnd(25)} ${'Prov'.padEnd(8)} ${'Defs'.padEnd(8)} Status`);
-    console.log(`  ${'-'.repeat(65)}`);
+    console.log(`\n  ${'Act'.padEnd(25)} ${'Prov'.padEnd(8)} ${'Defs'.padEnd(8)} ${'Fixes'.padEnd(8)} Status`);
+    console.log(`  ${'-'.repeat(74)}`);
     for (const r of report) {
       console.log(
-        `  ${r.act.substring(0, 24).padEnd(25)} ${String(r.provisions).padEnd(8)} ${String(r.definitions).padEnd(8)} ${r.status}`
+        `  ${r.act.substring(0, 24).padEnd(25)} ${String(r.provisions).padEnd(8)} ${String(r.definitions).padEnd(8)} ` +
+        `${String(r.repairs).padEnd(8)} ${r.status}`
       );
     }
   } else if (report.length > 120) {
@@ -276,6 +390,8 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
   console.log(`  Total provisions:  ${totalProvisions}`);
   console.log(`  Total definitions: ${totalDefinitions}`);
 
+  writeDateReport(dateReports, acts);
+
   // Update census.json with ingestion stats
   if (fs.existsSync(CENSUS_PATH)) {
     const census = JSON.parse(fs.readFileSync(CENSUS_PATH, 'utf-8'));
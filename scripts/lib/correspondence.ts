@@ -0,0 +1,90 @@
+/**
+ * Article correspondence between a law and the law that replaced it.
+ *
+ * Curated tables live in data/correspondence/*.json, one file per pair of
+ * laws. When both laws are in the database, articles the table does not
+ * cover are matched by text similarity and recorded as suggestions.
+ */
+
+import { normalizeForMatch } from '../../src/utils/vietnamese-text.js';
+
+export type MatchType = 'equivalent' | 'split' | 'merged' | 'dropped';
+
+export interface CorrespondenceSeed {
+  /** Census/database ID of the older law, or its number and title */
+  from: string | { official_number: string; title?: string };
+  /** Database ID of the newer law */
+  to: string;
+  description?: string;
+  articles: CorrespondenceArticleSeed[];
+}
+
+export interface CorrespondenceArticleSeed {
+  /** provision_ref in the older law, e.g. "dieu226a" */
+  from: string;
+  /** provision_refs in the newer law; empty when the article was dropped */
+  to: string[];
+  match: MatchType;
+  note?: string;
+}
+
+export interface ArticleText {
+  provision_ref: string;
+  content: string;
+}
+
+export interface SuggestedMatch {
+  from: string;
+  to: string;
+  similarity: number;
+}
+
+/** Below this Dice similarity no suggestion is made */
+export const SUGGESTION_THRESHOLD = 0.5;
+
+/** Folded word pairs of an article body, without its "Điều N." heading */
+function shingles(content: string): Set<string> {
+  const words = normalizeForMatch(content.replace(/^\s*Điều\s+\d+[a-zđ]?\s*[.:]?/i, ''))
+    .split(/\s+/)
+    .filter(w => w.length > 0);
+  const pairs = new Set<string>();
+  for (let i = 0; i + 1 < words.length; i++) pairs.add(`${words[i]} ${words[i + 1]}`);
+  return pairs;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const pair of small) if (large.has(pair)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * For each article of the older law, the most similar article of the newer
+ * one, when the two are similar enough. Articles in `skip` (already curated)
+ * are left out.
+ */
+export function suggestCorrespondence(
+  older: ArticleText[],
+  newer: ArticleText[],
+  skip: Set<string> = new Set(),
+): SuggestedMatch[] {
+  const candidates = newer.map(article => ({ ref: article.provision_ref, pairs: shingles(article.content) }));
+  const suggestions: SuggestedMatch[] = [];
+
+  for (const article of older) {
+    if (skip.has(article.provision_ref)) continue;
+    const pairs = shingles(article.content);
+    let best: SuggestedMatch | undefined;
+    for (const candidate of candidates) {
+      const similarity = dice(pairs, candidate.pairs);
+      if (similarity >= SUGGESTION_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { from: article.provision_ref, to: candidate.ref, similarity };
+      }
+    }
+    if (best) suggestions.push({ ...best, similarity: Math.round(best.similarity * 1000) / 1000 });
+  }
+
+  return suggestions;
+}
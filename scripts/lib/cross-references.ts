@@ -0,0 +1,134 @@
+/**
+ * References from one article to another, read from the article text.
+ *
+ * Vietnamese statutes cite their own articles without naming the statute
+ * ("theo quy định tại Điều 26 của Luật này", "khoản 2 Điều 10"), clauses of
+ * the citing article as "khoản 1 Điều này", and other statutes by name or
+ * number ("quy định của Luật Doanh nghiệp", "Nghị định số 13/2023/NĐ-CP").
+ *
+ * Citations are found with the extractor behind extract_citations; this
+ * module decides which document and article each one points at. Citations
+ * of laws or articles not in the database are left out.
+ */
+
+import { extractCitations, type ExtractedCitation } from '../../src/utils/citation-extractor.js';
+import { articleProvisionRef } from '../../src/utils/citation-parser.js';
+import { segmentRef } from '../../src/utils/provision-segments.js';
+import { normalizeOfficialNumber } from '../../src/utils/statute-id.js';
+import { normalizeForMatch } from '../../src/utils/vietnamese-text.js';
+
+export interface CrossReference {
+  target_document_id: string;
+  /** Null when the citation names only the document */
+  target_provision_ref: string | null;
+  /** "dieu26.k2.a" when a clause or point is cited */
+  target_segment_ref: string | null;
+  /** The citation as written */
+  cited_as: string;
+}
+
+export interface DocumentNames {
+  id: string;
+  title: string;
+  title_en: string | null;
+  short_name: string | null;
+  official_number: string | null;
+}
+
+/** "khoản 1 Điều này", "điểm a khoản 2 Điều này": a clause of the citing article */
+const THIS_ARTICLE = /(?:điểm\s+(đ|[a-z])\s*,?\s+)?khoản\s+(\d+)\s+(?:của\s+)?Điều\s+này/giu;
+
+/**
+ * "Điều 9. Quyền ..." after a sentence or a chapter heading ("QUỐC HỘI
+ * Điều 69.") is the heading of the next article, which scraped seeds often
+ * run into the one before. A citation follows a lowercase word ("tại Điều
+ * 27.") or a list comma.
+ */
+function isArticleHeading(text: string, citation: ExtractedCitation): boolean {
+  if (citation.clause || citation.documentRef || citation.relativeDocument) return false;
+  const before = text.slice(0, citation.start).trimEnd();
+  return !/[\p{Ll},]$/u.test(before) && /^\s*\./.test(text.slice(citation.end));
+}
+
+/**
+ * Resolver from a cited document name or number to a database ID. A name
+ * must be contained in exactly one document's title, English title or short
+ * name ("năm" and diacritics ignored); a cited number must match exactly, so
+ * "Luật Doanh nghiệp số 68/2014/QH13" never resolves to the 2020 law.
+ */
+export function documentResolver(documents: DocumentNames[]): (ref: string) => string | null {
+  const byNumber = new Map<string, string>();
+  for (const doc of documents) {
+    const key = doc.official_number ? normalizeOfficialNumber(doc.official_number) : null;
+    if (key) byNumber.set(key, doc.id);
+  }
+  const names = documents.map(doc => ({
+    id: doc.id,
+    names: [doc.title, doc.title_en, doc.short_name]
+      .filter((n): n is string => Boolean(n))
+      .map(normalizeForMatch),
+  }));
+
+  return (ref: string) => {
+    const number = normalizeOfficialNumber(ref);
+    if (number) return byNumber.get(number) ?? null;
+
+    const needle = normalizeForMatch(ref.replace(/\s+n[ăa]m\s+(\d{4})\b/giu, ' $1')).trim();
+    if (!needle) return null;
+    const matches = names.filter(doc => doc.names.some(name => name.includes(needle)));
+    return matches.length === 1 ? matches[0].id : null;
+  };
+}
+
+/**
+ * Articles, clauses and documents cited by one article. `hasProvision` tells
+ * whether an article exists, so citations of missing articles are dropped.
+ */
+export function extractCrossReferences(
+  documentId: string,
+  provisionRef: string,
+  content: string,
+  resolveDocument: (ref: string) => string | null,
+  hasProvision: (documentId: string, provisionRef: string) => boolean,
+): CrossReference[] {
+  const found = new Map<string, CrossReference>();
+  const add = (ref: CrossReference) => {
+    const key = `${ref.target_document_id}|${ref.target_provision_ref}|${ref.target_segment_ref}`;
+    if (!found.has(key)) found.set(key, ref);
+  };
+
+  const text = content.normalize('NFC');
+  for (const citation of extractCitations(text)) {
+    if (isArticleHeading(text, citation)) continue;
+    // An article cited without a document is one of the citing statute's own
+    const target = citation.relativeDocument || (!citation.documentRef && citation.article)
+      ? documentId
+      : citation.documentRef ? resolveDocument(citation.documentRef) : null;
+    if (!target) continue;
+
+    if (!citation.article) {
+      if (target !== documentId) {
+        add({ target_document_id: target, target_provision_ref: null, target_segment_ref: null, cited_as: citation.text });
+      }
+      continue;
+    }
+
+    const ref = articleProvisionRef(citation.article);
+    if (!hasProvision(target, ref)) continue;
+    const segment = citation.clause ? segmentRef(ref, citation.clause, citation.point) : null;
+    // The article's own heading ("Điều 8.") is not a reference
+    if (target === documentId && ref === provisionRef && !segment) continue;
+    add({ target_document_id: target, target_provision_ref: ref, target_segment_ref: segment, cited_as: citation.text });
+  }
+
+  for (const match of text.matchAll(THIS_ARTICLE)) {
+    add({
+      target_document_id: documentId,
+      target_provision_ref: provisionRef,
+      target_segment_ref: segmentRef(provisionRef, match[2], match[1]?.toLowerCase()),
+      cited_as: match[0],
+    });
+  }
+
+  return [...found.values()];
+}
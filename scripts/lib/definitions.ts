@@ -0,0 +1,229 @@
+/**
+ * Definition extraction from interpretation articles ("Giải thích từ ngữ").
+ *
+ * An interpretation article lists one term per clause:
+ *
+ *   1. Dữ liệu cá nhân là thông tin ...
+ *   2. Xử lý dữ liệu cá nhân được hiểu là ...
+ *   3. Dữ liệu cá nhân nhạy cảm gồm:
+ *      a) Quan điểm chính trị là ...;
+ *      b) ...
+ *
+ * A clause's lettered points belong to its definition, and points that are
+ * themselves "term là ..." are also recorded as sub-definitions. A clause
+ * with no connective continues the previous definition (sources often break
+ * a long definition into numbered paragraphs). English translations ("“cyberspace”
+ * means ...") are handled the same way.
+ */
+
+import { segmentProvision, type ClauseSegment, type PointSegment } from '../../src/utils/provision-segments.js';
+
+export interface ParsedDefinition {
+  term: string;
+  term_en?: string;
+  definition: string;
+  source_provision?: string;
+  /** Clause (khoản) the definition comes from */
+  clause?: string;
+  /** Point (điểm) for sub-definitions */
+  point?: string;
+}
+
+/** What was found in one interpretation article. */
+export interface DefinitionArticleReport {
+  provision_ref: string;
+  title: string;
+  clauses: number;
+  definitions: number;
+  /** Clauses that continued the previous definition */
+  continued: string[];
+  /** Clauses that yielded nothing (no term before a connective) */
+  skipped: string[];
+}
+
+export interface DefinitionReport {
+  document_id: string;
+  definitions: number;
+  articles: DefinitionArticleReport[];
+  /** Interpretation articles that yielded no terms */
+  zero_term_articles: string[];
+}
+
+const MAX_DEFINITION_LENGTH = 4000;
+const MAX_TERM_LENGTH = 150;
+const MAX_TERM_WORDS = 20;
+const MAX_SUBTERM_WORDS = 12;
+
+const INTERPRETATION_TITLE = /giải\s+thích\s+(?:từ\s+ngữ|thuật\s+ngữ)|từ\s+ngữ|interpretation|definition/iu;
+
+/** Lead-in sentence of an interpretation article, possibly inside another article's text. */
+const INTERPRETATION_INTRO = new RegExp(
+  [
+    '(?:các\\s+)?(?:từ\\s+ngữ|thuật\\s+ngữ)\\s+(?:dưới|sau)\\s+đây\\s+được\\s+hiểu\\s+như\\s+sau\\s*:?',
+    '(?:the\\s+)?(?:following\\s+)?terms?\\s+(?:below\\s+|used\\s+herein\\s+|hereunder\\s+)?' +
+      '(?:are|is|shall\\s+be)\\s+(?:construed|understood|interpreted)(?:\\s+as\\s*follows)?\\s*:?',
+  ].join('|'),
+  'iu',
+);
+
+/** Connectives between term and definition; "được hiểu là" before "là". */
+const VI_CONNECTIVE = /\s+(?:được\s+hiểu\s+là|có\s+nghĩa\s+là|là|bao\s+gồm|gồm\s+có|gồm)(?=[\s:])\s*:?\s*/u;
+const EN_CONNECTIVE = /\s+(?:means|refers\s+to|is\s+understood\s+as|includes|include)(?=[\s:])\s*:?\s*/u;
+
+const QUOTES = /^["'“”‘’«»]+|["'“”‘’«»]+$/gu;
+
+/**
+ * Whether an article is an interpretation article, by its title or by the
+ * "được hiểu như sau" lead-in.
+ */
+export function isInterpretationArticle(title: string, content: string): boolean {
+  return INTERPRETATION_TITLE.test(title) || INTERPRETATION_INTRO.test(content);
+}
+
+interface TermSplit {
+  term: string;
+  term_en?: string;
+  definition: string;
+}
+
+/**
+ * Split "term <connective> definition". Returns null when the text before
+ * the connective does not look like a term. The definition may be empty when
+ * it continues in lettered points ("... gồm:").
+ */
+function splitTerm(text: string, maxWords: number, allowEmpty = false): TermSplit | null {
+  const candidates: { match: RegExpMatchArray; english: boolean }[] = [];
+  const vi = text.match(VI_CONNECTIVE);
+  const en = text.match(EN_CONNECTIVE);
+  if (vi?.index !== undefined) candidates.push({ match: vi, english: false });
+  if (en?.index !== undefined) candidates.push({ match: en, english: true });
+  if (candidates.length === 0) return null;
+
+  const { match, english } = candidates.sort((a, b) => (a.match.index ?? 0) - (b.match.index ?? 0))[0];
+  const index = match.index ?? 0;
+  let term = text.slice(0, index).replace(/\s+/g, ' ').trim().replace(QUOTES, '').trim();
+  const definition = text.slice(index + match[0].length).replace(/[ \t]+/g, ' ').trim();
+
+  if (!term || term.length > MAX_TERM_LENGTH || term.split(' ').length > maxWords) return null;
+  // A sentence or list before the connective is running text, not a term
+  if (/[.;,!?]/.test(term.replace(/\([^)]*\)/g, ''))) return null;
+  if (!definition && !allowEmpty) return null;
+
+  // "Trang thông tin điện tử (Website)": English gloss in parentheses
+  let termEn: string | undefined;
+  const gloss = term.match(/^(.*\S)\s*\(([^)]*)\)$/u);
+  if (gloss && /^[\x20-\x7e]+$/.test(gloss[2])) {
+    term = gloss[1].trim();
+    termEn = gloss[2].trim();
+  }
+  if (english) termEn = term;
+
+  return { term, term_en: termEn, definition };
+}
+
+function pointLines(points: PointSegment[]): string {
+  return points.map(p => `${p.letter}) ${p.text}`).join('\n');
+}
+
+/** Clause text before its first point, without the clause number. */
+function clauseLead(content: string, clause: ClauseSegment): string {
+  const end = clause.points.length > 0 ? clause.points[0].start : clause.end;
+  return content.slice(clause.start, end).replace(/^\d{1,3}\s*\.+\s*/, '').trim();
+}
+
+function cap(text: string): string {
+  return text.length > MAX_DEFINITION_LENGTH ? text.substring(0, MAX_DEFINITION_LENGTH) : text;
+}
+
+/**
+ * Extract the definitions of one interpretation article.
+ */
+export function extractDefinitions(
+  content: string,
+  sourceProvision: string,
+  title = '',
+): { definitions: ParsedDefinition[]; report: DefinitionArticleReport } {
+  // Start after the lead-in, so an interpretation article swallowed into
+  // another article's text is still segmented from its clause 1
+  const intro = content.match(INTERPRETATION_INTRO);
+  const body = intro?.index !== undefined ? content.slice(intro.index + intro[0].length) : content;
+
+  const definitions: ParsedDefinition[] = [];
+  const report: DefinitionArticleReport = {
+    provision_ref: sourceProvision,
+    title,
+    clauses: 0,
+    definitions: 0,
+    continued: [],
+    skipped: [],
+  };
+
+  const addSubDefinitions = (points: PointSegment[], clause?: string) => {
+    for (const point of points) {
+      const split = splitTerm(point.text, MAX_SUBTERM_WORDS);
+      if (!split) continue;
+      definitions.push({
+        ...split,
+        definition: cap(split.definition),
+        source_provision: sourceProvision,
+        clause,
+        point: point.letter,
+      });
+    }
+  };
+
+  const clauses = segmentProvision(body);
+  report.clauses = clauses.length;
+
+  if (clauses.length === 0) {
+    // Some decrees list terms as lettered points directly under the article
+    const points = segmentProvision(`1. ${body}`)[0]?.points ?? [];
+    addSubDefinitions(points);
+  }
+
+  let previous: ParsedDefinition | undefined;
+  for (const clause of clauses) {
+    const lead = clauseLead(body, clause);
+    const split = splitTerm(lead, MAX_TERM_WORDS, clause.points.length > 0);
+
+    if (!split) {
+      if (previous && lead) {
+        previous.definition = cap(`${previous.definition}\n${clause.text}`);
+        report.continued.push(clause.number);
+      } else {
+        report.skipped.push(clause.number);
+      }
+      continue;
+    }
+
+    const definition = clause.points.length > 0
+      ? `${split.definition}\n${pointLines(clause.points)}`
+      : split.definition;
+    previous = {
+      ...split,
+      definition: cap(definition.trim()),
+      source_provision: sourceProvision,
+      clause: clause.number,
+    };
+    definitions.push(previous);
+    addSubDefinitions(clause.points, clause.number);
+  }
+
+  report.definitions = definitions.length;
+  return { definitions, report };
+}
+
+/**
+ * Extraction report for a document from its per-article reports.
+ */
+export function documentDefinitionReport(
+  documentId: string,
+  articles: DefinitionArticleReport[],
+): DefinitionReport {
+  return {
+    document_id: documentId,
+    definitions: articles.reduce((sum, a) => sum + a.definitions, 0),
+    articles,
+    zero_term_articles: articles.filter(a => a.definitions === 0).map(a => a.provision_ref),
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Dates and repeal clauses of a fetched statute, checked against the census.
+ *
+ * The census types status, issued_date and in_force_date by hand. The text
+ * states them itself:
+ *
+ *   - the dateline under the national motto ("Hà Nội, ngày 12 tháng 6 năm
+ *     2018") is the day the instrument was signed;
+ *   - a law's closing formula ("... thông qua ngày 12 tháng 6 năm 2018") is
+ *     the day the National Assembly passed it, its issuing date;
+ *   - the "Hiệu lực thi hành" article, or a decision's "có hiệu lực kể từ ngày
+ *     ký", gives the entry-into-force date;
+ *   - "... hết hiệu lực" sentences name the instruments it repeals.
+ *
+ * Thu Vien Phap Luat also shows "Số hiệu" and "Ngày ban hành" above the text,
+ * which catches pages that hold a different document than the census expects.
+ *
+ * Where text and census disagree the census value is kept and the difference
+ * is reported; where the census has no value the text's is used.
+ */
+
+import { findVietnameseDate, parseDate } from '../../src/utils/vietnamese-date.js';
+import { normalizeOfficialNumber } from '../../src/utils/statute-id.js';
+import type { EffectiveDates } from './effective-dates.js';
+import { extractRepealedInstruments, type RepealedInstrument } from './repeal-clauses.js';
+
+export interface DocumentDates {
+  /** "Số hiệu" shown by the source page */
+  official_number: string | null;
+  /** Day passed ("thông qua ngày"), else the signing date, else the page's "Ngày ban hành" */
+  issued_date: string | null;
+  /** Dateline under the heading */
+  signed_date: string | null;
+  in_force_date: string | null;
+  /** Status implied by in_force_date on the day of ingest; a repeal is never visible in the law itself */
+  status: 'in_force' | 'not_yet_in_force' | null;
+  repeals: RepealedInstrument[];
+}
+
+export interface CensusDates {
+  official_number?: string | null;
+  status: string;
+  issued_date: string;
+  in_force_date: string;
+  replaces?: { official_number: string; title: string }[];
+}
+
+export interface DateConflict {
+  field: 'official_number' | 'issued_date' | 'in_force_date' | 'status' | 'repeals';
+  census: string | null;
+  text: string | null;
+}
+
+interface ArticleText {
+  content: string;
+}
+
+const DATELINE = /[\p{L} .-]{2,40},\s*(?=ng[àa]y\s*\d{1,2}\s*th[áa]ng)/u;
+const PASSED = /thông\s*qua\s*(?=ng[àa]y\s*\d)/iu;
+const PAGE_NUMBER = /Số\s*hiệu\s*:\s*([^\s<]+)/u;
+const PAGE_ISSUED = /Ngày\s*ban\s*hành\s*:\s*(\d{1,2}\/\d{1,2}\/\d{4})/u;
+const PAGE_IN_FORCE = /Ngày\s*hiệu\s*lực\s*:\s*(\d{1,2}\/\d{1,2}\/\d{4})/u;
+const THIS_INSTRUMENT = '(?:Hiến\\s*pháp|Bộ\\s*luật|Luật|Nghị\\s*định|Pháp\\s*lệnh|Nghị\\s*quyết|Quyết\\s*định|Thông\\s*tư)\\s*này';
+/** Instruments without a "Hiệu lực thi hành" heading (the Constitution, decisions) state it in passing */
+const STATED_IN_FORCE = new RegExp(`${THIS_INSTRUMENT}\\s*có\\s*hiệu\\s*lực(?:\\s*thi\\s*hành)?\\s*(?:kể\\s*)?từ\\s*(?=ng[àa]y\\s*\\d)`, 'iu');
+const FROM_SIGNING = new RegExp(`${THIS_INSTRUMENT}\\s*có\\s*hiệu\\s*lực(?:\\s*thi\\s*hành)?\\s*(?:kể\\s*)?từ\\s*ngày\\s*ký`, 'iu');
+const DAYS_AFTER_SIGNING = new RegExp(
+  `${THIS_INSTRUMENT}\\s*có\\s*hiệu\\s*lực(?:\\s*thi\\s*hành)?\\s*sau\\s*(\\d+)\\s*ngày\\s*(?:kể\\s*)?từ\\s*ngày\\s*ký`, 'iu',
+);
+
+/** The date starting at a match of `marker`, if one does. */
+function dateAfter(text: string, marker: RegExp): string | null {
+  const match = text.match(marker);
+  if (!match || match.index === undefined) return null;
+  const found = findVietnameseDate(text.slice(match.index + match[0].length, match.index + match[0].length + 60));
+  return found && found.index === 0 ? found.date : null;
+}
+
+function addDays(iso: string, days: number): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Dates and repeals stated by a statute. `pageText` is the whole fetched page
+ * as plain text, or null when only the parsed articles are at hand (cached
+ * seeds); `effective` is the result of extractEffectiveDates on the articles.
+ */
+export function extractDocumentDates(
+  pageText: string | null,
+  provisions: ArticleText[],
+  effective: EffectiveDates,
+  ownNumber?: string | null,
+  today = new Date().toISOString().slice(0, 10),
+): DocumentDates {
+  const page = pageText?.normalize('NFC') ?? '';
+  const articles = provisions.map(p => p.content).join('\n').normalize('NFC');
+
+  // News snippets on the page quote dates too, so the dateline is the first
+  // one and the closing formula is looked for in the articles before the page
+  const signed = dateAfter(page, DATELINE);
+  const passed = dateAfter(articles, PASSED) ?? dateAfter(page, PASSED);
+  const pageIssued = page.match(PAGE_ISSUED);
+  const issued = passed ?? signed ?? (pageIssued ? parseDate(pageIssued[1]) : null);
+
+  let inForce = effective.in_force_date ?? dateAfter(articles, STATED_IN_FORCE);
+  if (!inForce && signed && FROM_SIGNING.test(articles)) inForce = signed;
+  const daysAfter = articles.match(DAYS_AFTER_SIGNING);
+  if (!inForce && signed && daysAfter) inForce = addDays(signed, Number(daysAfter[1]));
+  const pageInForce = page.match(PAGE_IN_FORCE);
+  if (!inForce && pageInForce) inForce = parseDate(pageInForce[1]);
+
+  return {
+    official_number: page.match(PAGE_NUMBER)?.[1] ?? null,
+    issued_date: issued,
+    signed_date: signed,
+    in_force_date: inForce,
+    status: inForce ? (inForce <= today ? 'in_force' : 'not_yet_in_force') : null,
+    repeals: extractRepealedInstruments(articles, ownNumber),
+  };
+}
+
+/**
+ * Differences between the census entry and what the text states. Values the
+ * text does not state are not differences.
+ */
+export function compareWithCensus(census: CensusDates, text: DocumentDates): DateConflict[] {
+  const conflicts: DateConflict[] = [];
+  const differs = (a: string | null | undefined, b: string | null) => Boolean(a) && Boolean(b) && a !== b;
+
+  // "715/QĐ-UBND" has no year and no comparison key, so it is compared as
+  // written; "N/A" and the page's "Khongso" (no number) are no number at all
+  const key = (n: string | null | undefined) => (n && /\d/.test(n) ? normalizeOfficialNumber(n) ?? n.trim() : null);
+  const censusNumber = key(census.official_number);
+  const textNumber = key(text.official_number);
+  if (differs(censusNumber, textNumber)) {
+    conflicts.push({ field: 'official_number', census: census.official_number ?? null, text: text.official_number });
+  }
+  if (differs(census.issued_date, text.issued_date)) {
+    conflicts.push({ field: 'issued_date', census: census.issued_date, text: text.issued_date });
+  }
+  if (differs(census.in_force_date, text.in_force_date)) {
+    conflicts.push({ field: 'in_force_date', census: census.in_force_date, text: text.in_force_date });
+  }
+  // The text cannot show a repeal, and an amended law is in force
+  const censusStatus = census.status === 'amended' ? 'in_force' : census.status;
+  if (census.status !== 'repealed' && differs(censusStatus, text.status)) {
+    conflicts.push({ field: 'status', census: census.status, text: text.status });
+  }
+
+  const listed = new Set((census.replaces ?? []).map(r => normalizeOfficialNumber(r.official_number)));
+  const stated = new Set(text.repeals.map(r => normalizeOfficialNumber(r.official_number)));
+  for (const repealed of text.repeals) {
+    if (!listed.has(normalizeOfficialNumber(repealed.official_number))) {
+      conflicts.push({ field: 'repeals', census: null, text: repealed.official_number });
+    }
+  }
+  // A census predecessor is only missing from the text when the text has a repeal clause at all
+  if (stated.size > 0) {
+    for (const predecessor of census.replaces ?? []) {
+      if (!stated.has(normalizeOfficialNumber(predecessor.official_number))) {
+        conflicts.push({ field: 'repeals', census: predecessor.official_number, text: null });
+      }
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,257 @@
+/**
+ * Entry-into-force dates from a statute's final provisions.
+ *
+ * The "Hiệu lực thi hành" article gives the statute's date and any parts
+ * that start later or earlier:
+ *
+ *   1. Luật này có hiệu lực thi hành từ ngày 01 tháng 7 năm 2024, trừ trường
+ *      hợp quy định tại khoản 2 Điều này.
+ *   2. Khoản 3 Điều 10, Điều 25 và Điều 26 của Luật này có hiệu lực thi hành
+ *      từ ngày 01 tháng 01 năm 2025.
+ *
+ * A transitional article ("Quy định chuyển tiếp") keeps earlier rules alive
+ * for a period; it is recorded with the last date it names, if any. A clause
+ * giving a period "kể từ ngày Luật này có hiệu lực" is recorded the same way,
+ * with the end of the period counted from the statute's date.
+ *
+ * English translations are read too ("Article 43. Effect 1. This Law comes
+ * into force from January 01, 2019."), as is a bare "Hiến pháp này có hiệu
+ * lực từ ngày …" when there is no in-force article.
+ *
+ * Scraped seeds often run the final articles into the one before, so the
+ * articles are found by their headings in the whole text, not by provision.
+ */
+
+import { findEnglishDate, findVietnameseDate } from '../../src/utils/vietnamese-date.js';
+
+export interface EffectiveDateEntry {
+  /** Article the date applies to ("dieu25"); for transitional entries, the transitional article */
+  provision_ref: string;
+  /** Set when only a clause starts on its own date ("dieu10.k3") */
+  segment_ref: string | null;
+  kind: 'in_force' | 'transitional';
+  /** In-force date, or the end of a transitional period (null when not stated) */
+  date: string | null;
+  /** Article the date was read from */
+  source_provision: string;
+  context: string;
+}
+
+export interface EffectiveDates {
+  /** Date the statute as a whole enters into force, when the text states it */
+  in_force_date: string | null;
+  entries: EffectiveDateEntry[];
+}
+
+interface ArticleText {
+  provision_ref: string;
+  content: string;
+}
+
+/** "Luật này", "Bộ luật này", "Hiến pháp này"… */
+const INSTRUMENT = String.raw`(?:Bộ\s*luật|Luật|Hiến\s*pháp|Nghị\s*định|Pháp\s*lệnh|Nghị\s*quyết)`;
+const INSTRUMENT_EN = String.raw`(?:Law|Code|Constitution|Decree|Ordinance|Resolution)`;
+
+/** "Điều 43. Hiệu lực thi hành"; English translations head it "Article 43. Effect" or "Implementation effect" */
+const IN_FORCE_HEADING = new RegExp(
+  String.raw`Điều\s*(\d+[a-zđ]?)\s*\.?\s*Hiệu\s*lực(?:\s*thi\s*hành|\s*của\s*${INSTRUMENT}\s*này)` +
+  String.raw`|Article\s*(\d+[a-z]?)\s*\.?\s*[-–—]?\s*(?:Implementation\s*)?Effect(?:ive(?:ness|\s*date))?(?![a-z])`,
+  'giu',
+);
+const TRANSITIONAL_HEADING = /Điều\s*(\d+[a-zđ]?)\s*\.?\s*(?:Quy\s*định|Điều\s*khoản)\s*chuyển\s*tiếp|Article\s*(\d+[a-z]?)\s*\.?\s*[-–—]?\s*Transitional\s*provisions?/giu;
+/** The next article heading, or the signature block, ends an article */
+const ARTICLE_END = new RegExp(
+  String.raw`(?:Điều|Article)\s*\d+[a-zđ]?\s*\.\s*[-–—]?\s*\p{Lu}|${INSTRUMENT}\s*này\s*đã\s*được` +
+  String.raw`|This\s*${INSTRUMENT_EN}\s*(?:was|is\s*hereby)\s*(?:passed|adopted)|CHỦ\s*TỊCH|TM\.\s*CHÍNH\s*PHỦ`,
+  'u',
+);
+const TAKES_EFFECT = /có\s*hiệu\s*lực(?:\s*thi\s*hành)?|(?:comes?|enters?|shall\s*come|shall\s*enter)\s*into\s*force|(?:takes?|shall\s*take)\s*effect/iu;
+const CEASES_EFFECT = /hết\s*hiệu\s*lực|ceases?\s*to\s*(?:be\s*in\s*)?(?:have\s*)?effect|(?:is|are)\s*(?:hereby\s*)?(?:annulled|repealed)/iu;
+const THIS_INSTRUMENT = new RegExp(String.raw`${INSTRUMENT}\s*này|This\s*${INSTRUMENT_EN}\b`, 'iu');
+const FROM_THIS_INSTRUMENT = new RegExp(
+  String.raw`kể\s*từ\s*ngày\s*${INSTRUMENT}\s*này\s*có\s*hiệu\s*lực|(?:from|on)\s*the\s*effective\s*date\s*of\s*this\s*${INSTRUMENT_EN}`,
+  'iu',
+);
+/** "Hiến pháp này có hiệu lực từ ngày …" stated outside an in-force article */
+const STATEMENT_OF_EFFECT = new RegExp(
+  String.raw`(?:${THIS_INSTRUMENT.source})\s*(?:${TAKES_EFFECT.source})[^.;]{0,80}`,
+  'giu',
+);
+/** A period counted from the statute's own date: "trong thời hạn 12 tháng kể từ ngày Luật này có hiệu lực" */
+const GRACE_PERIOD = new RegExp(
+  String.raw`(?:trong\s*thời\s*hạn|within)\s*(\d+)\s*(tháng|năm|months?|years?)\s*(?:${FROM_THIS_INSTRUMENT.source})`,
+  'iu',
+);
+
+/** Body of each article whose heading matches, keyed by its provision_ref. */
+function articlesWithHeading(text: string, heading: RegExp): { provision_ref: string; body: string }[] {
+  const found: { provision_ref: string; body: string }[] = [];
+  for (const match of text.matchAll(heading)) {
+    const start = (match.index ?? 0) + match[0].length;
+    const rest = text.slice(start);
+    const end = rest.search(ARTICLE_END);
+    const article = (match[1] ?? match[2]).toLowerCase();
+    found.push({ provision_ref: `dieu${article}`, body: end >= 0 ? rest.slice(0, end) : rest });
+  }
+  return found;
+}
+
+/**
+ * Sentences and numbered clauses: "…2019.2. Hệ thống…" splits after "2019.".
+ * Each sentence carries the number of the clause it belongs to, if any.
+ */
+function sentences(body: string): { clause: string | null; text: string }[] {
+  const found: { clause: string | null; text: string }[] = [];
+  let clause: string | null = null;
+  for (const part of body.split(/(?<=[.;])\s*(?=\d+\s*\.\s*\p{Lu}|\p{Lu})/u)) {
+    const number = part.match(/^\s*(\d+)\s*\.\s*/);
+    if (number) clause = number[1];
+    const text = part.slice(number?.[0].length ?? 0).trim();
+    if (text.length > 0) found.push({ clause, text });
+  }
+  return found;
+}
+
+function findDate(text: string): string | null {
+  return (findVietnameseDate(text) ?? findEnglishDate(text))?.date ?? null;
+}
+
+/** ISO date a number of months after another. */
+function addMonths(iso: string, months: number): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Articles and clauses named before "có hiệu lực": "khoản 3 Điều 10",
+ * "Điều 25 và Điều 26", "các điều 25, 26", "từ Điều 5 đến Điều 9", and in
+ * translations "Clause 3 of Article 10", "Article 10(3)", "Articles 25 and 26".
+ */
+function citedParts(subject: string): { provision_ref: string; segment_ref: string | null }[] {
+  const parts: { provision_ref: string; segment_ref: string | null }[] = [];
+  let rest = subject;
+
+  rest = rest.replace(
+    /(?:khoản|Clauses?)\s*(\d+(?:\s*(?:,|và|and)\s*(?:khoản\s*|Clause\s*)?\d+)*)\s*(?:của\s*|of\s*)?(?:Điều|Article)\s*(\d+[a-zđ]?)/giu,
+    (_all, clauses: string, article: string) => {
+      for (const clause of clauses.match(/\d+/g) ?? []) {
+        parts.push({ provision_ref: `dieu${article.toLowerCase()}`, segment_ref: `dieu${article.toLowerCase()}.k${clause}` });
+      }
+      return ' ';
+    },
+  );
+
+  rest = rest.replace(/Article\s*(\d+[a-z]?)\s*\((\d+)\)/giu, (_all, article: string, clause: string) => {
+    parts.push({ provision_ref: `dieu${article.toLowerCase()}`, segment_ref: `dieu${article.toLowerCase()}.k${clause}` });
+    return ' ';
+  });
+
+  rest = rest.replace(/(?:từ\s*Điều|from\s*Article)\s*(\d+)\s*(?:đến|to)\s*(?:Điều|Article)\s*(\d+)/giu, (_all, first: string, last: string) => {
+    for (let n = Number(first); n <= Number(last) && n - Number(first) < 500; n++) {
+      parts.push({ provision_ref: `dieu${n}`, segment_ref: null });
+    }
+    return ' ';
+  });
+
+  for (const list of rest.matchAll(/(?:Điều|Articles?)\s*(\d+[a-zđ]?(?:\s*(?:,|và|and)\s*(?:Điều\s*|Article\s*)?\d+[a-zđ]?)*)/giu)) {
+    for (const article of list[1].match(/\d+[a-zđ]?/giu) ?? []) {
+      parts.push({ provision_ref: `dieu${article.toLowerCase()}`, segment_ref: null });
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Entry-into-force and transitional dates stated in a statute's text.
+ */
+export function extractEffectiveDates(provisions: ArticleText[]): EffectiveDates {
+  const text = provisions.map(p => p.content).join('\n').normalize('NFC');
+  let inForceDate: string | null = null;
+  // relative: counted from the statute's own date, "months" later
+  const pending: (Omit<EffectiveDateEntry, 'date'> & { date: string | null; relative: boolean; months?: number })[] = [];
+
+  for (const article of articlesWithHeading(text, IN_FORCE_HEADING)) {
+    for (const { clause, text: sentence } of sentences(article.body)) {
+      const grace = sentence.match(GRACE_PERIOD);
+      if (grace) {
+        pending.push({
+          provision_ref: article.provision_ref,
+          segment_ref: clause ? `${article.provision_ref}.k${clause}` : null,
+          kind: 'transitional',
+          date: null,
+          relative: true,
+          months: Number(grace[1]) * (/^(?:năm|year)/iu.test(grace[2]) ? 12 : 1),
+          source_provision: article.provision_ref,
+          context: sentence.slice(0, 300),
+        });
+        continue;
+      }
+      if (CEASES_EFFECT.test(sentence)) continue;
+      const takesEffect = sentence.match(TAKES_EFFECT);
+      if (!takesEffect || takesEffect.index === undefined) continue;
+
+      const subject = sentence.slice(0, takesEffect.index);
+      const predicate = sentence.slice(takesEffect.index + takesEffect[0].length);
+      const date = findDate(predicate);
+      const relative = !date && FROM_THIS_INSTRUMENT.test(predicate);
+      if (!date && !relative) continue;
+
+      const parts = citedParts(subject);
+      if (parts.length === 0) {
+        if (date && !inForceDate && THIS_INSTRUMENT.test(subject)) inForceDate = date;
+        continue;
+      }
+      for (const part of parts) {
+        pending.push({
+          ...part,
+          kind: 'in_force',
+          date,
+          relative,
+          source_provision: article.provision_ref,
+          context: sentence.slice(0, 300),
+        });
+      }
+    }
+  }
+
+  for (const article of articlesWithHeading(text, TRANSITIONAL_HEADING)) {
+    // The end of the period: the latest date introduced by "đến" or "trước" ("until", "before")
+    const ends = [...article.body.matchAll(/(?:đến|trước)\s*ngày\s*\d|(?:until|before)\s/giu)]
+      .map(m => findDate(article.body.slice(m.index, m.index + 40)))
+      .filter((d): d is string => Boolean(d))
+      .sort();
+    pending.push({
+      provision_ref: article.provision_ref,
+      segment_ref: null,
+      kind: 'transitional',
+      date: ends.at(-1) ?? null,
+      relative: false,
+      source_provision: article.provision_ref,
+      context: article.body.trim().slice(0, 300),
+    });
+  }
+
+  if (!inForceDate) {
+    for (const statement of text.matchAll(STATEMENT_OF_EFFECT)) {
+      inForceDate = findDate(statement[0]);
+      if (inForceDate) break;
+    }
+  }
+
+  // "kể từ ngày Luật này có hiệu lực" is the statute's own date
+  const entries: EffectiveDateEntry[] = [];
+  const seen = new Set<string>();
+  for (const { relative, months, ...entry } of pending) {
+    const from = relative ? inForceDate : entry.date;
+    const date = from && months ? addMonths(from, months) : from;
+    if (entry.kind === 'in_force' && !date) continue;
+    const key = `${entry.kind}:${entry.segment_ref ?? entry.provision_ref}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push({ ...entry, date });
+  }
+
+  return { in_force_date: inForceDate, entries };
+}
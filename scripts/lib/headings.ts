@@ -0,0 +1,210 @@
+/**
+ * Phần / Chương / Mục of each article of a seed, read from the headings run
+ * into the scraped text.
+ *
+ * Scraped seeds keep a heading at the end of the text before the article it
+ * opens ("... Điều 9. Xử lý vi phạm ...Chương IIBẢO VỆ ...Điều 10."), and one
+ * provision can run on through several articles, so a heading opens the
+ * article whose number follows it in the text, or the one after the last
+ * article of the provision. Pages that repeat the law in English are read
+ * the same way ("ChapterIICYBERSECURITY ..."); their headings are merged with
+ * the Vietnamese ones by label, and the Vietnamese names are kept.
+ *
+ * At each level the heading numbered 1 opens at Điều 1, even when the text
+ * does not show it, and each later heading at the first article it was seen
+ * to open past the one before. That drops the "Chapter I" a translation
+ * starts with after the last article of the Vietnamese text. A heading runs
+ * up to the next one; when the next number is missing from the text, where
+ * it ends is not known and the articles after it get no heading at that
+ * level. A new Phần ends the Chương before it, as a new Chương does its Mục.
+ */
+
+import {
+  findHeadings,
+  headingLabel,
+  headingLevel,
+  headingNumber,
+  normalizeHeading,
+  splitHeading,
+  vietnameseLabel,
+  type HeadingLevel,
+} from '../../src/utils/document-structure.js';
+
+export interface HeadingSource {
+  provision_ref: string;
+  content: string;
+  /** Headings the seed gives, used when the text shows none at that level */
+  part?: string;
+  chapter?: string;
+  muc?: string;
+}
+
+export interface HeadingPath {
+  part: string | null;
+  chapter: string | null;
+  muc: string | null;
+}
+
+/** An article heading; a citation of one has no full stop after it ("Điều 18 của Luật này") */
+const ARTICLE_HEADING = /(?:Điều|Article)\s*(\d+)[a-zđ]?\s*[.:]/gu;
+
+/** How far past the one before the next article heading of a provision can be numbered */
+const MAX_ARTICLE_STEP = 3;
+
+interface FoundHeading {
+  level: HeadingLevel;
+  /** Vietnamese label, "Chương II" */
+  label: string;
+  number: number;
+  name?: string;
+  english: boolean;
+  /** Number of the article the heading opens */
+  opens: number;
+}
+
+interface Span {
+  label: string;
+  number: number;
+  /** First article under the heading */
+  start: number;
+  /** First article past it; undefined when the next heading is missing */
+  end: number | undefined;
+}
+
+function articleNumber(provisionRef: string): number {
+  return Number.parseInt(provisionRef.match(/^dieu(\d+)/)?.[1] ?? '', 10);
+}
+
+/**
+ * Headings run into a provision, each with the article it opens.
+ */
+function headingsOpening(prov: HeadingSource, previousChapter: string | undefined): FoundHeading[] {
+  const text = prov.content.normalize('NFC');
+  const articles: { index: number; number: number }[] = [];
+  let current = articleNumber(prov.provision_ref);
+  for (const match of text.matchAll(ARTICLE_HEADING)) {
+    const number = Number.parseInt(match[1], 10);
+    // A translation after the text starts again at Điều 1
+    if ((number > current && number <= current + MAX_ARTICLE_STEP) || (number === 1 && current > 1)) {
+      articles.push({ index: match.index!, number });
+      current = number;
+    }
+  }
+
+  const found: FoundHeading[] = [];
+  for (const { heading, index } of findHeadings(text, previousChapter)) {
+    const level = headingLevel(heading);
+    const number = headingNumber(heading);
+    if (!level || !number) continue;
+    found.push({
+      level,
+      label: vietnameseLabel(heading),
+      number,
+      name: splitHeading(heading).name,
+      english: /^(?:Part|Chapter|Section)/i.test(heading),
+      opens: articles.find(article => article.index > index)?.number ?? current + 1,
+    });
+  }
+  return found;
+}
+
+/**
+ * Where the headings of one level start and end, from the articles each was
+ * seen to open; the first starts at `first`.
+ */
+function spansOf(level: HeadingLevel, found: FoundHeading[], first: number): Span[] {
+  const opens = new Map<number, number[]>([[1, [first]]]);
+  for (const heading of found) {
+    if (heading.number > 1) opens.set(heading.number, [...(opens.get(heading.number) ?? []), heading.opens]);
+  }
+
+  const spans: Span[] = [];
+  let previous = -Infinity;
+  for (const number of [...opens.keys()].sort((a, b) => a - b)) {
+    const after = opens.get(number)!.filter(article => article > previous);
+    if (after.length === 0) continue;
+    previous = Math.min(...after);
+    spans.push({ label: headingLabel(level, number), number, start: previous, end: Infinity });
+  }
+  for (let i = 0; i + 1 < spans.length; i++) {
+    spans[i].end = spans[i + 1].number === spans[i].number + 1 ? spans[i + 1].start : undefined;
+  }
+  return spans;
+}
+
+/** The span an article falls in, if it is known to */
+function spanAt(spans: Span[], article: number): Span | undefined {
+  let last: Span | undefined;
+  for (const span of spans) {
+    if (span.start <= article) last = span;
+  }
+  return last && last.end !== undefined && article < last.end ? last : undefined;
+}
+
+/**
+ * Headings of a seed's articles, normalised and named.
+ */
+export function seedHeadings(provisions: HeadingSource[]): Map<string, HeadingPath> {
+  const found: FoundHeading[] = [];
+  let previousChapter: string | undefined;
+  for (const prov of provisions) {
+    for (const heading of headingsOpening(prov, previousChapter)) {
+      found.push(heading);
+      if (heading.level === 'chapter') previousChapter = heading.label;
+    }
+  }
+  const atLevel = (level: HeadingLevel) => found.filter(heading => heading.level === level);
+
+  const partSpans = atLevel('part').length > 0 ? spansOf('part', atLevel('part'), 1) : undefined;
+  const chapterSpans = atLevel('chapter').length > 0 ? spansOf('chapter', atLevel('chapter'), 1) : undefined;
+  // A Chương ends where a new Phần starts
+  const chapterAt = (article: number): Span | undefined => {
+    const chapter = chapterSpans ? spanAt(chapterSpans, article) : undefined;
+    if (!chapter || partSpans?.some(part => part.start > chapter.start && part.start <= article)) return undefined;
+    return chapter;
+  };
+
+  // Mục numbers restart in each Chương
+  const mucSpans = new Map<string, Span[]>();
+  if (chapterSpans) {
+    for (const chapter of chapterSpans) {
+      const inChapter = atLevel('muc').filter(muc => chapterAt(muc.opens)?.label === chapter.label);
+      if (inChapter.length > 0) mucSpans.set(chapter.label, spansOf('muc', inChapter, chapter.start));
+    }
+  }
+
+  // Names by label; a Vietnamese name wins over the translation's
+  const names = new Map<string, string>();
+  const nameKey = (level: HeadingLevel, label: string, chapter = '') => `${level}|${chapter}|${label}`;
+  for (const heading of [...found].sort((a, b) => Number(a.english) - Number(b.english))) {
+    const chapter = heading.level === 'muc' ? chapterAt(heading.opens)?.label : undefined;
+    const key = nameKey(heading.level, heading.label, chapter);
+    if (heading.name && !names.has(key)) names.set(key, heading.name);
+  }
+  const named = (span: Span | undefined, level: HeadingLevel, chapter?: string): string | null => {
+    if (!span) return null;
+    const name = names.get(nameKey(level, span.label, chapter));
+    return name ? `${span.label}. ${name}` : span.label;
+  };
+
+  const paths = new Map<string, HeadingPath>();
+  for (const prov of provisions) {
+    const number = articleNumber(prov.provision_ref);
+    const chapter = chapterAt(number);
+    const muc = chapter ? spanAt(mucSpans.get(chapter.label) ?? [], number) : undefined;
+    paths.set(prov.provision_ref, {
+      part: partSpans ? named(spanAt(partSpans, number), 'part') : seedHeading(prov.part),
+      chapter: chapterSpans ? named(chapter, 'chapter') : seedHeading(prov.chapter),
+      muc: chapterSpans ? named(muc, 'muc', chapter?.label) : seedHeading(prov.muc),
+    });
+  }
+  return paths;
+}
+
+/**
+ * Older seeds carry chapter strings picked out of running text ("Chương XIII
+ * của Bộ luật này", "ChươngIII"); keep only real headings, normalised.
+ */
+function seedHeading(heading: string | undefined): string | null {
+  return heading ? normalizeHeading(heading, true) : null;
+}
@@ -4,11 +4,15 @@
  *
  * Vietnamese legislation uses the following structure:
  *   - "Điều X" (Article X) - primary provision numbering (Điều 1, Điều 2, ...)
+ *   - "Phần" (Part) - top-level groupings in codes (Phần thứ nhất, ...)
  *   - "Chương" (Chapter) - chapter groupings (Chương I, Chương II, ...)
  *   - "Mục" (Section) - section groupings within chapters
  *   - "Khoản" (Clause/Paragraph) - sub-elements within articles (1., 2., ...)
  *   - "Điểm" (Point) - sub-elements within clauses (a), b), c), ...)
  *
+ * Each article is also split into its clauses and points (see
+ * src/utils/provision-segments.ts), referenced as dieu8.k2 and dieu8.k2.a.
+ *
  * Thu Vien Phap Luat marks articles with <a name="dieu_N"> anchor tags.
  * This is the primary extraction method (reliable, handles all document sizes).
  * Fallback: text-based "Điều N." pattern for other sources.
@@ -16,6 +20,11 @@
  * Provision references use "dieu" prefix: dieu1, dieu2, dieu3, etc.
  */
 
+import { flattenSegments, type SegmentRow } from '../../src/utils/provision-segments.js';
+import { headingLevel, normalizeHeading, type HeadingLevel } from '../../src/utils/document-structure.js';
+import { extractDefinitions, isInterpretationArticle, type ParsedDefinition } from './definitions.js';
+import type { EffectiveDates } from './effective-dates.js';
+
 export interface ActIndexEntry {
   id: string;
   title: string;
@@ -27,21 +36,23 @@ export interface ActIndexEntry {
   url: string;
   officialNumber: string;
   description?: string;
+  /** Laws the census records this one as replacing */
+  replaces?: { official_number: string; title: string }[];
 }
 
 export interface ParsedProvision {
   provision_ref: string;
+  part?: string;
   chapter?: string;
+  muc?: string;
   section: string;
   title: string;
   content: string;
+  /** Clauses (khoản) and points (điểm), refs like dieu8.k2.a */
+  segments?: SegmentRow[];
 }
 
-export interface ParsedDefinition {
-  term: string;
-  definition: string;
-  source_provision?: string;
-}
+export type { ParsedDefinition } from './definitions.js';
 
 export interface ParsedAct {
   id: string;
@@ -52,17 +63,37 @@ export interface ParsedAct {
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
   issued_date: string;
   in_force_date: string;
+  official_number?: string;
   url: string;
   description?: string;
   provisions: ParsedProvision[];
   definitions: ParsedDefinition[];
+  /** Per-article entry-into-force and transitional dates from the final provisions */
+  effective_dates?: EffectiveDates;
+}
+
+/** Longest article title accepted; anything longer has swallowed body text. */
+export const MAX_TITLE_LENGTH = 200;
+
+// Older English translations write "Article 3.- Application"
+const ARTICLE_HEADING = /^\s*(?:Đi[eề]u|Article)\s*\d+[a-zA-Z]?\s*[.:]?[ \t]*(?:[-–—][ \t]*)?/;
+
+export interface ArticleHeading {
+  /** "Điều 3." */
+  label: string;
+  /** Heading text after the label; empty when the article has none */
+  title: string;
+  body: string;
 }
 
 /**
  * Strip HTML tags and decode common entities, normalising whitespace.
+ * Line breaks in the source are soft wraps and become spaces; only block
+ * elements produce newlines.
  */
 function stripHtml(html: string): string {
   return html
+    .replace(/\r?\n|\r/g, ' ')
     .replace(/<\/?(p|div|tr|li|h[1-6]|br|section|article)\b[^>]*\/?>/gi, '\n')
     .replace(/<[^>]+>/g, ' ')
     .replace(/&nbsp;/g, ' ')
@@ -79,10 +110,191 @@ function stripHtml(html: string): string {
     .replace(/\n[ \t]+/g, '\n')
     .replace(/[ \t]+\n/g, '\n')
     .replace(/\n{3,}/g, '\n\n')
-    .replace(/^\s+|\s+$/gm, '')
+    .replace(/^[ \t]+|[ \t]+$/gm, '')
     .trim();
 }
 
+/**
+ * Plain text of a whole fetched page, including the heading, dateline and
+ * the source's document details that sit outside the articles.
+ */
+export function pageText(html: string): string {
+  return stripHtml(html.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' '));
+}
+
+/**
+ * Split the text after "Điều N." into title and body.
+ *
+ * The title ends at the first line break. Where line breaks were lost, it
+ * ends where the body is glued on: a first clause number ("về an ninh
+ * mạng1. Ưu tiên") or a capital straight after a lowercase letter ("Giải
+ * thích từ ngữTrong Luật này"). Articles without a title (the Constitution)
+ * start straight with a clause or a full sentence; a title longer than
+ * MAX_TITLE_LENGTH is not a title either. In those cases the title is empty.
+ */
+export function splitTitle(text: string): { title: string; body: string } {
+  const trimmed = text.trim();
+  if (/^(?:\d+\s*\.|[a-zđ]\s*\))/.test(trimmed)) return { title: '', body: trimmed };
+
+  const newline = trimmed.indexOf('\n');
+  const glued = trimmed.search(/\p{Ll}(?=\p{Lu})|[^\d\s/.,](?=1\s*\.(?:\s|\p{Lu}))|[.;](?=\p{Lu})/u);
+  const ends = [newline, glued >= 0 ? glued + 1 : -1].filter(i => i >= 0);
+  const end = ends.length > 0 ? Math.min(...ends) : trimmed.length;
+
+  const title = trimmed.slice(0, end).trim();
+  // Titles carry no final full stop; one before glued text ends a sentence
+  if (end !== newline && /[.;]$/.test(title)) return { title: '', body: trimmed };
+  if (title.length > MAX_TITLE_LENGTH) return { title: '', body: trimmed };
+  return { title: title.replace(/:$/, ''), body: trimmed.slice(end).trim() };
+}
+
+/**
+ * Split plain article text starting with "Điều N." into label, title and body.
+ */
+export function splitArticleHeading(text: string): ArticleHeading | null {
+  const match = text.match(ARTICLE_HEADING);
+  if (!match) return null;
+  return { label: match[0].trim(), ...splitTitle(text.slice(match[0].length)) };
+}
+
+/**
+ * Read the heading paragraph that holds a <a name="dieu_N"> anchor
+ * ("<p><a name="dieu_3"><b>Điều 3. Chính sách ...</b></a></p>"). The body is
+ * everything after that paragraph.
+ */
+function articleHeadingFromHtml(segment: string): ArticleHeading | null {
+  const paragraphEnd = segment.search(/<\/(?:p|h[1-6]|div)>/i);
+  if (paragraphEnd < 0) return null;
+
+  const heading = stripHtml(segment.slice(0, paragraphEnd)).replace(/\s+/g, ' ');
+  const match = heading.match(ARTICLE_HEADING);
+  if (!match) return null;
+
+  const title = heading.slice(match[0].length).trim().replace(/[.:]$/, '');
+  if (title.length > MAX_TITLE_LENGTH) return null;
+  return { label: match[0].trim(), title, body: stripHtml(segment.slice(paragraphEnd)) };
+}
+
+/**
+ * A Phần / Chương / Mục heading and its position in the source.
+ * The heading is "Chương I. NHỮNG QUY ĐỊNH CHUNG": label, then name if known.
+ */
+interface StructureHeading {
+  pos: number;
+  level: HeadingLevel;
+  heading: string;
+}
+
+/** Where an article sits in the Phần > Chương > Mục hierarchy. */
+interface StructurePath {
+  part?: string;
+  chapter?: string;
+  muc?: string;
+}
+
+/**
+ * Collect structural headings from thuvienphapluat.vn anchors.
+ *
+ * A heading comes as two anchors: <a name="chuong_1"> holding "Chương I" and
+ * <a name="chuong_1_name"> holding "NHỮNG QUY ĐỊNH CHUNG". Anchor prefixes
+ * are not always accurate (a "chuong_" anchor can hold a Phần heading), so the
+ * level is taken from the heading text when it names one.
+ */
+function collectAnchorHeadings(html: string): StructureHeading[] {
+  const headings: StructureHeading[] = [];
+  const anchorPattern = /<a\s+name="(phan|chuong|muc)_([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = anchorPattern.exec(html)) !== null) {
+    const text = stripHtml(match[3]).replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    if (match[2].endsWith('_name')) {
+      const last = headings[headings.length - 1];
+      const named = last && !last.heading.includes('. ') ? normalizeHeading(`${last.heading}. ${text}`) : null;
+      if (named) last.heading = named;
+      continue;
+    }
+
+    // A bare numeral in a "chuong_" anchor: "<a name="chuong_2"><b>II</b></a>"
+    const heading = normalizeHeading(/^[IVXLCDM]+\.?$/.test(text) && match[1] === 'chuong' ? `Chương ${text}` : text);
+    const level = heading ? headingLevel(heading) : undefined;
+    if (heading && level) headings.push({ pos: match.index, level, heading });
+  }
+
+  // Sources without anchors mark headings in bold only
+  const boldPattern = /<(?:b|strong)[^>]*>\s*((?:Ph[aầ]n|PH[AẦ]N|Ch[uư][oơ]ng|CH[UƯ][OƠ]NG|M[ụu]c|M[ỤU]C)\s+[^<]*)<\/(?:b|strong)>/g;
+  while ((match = boldPattern.exec(html)) !== null) {
+    const heading = normalizeHeading(stripHtml(match[1]));
+    const level = heading ? headingLevel(heading) : undefined;
+    const duplicate = headings.some(h => Math.abs(h.pos - match!.index) < 200 && h.level === level);
+    if (heading && level && !duplicate) headings.push({ pos: match.index, level, heading });
+  }
+
+  return headings.sort((a, b) => a.pos - b.pos);
+}
+
+/**
+ * Collect structural headings from plain text (one heading per line).
+ */
+function collectTextHeadings(plainText: string): StructureHeading[] {
+  const headings: StructureHeading[] = [];
+  // A heading runs to the end of its line, or to the first article when lines are glued
+  const linePattern = /(?:^|\n)[ \t]*((?:Ph[aầ]n|PH[AẦ]N|Ch[uư][oơ]ng|CH[UƯ][OƠ]NG|M[ụu]c|M[ỤU]C)\s+[^\n]*?)(?=\n|Đi[eề]u\s+\d|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = linePattern.exec(plainText)) !== null) {
+    const heading = match[1].length <= 200 ? normalizeHeading(match[1], true) : null;
+    const level = heading ? headingLevel(heading) : undefined;
+    if (heading && level) headings.push({ pos: match.index, level, heading });
+  }
+  return headings;
+}
+
+/**
+ * Resolve the hierarchy in force at a position. A new Phần resets the
+ * chapter and section; a new Chương resets the section.
+ */
+function structureAt(headings: StructureHeading[], pos: number): StructurePath {
+  const path: StructurePath = {};
+  for (const h of headings) {
+    if (h.pos >= pos) break;
+    if (h.level === 'part') {
+      path.part = h.heading;
+      path.chapter = undefined;
+      path.muc = undefined;
+    } else if (h.level === 'chapter') {
+      path.chapter = h.heading;
+      path.muc = undefined;
+    } else {
+      path.muc = h.heading;
+    }
+  }
+  return path;
+}
+
+/**
+ * Build a provision record, splitting the article into clause/point segments.
+ */
+function buildProvision(
+  provisionRef: string,
+  structure: StructurePath,
+  section: string,
+  title: string,
+  content: string,
+): ParsedProvision {
+  return {
+    provision_ref: provisionRef,
+    part: structure.part,
+    chapter: structure.chapter,
+    muc: structure.muc,
+    section,
+    title,
+    content,
+    segments: flattenSegments(provisionRef, content),
+  };
+}
+
 /**
  * Parse Vietnamese legislation HTML to extract provisions (articles).
  *
@@ -91,7 +303,7 @@ function stripHtml(html: string): string {
  *    - Find all unique anchors, extract content between consecutive anchors
  * 2. Fallback: Text-based "Điều N." pattern (for other HTML sources)
  *
- * Chapter headings ("Chương ...") are tracked for context.
+ * Phần / Chương / Mục headings are tracked for context.
  */
 export function parseVietnameseHtml(html: string, act: ActIndexEntry): ParsedAct {
   // Try anchor-based extraction first (primary method for thuvienphapluat.vn)
@@ -133,38 +345,26 @@ function parseByAnchors(html: string, act: ActIndexEntry): ParsedAct {
     return {
       id: act.id, type: 'statute', title: act.title, title_en: act.titleEn,
       short_name: act.shortName, status: act.status, issued_date: act.issuedDate,
-      in_force_date: act.inForceDate, url: act.url, description: act.description,
+      in_force_date: act.inForceDate, official_number: act.officialNumber,
+      url: act.url, description: act.description,
       provisions: [], definitions: [],
     };
   }
 
-  // Find chapter headings in HTML using <a name="chuong_N"> or text patterns
-  const chapterAnchors: { pos: number; name: string }[] = [];
-  const chapterHtmlPattern = /<a\s+name="chuong_[^"]*"[^>]*>[\s\S]*?<\/a>[\s\S]*?(Ch[uư][oơ]ng\s+[IVXLCDM]+[\s\S]*?)(?=<\/[a-z])/gi;
-  let chapterMatch: RegExpExecArray | null;
-  while ((chapterMatch = chapterHtmlPattern.exec(html)) !== null) {
-    const name = stripHtml(chapterMatch[1]).replace(/\s+/g, ' ').trim().substring(0, 200);
-    if (name.length > 3) {
-      chapterAnchors.push({ pos: chapterMatch.index, name });
-    }
-  }
-
-  // Also detect chapters from bold text patterns in the HTML
-  const chapterBoldPattern = /<b[^>]*>\s*(Ch[uư][oơ]ng\s+[IVXLCDM]+[^<]*)<\/b>/gi;
-  while ((chapterMatch = chapterBoldPattern.exec(html)) !== null) {
-    const name = stripHtml(chapterMatch[1]).replace(/\s+/g, ' ').trim().substring(0, 200);
-    if (name.length > 3) {
-      chapterAnchors.push({ pos: chapterMatch.index, name });
-    }
-  }
-
-  // Sort chapter positions
-  chapterAnchors.sort((a, b) => a.pos - b.pos);
+  // Phần / Chương / Mục headings, in document order
+  const headings = collectAnchorHeadings(html);
 
   // Deduplicate anchors: keep the LAST occurrence of each dieu_N
-  // (first occurrence is usually the TOC, last occurrence is the actual article)
+  // (first occurrence is usually the TOC, last occurrence is the actual article).
+  // Pages that append an English translation repeat the anchors there
+  // ("Article 2. Definitions"); those are kept only for articles with no
+  // Vietnamese heading.
   const lastOccurrence = new Map<string, number>();
+  const vietnamese = new Set<string>();
   for (let i = 0; i < anchors.length; i++) {
+    const isTranslation = /^Article\b/i.test(stripHtml(html.substring(anchors[i].index, anchors[i].index + 300)));
+    if (isTranslation && vietnamese.has(anchors[i].num)) continue;
+    if (!isTranslation) vietnamese.add(anchors[i].num);
     lastOccurrence.set(anchors[i].num, i);
   }
 
@@ -193,76 +393,43 @@ function parseByAnchors(html: string, act: ActIndexEntry): ParsedAct {
     const articleNum = anchor.num;
     const provisionRef = `dieu${articleNum}`;
 
-    // Extract title: look for "Điều N. Title" pattern in the segment
-    const titleMatch = plainSegment.match(/Đi[eề]u\s+\d+[a-zA-Z]?\s*\.\s*(.+?)(?:\n|$)/);
+    // Title: the anchor's heading paragraph, else split from the plain text
+    const heading = articleHeadingFromHtml(segment) ?? splitArticleHeading(plainSegment);
     let title: string;
     let content: string;
 
-    if (titleMatch && titleMatch[1]) {
-      title = titleMatch[1].trim();
+    if (heading) {
+      title = heading.title;
       // Content starts from "Điều N. Title\n..."
-      const afterTitle = plainSegment.substring(titleMatch.index! + titleMatch[0].length).trim();
-      content = (titleMatch[0].trim() + '\n' + afterTitle).trim();
+      content = `${heading.label}${heading.title ? ` ${heading.title}` : ''}\n${heading.body}`.trim();
     } else {
-      // No clear title pattern, use first line
-      const firstNewline = plainSegment.indexOf('\n');
-      if (firstNewline > 0 && firstNewline < 300) {
-        title = plainSegment.substring(0, firstNewline).trim();
-        content = plainSegment.trim();
-      } else {
-        title = plainSegment.substring(0, Math.min(120, plainSegment.length)).trim();
-        if (title.length < plainSegment.length) title += '...';
-        content = plainSegment.trim();
-      }
+      title = splitTitle(plainSegment).title;
+      content = plainSegment.trim();
     }
 
-    // Clean title: remove "Điều N." prefix from title if present
-    title = title.replace(/^Đi[eề]u\s+\d+[a-zA-Z]?\s*\.\s*/, '').trim();
     if (!title) title = `Điều ${articleNum}`;
 
     // Skip if content is too short
     if (content.length < 15) continue;
 
-    // Determine current chapter
-    let currentChapter: string | undefined;
-    for (const ch of chapterAnchors) {
-      if (ch.pos < startIdx) {
-        currentChapter = ch.name;
-      }
-    }
+    // Determine where the article sits in the hierarchy
+    const structure = structureAt(headings, startIdx);
 
     // Deduplicate: keep version with more content
     const existingIdx = seenArticles.get(articleNum);
     if (existingIdx !== undefined) {
       if (content.length > provisions[existingIdx].content.length) {
-        provisions[existingIdx] = {
-          provision_ref: provisionRef,
-          chapter: currentChapter,
-          section: articleNum,
-          title,
-          content: content.substring(0, 12000),
-        };
+        provisions[existingIdx] = buildProvision(provisionRef, structure, articleNum, title, content);
       }
       continue;
     }
 
     seenArticles.set(articleNum, provisions.length);
-    provisions.push({
-      provision_ref: provisionRef,
-      chapter: currentChapter,
-      section: articleNum,
-      title,
-      content: content.substring(0, 12000),
-    });
+    provisions.push(buildProvision(provisionRef, structure, articleNum, title, content));
 
     // Extract definitions from interpretation articles
-    if (
-      title.toLowerCase().includes('giải thích') ||
-      title.toLowerCase().includes('từ ngữ') ||
-      title.toLowerCase().includes('interpretation') ||
-      title.toLowerCase().includes('definition')
-    ) {
-      extractDefinitions(content, provisionRef, definitions);
+    if (isInterpretationArticle(title, content)) {
+      definitions.push(...extractDefinitions(content, provisionRef, title).definitions);
     }
   }
 
@@ -275,6 +442,7 @@ function parseByAnchors(html: string, act: ActIndexEntry): ParsedAct {
     status: act.status,
     issued_date: act.issuedDate,
     in_force_date: act.inForceDate,
+    official_number: act.officialNumber,
     url: act.url,
     description: act.description,
     provisions,
@@ -292,8 +460,6 @@ function parseByTextPatterns(html: string, act: ActIndexEntry): ParsedAct {
 
   const plainText = stripHtml(html);
 
-  let currentChapter: string | undefined;
-
   // Match "Điều N." anywhere in the text
   const articlePattern = /(?:^|[\n.;)\]])[\s]*Đi[eề]u\s+(\d+[a-zA-Z]?)\s*\.\s*/g;
   const articleStarts: { num: string; index: number; matchEnd: number }[] = [];
@@ -307,15 +473,8 @@ function parseByTextPatterns(html: string, act: ActIndexEntry): ParsedAct {
     });
   }
 
-  // Chapter headings
-  const chapterPattern = /(?:^|[\n.])[\s]*(Ch[uư][oơ]ng\s+[IVXLCDM]+[^\n.]*)/gi;
-  const chapterPositions: { pos: number; name: string }[] = [];
-  let chapterMatch: RegExpExecArray | null;
-
-  while ((chapterMatch = chapterPattern.exec(plainText)) !== null) {
-    const chapterName = chapterMatch[1].replace(/\s+/g, ' ').trim();
-    chapterPositions.push({ pos: chapterMatch.index, name: chapterName });
-  }
+  // Phần / Chương / Mục headings
+  const headings = collectTextHeadings(plainText);
 
   const seenArticles = new Map<string, number>();
 
@@ -325,11 +484,7 @@ function parseByTextPatterns(html: string, act: ActIndexEntry): ParsedAct {
       ? articleStarts[i + 1].index
       : plainText.length;
 
-    for (const cp of chapterPositions) {
-      if (cp.pos < artStart.index) {
-        currentChapter = cp.name;
-      }
-    }
+    const structure = structureAt(headings, artStart.index);
 
     const articleNum = artStart.num;
     const provisionRef = `dieu${articleNum}`;
@@ -337,56 +492,24 @@ function parseByTextPatterns(html: string, act: ActIndexEntry): ParsedAct {
 
     if (rawContent.length < 15) continue;
 
-    const firstNewline = rawContent.indexOf('\n');
-    let title: string;
-    let content: string;
-
-    if (firstNewline > 0 && firstNewline < 200) {
-      title = rawContent.substring(0, firstNewline).trim();
-      content = rawContent.trim();
-    } else {
-      const firstSentenceEnd = rawContent.search(/[.;]\s/);
-      if (firstSentenceEnd > 0 && firstSentenceEnd < 200) {
-        title = rawContent.substring(0, firstSentenceEnd + 1).trim();
-      } else {
-        title = rawContent.substring(0, Math.min(120, rawContent.length)).trim();
-        if (title.length < rawContent.length) title += '...';
-      }
-      content = rawContent.trim();
-    }
+    const title = splitTitle(rawContent).title || `Điều ${articleNum}`;
+    const content = rawContent.trim();
 
     if (content.length > 10) {
       const existingIdx = seenArticles.get(articleNum);
       if (existingIdx !== undefined) {
         if (content.length > provisions[existingIdx].content.length) {
-          provisions[existingIdx] = {
-            provision_ref: provisionRef,
-            chapter: currentChapter,
-            section: articleNum,
-            title,
-            content: content.substring(0, 12000),
-          };
+          provisions[existingIdx] = buildProvision(provisionRef, structure, articleNum, title, content);
         }
         continue;
       }
 
       seenArticles.set(articleNum, provisions.length);
-      provisions.push({
-        provision_ref: provisionRef,
-        chapter: currentChapter,
-        section: articleNum,
-        title,
-        content: content.substring(0, 12000),
-      });
+      provisions.push(buildProvision(provisionRef, structure, articleNum, title, content));
     }
 
-    if (
-      title.toLowerCase().includes('giải thích') ||
-      title.toLowerCase().includes('từ ngữ') ||
-      title.toLowerCase().includes('interpretation') ||
-      title.toLowerCase().includes('definition')
-    ) {
-      extractDefinitions(content, provisionRef, definitions);
+    if (isInterpretationArticle(title, content)) {
+      definitions.push(...extractDefinitions(content, provisionRef, title).definitions);
     }
   }
 
@@ -399,6 +522,7 @@ function parseByTextPatterns(html: string, act: ActIndexEntry): ParsedAct {
     status: act.status,
     issued_date: act.issuedDate,
     in_force_date: act.inForceDate,
+    official_number: act.officialNumber,
     url: act.url,
     description: act.description,
     provisions,
@@ -406,31 +530,6 @@ function parseByTextPatterns(html: string, act: ActIndexEntry): ParsedAct {
   };
 }
 
-/**
- * Extract term definitions from an interpretation/definition article.
- */
-function extractDefinitions(
-  content: string,
-  sourceProvision: string,
-  definitions: ParsedDefinition[],
-): void {
-  const defPattern = /(\d+)\s*\.\s+(.+?)\s+(?:là|bao gồm|có nghĩa là)\s+(.+?)(?=\d+\s*\.\s+\S|\s*$)/g;
-  let defMatch: RegExpExecArray | null;
-
-  while ((defMatch = defPattern.exec(content)) !== null) {
-    const term = defMatch[2].replace(/\s+/g, ' ').trim();
-    const definition = defMatch[3].replace(/\s+/g, ' ').trim();
-
-    if (term.length > 0 && term.length < 200 && definition.length > 5) {
-      definitions.push({
-        term,
-        definition: definition.substring(0, 4000),
-        source_provision: sourceProvision,
-      });
-    }
-  }
-}
-
 /**
  * Pre-configured list of key Vietnamese legislation to ingest.
  * Used as fallback when census.json is not available.
@@ -0,0 +1,60 @@
+/**
+ * Repeal clauses in the final provisions of a statute.
+ *
+ * The article on entry into force ("Hiệu lực thi hành") names the laws the
+ * new one replaces:
+ *
+ *   Bộ luật hình sự số 15/1999/QH10 và Luật số 37/2009/QH12 sửa đổi, bổ sung
+ *   một số điều của Bộ luật hình sự hết hiệu lực thi hành kể từ ngày Bộ luật
+ *   này có hiệu lực thi hành.
+ *
+ * Every instrument cited by number in the sentence that ends in "hết hiệu
+ * lực" is taken as repealed by the statute containing it.
+ */
+
+import { extractOfficialNumber, normalizeOfficialNumber } from '../../src/utils/statute-id.js';
+
+export interface RepealedInstrument {
+  official_number: string;
+  /** "Bộ luật hình sự" — the instrument's name as cited, when it has one */
+  title: string | null;
+  /** The sentence the repeal was found in */
+  context: string;
+}
+
+const REPEAL_MARKER = /hết\s+hiệu\s+lực/giu;
+
+/** "Luật Giao dịch điện tử số 51/2005/QH11": name (optional) and number */
+const CITED_INSTRUMENT =
+  /(?:((?:Bộ luật|Luật|Pháp lệnh|Nghị định|Nghị quyết)(?:\s+[^\s,;:.]+){0,8}?)\s+)?số\s*(\d{1,4}\s*\/\s*\d{4}\s*\/\s*[A-Za-zĐđ]+\d*(?:\s*-\s*[A-Za-zĐđ]+\d*)*)/gu;
+
+/**
+ * Instruments a statute's text declares no longer in force. The statute's
+ * own number (ownNumber) is never reported.
+ */
+export function extractRepealedInstruments(text: string, ownNumber?: string | null): RepealedInstrument[] {
+  const own = ownNumber ? normalizeOfficialNumber(ownNumber) : null;
+  const found = new Map<string, RepealedInstrument>();
+
+  for (const marker of text.normalize('NFC').matchAll(REPEAL_MARKER)) {
+    const before = text.normalize('NFC').slice(0, marker.index);
+    // The sentence runs back to the previous full stop, semicolon or colon
+    const start = Math.max(before.lastIndexOf('.'), before.lastIndexOf(';'), before.lastIndexOf(':')) + 1;
+    const sentence = before.slice(start);
+
+    for (const cited of sentence.matchAll(CITED_INSTRUMENT)) {
+      const number = extractOfficialNumber(cited[2]);
+      const key = number ? normalizeOfficialNumber(number) : null;
+      if (!number || !key || key === own || found.has(key)) continue;
+      // "Luật số 37/2009/QH12" names no law; a bare "Luật" is not a title
+      const title = cited[1] && /\s/.test(cited[1].trim()) ? cited[1].trim() : null;
+      found.set(key, {
+        official_number: number,
+        title,
+        context: `${sentence.trim()} hết hiệu lực`,
+      });
+    }
+  }
+
+  return [...found.values()];
+}
@@ -0,0 +1,185 @@
+/**
+ * Text repair for ingested Vietnamese legislation.
+ *
+ * Older ingests lost the whitespace at source line breaks and inline tags,
+ * leaving run-together syllables ("Nhànước", "hợppháp", "cánhân") that break
+ * FTS phrase matching. Vietnamese is written one syllable per word, so a word
+ * that is not a valid syllable but splits cleanly into valid ones is re-split.
+ *
+ * When a word splits more than one way ("nhà|nước" or "nhàn|ước"), the split
+ * whose syllable pairs occur most often elsewhere in the corpus wins.
+ */
+
+import { isVietnameseSyllable } from '../../src/utils/vietnamese-text.js';
+import { flattenSegments, type SegmentRow } from '../../src/utils/provision-segments.js';
+
+/** Syllable and syllable-pair counts from correctly spaced text. */
+export interface SyllableCorpus {
+  unigrams: Map<string, number>;
+  bigrams: Map<string, number>;
+}
+
+export interface RepairStats {
+  /** Words re-split into syllables */
+  syllableSplits: number;
+  /** Missing spaces restored after "," ";" ":" */
+  punctuationSpacing: number;
+}
+
+/** The parts of a parsed act or seed file that carry text. */
+export interface RepairableAct {
+  provisions?: { provision_ref: string; title?: string; content: string; segments?: SegmentRow[] }[];
+  definitions?: { term: string; definition: string }[];
+}
+
+const WORD = /\p{L}+/gu;
+const MAX_PIECES = 4;
+
+export function emptyCorpus(): SyllableCorpus {
+  return { unigrams: new Map(), bigrams: new Map() };
+}
+
+/**
+ * Add the valid syllables of a text, and adjacent syllable pairs, to a corpus.
+ */
+export function addToCorpus(corpus: SyllableCorpus, text: string): void {
+  let previous: string | null = null;
+  let previousEnd = -1;
+  const normalized = text.normalize('NFC');
+  for (const match of normalized.matchAll(WORD)) {
+    const word = match[0].toLowerCase();
+    if (!isVietnameseSyllable(word)) {
+      previous = null;
+      continue;
+    }
+    corpus.unigrams.set(word, (corpus.unigrams.get(word) ?? 0) + 1);
+    // Only pairs separated by a single space count as a phrase
+    if (previous && match.index === previousEnd + 1 && normalized[previousEnd] === ' ') {
+      const key = `${previous} ${word}`;
+      corpus.bigrams.set(key, (corpus.bigrams.get(key) ?? 0) + 1);
+    }
+    previous = word;
+    previousEnd = match.index + match[0].length;
+  }
+}
+
+/**
+ * All ways to cut a word into 2..MAX_PIECES valid syllables.
+ */
+function syllableSplits(word: string): string[][] {
+  const lower = word.toLowerCase();
+  const results: string[][] = [];
+
+  const walk = (start: number, pieces: number[]): void => {
+    if (start === lower.length) {
+      if (pieces.length >= 2) {
+        const cuts = [0, ...pieces];
+        results.push(pieces.map((end, i) => word.slice(cuts[i], end)));
+      }
+      return;
+    }
+    if (pieces.length === MAX_PIECES) return;
+    for (let end = start + 1; end <= lower.length; end++) {
+      if (isVietnameseSyllable(lower.slice(start, end))) walk(end, [...pieces, end]);
+    }
+  };
+
+  walk(0, []);
+  return results;
+}
+
+function scoreSplit(pieces: string[], corpus: SyllableCorpus): number[] {
+  const lower = pieces.map(p => p.toLowerCase());
+  let pairs = 0;
+  for (let i = 0; i + 1 < lower.length; i++) {
+    pairs += corpus.bigrams.get(`${lower[i]} ${lower[i + 1]}`) ?? 0;
+  }
+  const rarest = Math.min(...lower.map(p => corpus.unigrams.get(p) ?? 0));
+  // Fewer pieces first, then corpus evidence
+  return [-pieces.length, pairs, rarest];
+}
+
+function better(a: number[], b: number[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] > b[i];
+  }
+  return false;
+}
+
+/**
+ * Re-split one word, or return null if it should be left alone.
+ * Words without Vietnamese letters (English, abbreviations) are never split.
+ */
+function repairWord(word: string, corpus: SyllableCorpus): string | null {
+  if (!/[^\x00-\x7f]/.test(word) || isVietnameseSyllable(word)) return null;
+
+  const splits = syllableSplits(word);
+  if (splits.length === 0) return null;
+
+  let best = splits[0];
+  let bestScore = scoreSplit(best, corpus);
+  for (const split of splits.slice(1)) {
+    const score = scoreSplit(split, corpus);
+    if (better(score, bestScore)) {
+      best = split;
+      bestScore = score;
+    }
+  }
+  return best.join(' ');
+}
+
+/**
+ * Repair one text. Stats are accumulated into the given object.
+ */
+export function repairText(text: string, corpus: SyllableCorpus, stats: RepairStats): string {
+  const spaced = text.normalize('NFC').replace(/([,;:])(?=\p{L})/gu, (_m, punct: string) => {
+    stats.punctuationSpacing++;
+    return `${punct} `;
+  });
+
+  return spaced.replace(WORD, word => {
+    const repaired = repairWord(word, corpus);
+    if (repaired === null) return word;
+    stats.syllableSplits++;
+    return repaired;
+  });
+}
+
+export function emptyStats(): RepairStats {
+  return { syllableSplits: 0, punctuationSpacing: 0 };
+}
+
+/**
+ * Repair every provision (title, content, segments) and definition of an act
+ * in place. Segments are recomputed from the repaired content.
+ */
+export function repairAct(act: RepairableAct, corpus: SyllableCorpus): RepairStats {
+  const stats = emptyStats();
+  for (const provision of act.provisions ?? []) {
+    if (provision.title) provision.title = repairText(provision.title, corpus, stats);
+    provision.content = repairText(provision.content, corpus, stats);
+    if (provision.segments) {
+      provision.segments = flattenSegments(provision.provision_ref, provision.content);
+    }
+  }
+  for (const definition of act.definitions ?? []) {
+    definition.term = repairText(definition.term, corpus, stats);
+    definition.definition = repairText(definition.definition, corpus, stats);
+  }
+  return stats;
+}
+
+/**
+ * Corpus built from all the provision and definition text of an act.
+ */
+export function corpusFromAct(act: RepairableAct, corpus = emptyCorpus()): SyllableCorpus {
+  for (const provision of act.provisions ?? []) {
+    addToCorpus(corpus, provision.title ?? '');
+    addToCorpus(corpus, provision.content);
+  }
+  for (const definition of act.definitions ?? []) {
+    addToCorpus(corpus, definition.term);
+    addToCorpus(corpus, definition.definition);
+  }
+  return corpus;
+}
@@ -1,21 +1,48 @@
 /**
- * Runtime capability detection for Australian Law MCP.
+ * Runtime capability detection for Vietnamese Law MCP.
  * Detects which database tables are available to enable/disable features.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
 
+/**
+ * Version of the database layout written by build-db.ts, raised when tables
+ * or columns are added. Which of them a database has is told by its
+ * capabilities.
+ */
+export const SCHEMA_VERSION = '3';
+
 export type Capability =
   | 'core_legislation'
   | 'eu_references'
   | 'case_law'
-  | 'preparatory_works';
+  | 'preparatory_works'
+  | 'official_numbers'
+  | 'provision_segments'
+  | 'folded_search'
+  | 'provision_versions'
+  | 'provision_repeals'
+  | 'law_replacements'
+  | 'article_correspondence'
+  | 'effective_dates'
+  | 'cross_references';
 
+/** Tables, or "table.column" for columns added to older tables, each capability needs */
 const TABLE_MAP: Record<Capability, string[]> = {
   core_legislation: ['legal_documents', 'legal_provisions', 'provisions_fts'],
   eu_references: ['eu_documents', 'eu_references'],
   case_law: ['case_law'],
   preparatory_works: ['preparatory_works'],
+  official_numbers: ['legal_documents.official_number'],
+  provision_segments: ['provision_segments'],
+  folded_search: ['provisions_fts_folded', 'definitions_fts_folded'],
+  provision_versions: ['provision_versions'],
+  provision_repeals: ['legal_provisions.repealed'],
+  law_replacements: ['document_replacements'],
+  article_correspondence: ['article_correspondence'],
+  effective_dates: ['provision_effective_dates'],
+  // The table predates the extractor; only newer builds fill it
+  cross_references: ['cross_references.target_segment_ref'],
 };
 
 export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capability> {
@@ -24,9 +51,20 @@ export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capab
     (db.prepare("SELECT name FROM sqlite_master WHERE type='table'").all() as { name: string }[])
       .map(r => r.name)
   );
+  const columns = new Map<string, Set<string>>();
+  const has = (required: string) => {
+    const [table, column] = required.split('.');
+    if (!tables.has(table)) return false;
+    if (!column) return true;
+    if (!columns.has(table)) {
+      const info = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      columns.set(table, new Set(info.map(c => c.name)));
+    }
+    return columns.get(table)!.has(column);
+  };
 
   for (const [cap, required] of Object.entries(TABLE_MAP)) {
-    if (required.every(t => tables.has(t))) {
+    if (required.every(has)) {
       caps.add(cap as Capability);
     }
   }
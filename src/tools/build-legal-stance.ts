@@ -3,13 +3,16 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { searchProvisions, searchProvisionsTranslated } from '../utils/provision-search.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface BuildLegalStanceInput {
   query: string;
   document_id?: string;
   limit?: number;
+  /** Translate English legal terms to Vietnamese before searching (default true) */
+  translate?: boolean;
 }
 
 export interface LegalStanceResult {
@@ -20,6 +23,7 @@ export interface LegalStanceResult {
   title: string | null;
   snippet: string;
   relevance: number;
+  match: 'exact' | 'folded';
 }
 
 export async function buildLegalStance(
@@ -30,43 +34,40 @@ export async function buildLegalStance(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
-  const limit = Math.min(Math.max(input.limit ?? 5, 1), 20);
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
-
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 48) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
-      params.push(input.document_id);
-    }
-
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(limit);
-
-    try {
-      const rows = db.prepare(sql).all(...params) as LegalStanceResult[];
-      if (rows.length > 0) {
-        return { results: rows, _metadata: generateResponseMetadata(db) };
-      }
-    } catch {
-      continue;
+  let documentId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
     }
+    documentId = resolved;
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  const limit = Math.min(Math.max(input.limit ?? 5, 1), 20);
+  const options = { documentId, limit, snippetTokens: 48 };
+  const { rows, translation } = input.translate === false
+    ? { rows: searchProvisions(db, input.query, options), translation: null }
+    : searchProvisionsTranslated(db, input.query, options);
+
+  return {
+    results: rows.map(row => ({
+      document_id: row.document_id,
+      document_title: row.document_title,
+      provision_ref: row.provision_ref,
+      section: row.section,
+      title: row.title,
+      snippet: row.snippet,
+      relevance: row.relevance,
+      match: row.match,
+    })),
+    _metadata: translation
+      ? { ...generateResponseMetadata(db), ...{ query_translation: translation } }
+      : generateResponseMetadata(db),
+  };
 }
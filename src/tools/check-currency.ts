@@ -1,14 +1,44 @@
 /**
  * check_currency — Check whether an Vietnamese statute is currently in force.
+ *
+ * With provision_ref, also reports whether that article is still valid: an
+ * article can be amended or repealed ("bãi bỏ") while the statute stays in force.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import {
+  documentStatusOn,
+  invalidDateNote,
+  normalizeAsOfDate,
+  notInForceReason,
+  statusAsOf,
+  type DatedDocument,
+} from '../utils/as-of-date.js';
+import {
+  describeLaw,
+  describeSuccessors,
+  findReplacedLaw,
+  replacedBy,
+  replaces,
+  successorsOn,
+  type Replacement,
+  type ReplacedLaw,
+} from '../utils/document-replacements.js';
+import {
+  clauseInForceDates,
+  loadEffectiveDates,
+  transitionalPeriodsOn,
+  type ClauseInForceDate,
+} from '../utils/provision-effective-dates.js';
+import { parseSegmentRef, segmentRef } from '../utils/provision-segments.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { findProvision, loadVersions, versionOn } from './get-provision.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
   provision_ref?: string;
+  /** ISO date to answer as of, instead of the current status */
   as_of_date?: string;
 }
 
@@ -16,17 +46,207 @@ export interface CheckCurrencyResult {
   document_id: string;
   title: string;
   status: string;
+  official_number?: string | null;
   issued_date: string | null;
   in_force_date: string | null;
+  repealed_date?: string | null;
+  /** Set when the question was asked as of a date; status is then the status on that date */
+  as_of_date?: string;
+  current_status?: string;
+  /** Laws that repealed and replaced this one */
+  replaced_by?: Replacement[];
+  /** Laws this one repealed and replaced */
+  replaces?: Replacement[];
+  /** Set when provision_ref was given and found */
+  provision?: ProvisionCurrency;
   warnings: string[];
 }
 
+export interface ProvisionCurrency {
+  provision_ref: string;
+  /** Set when a clause or point was asked for ("dieu8.k2"); the status is its article's */
+  segment_ref?: string;
+  /** Status of the article itself, on as_of_date if given */
+  status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
+  /** Day the wording (or the repeal) behind this status took effect */
+  effective_date: string | null;
+  /** Instrument that gave the article the wording in force */
+  amending_instrument: string | null;
+  repealing_instrument: string | null;
+  /** The article's own repeal date, or the statute's when the statute goes first */
+  repealed_date: string | null;
+  /** Set when the article falls with the statute rather than by its own repeal */
+  repealed_with_statute?: boolean;
+  /** Version of the wording in force; set when the database records versions */
+  version?: number;
+  /** Day the wording in force stops applying: the next wording's or the repeal's; null if none is known */
+  valid_to: string | null;
+  /** Clauses that enter into force on their own date */
+  clause_in_force_dates?: ClauseInForceDate[];
+}
+
+/**
+ * Status of one article on an ISO date, from its recorded wordings and repeal.
+ * An article falls with its statute unless repealed before it, so
+ * `statuteRepealed` caps the article's validity. Databases built before
+ * provisions carried repeal columns report none.
+ */
+function provisionCurrency(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provision: Record<string, unknown>,
+  date: string,
+  statuteRepealed: string | null,
+): ProvisionCurrency {
+  const provisionRef = String(provision.provision_ref);
+  const ownDate = (provision.repealed_date as string | null | undefined) ?? null;
+  const ownRepeal = Boolean(provision.repealed);
+  const withStatute = statuteRepealed !== null && !(ownRepeal && (!ownDate || ownDate <= statuteRepealed));
+  const repealedDate = withStatute ? statuteRepealed : ownDate;
+  const repealingInstrument = withStatute
+    ? null
+    : (provision.repealing_instrument as string | null | undefined) ?? null;
+  const repealed = withStatute ? statuteRepealed <= date : ownRepeal && (!ownDate || ownDate <= date);
+
+  const versions = loadVersions(db, documentId, provisionRef);
+  const inForce = versionOn(versions, date);
+  const clauses = clauseInForceDates(loadEffectiveDates(db, documentId, provisionRef), provisionRef);
+  const ends = [inForce?.valid_to, repealedDate].filter((d): d is string => Boolean(d)).sort();
+  const base = {
+    provision_ref: provisionRef,
+    amending_instrument: inForce?.amending_instrument ?? null,
+    repealing_instrument: repealingInstrument,
+    repealed_date: repealedDate,
+    ...(withStatute ? { repealed_with_statute: true } : {}),
+    ...(inForce ? { version: inForce.version } : {}),
+    valid_to: ends[0] ?? null,
+    ...(clauses.length > 0 ? { clause_in_force_dates: clauses } : {}),
+  };
+
+  if (repealed) {
+    return { ...base, status: 'repealed', effective_date: repealedDate };
+  }
+  if (versions.length > 0 && !inForce) {
+    return { ...base, status: 'not_yet_in_force', effective_date: versions[0].valid_from };
+  }
+  return {
+    ...base,
+    status: inForce?.amending_instrument ? 'amended' : 'in_force',
+    effective_date: inForce?.valid_from ?? null,
+  };
+}
+
+/**
+ * Transitional periods of a statute still running on an ISO date.
+ */
+function transitionalWarnings(db: InstanceType<typeof Database>, documentId: string, date: string): string[] {
+  return transitionalPeriodsOn(loadEffectiveDates(db, documentId), date).map(t =>
+    `Transitional rules in "${t.provision_ref}" keep earlier provisions applicable to some cases until ${t.date}.`
+  );
+}
+
+/**
+ * Warnings for an article cited from a statute on an ISO date; `latest` is the
+ * article's status today when `provision` is its status on an earlier date.
+ */
+function provisionWarnings(provision: ProvisionCurrency, date: string, latest?: ProvisionCurrency): string[] {
+  const name = `Provision "${provision.provision_ref}"`;
+  const by = (instrument: string | null) => (instrument ? ` by ${instrument}` : '');
+  const from = (date: string | null) => (date ? ` with effect from ${date}` : '');
+  const how = (p: ProvisionCurrency) => (p.repealed_with_statute ? ' with the statute' : by(p.repealing_instrument));
+  const warnings: string[] = [];
+
+  if (provision.status === 'repealed') {
+    warnings.push(provision.repealed_with_statute
+      ? `${name} was repealed with the statute${from(provision.repealed_date)} and is no longer valid.`
+      : `${name} was repealed${how(provision)}${from(provision.repealed_date)} and is no longer valid, even if the statute is.`);
+  } else if (provision.status === 'not_yet_in_force') {
+    warnings.push(`${name} had no wording in force yet (first in force from ${provision.effective_date ?? 'an unrecorded date'}).`);
+  } else if (provision.status === 'amended') {
+    warnings.push(
+      `${name} was amended${by(provision.amending_instrument)}${from(provision.effective_date)}; cite the amended wording.`
+    );
+  }
+
+  if (latest && latest.status === 'repealed' && provision.status !== 'repealed') {
+    warnings.push(`${name} has since been repealed${how(latest)}${from(latest.repealed_date)}.`);
+  } else if (latest && latest.version !== provision.version && latest.status === 'amended') {
+    warnings.push(`${name} has since been amended${by(latest.amending_instrument)}${from(latest.effective_date)}.`);
+  }
+
+  if (!latest && provision.status !== 'repealed' && provision.repealed_date) {
+    warnings.push(`${name} is to be repealed${how(provision)}${from(provision.repealed_date)}.`);
+  }
+
+  if (provision.status !== 'repealed') {
+    for (const clause of provision.clause_in_force_dates ?? []) {
+      if (date < clause.in_force_date) {
+        warnings.push(`Clause "${clause.segment_ref}" of this provision does not apply before ${clause.in_force_date}.`);
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Currency of a replaced law that is not in the database: repealed from the
+ * day its first successor took over.
+ */
+function replacedLawCurrency(input: CheckCurrencyInput, law: ReplacedLaw, today: string): CheckCurrencyResult {
+  const repealedDate = law.replaced_by.map(s => s.effective_date).find((d): d is string => Boolean(d)) ?? null;
+  const dated = { status: 'repealed', issued_date: null, in_force_date: null, repealed_date: repealedDate };
+  const name = describeLaw(law);
+  const result: CheckCurrencyResult = {
+    document_id: input.document_id,
+    title: law.title ?? law.official_number,
+    status: statusAsOf(dated, today),
+    official_number: law.official_number,
+    issued_date: null,
+    in_force_date: null,
+    repealed_date: repealedDate,
+    replaced_by: law.replaced_by,
+    warnings: [],
+  };
+
+  let date = today;
+  if (input.as_of_date) {
+    const asOf = normalizeAsOfDate(input.as_of_date);
+    if (!asOf) {
+      result.warnings.push(invalidDateNote('as_of_date', input.as_of_date));
+      return result;
+    }
+    result.as_of_date = asOf;
+    result.current_status = result.status;
+    result.status = statusAsOf(dated, asOf);
+    date = asOf;
+  }
+
+  const { current, upcoming } = successorsOn(law.replaced_by, date);
+  if (current.length > 0) {
+    result.warnings.push(result.as_of_date
+      ? `By ${date} ${name} had been ${describeSuccessors(current)}.`
+      : `${name} has been ${describeSuccessors(current)}; cite the successor law.`);
+  }
+  if (upcoming.length > 0) {
+    result.warnings.push(`${name} is to be ${describeSuccessors(upcoming)}.`);
+  }
+  result.warnings.push(`${name} is not in the database; only its replacement is recorded.`);
+  return result;
+}
+
 export async function checkCurrency(
   db: InstanceType<typeof Database>,
   input: CheckCurrencyInput,
 ): Promise<ToolResponse<CheckCurrencyResult>> {
   const resolvedId = resolveDocumentId(db, input.document_id);
+  const today = new Date().toISOString().slice(0, 10);
   if (!resolvedId) {
+    // A repealed law is often not in the database, but its successor records it
+    const replaced = findReplacedLaw(db, input.document_id);
+    if (replaced) {
+      return { results: replacedLawCurrency(input, replaced, today), _metadata: generateResponseMetadata(db) };
+    }
     return {
       results: {
         document_id: input.document_id,
@@ -41,31 +261,105 @@ export async function checkCurrency(
   }
 
   const doc = db.prepare(
-    'SELECT id, title, status, issued_date, in_force_date FROM legal_documents WHERE id = ?'
-  ).get(resolvedId) as {
+    'SELECT * FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as DatedDocument & {
     id: string;
     title: string;
-    status: string;
-    issued_date: string | null;
-    in_force_date: string | null;
+    official_number: string | null;
   };
 
-  const warnings: string[] = [];
-  if (doc.status === 'repealed') {
-    warnings.push('This statute has been repealed and is no longer in force.');
-  } else if (doc.status === 'not_yet_in_force') {
-    warnings.push('This statute has not yet entered into force.');
+  // The stored status is the seed's; a repeal dated since then counts too
+  const status = documentStatusOn(doc, today);
+  const result: CheckCurrencyResult = {
+    document_id: doc.id,
+    title: doc.title,
+    status,
+    official_number: doc.official_number,
+    issued_date: doc.issued_date,
+    in_force_date: doc.in_force_date,
+    repealed_date: doc.repealed_date ?? null,
+    warnings: [],
+  };
+
+  const successors = replacedBy(db, doc.id, doc.official_number);
+  const predecessors = replaces(db, doc.id);
+  if (successors.length > 0) result.replaced_by = successors;
+  if (predecessors.length > 0) result.replaces = predecessors;
+
+  // "dieu8.k2" is answered for its article
+  const provisionRef = input.provision_ref?.trim();
+  const segment = provisionRef ? parseSegmentRef(provisionRef) : null;
+  const inSegment = segment && (segment.clause || segment.point) ? segment : null;
+  const provision = provisionRef
+    ? findProvision(db, resolvedId, inSegment?.provision_ref ?? provisionRef)
+    : undefined;
+  if (provisionRef && !provision) {
+    result.warnings.push(`Provision "${provisionRef}" not found in document "${resolvedId}"`);
   }
+  const currencyOn = (date: string): ProvisionCurrency => ({
+    ...provisionCurrency(db, resolvedId, provision!, date, doc.repealed_date ?? null),
+    ...(inSegment ? { segment_ref: segmentRef(String(provision!.provision_ref), inSegment.clause, inSegment.point) } : {}),
+  });
 
-  return {
-    results: {
-      document_id: doc.id,
-      title: doc.title,
-      status: doc.status,
-      issued_date: doc.issued_date,
-      in_force_date: doc.in_force_date,
-      warnings,
-    },
-    _metadata: generateResponseMetadata(db),
-  };
+  if (input.as_of_date) {
+    const asOf = normalizeAsOfDate(input.as_of_date);
+    if (!asOf) {
+      result.warnings.push(invalidDateNote('as_of_date', input.as_of_date));
+      return { results: result, _metadata: generateResponseMetadata(db) };
+    }
+
+    result.as_of_date = asOf;
+    result.status = statusAsOf(doc, asOf);
+    result.current_status = status;
+    const reason = notInForceReason(doc, asOf);
+    if (reason) {
+      result.warnings.push(`This statute was ${reason}.`);
+    } else if (doc.status === 'amended') {
+      result.warnings.push(
+        `This statute has since been amended; amendment dates are not recorded, so the current text may differ from the text in force on ${asOf}.`
+      );
+    }
+    if (!reason) result.warnings.push(...transitionalWarnings(db, resolvedId, asOf));
+    const onDate = successorsOn(successors, asOf);
+    const since = successorsOn(onDate.upcoming, today);
+    if (onDate.current.length > 0) {
+      result.warnings.push(`By ${asOf} this statute had been ${describeSuccessors(onDate.current)}.`);
+    }
+    if (since.current.length > 0) {
+      result.warnings.push(`This statute has since been ${describeSuccessors(since.current)}.`);
+    }
+    if (since.upcoming.length > 0) {
+      result.warnings.push(`This statute is to be ${describeSuccessors(since.upcoming)}.`);
+    }
+    if (provision) {
+      result.provision = currencyOn(asOf);
+      const latest = asOf < today ? currencyOn(today) : undefined;
+      result.warnings.push(...provisionWarnings(result.provision, asOf, latest));
+    }
+    return { results: result, _metadata: generateResponseMetadata(db) };
+  }
+
+  const { current, upcoming } = successorsOn(successors, today);
+  if (status === 'repealed') {
+    result.warnings.push(
+      `This statute has been repealed and is no longer in force${current.length > 0 ? `; it was ${describeSuccessors(current)}` : ''}.`
+    );
+  } else if (current.length > 0) {
+    result.warnings.push(`This statute has been ${describeSuccessors(current)}; cite the successor law.`);
+  } else if (status === 'not_yet_in_force') {
+    result.warnings.push('This statute has not yet entered into force.');
+  }
+  if (upcoming.length > 0) {
+    result.warnings.push(`This statute is to be ${describeSuccessors(upcoming)}.`);
+  }
+  if (status !== 'repealed' && status !== 'not_yet_in_force') {
+    result.warnings.push(...transitionalWarnings(db, resolvedId, today));
+  }
+
+  if (provision) {
+    result.provision = currencyOn(today);
+    result.warnings.push(...provisionWarnings(result.provision, today));
+  }
+
+  return { results: result, _metadata: generateResponseMetadata(db) };
 }
@@ -0,0 +1,116 @@
+/**
+ * diff_provision — What changed in an article between two recorded wordings.
+ *
+ * Versions come from provision_versions; pick them by number or by the date
+ * they were in force. The default compares the current wording with the one
+ * before it.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { invalidDateNote, normalizeAsOfDate } from '../utils/as-of-date.js';
+import { diffProvisionText, formatUnifiedDiff, type ProvisionDiff } from '../utils/provision-diff.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { findProvision, loadVersions, versionOn, type VersionRow } from './get-provision.js';
+
+export interface DiffProvisionInput {
+  document_id: string;
+  provision_ref?: string;
+  section?: string;
+  from_version?: number;
+  to_version?: number;
+  /** Alternatively, the wordings in force on these ISO dates */
+  from_date?: string;
+  to_date?: string;
+  /** Render modified clauses as one [-old-]{+new+} line in the unified diff */
+  word_diff?: boolean;
+}
+
+export interface DiffVersionInfo {
+  version: number;
+  valid_from: string | null;
+  valid_to: string | null;
+  amending_instrument: string | null;
+}
+
+export interface DiffProvisionResult extends ProvisionDiff {
+  document_id: string;
+  document_title: string;
+  from: DiffVersionInfo;
+  to: DiffVersionInfo;
+  /** The same diff as a unified diff, one hunk per changed clause */
+  unified: string;
+}
+
+function versionInfo(v: VersionRow): DiffVersionInfo {
+  return {
+    version: v.version,
+    valid_from: v.valid_from,
+    valid_to: v.valid_to,
+    amending_instrument: v.amending_instrument,
+  };
+}
+
+export async function diffProvision(
+  db: InstanceType<typeof Database>,
+  input: DiffProvisionInput,
+): Promise<ToolResponse<DiffProvisionResult | null>> {
+  const fail = (note: string): ToolResponse<DiffProvisionResult | null> => ({
+    results: null,
+    _metadata: { ...generateResponseMetadata(db), ...{ note } },
+  });
+
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) return fail(`No document found matching "${input.document_id}"`);
+
+  const ref = (input.provision_ref ?? input.section)?.trim();
+  if (!ref) return fail('provision_ref or section is required');
+
+  const provision = findProvision(db, resolvedId, ref);
+  if (!provision) return fail(`Provision "${ref}" not found in document "${resolvedId}"`);
+
+  const provisionRef = String(provision.provision_ref);
+  const versions = loadVersions(db, resolvedId, provisionRef);
+  if (versions.length < 2) {
+    return fail(`Only one wording of "${provisionRef}" is recorded; there is nothing to compare`);
+  }
+
+  const pick = (version: number | undefined, date: string | undefined, label: string): VersionRow | string => {
+    if (date) {
+      const asOf = normalizeAsOfDate(date);
+      if (!asOf) return invalidDateNote(`${label}_date`, date);
+      return versionOn(versions, asOf) ?? `No wording of "${provisionRef}" was in force on ${asOf}`;
+    }
+    return versions.find(v => v.version === version) ?? `Version ${version} of "${provisionRef}" not found`;
+  };
+
+  const latest = versions[versions.length - 1];
+  const to = input.to_version === undefined && !input.to_date
+    ? latest
+    : pick(input.to_version, input.to_date, 'to');
+  if (typeof to === 'string') return fail(to);
+  const from = input.from_version === undefined && !input.from_date
+    ? versions.find(v => v.version === to.version - 1) ?? versions[0]
+    : pick(input.from_version, input.from_date, 'from');
+  if (typeof from === 'string') return fail(from);
+
+  // The current wording's text is the provision's own
+  const text = (v: VersionRow) => v.content ?? String(provision.content);
+  const diff = diffProvisionText(provisionRef, text(from), text(to));
+
+  const docRow = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(resolvedId) as { title: string };
+  const label = (v: VersionRow) => `${resolvedId}:${provisionRef} v${v.version}` +
+    (v.valid_from ? ` (from ${v.valid_from})` : '');
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: docRow.title,
+      from: versionInfo(from),
+      to: versionInfo(to),
+      ...diff,
+      unified: formatUnifiedDiff(diff, label(from), label(to), input.word_diff),
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * extract_citations — Find and validate every legal citation in a block of text.
+ *
+ * Citations are located with the extractor in citation-extractor.ts and each
+ * one is checked against the database the same way validate_citation does.
+ * A citation that resolves but cites a repealed or amended law or article is
+ * flagged as such; one of a replaced law missing from the database names the
+ * successor.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { extractCitations } from '../utils/citation-extractor.js';
+import { documentStatusOn, type DatedDocument } from '../utils/as-of-date.js';
+import { articleProvisionRef } from '../utils/citation-parser.js';
+import { locatePinpoint } from '../utils/provision-segments.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import {
+  describeLaw,
+  findReplacedLaw,
+  replacedBy,
+  successorsOn,
+  type Replacement,
+} from '../utils/document-replacements.js';
+import { documentStatusWarnings, replacedLawWarnings } from './validate-citation.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface ExtractCitationsInput {
+  text: string;
+  /** Document the text comes from; resolves "Luật này" / "Nghị định này" */
+  document_id?: string;
+}
+
+/**
+ * valid: found and current; repealed / amended: found (or, for a repealed
+ * law missing from the database, known from its successor) but no longer
+ * current; not_found: the article, clause or point is not in the document;
+ * unresolved: no document could be identified.
+ */
+export type CitationCheckStatus = 'valid' | 'repealed' | 'amended' | 'not_found' | 'unresolved';
+
+export interface CheckedCitation {
+  text: string;
+  start: number;
+  end: number;
+  check: CitationCheckStatus;
+  document_id?: string;
+  document_title?: string;
+  document_status?: string;
+  /** Laws that replaced the cited document */
+  replaced_by?: Replacement[];
+  provision_ref?: string;
+  clause?: string;
+  point?: string;
+  warnings: string[];
+}
+
+export interface ExtractCitationsResult {
+  citations: CheckedCitation[];
+  summary: {
+    total: number;
+    valid: number;
+    not_found: number;
+    unresolved: number;
+    repealed: number;
+    amended: number;
+  };
+}
+
+interface DocumentRow extends DatedDocument {
+  id: string;
+  title: string;
+  official_number: string | null;
+}
+
+export async function extractCitationsTool(
+  db: InstanceType<typeof Database>,
+  input: ExtractCitationsInput,
+): Promise<ToolResponse<ExtractCitationsResult>> {
+  const contextId = input.document_id ? resolveDocumentId(db, input.document_id) : null;
+  const extracted = extractCitations(input.text ?? '');
+
+  const documents = new Map<string, DocumentRow | undefined>();
+  const loadDocument = (id: string): DocumentRow | undefined => {
+    if (!documents.has(id)) {
+      documents.set(id, db.prepare(
+        'SELECT * FROM legal_documents WHERE id = ?'
+      ).get(id) as DocumentRow | undefined);
+    }
+    return documents.get(id);
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const citations = extracted.map((citation): CheckedCitation => {
+    const checked: CheckedCitation = {
+      text: citation.text,
+      start: citation.start,
+      end: citation.end,
+      check: 'unresolved',
+      clause: citation.clause,
+      point: citation.point,
+      warnings: [],
+    };
+
+    let docId: string | null = null;
+    if (citation.relativeDocument) {
+      docId = contextId;
+      if (!docId) {
+        checked.warnings.push('Refers to the containing document; pass document_id to resolve it');
+      }
+    } else if (citation.documentRef) {
+      docId = resolveDocumentId(db, citation.documentRef);
+      // A repealed law is often not in the database, but its successor records it
+      const replaced = docId ? null : findReplacedLaw(db, citation.documentRef);
+      if (replaced) {
+        checked.check = successorsOn(replaced.replaced_by, today).current.length > 0 ? 'repealed' : 'unresolved';
+        checked.replaced_by = replaced.replaced_by;
+        checked.warnings.push(...replacedLawWarnings(replaced.replaced_by, describeLaw(replaced)));
+        return checked;
+      }
+      if (!docId) {
+        checked.warnings.push(`Document not found: "${citation.documentRef}"`);
+      }
+    } else {
+      checked.warnings.push('Citation does not name a document');
+    }
+
+    const doc = docId ? loadDocument(docId) : undefined;
+    if (!doc) return checked;
+
+    checked.document_id = doc.id;
+    checked.document_title = doc.title;
+    const status = documentStatusOn(doc, today);
+    checked.document_status = status;
+    const successors = replacedBy(db, doc.id, doc.official_number);
+    if (successors.length > 0) checked.replaced_by = successors;
+    checked.warnings.push(...documentStatusWarnings(status, successors));
+    const currency: CitationCheckStatus = status === 'repealed' || successorsOn(successors, today).current.length > 0
+      ? 'repealed'
+      : status === 'amended' ? 'amended' : 'valid';
+
+    if (!citation.article) {
+      checked.check = currency;
+      return checked;
+    }
+
+    // Databases built before provisions carried repeal columns have no "repealed"
+    const provision = db.prepare(
+      'SELECT * FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?)'
+    ).get(doc.id, articleProvisionRef(citation.article), citation.article) as
+      { provision_ref: string; content: string; repealed?: number; repealed_date?: string | null } | undefined;
+
+    if (!provision) {
+      checked.check = 'not_found';
+      checked.warnings.push(`Provision "Điều ${citation.article}" not found in ${doc.title}`);
+      return checked;
+    }
+
+    checked.provision_ref = provision.provision_ref;
+    const pinpoint = locatePinpoint(provision.content, citation.clause, citation.point);
+    if (pinpoint.clause_found === false) {
+      checked.warnings.push(`Clause "khoản ${citation.clause}" not found in the text of Điều ${citation.article}`);
+    }
+    if (pinpoint.point_found === false) {
+      checked.warnings.push(`Point "điểm ${citation.point}" not found in the text of Điều ${citation.article}`);
+    }
+    if (pinpoint.clause_found === false || pinpoint.point_found === false) {
+      checked.check = 'not_found';
+    } else if (provision.repealed && !(provision.repealed_date && provision.repealed_date > today)) {
+      checked.check = 'repealed';
+      checked.warnings.push(`Điều ${citation.article} has been repealed, even if ${doc.title} has not`);
+    } else {
+      checked.check = currency;
+      if (provision.repealed) {
+        checked.warnings.push(`Note: Điều ${citation.article} is to be repealed from ${provision.repealed_date}`);
+      }
+    }
+    return checked;
+  });
+
+  const summary = {
+    total: citations.length,
+    valid: citations.filter(c => c.check === 'valid').length,
+    not_found: citations.filter(c => c.check === 'not_found').length,
+    unresolved: citations.filter(c => c.check === 'unresolved').length,
+    repealed: citations.filter(c => c.check === 'repealed').length,
+    amended: citations.filter(c => c.check === 'amended').length,
+  };
+
+  const metadata = input.document_id && !contextId
+    ? { note: `Context document not found: "${input.document_id}"` }
+    : {};
+
+  return {
+    results: { citations, summary },
+    _metadata: { ...generateResponseMetadata(db), ...metadata },
+  };
+}
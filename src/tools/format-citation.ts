@@ -1,48 +1,133 @@
 /**
- * format_citation — Format an Vietnamese legal citation per standard conventions.
+ * format_citation — Format a Vietnamese legal citation per standard conventions.
+ *
+ * The document is looked up in the database so the output uses its canonical
+ * title and official number rather than whatever the user typed.
  */
 
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import type Database from '@ansvar/mcp-sqlite';
+import {
+  formatEnglishPinpoint,
+  formatVietnamesePinpoint,
+  parseCitation,
+} from '../utils/citation-parser.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface FormatCitationInput {
   citation: string;
-  format?: 'full' | 'short' | 'pinpoint';
+  format?: 'full' | 'short' | 'pinpoint' | 'english';
 }
 
 export interface FormatCitationResult {
   original: string;
   formatted: string;
   format: string;
+  document_id?: string;
+  warnings: string[];
+}
+
+interface DocumentNames {
+  title: string;
+  title_en: string | null;
+  official_number: string | null;
+}
+
+const DOCUMENT_TYPE_PATTERN = /^(Bộ luật|Luật|Nghị định|Nghị quyết|Pháp lệnh|Hiến pháp|Thông tư|Quyết định)\b/i;
+const TRAILING_YEAR_PATTERN = /\s+(?:năm\s+)?(\d{4})$/;
+
+/**
+ * "Hiến pháp 2013" -> "Hiến pháp năm 2013" (the year is written with "năm").
+ */
+function vietnameseTitle(title: string): string {
+  return title.replace(TRAILING_YEAR_PATTERN, ' năm $1');
+}
+
+/**
+ * Title followed by the official number: "Luật An ninh mạng số 24/2018/QH14".
+ * Titles that already carry the number (decrees) are returned unchanged.
+ */
+function numberedTitle(doc: DocumentNames): string {
+  if (!doc.official_number || doc.title.includes(doc.official_number)) {
+    return vietnameseTitle(doc.title);
+  }
+  return `${doc.title.replace(TRAILING_YEAR_PATTERN, '')} số ${doc.official_number}`;
+}
+
+/**
+ * Document type plus number: "Luật số 24/2018/QH14", "Nghị định số 13/2023/NĐ-CP".
+ */
+function shortTitle(doc: DocumentNames): string {
+  const type = doc.title.match(DOCUMENT_TYPE_PATTERN)?.[1];
+  if (!type || !doc.official_number) return vietnameseTitle(doc.title);
+  return `${type} số ${doc.official_number}`;
+}
+
+/**
+ * English title plus number: "Cybersecurity Law No. 24/2018/QH14".
+ */
+function englishTitle(doc: DocumentNames): string {
+  const title = doc.title_en ?? doc.title;
+  if (!doc.official_number) return title;
+  return `${title.replace(TRAILING_YEAR_PATTERN, '')} No. ${doc.official_number}`;
+}
+
+function joinCitation(pinpoint: string, document: string, separator: string): string {
+  if (!pinpoint) return document;
+  if (!document) return pinpoint;
+  return `${pinpoint}${separator}${document}`;
 }
 
 export async function formatCitationTool(
+  db: InstanceType<typeof Database>,
   input: FormatCitationInput,
-): Promise<FormatCitationResult> {
+): Promise<ToolResponse<FormatCitationResult>> {
   const format = input.format ?? 'full';
-  const trimmed = input.citation.trim();
+  const warnings: string[] = [];
+  const parsed = parseCitation(input.citation) ?? {};
 
-  // Parse "Section N <Act>" or "Section N, <Act>"
-  const sectionFirst = trimmed.match(/^Section\s+(\d+[A-Za-z]*(?:\(\d+\))?)\s*[,;]?\s+(.+)$/i);
-  // Parse "<Act> s N" or "<Act>, s N" or "<Act> Section N"
-  const sectionLast = trimmed.match(/^(.+?)\s*[,;]?\s+(?:s\.?\s+|Section\s+)(\d+[A-Za-z]*(?:\(\d+\))?)$/i);
+  const viPin = formatVietnamesePinpoint(parsed);
+  const enPin = formatEnglishPinpoint(parsed);
 
-  const section = sectionFirst?.[1] ?? sectionLast?.[2];
-  const act = sectionFirst?.[2] ?? sectionLast?.[1] ?? trimmed;
+  let doc: DocumentNames | undefined;
+  let documentId: string | undefined;
+  if (parsed.documentRef) {
+    documentId = resolveDocumentId(db, parsed.documentRef) ?? undefined;
+    if (documentId) {
+      doc = db.prepare(
+        'SELECT title, title_en, official_number FROM legal_documents WHERE id = ?'
+      ).get(documentId) as DocumentNames;
+    } else {
+      warnings.push(`Document not found: "${parsed.documentRef}" — formatted from the input text`);
+    }
+  }
 
+  const fallbackTitle = parsed.documentRef ?? '';
   let formatted: string;
   switch (format) {
     case 'short':
-      formatted = section ? `${act.split('(')[0].trim()} s ${section}` : act;
+      formatted = joinCitation(viPin, doc ? shortTitle(doc) : fallbackTitle, ' ');
       break;
     case 'pinpoint':
-      formatted = section ? `s ${section}` : act;
+      formatted = viPin || (doc ? vietnameseTitle(doc.title) : fallbackTitle);
+      break;
+    case 'english':
+      formatted = joinCitation(enPin, doc ? englishTitle(doc) : fallbackTitle, ', ');
       break;
     case 'full':
     default:
-      formatted = section ? `Section ${section}, ${act}` : act;
+      formatted = joinCitation(viPin, doc ? numberedTitle(doc) : fallbackTitle, ' ');
       break;
   }
 
-  return { original: input.citation, formatted, format };
+  return {
+    results: {
+      original: input.citation,
+      formatted: formatted || input.citation.trim(),
+      format,
+      document_id: documentId,
+      warnings,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
 }
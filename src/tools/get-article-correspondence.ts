@@ -0,0 +1,182 @@
+/**
+ * get_article_correspondence — Where an article of a replaced law went in
+ * the law that replaced it.
+ *
+ * Rows come from article_correspondence: curated tables, plus text-similarity
+ * suggestions when both laws are in the database. The older law usually is
+ * not, so it is matched by official number, census ID or title.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { articleProvisionRef, parseCitation } from '../utils/citation-parser.js';
+import { normalizeOfficialNumber, resolveDocumentId } from '../utils/statute-id.js';
+import { normalizeForMatch } from '../utils/vietnamese-text.js';
+import { describeLaw, describeSuccessors, replacedBy } from '../utils/document-replacements.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetArticleCorrespondenceInput {
+  /** Citation of the old article, e.g. "Điều 226a Bộ luật Hình sự 1999" */
+  citation?: string;
+  /** Alternatively, the old law and article separately */
+  document_id?: string;
+  provision_ref?: string;
+}
+
+export interface CorrespondingArticle {
+  document_id: string;
+  document_title: string | null;
+  /** Null when the article was dropped */
+  provision_ref: string | null;
+  article_title: string | null;
+  match_type: 'equivalent' | 'split' | 'merged' | 'dropped';
+  /** curated, or suggested from text similarity */
+  source: 'curated' | 'suggested';
+  similarity: number | null;
+  note: string | null;
+  /** Whether the new article's text is in this database (get_provision) */
+  in_database: boolean;
+}
+
+export interface GetArticleCorrespondenceResult {
+  from: {
+    document_id: string | null;
+    official_number: string | null;
+    title: string | null;
+    provision_ref: string;
+  };
+  counterparts: CorrespondingArticle[];
+}
+
+interface CorrespondenceRow {
+  from_document_id: string | null;
+  from_number: string | null;
+  from_number_normalized: string | null;
+  from_title: string | null;
+  from_provision_ref: string;
+  to_document_id: string;
+  to_provision_ref: string | null;
+  match_type: CorrespondingArticle['match_type'];
+  source: CorrespondingArticle['source'];
+  similarity: number | null;
+  note: string | null;
+}
+
+type OldLaw = Pick<CorrespondenceRow, 'from_document_id' | 'from_number' | 'from_number_normalized' | 'from_title'>;
+
+/** "226a", "Điều 226a" and "dieu226a" all become "dieu226a" */
+function toProvisionRef(input: string): string {
+  const folded = normalizeForMatch(input).replace(/\s+/g, '');
+  const number = folded.match(/^(?:dieu)?(\d+[a-z]?)$/);
+  return number ? articleProvisionRef(number[1]) : input.trim();
+}
+
+/**
+ * The old law a reference names, among those with a correspondence table:
+ * by official number, then document ID, then title ("năm" and diacritics ignored).
+ */
+function findOldLaw(db: InstanceType<typeof Database>, ref: string): OldLaw | undefined {
+  const laws = db.prepare(
+    `SELECT DISTINCT from_document_id, from_number, from_number_normalized, from_title
+     FROM article_correspondence`
+  ).all() as OldLaw[];
+
+  const number = normalizeOfficialNumber(ref);
+  if (number) return laws.find(law => law.from_number_normalized === number);
+
+  const trimmed = ref.trim();
+  const byId = laws.find(law => law.from_document_id === trimmed);
+  if (byId) return byId;
+
+  const resolvedId = resolveDocumentId(db, trimmed);
+  if (resolvedId) {
+    const found = laws.find(law => law.from_document_id === resolvedId);
+    if (found) return found;
+  }
+
+  const title = normalizeForMatch(trimmed.replace(/\s+n[ăa]m\s+(\d{4})\b/giu, ' $1'));
+  return laws.find(law => law.from_title && normalizeForMatch(law.from_title) === title);
+}
+
+export async function getArticleCorrespondence(
+  db: InstanceType<typeof Database>,
+  input: GetArticleCorrespondenceInput,
+): Promise<ToolResponse<GetArticleCorrespondenceResult | null>> {
+  const fail = (note: string): ToolResponse<GetArticleCorrespondenceResult | null> => ({
+    results: null,
+    _metadata: { ...generateResponseMetadata(db), ...{ note } },
+  });
+
+  let documentRef = input.document_id?.trim();
+  let provisionRef = input.provision_ref ? toProvisionRef(input.provision_ref) : undefined;
+  if (input.citation) {
+    const parsed = parseCitation(input.citation);
+    documentRef = parsed?.documentRef ?? documentRef;
+    if (parsed?.article) provisionRef = articleProvisionRef(parsed.article);
+  }
+  if (!documentRef) return fail('Name the old law: pass citation, or document_id and provision_ref');
+  if (!provisionRef) return fail('Name the old article: pass citation, or document_id and provision_ref');
+
+  const law = findOldLaw(db, documentRef);
+  if (!law) {
+    // No table, but the replacement itself may be known
+    const resolvedId = resolveDocumentId(db, documentRef);
+    const resolvedNumber = resolvedId
+      ? (db.prepare('SELECT official_number FROM legal_documents WHERE id = ?')
+        .get(resolvedId) as { official_number: string | null }).official_number
+      : null;
+    const number = normalizeOfficialNumber(documentRef) ? documentRef : resolvedNumber;
+    const successors = replacedBy(db, resolvedId ?? '', number);
+    return fail(successors.length > 0
+      ? `No article correspondence is recorded for "${documentRef}"; it was ${describeSuccessors(successors)}`
+      : `No article correspondence is recorded for "${documentRef}"`);
+  }
+
+  const rows = db.prepare(
+    `SELECT * FROM article_correspondence
+     WHERE from_provision_ref = ?
+       AND (from_number_normalized IS ? AND from_document_id IS ?)
+     ORDER BY source, similarity DESC, id`
+  ).all(provisionRef, law.from_number_normalized, law.from_document_id) as CorrespondenceRow[];
+
+  const oldName = describeLaw({
+    title: law.from_title,
+    official_number: law.from_number,
+    document_id: law.from_document_id,
+  });
+  if (rows.length === 0) {
+    return fail(`${provisionRef} of ${oldName} is not in the correspondence table`);
+  }
+
+  const titleOf = db.prepare('SELECT title FROM legal_documents WHERE id = ?');
+  const articleOf = db.prepare('SELECT title FROM legal_provisions WHERE document_id = ? AND provision_ref = ?');
+  const counterparts = rows.map((row): CorrespondingArticle => {
+    const document = titleOf.get(row.to_document_id) as { title: string } | undefined;
+    const article = row.to_provision_ref
+      ? articleOf.get(row.to_document_id, row.to_provision_ref) as { title: string | null } | undefined
+      : undefined;
+    return {
+      document_id: row.to_document_id,
+      document_title: document?.title ?? null,
+      provision_ref: row.to_provision_ref,
+      article_title: article?.title ?? null,
+      match_type: row.match_type,
+      source: row.source,
+      similarity: row.similarity,
+      note: row.note,
+      in_database: Boolean(article),
+    };
+  });
+
+  return {
+    results: {
+      from: {
+        document_id: law.from_document_id,
+        official_number: law.from_number,
+        title: law.from_title,
+        provision_ref: provisionRef,
+      },
+      counterparts,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
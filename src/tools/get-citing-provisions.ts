@@ -0,0 +1,63 @@
+/**
+ * get_citing_provisions — What cites an article: the articles of this and
+ * other statutes that refer to it.
+ *
+ * The counterpart of get_provision_references, over the same
+ * cross_references rows.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { referencesTo, type CrossReferenceRow } from '../utils/cross-references.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveArticleRef } from './get-provision-references.js';
+
+export interface GetCitingProvisionsInput {
+  document_id: string;
+  /** Article or clause ("dieu26", "26", "dieu26.k2"); omit for citations of the statute from other statutes */
+  provision_ref?: string;
+}
+
+export interface GetCitingProvisionsResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  segment_ref: string | null;
+  /** Citing articles in other statutes */
+  external: number;
+  citations: CrossReferenceRow[];
+}
+
+export async function getCitingProvisions(
+  db: InstanceType<typeof Database>,
+  input: GetCitingProvisionsInput,
+): Promise<ToolResponse<GetCitingProvisionsResult | null>> {
+  const fail = (note: string): ToolResponse<null> => ({
+    results: null,
+    _metadata: { ...generateResponseMetadata(db), ...{ note } },
+  });
+
+  const documentId = resolveDocumentId(db, input.document_id ?? '');
+  if (!documentId) return fail(`No document found matching "${input.document_id}"`);
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?').get(documentId) as
+    { id: string; title: string };
+
+  let article: { provision_ref: string; segment_ref: string | null } | undefined;
+  if (input.provision_ref?.trim()) {
+    article = resolveArticleRef(db, documentId, input.provision_ref);
+    if (!article) return fail(`Provision "${input.provision_ref}" not found in document "${documentId}"`);
+  }
+
+  const citations = referencesTo(db, documentId, article?.provision_ref, article?.segment_ref);
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      provision_ref: article?.provision_ref ?? null,
+      segment_ref: article?.segment_ref ?? null,
+      external: citations.filter(c => c.source_document_id !== doc.id).length,
+      citations,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * get_definitions — Look up defined terms (Giải thích từ ngữ) across statutes.
+ *
+ * With a term, returns each statute's definition of it; with only a
+ * document_id, lists every definition in that document. Terms are matched
+ * case- and diacritic-insensitively against both the Vietnamese term and the
+ * English term where one is recorded.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { documentStatuses } from '../utils/as-of-date.js';
+import { normalizeForMatch } from '../utils/vietnamese-text.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDefinitionsInput {
+  term?: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  term: string;
+  term_en: string | null;
+  definition: string;
+  /** Article the definition comes from (e.g. "dieu3") */
+  source_provision: string | null;
+  /** Clause (khoản) and, for sub-definitions, point (điểm) within that article */
+  clause?: string;
+  point?: string;
+  /** How the term matched the query: the whole term, or part of it */
+  match?: 'exact' | 'partial';
+}
+
+export interface DefinitionRow {
+  id: number;
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  term: string;
+  term_en: string | null;
+  definition: string;
+  source_provision: string | null;
+  clause?: string | null;
+  point?: string | null;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+/**
+ * All definitions, optionally for one document, in document and source order.
+ */
+export function loadDefinitions(
+  db: InstanceType<typeof Database>,
+  documentId?: string,
+): DefinitionRow[] {
+  // d.* so databases built before clause/point existed still work
+  let sql = `
+    SELECT d.*, ld.title as document_title, ld.status as document_status
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+  `;
+  const params: string[] = [];
+  if (documentId) {
+    sql += ' WHERE d.document_id = ?';
+    params.push(documentId);
+  }
+  sql += ' ORDER BY d.document_id, d.id';
+  // Status today, from the document's dates
+  const statuses = documentStatuses(db, new Date().toISOString().slice(0, 10));
+  return (db.prepare(sql).all(...params) as DefinitionRow[])
+    .map(row => ({ ...row, document_status: statuses.get(row.document_id) ?? row.document_status }));
+}
+
+export function toDefinitionResult(row: DefinitionRow, match?: 'exact' | 'partial'): DefinitionResult {
+  return {
+    document_id: row.document_id,
+    document_title: row.document_title,
+    document_status: row.document_status,
+    term: row.term,
+    term_en: row.term_en,
+    definition: row.definition,
+    source_provision: row.source_provision,
+    clause: row.clause ?? undefined,
+    point: row.point ?? undefined,
+    match,
+  };
+}
+
+export async function getDefinitions(
+  db: InstanceType<typeof Database>,
+  input: GetDefinitionsInput,
+): Promise<ToolResponse<DefinitionResult[]>> {
+  const term = input.term?.trim();
+  if (!term && !input.document_id) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Provide a term, a document_id, or both' },
+      },
+    };
+  }
+
+  let documentId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
+    }
+    documentId = resolved;
+  }
+
+  const rows = loadDefinitions(db, documentId);
+
+  // Listing a whole document's definitions
+  if (!term) {
+    return {
+      results: rows.map(row => toDefinitionResult(row)),
+      _metadata: generateResponseMetadata(db),
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const wanted = normalizeForMatch(term);
+  const names = (row: DefinitionRow) =>
+    [row.term, row.term_en].filter((t): t is string => Boolean(t)).map(normalizeForMatch);
+
+  // Whole-term matches first; fall back to terms containing the query
+  const exact = rows.filter(row => names(row).some(name => name === wanted));
+  const partial = rows.filter(row => !exact.includes(row) && names(row).some(name => name.includes(wanted)));
+  const results = [
+    ...exact.map(row => toDefinitionResult(row, 'exact')),
+    ...partial.map(row => toDefinitionResult(row, 'partial')),
+  ].slice(0, limit);
+
+  if (results.length === 0) {
+    return {
+      results,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No definition of "${term}" found. Try search_definitions to search definition text.` },
+      },
+    };
+  }
+
+  return { results, _metadata: generateResponseMetadata(db) };
+}
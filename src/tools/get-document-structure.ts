@@ -0,0 +1,166 @@
+/**
+ * get_document_structure — Table of contents of a Vietnamese statute.
+ *
+ * Returns the Phần > Chương > Mục outline with article titles and counts,
+ * built from the headings stored on each provision. Articles without a
+ * heading after the first one are listed apart as unplaced: build:db leaves
+ * an article's headings empty when the text does not show where it falls
+ * (see scripts/lib/headings.ts).
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { splitHeading, type HeadingLevel } from '../utils/document-structure.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDocumentStructureInput {
+  document_id: string;
+  include_articles?: boolean;
+}
+
+export interface StructureArticle {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+}
+
+export interface StructureNode {
+  level: HeadingLevel;
+  heading: string;
+  label: string;
+  name?: string;
+  article_count: number;
+  first_article?: string;
+  last_article?: string;
+  articles?: StructureArticle[];
+  children: StructureNode[];
+}
+
+export interface DocumentStructure {
+  document_id: string;
+  document_title: string;
+  article_count: number;
+  outline: StructureNode[];
+  /** Articles before the first heading, which sit outside any */
+  articles?: StructureArticle[];
+  /** Articles after the first heading whose heading is not known */
+  unplaced?: StructureArticle[];
+}
+
+interface ProvisionRow {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  part?: string | null;
+  chapter: string | null;
+  muc?: string | null;
+}
+
+const LEVELS: HeadingLevel[] = ['part', 'chapter', 'muc'];
+
+/** "dieu12a" -> 12.01: article number, then its letter suffix */
+function articleOrder(row: ProvisionRow): number {
+  const match = row.provision_ref.match(/^dieu(\d+)([a-z]?)/);
+  if (!match) return Number.MAX_SAFE_INTEGER;
+  return Number(match[1]) + (match[2] ? (match[2].charCodeAt(0) - 96) / 100 : 0);
+}
+
+export async function getDocumentStructure(
+  db: InstanceType<typeof Database>,
+  input: GetDocumentStructureInput,
+): Promise<ToolResponse<DocumentStructure | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  const doc = db.prepare(
+    'SELECT id, title FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as { id: string; title: string };
+
+  // SELECT * so databases built before part/muc existed still work. Seeds
+  // are not always in article order, so articles are sorted by number
+  const provisions = (db.prepare(
+    'SELECT * FROM legal_provisions WHERE document_id = ? ORDER BY id'
+  ).all(resolvedId) as ProvisionRow[]).sort((a, b) => articleOrder(a) - articleOrder(b));
+
+  const includeArticles = input.include_articles ?? true;
+  const outline: StructureNode[] = [];
+  const loose: StructureArticle[] = [];
+  const unplaced: StructureArticle[] = [];
+  // Open node at each level; a heading change closes it and everything below
+  const open: (StructureNode | undefined)[] = [undefined, undefined, undefined];
+
+  for (const p of provisions) {
+    const article: StructureArticle = { provision_ref: p.provision_ref, section: p.section, title: p.title };
+    const path = [p.part ?? null, p.chapter, p.muc ?? null];
+
+    let parent: StructureNode | undefined;
+    let changed = false;
+    for (let i = 0; i < LEVELS.length; i++) {
+      const heading = path[i];
+      if (!heading) {
+        open[i] = undefined;
+        continue;
+      }
+      if (changed || open[i]?.heading !== heading) {
+        changed = true;
+        // Articles without headings in between do not split a Chương in two
+        const siblings = parent ? parent.children : outline;
+        const last = siblings[siblings.length - 1];
+        if (last?.heading === heading) {
+          open[i] = last;
+          parent = last;
+          continue;
+        }
+        const node: StructureNode = {
+          level: LEVELS[i],
+          heading,
+          ...splitHeading(heading),
+          article_count: 0,
+          first_article: undefined,
+          last_article: undefined,
+          articles: undefined,
+          children: [],
+        };
+        (parent ? parent.children : outline).push(node);
+        open[i] = node;
+      }
+      parent = open[i];
+    }
+
+    if (!parent) {
+      (outline.length > 0 ? unplaced : loose).push(article);
+      continue;
+    }
+
+    for (const node of open) {
+      if (!node) continue;
+      node.article_count++;
+      node.first_article ??= p.provision_ref;
+      node.last_article = p.provision_ref;
+    }
+    if (includeArticles) {
+      parent.articles = parent.articles ?? [];
+      parent.articles.push(article);
+    }
+  }
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: doc.title,
+      article_count: provisions.length,
+      outline,
+      articles: includeArticles && loose.length > 0 ? loose : undefined,
+      unplaced: includeArticles && unplaced.length > 0 ? unplaced : undefined,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
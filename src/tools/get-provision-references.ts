@@ -0,0 +1,88 @@
+/**
+ * get_provision_references — What an article relies on: the articles,
+ * clauses and statutes it cites.
+ *
+ * References are read from the article text when the database is built
+ * (see src/utils/cross-references.ts). Citations of statutes that are not in
+ * the database are not recorded.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { parseSegmentRef, segmentRef } from '../utils/provision-segments.js';
+import { referencesFrom, type CrossReferenceRow } from '../utils/cross-references.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { findProvision } from './get-provision.js';
+
+export interface GetProvisionReferencesInput {
+  document_id: string;
+  /** Article ("dieu26", "26", "Điều 26"); omit for every reference in the statute */
+  provision_ref?: string;
+}
+
+export interface GetProvisionReferencesResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  /** References to other statutes */
+  external: number;
+  references: CrossReferenceRow[];
+}
+
+/**
+ * An article reference as users write it ("26", "Điều 26", "dieu26",
+ * "dieu26.k2.a"): the article's provision_ref and, for a clause or point,
+ * the segment reference. Undefined when the article does not exist.
+ */
+export function resolveArticleRef(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  ref: string,
+): { provision_ref: string; segment_ref: string | null } | undefined {
+  const trimmed = ref.trim();
+  const segment = parseSegmentRef(trimmed);
+  const article = segment?.provision_ref ?? trimmed.replace(/^(?:điều|dieu|article|art\.)\s*/iu, '');
+  const provision = findProvision(db, documentId, article);
+  if (!provision) return undefined;
+  const provisionRef = String(provision.provision_ref);
+  return {
+    provision_ref: provisionRef,
+    segment_ref: segment && (segment.clause || segment.point)
+      ? segmentRef(provisionRef, segment.clause, segment.point)
+      : null,
+  };
+}
+
+export async function getProvisionReferences(
+  db: InstanceType<typeof Database>,
+  input: GetProvisionReferencesInput,
+): Promise<ToolResponse<GetProvisionReferencesResult | null>> {
+  const fail = (note: string): ToolResponse<null> => ({
+    results: null,
+    _metadata: { ...generateResponseMetadata(db), ...{ note } },
+  });
+
+  const documentId = resolveDocumentId(db, input.document_id ?? '');
+  if (!documentId) return fail(`No document found matching "${input.document_id}"`);
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?').get(documentId) as
+    { id: string; title: string };
+
+  let provisionRef: string | null = null;
+  if (input.provision_ref?.trim()) {
+    const article = resolveArticleRef(db, documentId, input.provision_ref);
+    if (!article) return fail(`Provision "${input.provision_ref}" not found in document "${documentId}"`);
+    provisionRef = article.provision_ref;
+  }
+
+  const references = referencesFrom(db, documentId, provisionRef ?? undefined);
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      provision_ref: provisionRef,
+      external: references.filter(r => r.target_document_id !== doc.id).length,
+      references,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -4,12 +4,35 @@
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { invalidDateNote, normalizeAsOfDate, notInForceReason, type DatedDocument } from '../utils/as-of-date.js';
+import { flattenSegments, parseSegmentRef, segmentRef } from '../utils/provision-segments.js';
+import {
+  articleInForceDate,
+  clauseInForceDates,
+  loadEffectiveDates,
+  segmentInForceDate,
+  type ClauseInForceDate,
+  type ProvisionEffectiveDate,
+} from '../utils/provision-effective-dates.js';
+import {
+  chunkSize,
+  chunkText,
+  decodeContinuationToken,
+  encodeContinuationToken,
+} from '../utils/provision-chunks.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface GetProvisionInput {
   document_id: string;
   section?: string;
   provision_ref?: string;
+  clause?: string;
+  point?: string;
+  /** Chunk size for long articles (default 8000 characters) */
+  max_chars?: number;
+  /** Token from a previous response, to fetch the next chunk */
+  continuation_token?: string;
+  /** ISO date: no results unless the document was in force that day */
   as_of_date?: string;
 }
 
@@ -20,16 +43,219 @@ export interface ProvisionResult {
   chapter: string | null;
   section: string;
   title: string | null;
+  /** Empty for the articles of a whole-statute request past ALL_PROVISIONS_MAX_CHARS */
   content: string;
+  /** Length of the full article text, whether or not it is returned in chunks */
+  content_length: number;
+  /** The stored text itself is incomplete (cut by the source or an older ingest) */
+  truncated: boolean;
   section_number?: string;
+  /** Set when a long article is returned in chunks (0-based) */
+  chunk_index?: number;
+  chunk_count?: number;
+  /** Pass back as continuation_token to get the next chunk; absent on the last one */
+  continuation_token?: string;
+  /** Version of the article's wording returned; set when the database records versions */
+  version?: number;
+  valid_from?: string | null;
+  valid_to?: string | null;
+  amending_instrument?: string | null;
+  /** Every recorded wording of the article, oldest first */
+  versions?: ProvisionVersion[];
+  /** Day the article (or the requested clause) enters into force: its own date, else the statute's */
+  in_force_date?: string | null;
+  /** Clauses of the article that enter into force on a later or earlier date than the rest */
+  clause_in_force_dates?: ClauseInForceDate[];
+  /** For a transitional article, the last day its period is stated to run */
+  transitional_until?: string | null;
+  /** Set when a single clause or point was requested */
+  segment_ref?: string;
+  clause?: string;
+  point?: string;
   url?: string;
 }
 
+/** Text returned when a whole statute is requested; later articles come without it */
+export const ALL_PROVISIONS_MAX_CHARS = 60000;
+
+export interface ProvisionVersion {
+  version: number;
+  /** First day this wording applied */
+  valid_from: string | null;
+  /** Day the next wording took effect; null for the current text */
+  valid_to: string | null;
+  amending_instrument: string | null;
+  current: boolean;
+}
+
+export interface VersionRow {
+  version: number;
+  valid_from: string | null;
+  valid_to: string | null;
+  amending_instrument: string | null;
+  /** Null for the current version, whose text is the provision's own */
+  content: string | null;
+}
+
+interface SegmentMatch {
+  segment_ref: string;
+  clause: string | null;
+  point: string | null;
+  content: string;
+}
+
+/**
+ * Look up a clause or point of an article. Databases built before the
+ * provision_segments table existed are segmented on the fly.
+ */
+function findSegment(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  content: string,
+  wanted: string,
+): SegmentMatch | undefined {
+  try {
+    return db.prepare(
+      'SELECT segment_ref, clause, point, content FROM provision_segments WHERE document_id = ? AND segment_ref = ?'
+    ).get(documentId, wanted) as SegmentMatch | undefined;
+  } catch {
+    return flattenSegments(provisionRef, content).find(s => s.segment_ref === wanted);
+  }
+}
+
+/**
+ * Find an article by provision_ref ("dieu8"), section number ("8") or a
+ * looser match on either.
+ */
+export function findProvision(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  ref: string,
+): Record<string, unknown> | undefined {
+  // Try direct provision_ref match
+  let provision = db.prepare(
+    'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+  ).get(documentId, ref) as Record<string, unknown> | undefined;
+
+  // Try with "s" prefix (e.g., "1" -> "s1")
+  if (!provision) {
+    provision = db.prepare(
+      'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+    ).get(documentId, `s${ref}`) as Record<string, unknown> | undefined;
+  }
+
+  // Try section column match
+  if (!provision) {
+    provision = db.prepare(
+      'SELECT * FROM legal_provisions WHERE document_id = ? AND section = ?'
+    ).get(documentId, ref) as Record<string, unknown> | undefined;
+  }
+
+  // Try LIKE match for flexible input
+  if (!provision) {
+    provision = db.prepare(
+      "SELECT * FROM legal_provisions WHERE document_id = ? AND (provision_ref LIKE ? OR section LIKE ?)"
+    ).get(documentId, `%${ref}%`, `%${ref}%`) as Record<string, unknown> | undefined;
+  }
+
+  return provision;
+}
+
+/**
+ * Recorded wordings of an article, oldest first. Databases built before the
+ * provision_versions table existed have none.
+ */
+export function loadVersions(db: InstanceType<typeof Database>, documentId: string, provisionRef: string): VersionRow[] {
+  try {
+    return db.prepare(
+      `SELECT version, valid_from, valid_to, amending_instrument, content
+       FROM provision_versions WHERE document_id = ? AND provision_ref = ? ORDER BY version`
+    ).all(documentId, provisionRef) as VersionRow[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The version in force on an ISO date: valid_from on or before it, valid_to after it.
+ */
+export function versionOn(versions: VersionRow[], date: string): VersionRow | undefined {
+  return versions.find(v => (!v.valid_from || v.valid_from <= date) && (!v.valid_to || date < v.valid_to));
+}
+
+function versionFields(versions: VersionRow[], selected: VersionRow | undefined): Partial<ProvisionResult> {
+  const chosen = selected ?? versions.at(-1);
+  if (!chosen) return {};
+  return {
+    version: chosen.version,
+    valid_from: chosen.valid_from,
+    valid_to: chosen.valid_to,
+    amending_instrument: chosen.amending_instrument,
+    versions: versions.map(v => ({
+      version: v.version,
+      valid_from: v.valid_from,
+      valid_to: v.valid_to,
+      amending_instrument: v.amending_instrument,
+      current: v.valid_to === null,
+    })),
+  };
+}
+
+/**
+ * In-force fields of an article, or of one of its clauses when segment is given.
+ */
+function effectiveDateFields(
+  dates: ProvisionEffectiveDate[],
+  documentInForce: string | null,
+  provisionRef: string,
+  segment?: string,
+): Partial<ProvisionResult> {
+  const own = segment ? segmentInForceDate(dates, provisionRef, segment) : articleInForceDate(dates, provisionRef);
+  const clauses = segment ? [] : clauseInForceDates(dates, provisionRef);
+  const transitional = dates.find(d => d.kind === 'transitional' && d.provision_ref === provisionRef);
+  return {
+    in_force_date: own ?? documentInForce,
+    ...(clauses.length > 0 ? { clause_in_force_dates: clauses } : {}),
+    ...(transitional ? { transitional_until: transitional.date } : {}),
+  };
+}
+
+/**
+ * Length and truncation flag of the returned wording; databases built before
+ * these columns existed report the stored text length and no truncation.
+ */
+function lengthFields(
+  provision: Record<string, unknown>,
+  version?: VersionRow,
+): Pick<ProvisionResult, 'content_length' | 'truncated'> {
+  // An earlier wording is stored whole
+  if (version?.content) return { content_length: version.content.length, truncated: false };
+  return {
+    content_length: typeof provision.content_length === 'number'
+      ? provision.content_length
+      : String(provision.content).length,
+    truncated: Boolean(provision.truncated),
+  };
+}
+
 export async function getProvision(
   db: InstanceType<typeof Database>,
   input: GetProvisionInput,
 ): Promise<ToolResponse<ProvisionResult[]>> {
-  const resolvedId = resolveDocumentId(db, input.document_id);
+  const token = input.continuation_token ? decodeContinuationToken(input.continuation_token) : null;
+  if (input.continuation_token && !token) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Invalid continuation_token — request the provision again without it' },
+      },
+    };
+  }
+
+  // A continuation token names the document and provision itself
+  const resolvedId = token ? token.document_id : resolveDocumentId(db, input.document_id);
   if (!resolvedId) {
     return {
       results: [],
@@ -41,54 +267,159 @@ export async function getProvision(
   }
 
   const docRow = db.prepare(
-    'SELECT id, title, url FROM legal_documents WHERE id = ?'
-  ).get(resolvedId) as { id: string; title: string; url: string | null } | undefined;
+    'SELECT * FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as (DatedDocument & { id: string; title: string; url: string | null }) | undefined;
   if (!docRow) {
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
+  // A continuation token carries the date its version was chosen for
+  const requestedDate = token ? token.as_of_date : input.as_of_date;
+  const asOf = requestedDate ? normalizeAsOfDate(requestedDate) ?? undefined : undefined;
+  if (requestedDate) {
+    const reason = asOf ? notInForceReason(docRow, asOf) : null;
+    if (!asOf || reason) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{
+            note: asOf
+              ? `"${docRow.title}" was ${reason}`
+              : invalidDateNote('as_of_date', requestedDate),
+          },
+        },
+      };
+    }
+  }
+
   // Specific provision lookup
-  const ref = input.provision_ref ?? input.section;
+  const ref = token ? token.provision_ref : (input.provision_ref ?? input.section);
   if (ref) {
-    const refTrimmed = ref.trim();
+    // "dieu8.k2.a" addresses a point; the article part is looked up first
+    const segmentParts = parseSegmentRef(ref);
+    const clause = token ? undefined : input.clause?.trim() || segmentParts?.clause;
+    const point = token ? undefined : input.point?.trim().toLowerCase() || segmentParts?.point;
+    const refTrimmed = segmentParts && (segmentParts.clause || segmentParts.point)
+      ? segmentParts.provision_ref
+      : ref.trim();
 
-    // Try direct provision_ref match
-    let provision = db.prepare(
-      'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-    ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
+    const provision = findProvision(db, resolvedId, refTrimmed);
 
-    // Try with "s" prefix (e.g., "1" -> "s1")
-    if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-      ).get(resolvedId, `s${refTrimmed}`) as Record<string, unknown> | undefined;
+    // The wording in force on as_of_date, when versions are recorded
+    const versions = provision ? loadVersions(db, resolvedId, String(provision.provision_ref)) : [];
+    const dates = provision ? loadEffectiveDates(db, resolvedId, String(provision.provision_ref)) : [];
+    const selected = asOf ? versionOn(versions, asOf) : undefined;
+    if (provision && asOf && versions.length > 0 && !selected) {
+      const starts = articleInForceDate(dates, String(provision.provision_ref));
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{
+            note: starts && asOf < starts
+              ? `Provision "${provision.provision_ref}" was not yet in force on ${asOf} (in force from ${starts}, later than the rest of the statute)`
+              : `Provision "${provision.provision_ref}" had no wording in force on ${asOf}`,
+          },
+        },
+      };
     }
+    const text = selected?.content ?? String(provision?.content ?? '');
 
-    // Try section column match
-    if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND section = ?'
-      ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
-    }
+    if (provision && (clause || point)) {
+      const provisionRef = String(provision.provision_ref);
+      const wanted = segmentRef(provisionRef, clause, point === 'dd' ? 'đ' : point);
+      // Stored segments are of the current text; earlier wordings are split here
+      const segment = selected?.content
+        ? flattenSegments(provisionRef, selected.content).find(seg => seg.segment_ref === wanted)
+        : findSegment(db, resolvedId, provisionRef, text, wanted);
+      if (!segment) {
+        return {
+          results: [],
+          _metadata: {
+            ...generateResponseMetadata(db),
+            ...{ note: `Segment "${wanted}" not found in document "${resolvedId}"` },
+          },
+        };
+      }
+      const segmentStarts = segmentInForceDate(dates, provisionRef, segment.segment_ref);
+      if (asOf && segmentStarts && asOf < segmentStarts) {
+        return {
+          results: [],
+          _metadata: {
+            ...generateResponseMetadata(db),
+            ...{ note: `Segment "${segment.segment_ref}" was not yet in force on ${asOf} (in force from ${segmentStarts})` },
+          },
+        };
+      }
 
-    // Try LIKE match for flexible input
-    if (!provision) {
-      provision = db.prepare(
-        "SELECT * FROM legal_provisions WHERE document_id = ? AND (provision_ref LIKE ? OR section LIKE ?)"
-      ).get(resolvedId, `%${refTrimmed}%`, `%${refTrimmed}%`) as Record<string, unknown> | undefined;
+      return {
+        results: [{
+          document_id: resolvedId,
+          document_title: docRow.title,
+          provision_ref: provisionRef,
+          chapter: provision.chapter as string | null,
+          section: String(provision.section),
+          title: provision.title as string | null,
+          content: segment.content,
+          ...lengthFields(provision, selected),
+          section_number: provisionRef.replace(/^s/, ''),
+          ...versionFields(versions, selected),
+          ...effectiveDateFields(dates, docRow.in_force_date, provisionRef, segment.segment_ref),
+          segment_ref: segment.segment_ref,
+          clause: segment.clause ?? undefined,
+          point: segment.point ?? undefined,
+          url: docRow.url ?? undefined,
+        }],
+        _metadata: generateResponseMetadata(db),
+      };
     }
 
     if (provision) {
+      const provisionRef = String(provision.provision_ref);
+      const maxChars = chunkSize(token?.max_chars ?? input.max_chars);
+      const chunks = chunkText(text, maxChars);
+      const index = token?.chunk ?? 0;
+      if (index >= chunks.length) {
+        return {
+          results: [],
+          _metadata: {
+            ...generateResponseMetadata(db),
+            ...{ note: `Provision "${provisionRef}" has only ${chunks.length} chunk(s)` },
+          },
+        };
+      }
+
+      const chunking = chunks.length > 1
+        ? {
+            chunk_index: index,
+            chunk_count: chunks.length,
+            continuation_token: index + 1 < chunks.length
+              ? encodeContinuationToken({
+                  document_id: resolvedId,
+                  provision_ref: provisionRef,
+                  chunk: index + 1,
+                  max_chars: maxChars,
+                  as_of_date: asOf,
+                })
+              : undefined,
+          }
+        : {};
+
       return {
         results: [{
           document_id: resolvedId,
           document_title: docRow.title,
-          provision_ref: String(provision.provision_ref),
+          provision_ref: provisionRef,
           chapter: provision.chapter as string | null,
           section: String(provision.section),
           title: provision.title as string | null,
-          content: String(provision.content),
-          section_number: String(provision.provision_ref).replace(/^s/, ''),
+          content: chunks[index],
+          ...lengthFields(provision, selected),
+          section_number: provisionRef.replace(/^s/, ''),
+          ...chunking,
+          ...versionFields(versions, selected),
+          ...effectiveDateFields(dates, docRow.in_force_date, provisionRef),
           url: docRow.url ?? undefined,
         }],
         _metadata: generateResponseMetadata(db),
@@ -104,23 +435,76 @@ export async function getProvision(
     };
   }
 
-  // Return all provisions for the document
+  // Return all provisions for the document; with as_of_date, the wordings in
+  // force that day, leaving out articles that had none. Long articles give
+  // their first chunk, and once ALL_PROVISIONS_MAX_CHARS of text has been
+  // returned the remaining articles are listed without their text.
   const provisions = db.prepare(
     'SELECT * FROM legal_provisions WHERE document_id = ? ORDER BY id'
   ).all(resolvedId) as Record<string, unknown>[];
 
-  return {
-    results: provisions.map(p => ({
+  const maxChars = chunkSize(input.max_chars);
+  const dates = loadEffectiveDates(db, resolvedId);
+  const results: ProvisionResult[] = [];
+  let returnedChars = 0;
+  let withoutText = 0;
+  for (const p of provisions) {
+    const provisionRef = String(p.provision_ref);
+    const versions = asOf ? loadVersions(db, resolvedId, provisionRef) : [];
+    const selected = asOf ? versionOn(versions, asOf) : undefined;
+    if (versions.length > 0 && !selected) continue;
+
+    const chunks = chunkText(selected?.content ?? String(p.content), maxChars);
+    const full = withoutText > 0 || returnedChars + chunks[0].length > ALL_PROVISIONS_MAX_CHARS;
+    if (full) withoutText++;
+    else returnedChars += chunks[0].length;
+    const chunking = !full && chunks.length > 1
+      ? {
+          chunk_index: 0,
+          chunk_count: chunks.length,
+          continuation_token: encodeContinuationToken({
+            document_id: resolvedId,
+            provision_ref: provisionRef,
+            chunk: 1,
+            max_chars: maxChars,
+            as_of_date: asOf,
+          }),
+        }
+      : {};
+
+    results.push({
       document_id: resolvedId,
       document_title: docRow.title,
-      provision_ref: String(p.provision_ref),
+      provision_ref: provisionRef,
       chapter: p.chapter as string | null,
       section: String(p.section),
       title: p.title as string | null,
-      content: String(p.content),
-      section_number: String(p.provision_ref).replace(/^s/, ''),
+      content: full ? '' : chunks[0],
+      ...lengthFields(p, selected),
+      section_number: provisionRef.replace(/^s/, ''),
+      ...chunking,
+      ...(selected
+        ? {
+            version: selected.version,
+            valid_from: selected.valid_from,
+            valid_to: selected.valid_to,
+            amending_instrument: selected.amending_instrument,
+          }
+        : {}),
+      ...effectiveDateFields(dates, docRow.in_force_date, provisionRef),
       url: docRow.url ?? undefined,
-    })),
-    _metadata: generateResponseMetadata(db),
+    });
+  }
+
+  if (withoutText === 0) return { results, _metadata: generateResponseMetadata(db) };
+  return {
+    results,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...{
+        note: `Text returned for ${results.length - withoutText} of ${results.length} articles ` +
+          `(${ALL_PROVISIONS_MAX_CHARS} characters); request the others by provision_ref`,
+      },
+    },
   };
 }
@@ -0,0 +1,291 @@
+/**
+ * get_upcoming_changes — What enters into force, is amended or is repealed
+ * in a date window.
+ *
+ * Collects dated status changes of documents (in force, repealed, replaced by
+ * a successor) and of articles (new wording, repeal, their own in-force date,
+ * end of a transitional period) and lists them in date order. The same events can be returned as an iCalendar file.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { invalidDateNote, normalizeAsOfDate } from '../utils/as-of-date.js';
+import { describeLaw } from '../utils/document-replacements.js';
+import { toICalendar } from '../utils/icalendar.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetUpcomingChangesInput {
+  /** ISO date; default today */
+  from_date?: string;
+  /** ISO date, inclusive; default from_date + days */
+  to_date?: string;
+  /** Window length when to_date is not given (default 90) */
+  days?: number;
+  /** Only changes to this document */
+  document_id?: string;
+  /** "ics" adds an iCalendar export of the events */
+  format?: 'json' | 'ics';
+}
+
+export type ChangeKind = 'in_force' | 'amended' | 'repealed' | 'replaced' | 'transition_ends';
+
+export interface UpcomingChange {
+  date: string;
+  kind: ChangeKind;
+  /** A whole document, or one article of it */
+  scope: 'document' | 'provision';
+  document_id: string;
+  document_title: string;
+  provision_ref?: string;
+  /** Set when only a clause of the article changes */
+  segment_ref?: string;
+  /** Status before and after the date */
+  from_status: string;
+  to_status: string;
+  /** Amending, repealing or replacing instrument */
+  instrument?: string | null;
+  description: string;
+}
+
+export interface GetUpcomingChangesResult {
+  from_date: string;
+  to_date: string;
+  total: number;
+  changes: UpcomingChange[];
+  /** iCalendar export; set when format is "ics" */
+  ics?: string;
+}
+
+const DEFAULT_WINDOW_DAYS = 90;
+/** Ten years; further out the dates are rarely set yet */
+export const MAX_WINDOW_DAYS = 3650;
+
+function addDays(iso: string, days: number): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Rows from a table that older databases may not have. */
+function optionalRows<T>(db: InstanceType<typeof Database>, sql: string, ...params: unknown[]): T[] {
+  try {
+    return db.prepare(sql).all(...params) as T[];
+  } catch {
+    return [];
+  }
+}
+
+const KIND_ORDER: Record<ChangeKind, number> = { repealed: 0, replaced: 1, in_force: 2, amended: 3, transition_ends: 4 };
+
+export async function getUpcomingChanges(
+  db: InstanceType<typeof Database>,
+  input: GetUpcomingChangesInput,
+): Promise<ToolResponse<GetUpcomingChangesResult | null>> {
+  const fail = (note: string): ToolResponse<GetUpcomingChangesResult | null> => ({
+    results: null,
+    _metadata: { ...generateResponseMetadata(db), ...{ note } },
+  });
+
+  const days = input.days ?? DEFAULT_WINDOW_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_WINDOW_DAYS) {
+    return fail(`Invalid days ${days} — use a whole number from 1 to ${MAX_WINDOW_DAYS}`);
+  }
+  const from = input.from_date ? normalizeAsOfDate(input.from_date) : new Date().toISOString().slice(0, 10);
+  if (!from) return fail(invalidDateNote('from_date', input.from_date!));
+  const to = input.to_date ? normalizeAsOfDate(input.to_date) : addDays(from, days);
+  if (!to) return fail(invalidDateNote('to_date', input.to_date!));
+  if (to < from) return fail(`to_date ${to} is before from_date ${from}`);
+
+  let documentId: string | null = null;
+  if (input.document_id) {
+    documentId = resolveDocumentId(db, input.document_id);
+    if (!documentId) return fail(`No document found matching "${input.document_id}"`);
+  }
+  // "AND (? IS NULL OR x = ?)" keeps one statement per query with or without the filter
+  const only = [documentId, documentId];
+
+  const changes: UpcomingChange[] = [];
+
+  const documents = db.prepare(
+    `SELECT id, title, in_force_date, repealed_date FROM legal_documents
+     WHERE (? IS NULL OR id = ?)
+       AND ((in_force_date BETWEEN ? AND ?) OR (repealed_date BETWEEN ? AND ?))`
+  ).all(...only, from, to, from, to) as { id: string; title: string; in_force_date: string | null; repealed_date: string | null }[];
+  for (const doc of documents) {
+    if (doc.in_force_date && doc.in_force_date >= from && doc.in_force_date <= to) {
+      changes.push({
+        date: doc.in_force_date,
+        kind: 'in_force',
+        scope: 'document',
+        document_id: doc.id,
+        document_title: doc.title,
+        from_status: 'not_yet_in_force',
+        to_status: 'in_force',
+        description: `${doc.title} enters into force`,
+      });
+    }
+    if (doc.repealed_date && doc.repealed_date >= from && doc.repealed_date <= to) {
+      changes.push({
+        date: doc.repealed_date,
+        kind: 'repealed',
+        scope: 'document',
+        document_id: doc.id,
+        document_title: doc.title,
+        from_status: 'in_force',
+        to_status: 'repealed',
+        description: `${doc.title} is repealed`,
+      });
+    }
+  }
+
+  // Laws taking over from predecessors in the database. A law repealed on the
+  // day its successors take over gets one "replaced" event naming them all.
+  const replacements = optionalRows<{
+    predecessor_id: string; title: string; successor_id: string; successor_number: string | null;
+    successor_title: string; effective_date: string;
+  }>(
+    db,
+    `SELECT r.predecessor_id, d.title, r.successor_id, r.successor_number, r.successor_title, r.effective_date
+     FROM document_replacements r JOIN legal_documents d ON d.id = r.predecessor_id
+     WHERE (? IS NULL OR r.predecessor_id = ?) AND r.effective_date BETWEEN ? AND ?
+     ORDER BY r.successor_id`,
+    ...only, from, to,
+  );
+  const replaced = new Map<string, { change: UpcomingChange; successors: string[]; instruments: string[] }>();
+  for (const r of replacements) {
+    const key = `${r.predecessor_id}|${r.effective_date}`;
+    let entry = replaced.get(key);
+    if (!entry) {
+      const repeal = changes.findIndex(c =>
+        c.scope === 'document' && c.kind === 'repealed' && c.document_id === r.predecessor_id && c.date === r.effective_date);
+      if (repeal >= 0) changes.splice(repeal, 1);
+      entry = {
+        change: {
+          date: r.effective_date,
+          kind: 'replaced',
+          scope: 'document',
+          document_id: r.predecessor_id,
+          document_title: r.title,
+          from_status: 'in_force',
+          to_status: 'replaced',
+          description: '',
+        },
+        successors: [],
+        instruments: [],
+      };
+      replaced.set(key, entry);
+      changes.push(entry.change);
+    }
+    entry.successors.push(describeLaw({ title: r.successor_title, official_number: r.successor_number, document_id: r.successor_id }));
+    entry.instruments.push(r.successor_number ?? r.successor_id);
+  }
+  for (const { change, successors, instruments } of replaced.values()) {
+    change.instrument = instruments.join(', ');
+    change.description = `${change.document_title} is replaced by ${successors.join(' and ')}`;
+  }
+
+  // New wordings of articles (the first version is the original text)
+  const amendments = optionalRows<{
+    document_id: string; title: string; provision_ref: string; valid_from: string; amending_instrument: string | null;
+  }>(
+    db,
+    `SELECT v.document_id, d.title, v.provision_ref, v.valid_from, v.amending_instrument
+     FROM provision_versions v JOIN legal_documents d ON d.id = v.document_id
+     WHERE (? IS NULL OR v.document_id = ?) AND v.version > 1 AND v.valid_from BETWEEN ? AND ?`,
+    ...only, from, to,
+  );
+  for (const a of amendments) {
+    changes.push({
+      date: a.valid_from,
+      kind: 'amended',
+      scope: 'provision',
+      document_id: a.document_id,
+      document_title: a.title,
+      provision_ref: a.provision_ref,
+      from_status: 'in_force',
+      to_status: 'amended',
+      instrument: a.amending_instrument,
+      description: `${a.provision_ref} of ${a.title} takes a new wording` +
+        (a.amending_instrument ? ` (${a.amending_instrument})` : ''),
+    });
+  }
+
+  const repealedArticles = optionalRows<{
+    document_id: string; title: string; provision_ref: string; repealed_date: string; repealing_instrument: string | null;
+  }>(
+    db,
+    `SELECT p.document_id, d.title, p.provision_ref, p.repealed_date, p.repealing_instrument
+     FROM legal_provisions p JOIN legal_documents d ON d.id = p.document_id
+     WHERE (? IS NULL OR p.document_id = ?) AND p.repealed = 1 AND p.repealed_date BETWEEN ? AND ?`,
+    ...only, from, to,
+  );
+  for (const p of repealedArticles) {
+    changes.push({
+      date: p.repealed_date,
+      kind: 'repealed',
+      scope: 'provision',
+      document_id: p.document_id,
+      document_title: p.title,
+      provision_ref: p.provision_ref,
+      from_status: 'in_force',
+      to_status: 'repealed',
+      instrument: p.repealing_instrument,
+      description: `${p.provision_ref} of ${p.title} is repealed` +
+        (p.repealing_instrument ? ` (${p.repealing_instrument})` : ''),
+    });
+  }
+
+  // Articles and clauses starting after their statute, and transitional periods ending
+  const effectiveDates = optionalRows<{
+    document_id: string; title: string; in_force_date: string | null; provision_ref: string;
+    segment_ref: string | null; kind: 'in_force' | 'transitional'; date: string;
+  }>(
+    db,
+    `SELECT e.document_id, d.title, d.in_force_date, e.provision_ref, e.segment_ref, e.kind, e.date
+     FROM provision_effective_dates e JOIN legal_documents d ON d.id = e.document_id
+     WHERE (? IS NULL OR e.document_id = ?) AND e.date BETWEEN ? AND ?`,
+    ...only, from, to,
+  );
+  for (const e of effectiveDates) {
+    // Already listed as the statute entering into force
+    if (e.kind === 'in_force' && e.date === e.in_force_date) continue;
+    const ref = e.segment_ref ?? e.provision_ref;
+    changes.push({
+      date: e.date,
+      kind: e.kind === 'in_force' ? 'in_force' : 'transition_ends',
+      scope: 'provision',
+      document_id: e.document_id,
+      document_title: e.title,
+      provision_ref: e.provision_ref,
+      ...(e.segment_ref ? { segment_ref: e.segment_ref } : {}),
+      from_status: e.kind === 'in_force' ? 'not_yet_in_force' : 'transitional',
+      to_status: e.kind === 'in_force' ? 'in_force' : 'expired',
+      description: e.kind === 'in_force'
+        ? `${ref} of ${e.title} enters into force`
+        : `The transitional period of ${ref} of ${e.title} ends`,
+    });
+  }
+
+  changes.sort((a, b) =>
+    a.date.localeCompare(b.date) ||
+    a.document_id.localeCompare(b.document_id) ||
+    KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+    (a.segment_ref ?? a.provision_ref ?? '').localeCompare(b.segment_ref ?? b.provision_ref ?? '', undefined, { numeric: true })
+  );
+
+  const result: GetUpcomingChangesResult = { from_date: from, to_date: to, total: changes.length, changes };
+  if (input.format === 'ics') {
+    result.ics = toICalendar(
+      changes.map(change => ({
+        uid: `${change.kind}-${change.document_id}${change.provision_ref ? `-${change.segment_ref ?? change.provision_ref}` : ''}-${change.date}@vietnamese-law-mcp`,
+        date: change.date,
+        summary: change.description,
+        description: `${change.from_status} → ${change.to_status}` +
+          (change.instrument ? `\nInstrument: ${change.instrument}` : ''),
+      })),
+      `Vietnamese law changes ${from} to ${to}`,
+    );
+  }
+
+  return { results: result, _metadata: generateResponseMetadata(db) };
+}
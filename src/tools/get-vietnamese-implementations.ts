@@ -3,6 +3,7 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { documentStatuses } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface GetVietnameseImplementationsInput {
@@ -56,12 +57,12 @@ export async function getVietnameseImplementations(
     sql += ' AND er.is_primary_implementation = 1';
   }
 
-  if (input.in_force_only) {
-    sql += " AND ld.status = 'in_force'";
-  }
-
   sql += ' GROUP BY ld.id, er.reference_type ORDER BY is_primary DESC, reference_count DESC';
 
-  const rows = db.prepare(sql).all(...params) as VietnameseImplementationResult[];
+  // Status today, from the document's dates
+  const statuses = documentStatuses(db, new Date().toISOString().slice(0, 10));
+  const rows = (db.prepare(sql).all(...params) as VietnameseImplementationResult[])
+    .map(row => ({ ...row, status: statuses.get(row.document_id) ?? row.status }))
+    .filter(row => !input.in_force_only || row.status === 'in_force');
   return { results: rows, _metadata: generateResponseMetadata(db) };
 }
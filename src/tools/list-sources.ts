@@ -3,7 +3,7 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { readDbMetadata } from '../capabilities.js';
+import { detectCapabilities, readDbMetadata, type Capability } from '../capabilities.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface SourceInfo {
@@ -20,6 +20,8 @@ export interface ListSourcesResult {
   database: {
     tier: string;
     schema_version: string;
+    /** Features the database has tables for; older builds lack the newer ones */
+    capabilities: Capability[];
     built_at?: string;
     document_count: number;
     provision_count: number;
@@ -58,6 +60,7 @@ export async function listSources(
       database: {
         tier: meta.tier,
         schema_version: meta.schema_version,
+        capabilities: [...detectCapabilities(db)],
         built_at: meta.built_at,
         document_count: safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents'),
         provision_count: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions'),
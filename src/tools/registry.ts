@@ -13,10 +13,19 @@ import type Database from '@ansvar/mcp-sqlite';
 
 import { searchLegislation, type SearchLegislationInput } from './search-legislation.js';
 import { getProvision, type GetProvisionInput } from './get-provision.js';
+import { getDocumentStructure, type GetDocumentStructureInput } from './get-document-structure.js';
+import { diffProvision, type DiffProvisionInput } from './diff-provision.js';
+import { getArticleCorrespondence, type GetArticleCorrespondenceInput } from './get-article-correspondence.js';
+import { getProvisionReferences, type GetProvisionReferencesInput } from './get-provision-references.js';
+import { getCitingProvisions, type GetCitingProvisionsInput } from './get-citing-provisions.js';
 import { validateCitationTool, type ValidateCitationInput } from './validate-citation.js';
+import { extractCitationsTool, type ExtractCitationsInput } from './extract-citations.js';
+import { getDefinitions, type GetDefinitionsInput } from './get-definitions.js';
+import { searchDefinitions, type SearchDefinitionsInput } from './search-definitions.js';
 import { buildLegalStance, type BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, type FormatCitationInput } from './format-citation.js';
 import { checkCurrency, type CheckCurrencyInput } from './check-currency.js';
+import { getUpcomingChanges, type GetUpcomingChangesInput } from './get-upcoming-changes.js';
 import { getEUBasis, type GetEUBasisInput } from './get-eu-basis.js';
 import { getVietnameseImplementations, type GetVietnameseImplementationsInput } from './get-vietnamese-implementations.js';
 import { searchEUImplementations, type SearchEUImplementationsInput } from './search-eu-implementations.js';
@@ -25,12 +34,13 @@ import { validateEUCompliance, type ValidateEUComplianceInput } from './validate
 import { listSources } from './list-sources.js';
 import { getAbout, type AboutContext } from './about.js';
 import { detectCapabilities, upgradeMessage } from '../capabilities.js';
+import { ACCEPTED_DATE_FORMATS } from '../utils/as-of-date.js';
 export type { AboutContext } from './about.js';
 
 const ABOUT_TOOL: Tool = {
   name: 'about',
   description:
-    'Server metadata, dataset statistics, freshness, and provenance. ' +
+    'Server metadata, dataset statistics, freshness, provenance, schema version and supported capabilities. ' +
     'Call this to verify data coverage, currency, and content basis before relying on results.',
   inputSchema: { type: 'object', properties: {} },
 };
@@ -41,7 +51,8 @@ const LIST_SOURCES_TOOL: Tool = {
     'Returns detailed provenance metadata for all data sources used by this server, ' +
     'including the Federal Register of Legislation (Vietnamese Government, Office of Parliamentary Counsel). ' +
     'Use this to understand what data is available, its authority, coverage scope, and known limitations. ' +
-    'Also returns dataset statistics (document counts, provision counts) and database build timestamp. ' +
+    'Also returns dataset statistics (document counts, provision counts), database build timestamp, ' +
+    'schema version and the capabilities (features) the database supports. ' +
     'Call this FIRST when you need to understand what Vietnamese legal data this server covers.',
   inputSchema: { type: 'object', properties: {} },
 };
@@ -52,8 +63,13 @@ export const TOOLS: Tool[] = [
     description:
       'Search Vietnamese statutes and regulations by keyword using full-text search (FTS5 with BM25 ranking). ' +
       'Returns matching provisions with document context, snippets with >>> <<< markers around matched terms, and relevance scores. ' +
-      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), and prefix wildcards (term*). ' +
-      'Results are in English. Default limit is 10 results. For broad topics, increase the limit. ' +
+      'Type plain words: exact-phrase matches rank first, then provisions containing all the words, then a prefix ' +
+      'match on the last word (FTS5 quotes, operators and wildcards are ignored). ' +
+      'Vietnamese may be typed with or without diacritics ("an ninh mang" finds "an ninh mạng"); matches with ' +
+      'the exact diacritics rank first, and each result\'s match field says "exact" or "folded". ' +
+      'English legal terms ("data localization", "personal information") are translated to Vietnamese with a bundled ' +
+      'glossary and searched first; _metadata.query_translation shows the Vietnamese terms used. ' +
+      'Default limit is 10 results. For broad topics, increase the limit. ' +
       'Do NOT use this for retrieving a known provision — use get_provision instead.',
     inputSchema: {
       type: 'object',
@@ -61,23 +77,31 @@ export const TOOLS: Tool[] = [
         query: {
           type: 'string',
           description:
-            'Search query in English. Supports FTS5 syntax: ' +
-            '"personal information" for exact phrase, privacy* for prefix.',
+            'Search query in Vietnamese or English, as plain words (quotes, * and AND/OR/NOT are ignored).',
         },
         document_id: {
           type: 'string',
-          description: 'Optional: filter results to a specific statute by its document ID.',
+          description: 'Optional: filter results to a specific statute (document ID, title, or official number such as "24/2018/QH14").',
         },
         status: {
           type: 'string',
           enum: ['in_force', 'amended', 'repealed'],
           description: 'Optional: filter by legislative status.',
         },
+        as_of_date: {
+          type: 'string',
+          description: `Optional: date (${ACCEPTED_DATE_FORMATS}). Only search statutes in force on that date.`,
+        },
         limit: {
           type: 'number',
           description: 'Maximum results to return (default: 10, max: 50).',
           default: 10,
         },
+        translate: {
+          type: 'boolean',
+          description: 'Translate English legal terms to Vietnamese before searching (default: true).',
+          default: true,
+        },
       },
       required: ['query'],
     },
@@ -87,9 +111,18 @@ export const TOOLS: Tool[] = [
     description:
       'Retrieve the full text of a specific provision (section) from an Vietnamese statute. ' +
       'Specify a document_id (Act title, abbreviation, or internal ID) and optionally a section or provision_ref. ' +
-      'Omit section/provision_ref to get ALL provisions in the statute (use sparingly — can be large). ' +
+      'Omit section/provision_ref to get ALL provisions in the statute: long articles give their first chunk, and ' +
+      'after 60,000 characters of text the remaining articles are listed with empty content (fetch them by provision_ref). ' +
       'Returns provision text, chapter, section number, and metadata. ' +
-      'Supports Act title references (e.g., "Privacy Act 1988"), abbreviations, and full titles. ' +
+      'Pass clause (khoản) and optionally point (điểm), or a segment reference such as "dieu8.k2.a", ' +
+      'to get just that clause or point instead of the whole article. ' +
+      'Long articles are returned in ordered chunks: content_length gives the full length, and each chunk ' +
+      'carries chunk_index/chunk_count and a continuation_token for the next one. ' +
+      'Where an article\'s wording history is recorded, the result gives its version, valid_from/valid_to and ' +
+      'amending_instrument plus a versions list; pass as_of_date to get the wording in force on that date. ' +
+      'in_force_date is the article\'s own entry-into-force date where the statute\'s final provisions set one, else the statute\'s; ' +
+      'clause_in_force_dates lists clauses that start on their own date, and transitional articles carry transitional_until. ' +
+      'Supports titles (e.g., "Luật An ninh mạng 2018"), abbreviations, and official numbers (e.g., "Luật số 59/2020/QH14"). ' +
       'Use this when you know WHICH provision you want. For discovery, use search_legislation instead.',
     inputSchema: {
       type: 'object',
@@ -97,8 +130,9 @@ export const TOOLS: Tool[] = [
         document_id: {
           type: 'string',
           description:
-            'Statute identifier: Act title (e.g., "Privacy Act 1988"), abbreviation, ' +
-            'or internal document ID (e.g., "privacy-act-1988").',
+            'Statute identifier: title (e.g., "Luật An ninh mạng 2018"), abbreviation, ' +
+            'official number (e.g., "24/2018/QH14", "13/2023/NĐ-CP"), ' +
+            'or internal document ID (e.g., "cybersecurity-law-2018").',
         },
         section: {
           type: 'string',
@@ -106,7 +140,57 @@ export const TOOLS: Tool[] = [
         },
         provision_ref: {
           type: 'string',
-          description: 'Direct provision reference (e.g., "s13"). Alternative to section parameter.',
+          description:
+            'Direct provision reference (e.g., "dieu8"), or a clause/point reference ' +
+            '(e.g., "dieu8.k2", "dieu8.k2.a"; point đ is "dd"). Alternative to section parameter.',
+        },
+        clause: {
+          type: 'string',
+          description: 'Optional: clause (khoản) number within the article (e.g., "2").',
+        },
+        point: {
+          type: 'string',
+          description: 'Optional: point (điểm) letter within the clause (e.g., "a", "đ").',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional: chunk size for long articles (default: 8000, min: 1000, max: 50000 characters).',
+        },
+        continuation_token: {
+          type: 'string',
+          description: 'Optional: continuation_token from a previous response, to fetch the next chunk of a long article.',
+        },
+        as_of_date: {
+          type: 'string',
+          description:
+            `Optional: date (${ACCEPTED_DATE_FORMATS}). Returns the wording in force on that date, or nothing (with a note) ` +
+            'if the statute was not yet in force or already repealed then.',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_document_structure',
+    description:
+      'Get the table of contents of a Vietnamese statute: the nested Phần (Part) > Chương (Chapter) > ' +
+      'Mục (Section) outline with article counts, first/last article of each heading, and article titles; ' +
+      'articles whose heading the source text does not show are listed as unplaced. ' +
+      'Use this to browse a long statute (e.g., the 689-article Civil Code) and pick articles before ' +
+      'fetching them with get_provision.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description:
+            'Statute identifier: title, abbreviation, official number (e.g., "91/2015/QH13"), ' +
+            'or internal document ID.',
+        },
+        include_articles: {
+          type: 'boolean',
+          description: 'List article titles under each heading (default: true). Set false for headings and counts only.',
+          default: true,
         },
       },
       required: ['document_id'],
@@ -116,27 +200,59 @@ export const TOOLS: Tool[] = [
     name: 'validate_citation',
     description:
       'Validate an Vietnamese legal citation against the database — zero-hallucination check. ' +
-      'Parses the citation, checks that the document and provision exist, and returns warnings about status ' +
-      '(repealed, amended). Use this to verify any citation BEFORE including it in a legal analysis. ' +
-      'Supports formats: "Section 13 Privacy Act 1988", "Privacy Act 1988 s 13", "s 13".',
+      'Parses the citation, checks that the document and article (Điều) exist, reports whether the cited ' +
+      'clause (khoản) and point (điểm) were found in the article text, and returns warnings about status ' +
+      '(repealed, amended, replaced — naming the successor law). Use this to verify any citation BEFORE including it in a legal analysis. ' +
+      'Supports Vietnamese forms with or without diacritics ("điểm a khoản 1 Điều 17 Luật Doanh nghiệp", ' +
+      '"khoan 2 dieu 8 Nghi dinh 13/2023/ND-CP") and English forms ("Article 26(2)(a), Cybersecurity Law 2018").',
     inputSchema: {
       type: 'object',
       properties: {
         citation: {
           type: 'string',
-          description: 'Citation string to validate. Examples: "Section 13 Privacy Act 1988", "Privacy Act 1988 s 13".',
+          description:
+            'Citation string to validate. Examples: "Điều 26 Luật An ninh mạng 2018", ' +
+            '"khoản 2 Điều 8 Nghị định 13/2023/NĐ-CP", "Article 26(2)(a) of the Cybersecurity Law 2018".',
         },
       },
       required: ['citation'],
     },
   },
+  {
+    name: 'extract_citations',
+    description:
+      'Find every legal citation in a block of Vietnamese or English text (a memo, contract clause or court ' +
+      'judgment) and validate each one against the database. Recognises pinpoints ("điểm a khoản 1 Điều 17 ' +
+      'Luật Doanh nghiệp", "Article 8 of Decree 13/2023/ND-CP"), lists ("Điều 5, Điều 6 và Điều 7 của Luật ' +
+      'An ninh mạng"), standalone document names and official numbers. Returns each citation with its ' +
+      'character offsets, resolved document and article, a check result (valid; repealed or amended when ' +
+      'the cited law or article is no longer current, naming the successor law even when the repealed law ' +
+      'is not in the database; not_found; unresolved) and status warnings, plus summary counts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'Text to scan for citations.',
+        },
+        document_id: {
+          type: 'string',
+          description:
+            'Optional: the document the text is taken from (document ID, title, or official number). ' +
+            'Used to resolve "Luật này" / "Nghị định này".',
+        },
+      },
+      required: ['text'],
+    },
+  },
   {
     name: 'build_legal_stance',
     description:
       'Build a comprehensive set of citations for a legal question by searching across all Vietnamese statutes simultaneously. ' +
       'Returns aggregated results from multiple relevant provisions, useful for legal research on a topic. ' +
       'Use this for broad legal questions like "What are the penalties for data breaches in Vietnam?" ' +
-      'rather than looking up a specific known provision.',
+      'rather than looking up a specific known provision. Accepts Vietnamese with or without diacritics, or English ' +
+      '(legal terms are translated to Vietnamese; see _metadata.query_translation).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -146,13 +262,18 @@ export const TOOLS: Tool[] = [
         },
         document_id: {
           type: 'string',
-          description: 'Optional: limit search to one statute by document ID.',
+          description: 'Optional: limit search to one statute (document ID, title, or official number).',
         },
         limit: {
           type: 'number',
           description: 'Max results per category (default: 5, max: 20).',
           default: 5,
         },
+        translate: {
+          type: 'boolean',
+          description: 'Translate English legal terms to Vietnamese before searching (default: true).',
+          default: true,
+        },
       },
       required: ['query'],
     },
@@ -160,16 +281,20 @@ export const TOOLS: Tool[] = [
   {
     name: 'format_citation',
     description:
-      'Format an Vietnamese legal citation per standard conventions. ' +
-      'Three formats: "full" (formal, e.g., "Section 13, Privacy Act 1988"), ' +
-      '"short" (abbreviated, e.g., "Privacy Act 1988 s 13"), "pinpoint" (section reference only, e.g., "s 13").',
+      'Format a Vietnamese legal citation per Vietnamese drafting conventions, using the canonical title and ' +
+      'official number from the database. Four formats: "full" (e.g., "khoản 2 Điều 8 Luật An ninh mạng số 24/2018/QH14", ' +
+      '"Điều 21 Hiến pháp năm 2013"), "short" (e.g., "khoản 2 Điều 8 Luật số 24/2018/QH14"), ' +
+      '"pinpoint" (e.g., "khoản 2 Điều 8"), and "english" (e.g., "Article 8(2), Cybersecurity Law No. 24/2018/QH14").',
     inputSchema: {
       type: 'object',
       properties: {
-        citation: { type: 'string', description: 'Citation string to format.' },
+        citation: {
+          type: 'string',
+          description: 'Citation string to format (e.g., "khoan 2 dieu 8 luat an ninh mang", "Article 8(2) 24/2018/QH14").',
+        },
         format: {
           type: 'string',
-          enum: ['full', 'short', 'pinpoint'],
+          enum: ['full', 'short', 'pinpoint', 'english'],
           description: 'Output format (default: "full").',
           default: 'full',
         },
@@ -182,22 +307,70 @@ export const TOOLS: Tool[] = [
     description:
       'Check whether an Vietnamese statute or provision is currently in force, amended, repealed, or not yet in force. ' +
       'Returns the document status, issued date, in-force date, and warnings. ' +
+      'With provision_ref, also returns the article\'s own status (in force, amended or repealed), the amending or repealing instrument and the effective date — ' +
+      'an article can be repealed while the statute stays in force, and falls with the statute when the statute is repealed. ' +
+      'Articles and clauses that enter into force later than the rest of the statute, and transitional periods still running, are flagged in warnings. ' +
+      'Also lists the laws that replaced the statute (replaced_by) and that it replaced (replaces). ' +
+      'Pass as_of_date to ask whether it was in force on a past or future date. ' +
       'Essential before citing any provision — always verify currency.',
     inputSchema: {
       type: 'object',
       properties: {
         document_id: {
           type: 'string',
-          description: 'Statute identifier (Act title, abbreviation, or ID).',
+          description: 'Statute identifier (title, abbreviation, official number such as "59/2020/QH14", or ID).',
         },
         provision_ref: {
           type: 'string',
-          description: 'Optional: provision reference to check a specific section.',
+          description: 'Optional: provision reference (e.g., "dieu8" or "8") to check a specific article; a clause or point ("dieu8.k2") is checked as its article.',
+        },
+        as_of_date: {
+          type: 'string',
+          description: `Optional: date (${ACCEPTED_DATE_FORMATS}). Report the status on that date instead of today.`,
         },
       },
       required: ['document_id'],
     },
   },
+  {
+    name: 'get_upcoming_changes',
+    description:
+      'List what changes in Vietnamese law within a date window: statutes entering into force, statutes repealed ' +
+      'or replaced by a successor, articles taking a new wording or being repealed, articles and clauses entering ' +
+      'into force after their statute, and transitional periods ending. Sorted by date, each with ' +
+      'its status transition (e.g., not_yet_in_force → in_force) and the instrument responsible. ' +
+      'Defaults to the next 90 days. Pass format "ics" to also get the events as an iCalendar (.ics) file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from_date: {
+          type: 'string',
+          description: `Optional: start of the window (${ACCEPTED_DATE_FORMATS}). Default: today.`,
+        },
+        to_date: {
+          type: 'string',
+          description: `Optional: end of the window, inclusive (${ACCEPTED_DATE_FORMATS}). Default: from_date plus days.`,
+        },
+        days: {
+          type: 'number',
+          description: 'Optional: window length in days when to_date is not given (default: 90, max: 3650).',
+          default: 90,
+          minimum: 1,
+          maximum: 3650,
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optional: only changes to this statute (title, official number, or ID).',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'ics'],
+          description: 'Optional: "ics" adds an iCalendar export of the events in the ics field (default: json).',
+          default: 'json',
+        },
+      },
+    },
+  },
   {
     name: 'get_eu_basis',
     description:
@@ -299,6 +472,189 @@ export const TOOLS: Tool[] = [
   },
 ];
 
+const DEFINITION_TOOLS: Tool[] = [
+  {
+    name: 'get_definitions',
+    description:
+      'Look up how Vietnamese statutes define a term (from their "Giải thích từ ngữ" articles). ' +
+      'Give a term in Vietnamese or English, with or without diacritics ("dữ liệu cá nhân", "du lieu ca nhan"), ' +
+      'to get each statute\'s definition with its source article; whole-term matches come before partial ones. ' +
+      'Give only a document_id to list every definition in that document.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: {
+          type: 'string',
+          description: 'Term to look up (e.g., "Công nghệ thông tin", "personal data").',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optional: restrict to one document (document ID, title, or official number). Without a term, lists all its definitions.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results for a term lookup (default: 20, max: 200).',
+          default: 20,
+        },
+      },
+    },
+  },
+  {
+    name: 'search_definitions',
+    description:
+      'Search defined terms and definition text across all Vietnamese statutes. ' +
+      'Matching terms rank first, then definitions mentioning the query. ' +
+      'Case- and diacritic-insensitive. Use get_definitions when you know the exact term.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query in Vietnamese or English (e.g., "thư rác", "mã nguồn").',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optional: restrict to one document.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 10, max: 50).',
+          default: 10,
+        },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+const VERSION_TOOLS: Tool[] = [
+  {
+    name: 'diff_provision',
+    description:
+      'Show exactly what changed in an article between two recorded wordings (e.g., before and after an amendment). ' +
+      'Clauses (khoản) are paired by number and each changed clause gets a word-level diff. Returns structured ' +
+      'changes per clause (unchanged / modified / added / removed, with equal/insert/delete runs), a summary, ' +
+      'and the same diff as a unified diff. By default compares the current wording with the previous one. ' +
+      'Only articles with more than one recorded version can be compared; get_provision lists the versions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier: title, abbreviation, official number (e.g., "100/2015/QH13"), or internal document ID.',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Article reference (e.g., "dieu8"). Alternative to section.',
+        },
+        section: {
+          type: 'string',
+          description: 'Article number (e.g., "8").',
+        },
+        from_version: {
+          type: 'number',
+          description: 'Optional: older version number (default: the version before to_version).',
+        },
+        to_version: {
+          type: 'number',
+          description: 'Optional: newer version number (default: the current wording).',
+        },
+        from_date: {
+          type: 'string',
+          description: `Optional: compare from the wording in force on this date (${ACCEPTED_DATE_FORMATS}) instead of from_version.`,
+        },
+        to_date: {
+          type: 'string',
+          description: `Optional: compare to the wording in force on this date (${ACCEPTED_DATE_FORMATS}) instead of to_version.`,
+        },
+        word_diff: {
+          type: 'boolean',
+          description: 'Render modified clauses in the unified diff as one line with [-deleted-]{+inserted+} markers (default: false).',
+          default: false,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+];
+
+const CORRESPONDENCE_TOOLS: Tool[] = [
+  {
+    name: 'get_article_correspondence',
+    description:
+      'Find where an article of a replaced law went in the law that replaced it — e.g., "Điều 226a Bộ luật Hình sự 1999" ' +
+      'to Điều 289 of the 2015 Penal Code. Returns each counterpart article with a match type: equivalent, split ' +
+      '(one old article became several), merged (several old articles became one) or dropped. Rows are curated, ' +
+      'or suggested from text similarity (with a similarity score) when both laws are in the database. ' +
+      'The old law does not need to be in the database; name it by title, official number or ID.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        citation: {
+          type: 'string',
+          description: 'Citation of the old article (e.g., "Điều 226a Bộ luật Hình sự 1999", "Article 138 of 15/1999/QH10").',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Alternative to citation: the old law by title, official number (e.g., "15/1999/QH10") or ID.',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Alternative to citation: the old article (e.g., "dieu226a" or "226a").',
+        },
+      },
+    },
+  },
+];
+
+const REFERENCE_TOOLS: Tool[] = [
+  {
+    name: 'get_provision_references',
+    description:
+      'List what an article relies on: the articles, clauses and statutes it cites, such as ' +
+      '"theo quy định tại Điều 26 của Luật này", "khoản 1 Điều này" or "quy định của Luật Doanh nghiệp". ' +
+      'Each reference is resolved to a document and, where the citation names one, an article and clause ' +
+      '(target_segment_ref, e.g. "dieu26.k2"), with the citation as written (cited_as). ' +
+      'Only statutes in this database are recorded. Omit provision_ref to list every reference made by the statute.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute by title, official number (e.g., "24/2018/QH14") or ID.',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: the citing article (e.g., "dieu26", "26" or "Điều 26").',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_citing_provisions',
+    description:
+      'List what cites an article: the articles of the same statute and of other statutes in this database that refer to it. ' +
+      'Pass a clause or point reference (e.g., "dieu12.k2") to get the citations of that clause, plus those of the whole article. ' +
+      'Omit provision_ref to list the articles of other statutes that cite the statute at all. ' +
+      'The counterpart of get_provision_references.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute by title, official number (e.g., "24/2018/QH14") or ID.',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: the cited article or clause (e.g., "dieu12", "12" or "dieu12.k2").',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+];
+
 export function buildTools(
   db?: InstanceType<typeof Database>,
   context?: AboutContext,
@@ -308,10 +664,31 @@ export function buildTools(
   if (db) {
     try {
       db.prepare('SELECT 1 FROM definitions LIMIT 1').get();
-      // Could add a get_definitions tool here when definitions table exists
+      tools.push(...DEFINITION_TOOLS);
     } catch {
       // definitions table doesn't exist
     }
+
+    try {
+      db.prepare('SELECT 1 FROM provision_versions LIMIT 1').get();
+      tools.push(...VERSION_TOOLS);
+    } catch {
+      // provision_versions table doesn't exist
+    }
+
+    try {
+      db.prepare('SELECT 1 FROM article_correspondence LIMIT 1').get();
+      tools.push(...CORRESPONDENCE_TOOLS);
+    } catch {
+      // article_correspondence table doesn't exist
+    }
+
+    try {
+      db.prepare('SELECT cited_as FROM cross_references LIMIT 1').get();
+      tools.push(...REFERENCE_TOOLS);
+    } catch {
+      // cross_references is from before references were extracted
+    }
   }
 
   if (context) {
@@ -345,18 +722,45 @@ export function registerTools(
         case 'get_provision':
           result = await getProvision(db, args as unknown as GetProvisionInput);
           break;
+        case 'get_document_structure':
+          result = await getDocumentStructure(db, args as unknown as GetDocumentStructureInput);
+          break;
+        case 'diff_provision':
+          result = await diffProvision(db, args as unknown as DiffProvisionInput);
+          break;
+        case 'get_article_correspondence':
+          result = await getArticleCorrespondence(db, args as unknown as GetArticleCorrespondenceInput);
+          break;
+        case 'get_provision_references':
+          result = await getProvisionReferences(db, args as unknown as GetProvisionReferencesInput);
+          break;
+        case 'get_citing_provisions':
+          result = await getCitingProvisions(db, args as unknown as GetCitingProvisionsInput);
+          break;
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
+        case 'extract_citations':
+          result = await extractCitationsTool(db, args as unknown as ExtractCitationsInput);
+          break;
+        case 'get_definitions':
+          result = await getDefinitions(db, args as unknown as GetDefinitionsInput);
+          break;
+        case 'search_definitions':
+          result = await searchDefinitions(db, args as unknown as SearchDefinitionsInput);
+          break;
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
         case 'format_citation':
-          result = await formatCitationTool(args as unknown as FormatCitationInput);
+          result = await formatCitationTool(db, args as unknown as FormatCitationInput);
           break;
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
           break;
+        case 'get_upcoming_changes':
+          result = await getUpcomingChanges(db, args as unknown as GetUpcomingChangesInput);
+          break;
         case 'get_eu_basis':
           result = await getEUBasis(db, args as unknown as GetEUBasisInput);
           break;
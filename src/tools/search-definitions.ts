@@ -0,0 +1,126 @@
+/**
+ * search_definitions — Full-text search over defined terms and their definitions.
+ *
+ * Terms matching the query rank first, then full-text hits in the definition
+ * text. Matching is case- and diacritic-insensitive ("du lieu ca nhan" finds
+ * "Dữ liệu cá nhân").
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { normalizeForMatch } from '../utils/vietnamese-text.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import {
+  loadDefinitions,
+  toDefinitionResult,
+  type DefinitionResult,
+  type DefinitionRow,
+} from './get-definitions.js';
+
+export interface SearchDefinitionsInput {
+  query: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface SearchDefinitionsResult extends DefinitionResult {
+  /** Where the query matched */
+  matched_in: 'term' | 'definition';
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * Definition ids from an FTS index, best match first. Empty when the query
+ * has no full-text hits (or the index does not exist in an older database).
+ */
+function ftsDefinitionIds(
+  db: InstanceType<typeof Database>,
+  table: 'definitions_fts' | 'definitions_fts_folded',
+  query: string,
+  documentId?: string,
+): number[] {
+  for (const ftsQuery of buildFtsQueryVariants(query)) {
+    let sql = `
+      SELECT d.id
+      FROM ${table}
+      JOIN definitions d ON d.id = ${table}.rowid
+      WHERE ${table} MATCH ?
+    `;
+    const params: string[] = [ftsQuery];
+    if (documentId) {
+      sql += ' AND d.document_id = ?';
+      params.push(documentId);
+    }
+    sql += ` ORDER BY bm25(${table})`;
+
+    try {
+      const rows = db.prepare(sql).all(...params) as { id: number }[];
+      if (rows.length > 0) return rows.map(r => r.id);
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+  return [];
+}
+
+export async function searchDefinitions(
+  db: InstanceType<typeof Database>,
+  input: SearchDefinitionsInput,
+): Promise<ToolResponse<SearchDefinitionsResult[]>> {
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  let documentId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
+    }
+    documentId = resolved;
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const wanted = normalizeForMatch(input.query.trim());
+  const rows = loadDefinitions(db, documentId);
+  const byId = new Map(rows.map(row => [row.id, row]));
+
+  const seen = new Set<number>();
+  const results: SearchDefinitionsResult[] = [];
+  const add = (row: DefinitionRow | undefined, matchedIn: 'term' | 'definition', match?: 'exact' | 'partial') => {
+    if (!row || seen.has(row.id)) return;
+    seen.add(row.id);
+    results.push({ ...toDefinitionResult(row, match), matched_in: matchedIn });
+  };
+
+  // 1. Terms equal to or containing the query
+  const termNames = (row: DefinitionRow) =>
+    [row.term, row.term_en].filter((t): t is string => Boolean(t)).map(normalizeForMatch);
+  for (const row of rows) {
+    if (termNames(row).some(name => name === wanted)) add(row, 'term', 'exact');
+  }
+  for (const row of rows) {
+    if (termNames(row).some(name => name.includes(wanted))) add(row, 'term', 'partial');
+  }
+
+  // 2. Full-text hits with the query's own diacritics, then with them folded
+  const sanitized = sanitizeFtsInput(input.query);
+  for (const id of ftsDefinitionIds(db, 'definitions_fts', sanitized, documentId)) {
+    add(byId.get(id), 'definition');
+  }
+  for (const id of ftsDefinitionIds(db, 'definitions_fts_folded', normalizeForMatch(sanitized), documentId)) {
+    add(byId.get(id), 'definition');
+  }
+
+  return { results: results.slice(0, limit), _metadata: generateResponseMetadata(db) };
+}
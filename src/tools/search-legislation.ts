@@ -3,8 +3,9 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
-import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { invalidDateNote, normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { searchProvisions, searchProvisionsTranslated } from '../utils/provision-search.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface SearchLegislationInput {
@@ -13,6 +14,8 @@ export interface SearchLegislationInput {
   status?: string;
   as_of_date?: string;
   limit?: number;
+  /** Translate English legal terms to Vietnamese before searching (default true) */
+  translate?: boolean;
 }
 
 export interface SearchLegislationResult {
@@ -24,6 +27,8 @@ export interface SearchLegislationResult {
   title: string | null;
   snippet: string;
   relevance: number;
+  /** "folded" when the query only matched with diacritics removed */
+  match: 'exact' | 'folded';
 }
 
 const DEFAULT_LIMIT = 10;
@@ -37,50 +42,46 @@ export async function searchLegislation(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
-  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
-
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
-      params.push(input.document_id);
-    }
-
-    if (input.status) {
-      sql += ' AND ld.status = ?';
-      params.push(input.status);
+  let documentId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
     }
+    documentId = resolved;
+  }
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(limit);
-
-    try {
-      const rows = db.prepare(sql).all(...params) as SearchLegislationResult[];
-      if (rows.length > 0) {
-        return { results: rows, _metadata: generateResponseMetadata(db) };
-      }
-    } catch {
-      // FTS query syntax error — try next variant
-      continue;
+  let asOfDate: string | undefined;
+  if (input.as_of_date) {
+    const normalized = normalizeAsOfDate(input.as_of_date);
+    if (!normalized) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: invalidDateNote('as_of_date', input.as_of_date) },
+        },
+      };
     }
+    asOfDate = normalized;
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const options = { documentId, status: input.status, asOfDate, limit, snippetTokens: 32 };
+  const { rows, translation } = input.translate === false
+    ? { rows: searchProvisions(db, input.query, options), translation: null }
+    : searchProvisionsTranslated(db, input.query, options);
+
+  return {
+    results: rows,
+    _metadata: translation
+      ? { ...generateResponseMetadata(db), ...{ query_translation: translation } }
+      : generateResponseMetadata(db),
+  };
 }
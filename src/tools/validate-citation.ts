@@ -4,6 +4,17 @@
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { documentStatusOn, type DatedDocument } from '../utils/as-of-date.js';
+import { articleProvisionRef, formatVietnamesePinpoint, parseCitation } from '../utils/citation-parser.js';
+import { locatePinpoint, type PinpointLocation } from '../utils/provision-segments.js';
+import {
+  describeLaw,
+  describeSuccessors,
+  findReplacedLaw,
+  replacedBy,
+  successorsOn,
+  type Replacement,
+} from '../utils/document-replacements.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface ValidateCitationInput {
@@ -17,48 +28,46 @@ export interface ValidateCitationResult {
   document_id?: string;
   document_title?: string;
   provision_ref?: string;
+  clause?: string;
+  point?: string;
+  pinpoint?: PinpointLocation;
   status?: string;
+  /** Laws that replaced the cited document */
+  replaced_by?: Replacement[];
   warnings: string[];
 }
 
 /**
- * Parse an Vietnamese legal citation.
- * Supports:
- * - "Section 13 Privacy Act 1988" / "Section 13, Privacy Act 1988"
- * - "Privacy Act 1988 s 13" / "Privacy Act 1988, s 13"
- * - "[Act Title Year] s N"
- * - "s 13" (section only, no document)
- * - Plain document reference (e.g., "Privacy Act 1988")
+ * Warnings for citing a document with the given status, naming the laws
+ * that replaced it.
  */
-function parseCitation(citation: string): { documentRef: string; sectionRef?: string } | null {
-  const trimmed = citation.trim();
-
-  // "Section N <Act>" or "Section N, <Act>"
-  const sectionFirst = trimmed.match(
-    /^Section\s+(\d+[A-Za-z]*(?:\(\d+\))?)\s*[,;]?\s+(.+)$/i
-  );
-  if (sectionFirst) {
-    return { documentRef: sectionFirst[2].trim(), sectionRef: sectionFirst[1] };
+export function documentStatusWarnings(status: string, successors: Replacement[] = []): string[] {
+  const { current, upcoming } = successorsOn(successors, new Date().toISOString().slice(0, 10));
+  if (status === 'repealed') {
+    return [`WARNING: This statute has been repealed${current.length > 0 ? ` and ${describeSuccessors(current)}` : ''}.`];
   }
-
-  // "<Act> s N" or "<Act>, s N" or "<Act> s. N"
-  const sectionLast = trimmed.match(
-    /^(.+?)\s*[,;]?\s+s\.?\s+(\d+[A-Za-z]*(?:\(\d+\))?)$/i
-  );
-  if (sectionLast) {
-    return { documentRef: sectionLast[1].trim(), sectionRef: sectionLast[2] };
+  if (current.length > 0) {
+    return [`WARNING: This statute has been ${describeSuccessors(current)}. Cite the successor law.`];
   }
-
-  // "<Act> Section N" or "<Act>, Section N"
-  const sectionWordLast = trimmed.match(
-    /^(.+?)\s*[,;]?\s+Section\s+(\d+[A-Za-z]*(?:\(\d+\))?)$/i
-  );
-  if (sectionWordLast) {
-    return { documentRef: sectionWordLast[1].trim(), sectionRef: sectionWordLast[2] };
+  if (upcoming.length > 0) {
+    return [`Note: This statute is to be ${describeSuccessors(upcoming)}.`];
   }
+  if (status === 'amended') {
+    return ['Note: This statute has been amended. Verify you are referencing the current version.'];
+  }
+  return [];
+}
 
-  // Just a document reference (no section)
-  return { documentRef: trimmed };
+/**
+ * Warnings for citing a replaced law that is not in the database, which is
+ * known only through the laws that replaced it.
+ */
+export function replacedLawWarnings(successors: Replacement[], name: string): string[] {
+  const { current, upcoming } = successorsOn(successors, new Date().toISOString().slice(0, 10));
+  if (current.length > 0) {
+    return [`WARNING: ${name} has been repealed and ${describeSuccessors(current)}. Cite the successor law.`];
+  }
+  return [`Note: ${name} is to be ${describeSuccessors(upcoming)}.`];
 }
 
 export async function validateCitationTool(
@@ -68,12 +77,12 @@ export async function validateCitationTool(
   const warnings: string[] = [];
   const parsed = parseCitation(input.citation);
 
-  if (!parsed) {
+  if (!parsed || !parsed.documentRef) {
     return {
       results: {
         valid: false,
         citation: input.citation,
-        warnings: ['Could not parse citation format'],
+        warnings: [parsed ? 'Citation does not name a document' : 'Could not parse citation format'],
       },
       _metadata: generateResponseMetadata(db),
     };
@@ -81,6 +90,26 @@ export async function validateCitationTool(
 
   const docId = resolveDocumentId(db, parsed.documentRef);
   if (!docId) {
+    // A repealed law is often not in the database, but its successor records it
+    const replaced = findReplacedLaw(db, parsed.documentRef);
+    if (replaced) {
+      const { current } = successorsOn(replaced.replaced_by, new Date().toISOString().slice(0, 10));
+      return {
+        results: {
+          valid: false,
+          citation: input.citation,
+          clause: parsed.clause,
+          point: parsed.point,
+          status: current.length > 0 ? 'repealed' : 'in_force',
+          replaced_by: replaced.replaced_by,
+          warnings: [
+            ...replacedLawWarnings(replaced.replaced_by, describeLaw(replaced)),
+            `${describeLaw(replaced)} is not in the database; the citation could not be checked against its text`,
+          ],
+        },
+        _metadata: generateResponseMetadata(db),
+      };
+    }
     return {
       results: {
         valid: false,
@@ -92,19 +121,18 @@ export async function validateCitationTool(
   }
 
   const doc = db.prepare(
-    'SELECT id, title, status FROM legal_documents WHERE id = ?'
-  ).get(docId) as { id: string; title: string; status: string };
+    'SELECT * FROM legal_documents WHERE id = ?'
+  ).get(docId) as DatedDocument & { id: string; title: string; official_number: string | null };
+  const status = documentStatusOn(doc, new Date().toISOString().slice(0, 10));
 
-  if (doc.status === 'repealed') {
-    warnings.push(`WARNING: This statute has been repealed.`);
-  } else if (doc.status === 'amended') {
-    warnings.push(`Note: This statute has been amended. Verify you are referencing the current version.`);
-  }
+  const successors = replacedBy(db, doc.id, doc.official_number);
+  const replacement = successors.length > 0 ? { replaced_by: successors } : {};
+  warnings.push(...documentStatusWarnings(status, successors));
 
-  if (parsed.sectionRef) {
+  if (parsed.article) {
     const provision = db.prepare(
-      "SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ?)"
-    ).get(docId, parsed.sectionRef, `s${parsed.sectionRef}`, parsed.sectionRef) as { provision_ref: string } | undefined;
+      'SELECT provision_ref, content FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?)'
+    ).get(docId, articleProvisionRef(parsed.article), parsed.article) as { provision_ref: string; content: string } | undefined;
 
     if (!provision) {
       return {
@@ -113,21 +141,33 @@ export async function validateCitationTool(
           citation: input.citation,
           document_id: docId,
           document_title: doc.title,
-          warnings: [...warnings, `Provision "Section ${parsed.sectionRef}" not found in ${doc.title}`],
+          warnings: [...warnings, `Provision "Điều ${parsed.article}" not found in ${doc.title}`],
         },
         _metadata: generateResponseMetadata(db),
       };
     }
 
+    const pinpoint = locatePinpoint(provision.content, parsed.clause, parsed.point);
+    if (pinpoint.clause_found === false) {
+      warnings.push(`Clause "khoản ${parsed.clause}" not found in the text of Điều ${parsed.article}`);
+    }
+    if (pinpoint.point_found === false) {
+      warnings.push(`Point "điểm ${parsed.point}" not found in the text of Điều ${parsed.article}`);
+    }
+
     return {
       results: {
-        valid: true,
+        valid: pinpoint.clause_found !== false && pinpoint.point_found !== false,
         citation: input.citation,
-        normalized: `Section ${parsed.sectionRef}, ${doc.title}`,
+        normalized: `${formatVietnamesePinpoint(parsed)} ${doc.title}`,
         document_id: docId,
         document_title: doc.title,
         provision_ref: provision.provision_ref,
-        status: doc.status,
+        clause: parsed.clause,
+        point: parsed.point,
+        pinpoint: parsed.clause || parsed.point ? pinpoint : undefined,
+        status,
+        ...replacement,
         warnings,
       },
       _metadata: generateResponseMetadata(db),
@@ -141,7 +181,8 @@ export async function validateCitationTool(
       normalized: doc.title,
       document_id: docId,
       document_title: doc.title,
-      status: doc.status,
+      status,
+      ...replacement,
       warnings,
     },
     _metadata: generateResponseMetadata(db),
@@ -4,6 +4,7 @@
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { statusAsOf, type DatedDocument } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface ValidateEUComplianceInput {
@@ -41,8 +42,8 @@ export async function validateEUCompliance(
   }
 
   const doc = db.prepare(
-    'SELECT id, title, status FROM legal_documents WHERE id = ?'
-  ).get(resolvedId) as { id: string; title: string; status: string };
+    'SELECT * FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as DatedDocument & { id: string; title: string };
 
   const warnings: string[] = [];
   const recommendations: string[] = [];
@@ -88,7 +89,7 @@ export async function validateEUCompliance(
     };
   }
 
-  if (doc.status === 'repealed') {
+  if (statusAsOf(doc, new Date().toISOString().slice(0, 10)) === 'repealed') {
     warnings.push('This statute has been repealed.');
     recommendations.push('Check for replacement legislation.');
   }
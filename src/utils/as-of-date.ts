@@ -2,26 +2,91 @@
  * Date normalization for temporal queries.
  */
 
+import type Database from '@ansvar/mcp-sqlite';
+import { parseDate } from './vietnamese-date.js';
+
+/** Date formats the tools accept, as given in tool descriptions and notes */
+export const ACCEPTED_DATE_FORMATS = 'YYYY-MM-DD; DD/MM/YYYY and "ngày 01 tháng 7 năm 2023" also accepted';
+
+/** Note for a date argument normalizeAsOfDate could not read */
+export function invalidDateNote(argument: string, input: string): string {
+  return `Invalid ${argument} "${input}" — use a date (${ACCEPTED_DATE_FORMATS})`;
+}
+
 /**
- * Normalize an as-of date string to ISO 8601 format.
- * Returns null if the input is not a valid date.
+ * Normalize an as-of date string to ISO 8601 format: "2023-07-01",
+ * "01/07/2023", "1-7-2023", "ngày 01 tháng 7 năm 2023" and "1 July 2023"
+ * all give 2023-07-01. Returns null if the input is not a valid date.
  */
 export function normalizeAsOfDate(input?: string): string | null {
   if (!input || input.trim().length === 0) return null;
+  return parseDate(input);
+}
 
-  const trimmed = input.trim();
+/** Dates that decide whether a document is in force on a given day. */
+export interface DatedDocument {
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  repealed_date?: string | null;
+}
 
-  // Already ISO 8601
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    const date = new Date(trimmed);
-    if (!isNaN(date.getTime())) return trimmed;
-  }
+export type StatusAsOf = 'in_force' | 'not_yet_in_force' | 'repealed';
 
-  // Try parsing as a general date
-  const date = new Date(trimmed);
-  if (!isNaN(date.getTime())) {
-    return date.toISOString().slice(0, 10);
-  }
+/**
+ * Status of a document on an ISO date. A document without an in-force date
+ * counts from its issue date. A repealed document with no recorded repeal
+ * date is treated as repealed on any date after it entered into force.
+ */
+export function statusAsOf(doc: DatedDocument, asOf: string): StatusAsOf {
+  const start = doc.in_force_date ?? doc.issued_date;
+  if (start && asOf < start) return 'not_yet_in_force';
+  if (doc.repealed_date) return asOf >= doc.repealed_date ? 'repealed' : 'in_force';
+  if (doc.status === 'repealed') return 'repealed';
+  if (doc.status === 'not_yet_in_force' && !start) return 'not_yet_in_force';
+  return 'in_force';
+}
+
+/**
+ * Status of a document on an ISO date, keeping "amended" for an amended
+ * document in force. Unlike the stored status, a repeal dated after that day
+ * does not count yet.
+ */
+export function documentStatusOn(doc: DatedDocument, date: string): string {
+  const status = statusAsOf(doc, date);
+  return status === 'in_force' && doc.status === 'amended' ? 'amended' : status;
+}
 
-  return null;
+/**
+ * Status of every document on an ISO date, by id.
+ */
+export function documentStatuses(db: InstanceType<typeof Database>, date: string): Map<string, string> {
+  const docs = db.prepare('SELECT * FROM legal_documents').all() as (DatedDocument & { id: string })[];
+  return new Map(docs.map(doc => [doc.id, documentStatusOn(doc, date)]));
+}
+
+/**
+ * Ids of the documents in force on an ISO date.
+ */
+export function documentsInForce(db: InstanceType<typeof Database>, asOf: string): string[] {
+  const docs = db.prepare('SELECT * FROM legal_documents').all() as (DatedDocument & { id: string })[];
+  return docs.filter(doc => statusAsOf(doc, asOf) === 'in_force').map(doc => doc.id);
+}
+
+/**
+ * Why a document is not in force on an ISO date, or null when it is.
+ */
+export function notInForceReason(doc: DatedDocument, asOf: string): string | null {
+  switch (statusAsOf(doc, asOf)) {
+    case 'not_yet_in_force': {
+      const start = doc.in_force_date ?? doc.issued_date;
+      return start ? `not yet in force on ${asOf} (in force from ${start})` : `not yet in force on ${asOf}`;
+    }
+    case 'repealed':
+      return doc.repealed_date
+        ? `no longer in force on ${asOf} (repealed with effect from ${doc.repealed_date})`
+        : `no longer in force on ${asOf} (repealed; repeal date not recorded)`;
+    default:
+      return null;
+  }
 }
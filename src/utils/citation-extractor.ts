@@ -0,0 +1,357 @@
+/**
+ * Find legal citations in free Vietnamese or English text.
+ *
+ * Recognises pinpoints ("điểm a khoản 1 Điều 17", "Article 26(2)(a)") with an
+ * optional following document reference, standalone document references
+ * ("Luật An ninh mạng 2018", "Nghị định 13/2023/NĐ-CP") and bare official
+ * numbers ("24/2018/QH14"). Scanning runs on diacritic-folded text, so
+ * offsets are positions in the NFC-normalised input.
+ *
+ * Enumerations ("các Điều 170, 171 và 173", "khoản 1, khoản 2 Điều 9",
+ * "Articles 5 and 6") give one citation per article, clause or point; each
+ * spans the whole enumeration and carries the document named after it.
+ */
+
+import { foldDiacritics } from './vietnamese-text.js';
+import { cleanDocumentRef } from './citation-parser.js';
+
+export interface ExtractedCitation {
+  /** Citation text as it appears in the input */
+  text: string;
+  start: number;
+  end: number;
+  article?: string;
+  clause?: string;
+  point?: string;
+  documentRef?: string;
+  /** Set for "Luật này" / "Nghị định này": the document containing the text */
+  relativeDocument?: boolean;
+}
+
+/** ", ", " và ", ", hoặc " between the items of an enumeration */
+const LIST_SEPARATOR = '(?:\\s*[,;]\\s*(?:(?:va|hoac)\\s+)?|\\s+(?:va|hoac)\\s+)';
+/** A bare number continues an article list only when the list goes on or ends there ("Điều 5, 10 ngày" does not) */
+const LIST_ITEM_END = '(?=\\s*(?:[,;.)]|$)|\\s+(?:va|hoac|cua|thuoc|tai|quy|bo|luat|nghi|phap|hien|thong|quyet|khoan|diem)\\b)';
+
+const VI_PINPOINT = new RegExp(
+  '\\b((?:cac\\s+)?diem\\s+(?:dd|[a-z])\\b(?:' + LIST_SEPARATOR + '(?:diem\\s+)?(?:dd|[a-z])\\b)*\\s*,?\\s+)?'
+  + '((?:cac\\s+)?khoan\\s+\\d+\\b(?:' + LIST_SEPARATOR + '(?:khoan\\s+)?\\d+\\b)*\\s*,?\\s+)?'
+  + '((?:cac\\s+)?dieu\\s+\\d+[a-z]?\\b(?:' + LIST_SEPARATOR + '(?:dieu\\s+)?\\d{1,3}[a-z]?\\b' + LIST_ITEM_END + ')*)'
+  + '(?:\\s*,?\\s*khoan\\s+(\\d+)\\b)?(?:\\s*,?\\s*diem\\s+(dd|[a-z])\\b)?',
+  'g',
+);
+
+const EN_PINPOINT = new RegExp(
+  '\\b(?:articles?|art\\.)\\s*(\\d+[a-z]?)\\b((?:\\s*\\(\\s*[0-9a-z]+\\s*\\))*)'
+  + '((?:(?:\\s*,\\s*(?:and\\s+|or\\s+)?|\\s+(?:and|or)\\s+)\\d{1,3}[a-z]?\\b(?!\\s*\\())*)',
+  'g',
+);
+/** "Decree No." / "Law" before a bare official number */
+const EN_NUMBERED_PREFIX = /\b(?:law|decree|code|resolution|ordinance|circular)\s+(?:no\.?\s*)?$/;
+
+const VI_DOCUMENT_TYPE = /(bo\s+luat|luat|nghi\s+dinh|nghi\s+quyet|phap\s+lenh|hien\s+phap|thong\s+tu|quyet\s+dinh)\b/y;
+const VI_DOCUMENT_TYPE_ANYWHERE = /\b(?:bo\s+luat|luat|nghi\s+dinh|nghi\s+quyet|phap\s+lenh|hien\s+phap|thong\s+tu|quyet\s+dinh)\b/g;
+
+const OFFICIAL_NUMBER = /\d{1,4}\s*\/\s*\d{4}\s*\/\s*[a-z]+\d*(?:\s*-\s*[a-z]+\d*)*/y;
+const OFFICIAL_NUMBER_ANYWHERE = /\b\d{1,4}\s*\/\s*\d{4}\s*\/\s*[a-z]+\d*(?:\s*-\s*[a-z]+\d*)*/g;
+
+/** Words that end a Vietnamese document name ("Luật Doanh nghiệp quy định ..."). */
+const VI_NAME_STOPWORDS = new Set([
+  'nay', 'va', 'hoac', 'co', 'quy', 'duoc', 'thi', 'da', 'theo', 'tai', 'cua', 'de', 'khi',
+  'ma', 'la', 'trong', 'phai', 'nhu', 'sau', 'truoc', 'khac', 'hien', 'thuoc', 'doi', 'voi',
+  'cac', 'nhung', 've', 'khong', 'can', 'cung', 'se', 'dang', 'neu',
+]);
+
+const EN_NAME_CONNECTORS = new Set(['on', 'of']);
+const EN_DOCUMENT_WORDS = /\b(?:law|code|decree|constitution|ordinance|resolution|circular)\b/;
+
+const MAX_NAME_WORDS = 10;
+
+interface DocumentMatch {
+  end: number;
+  ref?: string;
+  relative?: boolean;
+}
+
+/**
+ * Extract all citations from text, in order of appearance.
+ */
+export function extractCitations(input: string): ExtractedCitation[] {
+  const text = input.normalize('NFC');
+  const folded = foldDiacritics(text).toLowerCase();
+  const citations: ExtractedCitation[] = [];
+
+  let match: RegExpExecArray | null;
+
+  VI_PINPOINT.lastIndex = 0;
+  while ((match = VI_PINPOINT.exec(folded)) !== null) {
+    const doc = matchDocumentAfter(text, folded, match.index + match[0].length, 'vi');
+    const end = doc?.end ?? match.index + match[0].length;
+    for (const pin of vietnamesePinpoints(text, match)) {
+      citations.push(buildCitation(text, match.index, end, pin, doc));
+    }
+    if (doc) VI_PINPOINT.lastIndex = doc.end;
+  }
+
+  EN_PINPOINT.lastIndex = 0;
+  while ((match = EN_PINPOINT.exec(folded)) !== null) {
+    const parens = Array.from(match[2].matchAll(/\(\s*([0-9a-z]+)\s*\)/g), m => m[1]);
+    const doc = matchDocumentAfter(text, folded, match.index + match[0].length, 'en');
+    const end = doc?.end ?? match.index + match[0].length;
+    citations.push(buildCitation(text, match.index, end, {
+      article: match[1],
+      clause: parens.find(p => /^\d+$/.test(p)),
+      point: parens.find(p => /^[a-z]$/.test(p)),
+    }, doc));
+    for (const [article] of match[3].matchAll(/\d+[a-z]?/g)) {
+      citations.push(buildCitation(text, match.index, end, { article }, doc));
+    }
+    if (doc) EN_PINPOINT.lastIndex = doc.end;
+  }
+
+  // Standalone document references not already part of a pinpoint citation
+  const covered = (pos: number) => citations.some(c => pos >= c.start && pos < c.end);
+
+  VI_DOCUMENT_TYPE_ANYWHERE.lastIndex = 0;
+  while ((match = VI_DOCUMENT_TYPE_ANYWHERE.exec(folded)) !== null) {
+    if (covered(match.index)) continue;
+    const doc = matchVietnameseDocument(text, folded, match.index);
+    if (doc && !doc.relative) {
+      citations.push(buildCitation(text, match.index, doc.end, {}, doc));
+      VI_DOCUMENT_TYPE_ANYWHERE.lastIndex = doc.end;
+    }
+  }
+
+  OFFICIAL_NUMBER_ANYWHERE.lastIndex = 0;
+  while ((match = OFFICIAL_NUMBER_ANYWHERE.exec(folded)) !== null) {
+    if (covered(match.index)) continue;
+    const end = match.index + match[0].length;
+    const prefix = folded.slice(Math.max(0, match.index - 20), match.index).match(EN_NUMBERED_PREFIX);
+    const start = prefix ? match.index - prefix[0].length : match.index;
+    citations.push(buildCitation(text, start, end, {}, { end, ref: text.slice(start, end) }));
+  }
+
+  citations.sort((a, b) => a.start - b.start);
+  shareDocumentAcrossLists(text, citations);
+  return citations;
+}
+
+interface Pinpoint {
+  article?: string;
+  clause?: string;
+  point?: string;
+}
+
+/**
+ * The pinpoints of a Vietnamese pinpoint match, one per enumerated item.
+ * Enumerated clauses and points belong to the first article ("khoản 1, 2
+ * Điều 9 và Điều 10"), and points to the first clause.
+ */
+function vietnamesePinpoints(text: string, match: RegExpExecArray): Pinpoint[] {
+  const [, pointList = '', clauseList = '', articleList, trailingClause, trailingPoint] = match;
+  const articles = Array.from(articleList.matchAll(/\d+[a-z]?/g), m => m[0]);
+  const clauses = Array.from(clauseList.matchAll(/\d+/g), m => m[0]);
+  if (trailingClause) clauses.push(trailingClause);
+
+  const points = Array.from(pointList.matchAll(/(?<=^|\s|,|;)(dd|[a-z])\b/g), m => pointLetter(text, match.index + m.index!, m[1]));
+  if (trailingPoint) {
+    const offset = match[0].length - trailingPoint.length;
+    points.push(pointLetter(text, match.index + offset, trailingPoint));
+  }
+
+  const first: Pinpoint[] = clauses.length > 1
+    ? clauses.map((clause, i) => ({ clause, point: i === 0 && points.length === 1 ? points[0] : undefined }))
+    : points.length > 0
+      ? points.map(point => ({ clause: clauses[0], point }))
+      : [{ clause: clauses[0] }];
+  return [
+    ...first.map(pin => ({ article: articles[0], ...pin })),
+    ...articles.slice(1).map(article => ({ article })),
+  ];
+}
+
+/** Point letter at a position, restoring "đ" (folded to "d" or spelled "dd"). */
+function pointLetter(text: string, index: number, folded: string): string {
+  return folded === 'dd' || text[index] === 'đ' ? 'đ' : folded;
+}
+
+function buildCitation(
+  text: string,
+  start: number,
+  end: number,
+  pin: { article?: string; clause?: string; point?: string },
+  doc: DocumentMatch | null,
+): ExtractedCitation {
+  const citation: ExtractedCitation = { text: text.slice(start, end), start, end };
+  if (pin.article) citation.article = pin.article;
+  if (pin.clause) citation.clause = pin.clause;
+  if (pin.point) citation.point = pin.point;
+  if (doc?.ref) citation.documentRef = doc.ref;
+  if (doc?.relative) citation.relativeDocument = true;
+  return citation;
+}
+
+/**
+ * "Điều 5, Điều 6 và Điều 7 của Luật X": earlier pinpoints in a list take
+ * the document named after the last one.
+ */
+function shareDocumentAcrossLists(text: string, citations: ExtractedCitation[]): void {
+  for (let i = citations.length - 2; i >= 0; i--) {
+    const current = citations[i];
+    const next = citations[i + 1];
+    if (current.documentRef || current.relativeDocument || !current.article || !next.article) continue;
+    const gap = foldDiacritics(text.slice(current.end, next.start)).toLowerCase();
+    if (!/^\s*(?:,|;|va|hoac|and|or|\s)*\s*$/.test(gap)) continue;
+    if (next.documentRef) current.documentRef = next.documentRef;
+    if (next.relativeDocument) current.relativeDocument = true;
+  }
+}
+
+/**
+ * Match a document reference following a pinpoint, skipping connectors
+ * such as "của", "of the" or a comma.
+ */
+function matchDocumentAfter(text: string, folded: string, pos: number, lang: 'vi' | 'en'): DocumentMatch | null {
+  const connector = lang === 'vi'
+    ? /\s*,?\s*(?:(?:cua|thuoc|tai)\s+)?/y
+    : /\s*(?:,\s*|\s+of\s+(?:the\s+)?|\s+)(?:the\s+)?/y;
+  connector.lastIndex = pos;
+  const skipped = connector.exec(folded);
+  const docStart = skipped ? pos + skipped[0].length : pos;
+
+  return matchVietnameseDocument(text, folded, docStart)
+    ?? matchOfficialNumber(text, folded, docStart)
+    ?? (lang === 'en' ? matchEnglishDocument(text, folded, docStart) : null);
+}
+
+/**
+ * "Luật An ninh mạng 2018", "Bộ luật Hình sự", "Nghị định số 13/2023/NĐ-CP",
+ * "Luật này". The type word must be capitalised in the original text so that
+ * ordinary uses of "pháp luật" or "luật" are not picked up.
+ */
+function matchVietnameseDocument(text: string, folded: string, pos: number): DocumentMatch | null {
+  VI_DOCUMENT_TYPE.lastIndex = pos;
+  const type = VI_DOCUMENT_TYPE.exec(folded);
+  if (!type || !/\p{Lu}/u.test(text[pos])) return null;
+  if (pos > 0 && /[\p{L}\d]/u.test(folded[pos - 1])) return null;
+
+  let end = pos + type[0].length;
+
+  const relative = /\s+nay\b/y;
+  relative.lastIndex = end;
+  const rel = relative.exec(folded);
+  if (rel) return { end: end + rel[0].length, relative: true };
+
+  // Numbered form: "Nghị định 13/2023/NĐ-CP", "Luật số 59/2020/QH14"
+  const numbered = /\s+(?:so\s+)?/y;
+  numbered.lastIndex = end;
+  const gap = numbered.exec(folded);
+  if (gap) {
+    const number = matchOfficialNumber(text, folded, end + gap[0].length);
+    if (number) return { end: number.end, ref: text.slice(pos, number.end) };
+  }
+
+  let words = 0;
+
+  // "Luật sửa đổi, bổ sung một số điều của Bộ luật Hình sự số 12/2017/QH14":
+  // the comma belongs to the name, which runs on to the amended law's
+  const amending = /\s+sua\s+doi\s*,\s*bo\s+sung(?:\s+mot\s+so\s+dieu(?:\s+cua)?)?/y;
+  amending.lastIndex = end;
+  const amends = amending.exec(folded);
+  if (amends) {
+    end += amends[0].length;
+    const amended = /\s+/y;
+    amended.lastIndex = end;
+    const inner = amended.exec(folded) ? matchVietnameseDocument(text, folded, amended.lastIndex) : null;
+    if (inner?.ref) return { end: inner.end, ref: cleanDocumentRef(text.slice(pos, inner.end)) };
+    words++;
+  }
+
+  // Named form: take words until a stopword, punctuation, year or number
+  const wordPattern = /\s+([^\s,;:()"“”]+)/y;
+  while (words < MAX_NAME_WORDS) {
+    wordPattern.lastIndex = end;
+    const word = wordPattern.exec(folded);
+    if (!word) break;
+
+    const raw = word[1];
+    const bare = raw.replace(/[.]+$/, '');
+    if (!bare || VI_NAME_STOPWORDS.has(bare)) break;
+
+    // "năm 2020" / "số 59/2020/QH14" close the name ("Việt Nam" does not)
+    if (bare === 'nam' || bare === 'so') {
+      const after = /\s+(\d{4}\b|\d{1,4}\s*\/\s*\d{4}\s*\/\s*[a-z]+\d*(?:\s*-\s*[a-z]+\d*)*)/y;
+      after.lastIndex = end + word[0].length;
+      const tail = after.exec(folded);
+      if (tail) {
+        end = end + word[0].length + tail[0].length;
+        break;
+      }
+      if (bare === 'so') break;
+    }
+
+    if (/^\d/.test(bare)) {
+      if (/^\d{4}$/.test(bare)) end += word[0].length - (raw.length - bare.length);
+      break;
+    }
+
+    end += word[0].length - (raw.length - bare.length);
+    words++;
+    if (bare !== raw) break;
+  }
+
+  const isConstitution = type[1] === 'hien phap';
+  if (words === 0 && !isConstitution && end === pos + type[0].length) return null;
+
+  return { end, ref: cleanDocumentRef(text.slice(pos, end)) };
+}
+
+function matchOfficialNumber(text: string, folded: string, pos: number): DocumentMatch | null {
+  OFFICIAL_NUMBER.lastIndex = pos;
+  const number = OFFICIAL_NUMBER.exec(folded);
+  if (!number) return null;
+  const end = pos + number[0].length;
+  return { end, ref: text.slice(pos, end) };
+}
+
+/**
+ * "Cybersecurity Law 2018", "Law on Cybersecurity", "Decree No. 13/2023/ND-CP":
+ * capitalised words plus "on"/"of"/"and", which must include a document word.
+ */
+function matchEnglishDocument(text: string, folded: string, pos: number): DocumentMatch | null {
+  const numbered = /(?:law|decree|code|resolution|ordinance|circular)\s+(?:no\.?\s*)?/y;
+  numbered.lastIndex = pos;
+  const prefix = numbered.exec(folded);
+  if (prefix) {
+    const number = matchOfficialNumber(text, folded, pos + prefix[0].length);
+    if (number) return { end: number.end, ref: text.slice(pos, number.end) };
+  }
+
+  const wordPattern = /\s*([^\s,;:()"“”]+)/y;
+  let end = pos;
+  let lastDocumentEnd = -1;
+  for (let words = 0; words < MAX_NAME_WORDS; words++) {
+    wordPattern.lastIndex = end;
+    const word = wordPattern.exec(folded);
+    if (!word) break;
+
+    const bare = word[1].replace(/[.]+$/, '');
+    const original = text.slice(end + word[0].length - word[1].length);
+    const capitalised = /^[\p{Lu}\d]/u.test(original);
+    if (!capitalised && !EN_NAME_CONNECTORS.has(bare)) break;
+    if (bare === 'article' || bare === 'art') break;
+
+    end += word[0].length - (word[1].length - bare.length);
+    if (EN_DOCUMENT_WORDS.test(bare) || (/^\d{4}$/.test(bare) && lastDocumentEnd >= 0)) {
+      lastDocumentEnd = end;
+    }
+    if (bare !== word[1]) break;
+  }
+
+  if (lastDocumentEnd < 0) return null;
+
+  // Trailing connectors are not part of the name ("Cybersecurity Law of ...")
+  const trailing = folded.slice(pos, end).match(/(?:\s+(?:on|of))+$/);
+  const finalEnd = trailing ? end - trailing[0].length : end;
+  return { end: finalEnd, ref: cleanDocumentRef(text.slice(pos, finalEnd)) };
+}
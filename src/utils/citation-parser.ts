@@ -0,0 +1,152 @@
+/**
+ * Citation grammar for Vietnamese legal references.
+ *
+ * Vietnamese pinpoints run from the most specific element to the article:
+ *   "điểm a khoản 1 Điều 17 Luật Doanh nghiệp"
+ *   "khoản 2 Điều 8 Nghị định 13/2023/NĐ-CP"
+ *   "Điều 26 Luật An ninh mạng 2018"
+ * The English form puts clause and point in parentheses after the article:
+ *   "Article 26(2)(a) of the Cybersecurity Law 2018"
+ *
+ * Keywords are matched on diacritic-folded text, so "dieu 26", "khoan 2" and
+ * "diem a" are accepted as well. The document reference is returned as typed
+ * and resolved separately (see statute-id.ts).
+ */
+
+import { foldDiacritics } from './vietnamese-text.js';
+
+export interface ParsedCitation {
+  documentRef?: string;
+  article?: string;
+  clause?: string;
+  point?: string;
+}
+
+const VI_PINPOINT =
+  /^(?:diem\s+([a-z])\s*,?\s+)?(?:khoan\s+(\d+)\s*,?\s+)?dieu\s+(\d+[a-z]?)\b(?:\s*,?\s*khoan\s+(\d+)\b)?(?:\s*,?\s*diem\s+([a-z])\b)?/;
+
+const EN_PINPOINT =
+  /^(?:(?:point|item)\s+([a-z])\s*,?\s*(?:of\s+)?)?(?:(?:clause|paragraph)\s+(\d+)\s*,?\s*(?:of\s+)?)?(?:article|art\.?|section|sec\.?|s\.?)\s*(\d+[a-z]?)\b((?:\s*\(\s*[0-9a-z]+\s*\))*)/;
+
+const VI_TRAILING_PINPOINT = /[\s,;]+((?:diem\s+[a-z]\s*,?\s+)?(?:khoan\s+\d+\s*,?\s+)?dieu\s+\d+.*)$/;
+const EN_TRAILING_PINPOINT = /[\s,;]+((?:(?:point|item)\s+[a-z]\s*,?\s*(?:of\s+)?)?(?:(?:clause|paragraph)\s+\d+\s*,?\s*(?:of\s+)?)?(?:article|art\.?|section|sec\.?|s\.?)\s*\d+.*)$/;
+
+/**
+ * Build the provision_ref used in legal_provisions for an article number.
+ */
+export function articleProvisionRef(article: string): string {
+  return `dieu${article}`;
+}
+
+/**
+ * Render a pinpoint in Vietnamese order: "điểm a khoản 1 Điều 17".
+ */
+export function formatVietnamesePinpoint(parsed: ParsedCitation): string {
+  const parts: string[] = [];
+  if (parsed.point) parts.push(`điểm ${parsed.point}`);
+  if (parsed.clause) parts.push(`khoản ${parsed.clause}`);
+  if (parsed.article) parts.push(`Điều ${parsed.article}`);
+  return parts.join(' ');
+}
+
+/**
+ * Render a pinpoint in English form: "Article 17(1)(a)".
+ */
+export function formatEnglishPinpoint(parsed: ParsedCitation): string {
+  if (!parsed.article) return '';
+  let pin = `Article ${parsed.article}`;
+  if (parsed.clause) pin += `(${parsed.clause})`;
+  if (parsed.point) pin += `(${parsed.point})`;
+  return pin;
+}
+
+/**
+ * Parse a single citation string.
+ * Returns null only for empty input; a string with no recognisable pinpoint
+ * is treated as a plain document reference.
+ */
+export function parseCitation(citation: string): ParsedCitation | null {
+  const original = citation.normalize('NFC').trim();
+  if (!original) return null;
+
+  const folded = foldDiacritics(original).toLowerCase();
+
+  const leading = parsePinpointAt(original, folded);
+  if (leading) return leading;
+
+  // Document first, pinpoint last: "Luật An ninh mạng 2018, Điều 26"
+  for (const pattern of [VI_TRAILING_PINPOINT, EN_TRAILING_PINPOINT]) {
+    const trailing = folded.match(pattern);
+    if (trailing && trailing.index !== undefined && trailing.index > 0) {
+      const pinStart = folded.length - trailing[1].length;
+      const pin = parsePinpointAt(original.slice(pinStart), folded.slice(pinStart));
+      if (pin && !pin.documentRef) {
+        return { ...pin, documentRef: cleanDocumentRef(original.slice(0, trailing.index)) };
+      }
+    }
+  }
+
+  return { documentRef: cleanDocumentRef(original) };
+}
+
+/**
+ * Parse a pinpoint at the start of the string, with an optional trailing
+ * document reference.
+ */
+function parsePinpointAt(original: string, folded: string): ParsedCitation | null {
+  const vi = folded.match(VI_PINPOINT);
+  if (vi) {
+    return withDocument(original, vi[0].length, {
+      article: vi[3],
+      clause: vi[2] ?? vi[4],
+      point: pointLetter(original, folded, vi[1] ?? vi[5], vi[0]),
+    });
+  }
+
+  const en = folded.match(EN_PINPOINT);
+  if (en) {
+    const parens = Array.from(en[4].matchAll(/\(\s*([0-9a-z]+)\s*\)/g), m => m[1]);
+    const clause = en[2] ?? parens.find(p => /^\d+$/.test(p));
+    const point = en[1] ?? parens.find(p => /^[a-z]$/.test(p));
+    return withDocument(original, en[0].length, {
+      article: en[3],
+      clause,
+      point: point ? pointLetter(original, folded, point, en[0]) : undefined,
+    });
+  }
+
+  return null;
+}
+
+function withDocument(original: string, consumed: number, pin: ParsedCitation): ParsedCitation {
+  const rest = cleanDocumentRef(original.slice(consumed));
+  const result: ParsedCitation = { article: pin.article };
+  if (pin.clause) result.clause = pin.clause;
+  if (pin.point) result.point = pin.point;
+  if (rest) result.documentRef = rest;
+  return result;
+}
+
+/**
+ * Recover the original point letter (folding turns "đ" into "d").
+ */
+function pointLetter(original: string, folded: string, letter: string | undefined, matched: string): string | undefined {
+  if (!letter) return undefined;
+  const marker = folded.slice(0, matched.length).match(/(?:diem|point|item)\s+[a-z]\b|\(\s*[a-z]\s*\)/);
+  if (!marker || marker.index === undefined) return letter;
+  const ch = original[marker.index + marker[0].search(/[a-z]\s*\)?$/)];
+  return ch?.toLowerCase() === 'đ' ? 'đ' : letter;
+}
+
+/**
+ * Strip connective words and punctuation around a document reference.
+ */
+export function cleanDocumentRef(ref: string): string {
+  return ref
+    .trim()
+    .replace(/^[,;:]\s*/, '')
+    .replace(/^(?:của|cua|thuộc|thuoc)\s+/i, '')
+    .replace(/^of\s+(?:the\s+)?/i, '')
+    .replace(/[\s,;:.]+$/, '')
+    .trim();
+}
@@ -0,0 +1,90 @@
+/**
+ * References between articles, read from statute text at build time.
+ *
+ * cross_references records each article or clause an article cites, in its
+ * own statute ("Điều 26 của Luật này", "khoản 1 Điều này") or in another
+ * statute in the database ("Luật Doanh nghiệp"). A citation of a whole
+ * statute has no target article.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface CrossReferenceRow {
+  source_document_id: string;
+  source_document_title: string;
+  source_provision_ref: string;
+  source_title: string | null;
+  target_document_id: string;
+  target_document_title: string;
+  target_provision_ref: string | null;
+  target_title: string | null;
+  /** "dieu26.k2" when a clause or point is cited */
+  target_segment_ref: string | null;
+  /** The citation as written in the source article */
+  cited_as: string | null;
+}
+
+const SELECT_REFERENCES = `
+  SELECT x.source_document_id, sd.title AS source_document_title, x.source_provision_ref,
+    sp.title AS source_title, x.target_document_id, td.title AS target_document_title,
+    x.target_provision_ref, tp.title AS target_title, x.target_segment_ref, x.cited_as
+  FROM cross_references x
+  JOIN legal_documents sd ON sd.id = x.source_document_id
+  JOIN legal_documents td ON td.id = x.target_document_id
+  LEFT JOIN legal_provisions sp ON sp.document_id = x.source_document_id AND sp.provision_ref = x.source_provision_ref
+  LEFT JOIN legal_provisions tp ON tp.document_id = x.target_document_id AND tp.provision_ref = x.target_provision_ref
+`;
+
+/**
+ * What an article (or, without provisionRef, a whole statute) cites.
+ * Databases built before cross_references was filled have none.
+ */
+export function referencesFrom(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef?: string,
+): CrossReferenceRow[] {
+  try {
+    return db.prepare(
+      `${SELECT_REFERENCES}
+       WHERE x.source_document_id = ? AND (? IS NULL OR x.source_provision_ref = ?)
+       ORDER BY x.id`
+    ).all(documentId, provisionRef ?? null, provisionRef ?? null) as CrossReferenceRow[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Articles that cite an article, or one of its clauses when segmentRef is
+ * given (a citation of the whole article counts too). Without provisionRef,
+ * the articles of other statutes that cite the statute at all.
+ */
+export function referencesTo(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef?: string,
+  segmentRef?: string | null,
+): CrossReferenceRow[] {
+  try {
+    if (!provisionRef) {
+      return db.prepare(
+        `${SELECT_REFERENCES}
+         WHERE x.target_document_id = ? AND x.source_document_id != x.target_document_id
+         ORDER BY x.source_document_id, x.id`
+      ).all(documentId) as CrossReferenceRow[];
+    }
+    const rows = db.prepare(
+      `${SELECT_REFERENCES}
+       WHERE x.target_document_id = ? AND x.target_provision_ref = ?
+       ORDER BY x.source_document_id, x.id`
+    ).all(documentId, provisionRef) as CrossReferenceRow[];
+    if (!segmentRef) return rows;
+    return rows.filter(r =>
+      !r.target_segment_ref || r.target_segment_ref === segmentRef
+      || r.target_segment_ref.startsWith(`${segmentRef}.`) || segmentRef.startsWith(`${r.target_segment_ref}.`)
+    );
+  } catch {
+    return [];
+  }
+}
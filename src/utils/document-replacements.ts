@@ -0,0 +1,167 @@
+/**
+ * Successor and predecessor laws.
+ *
+ * document_replacements records that one law repealed and replaced another,
+ * from the census and from "... hết hiệu lực" clauses in statute text. The
+ * older law is often not in the database, so both sides carry their number
+ * and title as well as an ID when one is known.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { normalizeOfficialNumber } from './statute-id.js';
+import { normalizeForMatch } from './vietnamese-text.js';
+
+export interface Replacement {
+  /** Census/database ID, when the law is known to the census */
+  document_id: string | null;
+  official_number: string | null;
+  title: string | null;
+  /** Day the newer law took over */
+  effective_date: string | null;
+  source: 'census' | 'text';
+}
+
+interface ReplacementRow {
+  successor_id: string;
+  successor_number: string | null;
+  successor_title: string;
+  predecessor_id: string | null;
+  predecessor_number: string;
+  predecessor_title: string | null;
+  effective_date: string | null;
+  source: 'census' | 'text';
+}
+
+/**
+ * Laws that replaced a document, earliest first. Databases built before the
+ * document_replacements table existed have none.
+ */
+export function replacedBy(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  officialNumber?: string | null,
+): Replacement[] {
+  const normalized = officialNumber ? normalizeOfficialNumber(officialNumber) : null;
+  try {
+    const rows = db.prepare(
+      `SELECT * FROM document_replacements
+       WHERE predecessor_id = ? OR predecessor_number_normalized = ?
+       ORDER BY effective_date, successor_id`
+    ).all(documentId, normalized ?? '') as ReplacementRow[];
+    return dedupe(rows.map(row => ({
+      document_id: row.successor_id,
+      official_number: row.successor_number,
+      title: row.successor_title,
+      effective_date: row.effective_date,
+      source: row.source,
+    })));
+  } catch {
+    return [];
+  }
+}
+
+/** A replaced law known only from its successors' records */
+export interface ReplacedLaw {
+  official_number: string;
+  title: string | null;
+  replaced_by: Replacement[];
+}
+
+/**
+ * A replaced law that is not in the database, found by the number or title
+ * its successors record for it ("51/2005/QH11", "Luật Giao dịch điện tử
+ * 2005"). A title must point at a single law. Null when no replacement
+ * names it.
+ */
+export function findReplacedLaw(db: InstanceType<typeof Database>, reference: string): ReplacedLaw | null {
+  let rows: ReplacementRow[];
+  try {
+    rows = db.prepare(
+      'SELECT * FROM document_replacements ORDER BY effective_date, successor_id'
+    ).all() as ReplacementRow[];
+  } catch {
+    return null;
+  }
+
+  const number = normalizeOfficialNumber(reference);
+  let matches: ReplacementRow[];
+  if (number) {
+    matches = rows.filter(row => normalizeOfficialNumber(row.predecessor_number) === number);
+  } else {
+    const needle = normalizeForMatch(reference.replace(/\s+n[ăa]m\s+(\d{4})\b/giu, ' $1')).trim();
+    if (!needle) return null;
+    matches = rows.filter(row => row.predecessor_title && normalizeForMatch(row.predecessor_title).includes(needle));
+    const numbers = new Set(matches.map(row => normalizeOfficialNumber(row.predecessor_number)));
+    if (numbers.size !== 1) return null;
+  }
+  if (matches.length === 0) return null;
+
+  return {
+    official_number: matches[0].predecessor_number,
+    title: matches.find(row => row.predecessor_title)?.predecessor_title ?? null,
+    replaced_by: dedupe(matches.map(row => ({
+      document_id: row.successor_id,
+      official_number: row.successor_number,
+      title: row.successor_title,
+      effective_date: row.effective_date,
+      source: row.source,
+    }))),
+  };
+}
+
+/**
+ * Laws a document repealed and replaced.
+ */
+export function replaces(db: InstanceType<typeof Database>, documentId: string): Replacement[] {
+  try {
+    const rows = db.prepare(
+      'SELECT * FROM document_replacements WHERE successor_id = ? ORDER BY predecessor_number'
+    ).all(documentId) as ReplacementRow[];
+    return dedupe(rows.map(row => ({
+      document_id: row.predecessor_id,
+      official_number: row.predecessor_number,
+      title: row.predecessor_title,
+      effective_date: row.effective_date,
+      source: row.source,
+    })));
+  } catch {
+    return [];
+  }
+}
+
+function dedupe(replacements: Replacement[]): Replacement[] {
+  const seen = new Set<string>();
+  return replacements.filter(r => {
+    const key = r.document_id ?? r.official_number ?? '';
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Split successors into those that had taken over by an ISO date and those
+ * still to come.
+ */
+export function successorsOn(successors: Replacement[], date: string): { current: Replacement[]; upcoming: Replacement[] } {
+  return {
+    current: successors.filter(s => !s.effective_date || s.effective_date <= date),
+    upcoming: successors.filter(s => s.effective_date && s.effective_date > date),
+  };
+}
+
+/** "Luật Viễn thông 2023 (24/2023/QH15)" */
+export function describeLaw(law: Pick<Replacement, 'title' | 'official_number'> & { document_id?: string | null }): string {
+  if (law.title && law.official_number) return `${law.title} (${law.official_number})`;
+  return law.title ?? law.official_number ?? law.document_id ?? 'an unrecorded law';
+}
+
+/**
+ * "replaced by Luật Viễn thông 2023 (24/2023/QH15) with effect from
+ * 2024-07-01", naming every successor.
+ */
+export function describeSuccessors(successors: Replacement[]): string {
+  return `replaced by ${successors.map(s =>
+    `${describeLaw(s)}${s.effective_date ? ` with effect from ${s.effective_date}` : ''}`
+  ).join(' and ')}`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Structural headings of Vietnamese legislation: Phần (Part) > Chương
+ * (Chapter) > Mục (Section) > Điều (Article).
+ *
+ * Headings are stored as "Chương I. NHỮNG QUY ĐỊNH CHUNG": a label followed by
+ * the heading name when the source gives one. Parts are numbered with
+ * ordinals ("Phần thứ hai"), or "Part Two" in English translations.
+ */
+
+export type HeadingLevel = 'part' | 'chapter' | 'muc';
+
+export interface SplitHeading {
+  label: string;
+  name?: string;
+}
+
+/** Part ordinals, from "nhất"/"One" (1) up */
+const VIETNAMESE_ORDINALS = ['nhất', 'hai', 'ba', 'tư', 'năm', 'sáu', 'bảy', 'tám', 'chín', 'mười'];
+const ENGLISH_ORDINALS = ['One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten'];
+
+const ORDINAL_WORDS = [...VIETNAMESE_ORDINALS, 'bốn'].join('|');
+const ORDINAL = [
+  String.raw`th[ứu]\s*(?:${ORDINAL_WORDS})`,
+  String.raw`TH[ỨU]\s*(?:${ORDINAL_WORDS.toUpperCase()})`,
+  ...ENGLISH_ORDINALS,
+  ...ENGLISH_ORDINALS.map(word => word.toUpperCase()),
+].join('|');
+
+const LABEL_PATTERNS: { level: HeadingLevel; pattern: RegExp }[] = [
+  {
+    level: 'part',
+    pattern: new RegExp(String.raw`^(Ph[aầ]n|PH[AẦ]N|Part|PART)\s*(${ORDINAL}|[IVXLCDM]+|\d+)(?![\p{Ll}\d])`, 'u'),
+  },
+  {
+    level: 'chapter',
+    pattern: /^(Ch[uư][oơ]ng|CH[UƯ][OƠ]NG|Chapter|CHAPTER)\s*([IVXLCDM]+|\d+)(?![\p{L}\d])/u,
+  },
+  {
+    level: 'muc',
+    pattern: /^(M[ụu]c|M[ỤU]C|Section|SECTION)\s*(\d+)(?![\p{L}\d])/u,
+  },
+];
+
+function matchLabel(text: string): { level: HeadingLevel; label: string; rest: string } | undefined {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  for (const { level, pattern } of LABEL_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      return {
+        level,
+        label: `${match[1]} ${match[2].replace(/^(th[ứu]|TH[ỨU])\s*/u, '$1 ')}`,
+        rest: trimmed.slice(match[0].length).replace(/^[\s.:\-–]+/, '').replace(/[\s.:;,]+$/, ''),
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Level of a heading, or undefined if the text does not start with one.
+ */
+export function headingLevel(text: string): HeadingLevel | undefined {
+  return matchLabel(text)?.level;
+}
+
+/**
+ * Normalise a heading to "Chương III" or "Chương III. NAME".
+ *
+ * With requireUppercaseName, a name containing lowercase letters is taken to
+ * be running text ("Chương XIII của Bộ luật này") and null is returned; use
+ * it for text that was not marked up as a heading.
+ */
+export function normalizeHeading(text: string, requireUppercaseName = false): string | null {
+  const match = matchLabel(text);
+  if (!match) return null;
+  if (!match.rest) return match.label;
+  if (requireUppercaseName && match.rest !== match.rest.toUpperCase()) return null;
+  return `${match.label}. ${match.rest.substring(0, 200)}`;
+}
+
+/**
+ * Split a stored heading into its label and name.
+ */
+export function splitHeading(heading: string): SplitHeading {
+  const match = matchLabel(heading);
+  if (!match) return { label: heading };
+  return match.rest ? { label: match.label, name: match.rest } : { label: match.label };
+}
+
+/**
+ * The numeral may be spaced ("Chương XI I I") or glued to the name; see
+ * headingsInText. Upper-case labels must stand as words, as they also occur
+ * inside names ("PARTIES").
+ */
+const RUN_IN_HEADING = new RegExp(
+  String.raw`(Ph[aầ]n|Part|Ch[uư][oơ]ng|Chapter|M[ụu]c|Section`
+  + String.raw`|(?<!\p{L})(?:PH[AẦ]N|PART|CH[UƯ][OƠ]NG|CHAPTER|M[ỤU]C|SECTION)(?=\s))`
+  + String.raw`\s*(${ORDINAL}|[IVX](?: ?[IVX])*|\d{1,2})`
+  + String.raw`(?:\s*[.:]?\s*([\p{Lu}\d][\p{Lu}\d\s,;–-]*?)(?=[\s.]*(?:\p{Lu}\p{Ll}|$))|(?=\.{3}))`,
+  'gu',
+);
+
+const ROMAN_NUMERAL = /^X{0,3}(?:IX|IV|V?I{0,3})$/;
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+function romanValue(numeral: string): number {
+  let value = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const current = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] ?? 0;
+    value += current < next ? -current : current;
+  }
+  return value;
+}
+
+function romanNumeral(value: number): string {
+  const tens = 'X'.repeat(Math.floor(value / 10));
+  return tens + ['', 'I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX'][value % 10];
+}
+
+/**
+ * Number of a heading: 3 for "Chương III", "Mục 3", "Phần thứ ba" and "Part
+ * Three"; undefined when the numeral cannot be read.
+ */
+export function headingNumber(heading: string): number | undefined {
+  const numeral = splitHeading(heading).label.split(' ').slice(1).join(' ');
+  if (/^[IVX]+$/.test(numeral)) return romanValue(numeral);
+  if (/^\d+$/.test(numeral)) return Number.parseInt(numeral, 10);
+  const word = numeral.replace(/^th[ứu]\s*/iu, '').toLowerCase();
+  if (word === 'bốn') return 4;
+  const index = VIETNAMESE_ORDINALS.indexOf(word) + 1 || ENGLISH_ORDINALS.findIndex(w => w.toLowerCase() === word) + 1;
+  return index || undefined;
+}
+
+/**
+ * Label of the heading numbered `number` at a level: "Phần thứ hai",
+ * "Chương II", "Mục 2".
+ */
+export function headingLabel(level: HeadingLevel, number: number): string {
+  switch (level) {
+    case 'part':
+      return number <= VIETNAMESE_ORDINALS.length ? `Phần thứ ${VIETNAMESE_ORDINALS[number - 1]}` : `Phần ${number}`;
+    case 'chapter':
+      return `Chương ${romanNumeral(number)}`;
+    case 'muc':
+      return `Mục ${number}`;
+  }
+}
+
+/**
+ * The Vietnamese label of a heading, so that the headings of a translation
+ * match the original: "Chapter II. GENERAL" -> "Chương II", "Part Two" ->
+ * "Phần thứ hai", "CHƯƠNG III" -> "Chương III".
+ */
+export function vietnameseLabel(heading: string): string {
+  const level = headingLevel(heading);
+  const number = headingNumber(heading);
+  if (!level || !number) return splitHeading(heading).label;
+  return headingLabel(level, number);
+}
+
+/**
+ * The Chương label after `label` ("Chương IX" -> "Chương X"), or before it
+ * with step -1; undefined for non-Roman labels and before "Chương I".
+ */
+export function adjacentChapter(label: string, step: 1 | -1): string | undefined {
+  const [word, numeral] = splitHeading(label).label.split(' ');
+  if (!numeral || !/^[IVX]+$/.test(numeral)) return undefined;
+  const value = romanValue(numeral) + step;
+  if (value < 1) return undefined;
+  return `${word} ${romanNumeral(value)}`;
+}
+
+/** A heading run into text, with the offset it starts at */
+export interface HeadingInText {
+  heading: string;
+  index: number;
+}
+
+/**
+ * Named headings run into article text ("... Điều 13.Chương II.QUYỀN CON
+ * NGƯỜI ...Điều 14"), as scraped seeds keep them at the end of the article
+ * before. Returned normalised, "Chương II. QUYỀN CON NGƯỜI", with their
+ * offsets in the NFC form of the text. English translations give "Chapter
+ * II. HUMAN RIGHTS", "Part One. GENERAL PROVISIONS".
+ *
+ * A name glued to the numeral can start with one ("Chương XXÓA ÁN TÍCH"), so
+ * a chapter numeral is cut back to the one after `previousChapter` ("Chương
+ * IX") when a prefix of it is and the rest starts a word, and otherwise to
+ * its longest valid prefix.
+ */
+export function findHeadings(text: string, previousChapter?: string): HeadingInText[] {
+  const headings: HeadingInText[] = [];
+  let expected = previousChapter ? adjacentChapter(previousChapter, 1)?.split(' ')[1] : undefined;
+  for (const match of text.normalize('NFC').matchAll(RUN_IN_HEADING)) {
+    let numeral = match[2].replace(/ /g, '');
+    // Pages that hide the rest of the text cut the name off ("Chapter III.........")
+    const cutOff = match[3] === undefined;
+    let name = match[3] ?? '';
+    const isChapter = /^ch/i.test(match[1]);
+    if (/^[IVX]+$/.test(numeral)) {
+      let length = numeral.length;
+      // No Vietnamese name starts with I, so "Chương VIĐIỀU" after Chương IV
+      // skips V; English ones can ("ChapterVIIIMPLEMENTATION" after VI)
+      const wordStart = /^chapter$/i.test(match[1]) ? /^[IVX]/ : /^[VX]/;
+      if (isChapter && expected && numeral.startsWith(expected) && wordStart.test(numeral.slice(expected.length))) {
+        length = expected.length;
+      }
+      while (length > 0 && !ROMAN_NUMERAL.test(numeral.slice(0, length))) length--;
+      if (length === 0) continue;
+      name = numeral.slice(length) + name;
+      numeral = numeral.slice(0, length);
+    }
+    name = name.replace(/[\s,;–-]+$/, '').trim();
+    if (!cutOff && !/\p{Lu}{2}/u.test(name)) continue;
+    const heading = normalizeHeading(name ? `${match[1]} ${numeral}. ${name}` : `${match[1]} ${numeral}`, true);
+    if (!heading) continue;
+    headings.push({ heading, index: match.index! });
+    if (isChapter) expected = adjacentChapter(heading, 1)?.split(' ')[1];
+  }
+  return headings;
+}
+
+/**
+ * The headings found by findHeadings, without their offsets.
+ */
+export function headingsInText(text: string, previousChapter?: string): string[] {
+  return findHeadings(text, previousChapter).map(found => found.heading);
+}
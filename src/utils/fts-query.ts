@@ -1,26 +1,63 @@
 /**
- * FTS5 query helpers for Australian Law MCP.
+ * FTS5 query helpers for Vietnamese Law MCP.
  *
  * Handles query sanitization and variant generation for SQLite FTS5.
  */
 
+import { LEGAL_LEXICON } from './legal-lexicon.js';
+import { normalizeForMatch } from './vietnamese-text.js';
+
+/** Lexicon entries, diacritics folded, so unaccented queries segment too. */
+const LEXICON = new Set(LEGAL_LEXICON.map(normalizeForMatch));
+const MAX_WORD_SYLLABLES = Math.max(...LEGAL_LEXICON.map(w => w.split(' ').length));
+
+/**
+ * Group query terms into lexicon words, longest match first, left to right:
+ * ["dữ", "liệu", "cá", "nhân"] -> ["dữ liệu", "cá nhân"]. Terms outside the
+ * lexicon stay on their own. No group is longer than maxSyllables.
+ */
+export function segmentTerms(terms: string[], maxSyllables = MAX_WORD_SYLLABLES): string[] {
+  const folded = terms.map(normalizeForMatch);
+  const groups: string[] = [];
+  let i = 0;
+  while (i < terms.length) {
+    let length = 1;
+    for (let n = Math.min(maxSyllables, terms.length - i); n > 1; n--) {
+      if (LEXICON.has(folded.slice(i, i + n).join(' '))) {
+        length = n;
+        break;
+      }
+    }
+    groups.push(terms.slice(i, i + length).join(' '));
+    i += length;
+  }
+  return groups;
+}
+
+/** FTS5 operators, which only act in upper case */
+const FTS_OPERATORS = new Set(['AND', 'OR', 'NOT', 'NEAR']);
+
 /**
  * Sanitize user input for safe FTS5 queries.
- * Removes characters that have special meaning in FTS5 syntax.
+ * Keeps only what FTS5 accepts in a bare word (letters, digits, "_"), so
+ * "24/2018/QH14" becomes "24 2018 QH14", and drops the operators: queries
+ * are plain words, with phrase and prefix matching tried by the variants.
  */
 export function sanitizeFtsInput(input: string): string {
   return input
-    .replace(/['"(){}[\]^~*:]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+    .replace(/[^\p{L}\p{N}_\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !FTS_OPERATORS.has(word))
+    .join(' ');
 }
 
 /**
  * Build FTS5 query variants for a search term.
  * Returns variants in order of specificity (most specific first):
  * 1. Exact phrase match
- * 2. All terms required (AND)
- * 3. Prefix match on last term
+ * 2. All lexicon words required, each as a phrase ("dữ liệu" AND "cá nhân")
+ * 3. All terms required (AND)
+ * 4. Prefix match on last term
  */
 export function buildFtsQueryVariants(sanitized: string): string[] {
   if (!sanitized || sanitized.trim().length === 0) {
@@ -37,6 +74,15 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
     variants.push(`"${terms.join(' ')}"`);
   }
 
+  // Lexicon words as phrases; a word spanning the whole query is split into
+  // its parts, since the exact phrase above already covers it
+  if (terms.length > 1) {
+    const words = segmentTerms(terms, terms.length - 1);
+    if (words.length < terms.length) {
+      variants.push(words.map(w => (w.includes(' ') ? `"${w}"` : w)).join(' AND '));
+    }
+  }
+
   // AND query
   variants.push(terms.join(' AND '));
 
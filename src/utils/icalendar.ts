@@ -0,0 +1,86 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for all-day events.
+ */
+
+export interface CalendarEvent {
+  /** Stable identifier; the same change keeps the same UID across exports */
+  uid: string;
+  /** ISO date (YYYY-MM-DD) */
+  date: string;
+  summary: string;
+  description?: string;
+  url?: string;
+}
+
+const PRODUCT_ID = '-//Ansvar Systems//Vietnamese Law MCP//EN';
+
+/** Escape TEXT values: backslash, semicolon, comma and line breaks. */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold content lines longer than 75 octets, without splitting a UTF-8 character. */
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function basicDate(iso: string): string {
+  return iso.replace(/-/g, '');
+}
+
+function nextDay(iso: string): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Render events as an iCalendar file (CRLF line endings).
+ */
+export function toICalendar(events: CalendarEvent[], calendarName: string): string {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${basicDate(event.date)}`,
+      `DTEND;VALUE=DATE:${basicDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,310 @@
+/**
+ * English–Vietnamese legal glossary for cross-lingual search.
+ *
+ * English keys are lowercase and singular; the first Vietnamese rendering is
+ * the usual statutory term, later ones are common alternatives.
+ */
+
+export interface GlossaryEntry {
+  en: string;
+  vi: readonly string[];
+}
+
+export const LEGAL_GLOSSARY: readonly GlossaryEntry[] = [
+  // Instruments and drafting
+  { en: 'constitution', vi: ['hiến pháp'] },
+  { en: 'law', vi: ['luật'] },
+  { en: 'code', vi: ['bộ luật'] },
+  { en: 'penal code', vi: ['bộ luật hình sự'] },
+  { en: 'criminal code', vi: ['bộ luật hình sự'] },
+  { en: 'civil code', vi: ['bộ luật dân sự'] },
+  { en: 'labour code', vi: ['bộ luật lao động'] },
+  { en: 'labor code', vi: ['bộ luật lao động'] },
+  { en: 'decree', vi: ['nghị định'] },
+  { en: 'circular', vi: ['thông tư'] },
+  { en: 'resolution', vi: ['nghị quyết'] },
+  { en: 'ordinance', vi: ['pháp lệnh'] },
+  { en: 'decision', vi: ['quyết định'] },
+  { en: 'international treaty', vi: ['điều ước quốc tế'] },
+  { en: 'treaty', vi: ['điều ước quốc tế'] },
+  { en: 'definition', vi: ['giải thích từ ngữ'] },
+  { en: 'scope', vi: ['phạm vi điều chỉnh'] },
+  { en: 'scope of regulation', vi: ['phạm vi điều chỉnh'] },
+  { en: 'subject of application', vi: ['đối tượng áp dụng'] },
+  { en: 'entry into force', vi: ['hiệu lực thi hành', 'có hiệu lực'] },
+  { en: 'effect', vi: ['hiệu lực'] },
+  { en: 'transitional provision', vi: ['quy định chuyển tiếp', 'điều khoản chuyển tiếp'] },
+  { en: 'amendment', vi: ['sửa đổi bổ sung', 'sửa đổi'] },
+  { en: 'repeal', vi: ['bãi bỏ', 'hết hiệu lực'] },
+  { en: 'principle', vi: ['nguyên tắc'] },
+  { en: 'prohibited act', vi: ['hành vi bị nghiêm cấm'] },
+
+  // State bodies
+  { en: 'state', vi: ['nhà nước'] },
+  { en: 'state agency', vi: ['cơ quan nhà nước'] },
+  { en: 'state management', vi: ['quản lý nhà nước'] },
+  { en: 'state secret', vi: ['bí mật nhà nước'] },
+  { en: 'national assembly', vi: ['quốc hội'] },
+  { en: 'government', vi: ['chính phủ'] },
+  { en: 'prime minister', vi: ['thủ tướng chính phủ'] },
+  { en: 'ministry of public security', vi: ['bộ công an'] },
+  { en: 'ministry of national defence', vi: ['bộ quốc phòng'] },
+  { en: 'ministry of information and communications', vi: ['bộ thông tin và truyền thông'] },
+  { en: 'people\'s committee', vi: ['ủy ban nhân dân'] },
+  { en: 'people\'s council', vi: ['hội đồng nhân dân'] },
+  { en: 'court', vi: ['tòa án'] },
+  { en: 'procuracy', vi: ['viện kiểm sát'] },
+  { en: 'competent authority', vi: ['cơ quan có thẩm quyền'] },
+  { en: 'authority', vi: ['cơ quan', 'thẩm quyền'] },
+  { en: 'specialized force', vi: ['lực lượng chuyên trách'] },
+  { en: 'official', vi: ['công chức', 'cán bộ'] },
+
+  // Persons and organisations
+  { en: 'individual', vi: ['cá nhân'] },
+  { en: 'organization', vi: ['tổ chức'] },
+  { en: 'organisation', vi: ['tổ chức'] },
+  { en: 'citizen', vi: ['công dân'] },
+  { en: 'foreigner', vi: ['người nước ngoài'] },
+  { en: 'legal entity', vi: ['pháp nhân'] },
+  { en: 'enterprise', vi: ['doanh nghiệp'] },
+  { en: 'company', vi: ['công ty'] },
+  { en: 'business', vi: ['doanh nghiệp', 'kinh doanh'] },
+  { en: 'joint stock company', vi: ['công ty cổ phần'] },
+  { en: 'limited liability company', vi: ['công ty trách nhiệm hữu hạn'] },
+  { en: 'partnership', vi: ['công ty hợp danh'] },
+  { en: 'private enterprise', vi: ['doanh nghiệp tư nhân'] },
+  { en: 'state-owned enterprise', vi: ['doanh nghiệp nhà nước'] },
+  { en: 'branch', vi: ['chi nhánh'] },
+  { en: 'representative office', vi: ['văn phòng đại diện'] },
+  { en: 'legal representative', vi: ['người đại diện theo pháp luật'] },
+  { en: 'shareholder', vi: ['cổ đông'] },
+  { en: 'share', vi: ['cổ phần'] },
+  { en: 'charter capital', vi: ['vốn điều lệ'] },
+  { en: 'board of directors', vi: ['hội đồng quản trị'] },
+  { en: 'members\' council', vi: ['hội đồng thành viên'] },
+  { en: 'general meeting of shareholders', vi: ['đại hội đồng cổ đông'] },
+  { en: 'director', vi: ['giám đốc'] },
+  { en: 'owner', vi: ['chủ sở hữu'] },
+  { en: 'employee', vi: ['người lao động'] },
+  { en: 'employer', vi: ['người sử dụng lao động'] },
+  { en: 'consumer', vi: ['người tiêu dùng'] },
+  { en: 'third party', vi: ['bên thứ ba'] },
+  { en: 'data subject', vi: ['chủ thể dữ liệu'] },
+  { en: 'minor', vi: ['người chưa thành niên'] },
+  { en: 'child', vi: ['trẻ em'] },
+  { en: 'investor', vi: ['nhà đầu tư'] },
+  { en: 'service provider', vi: ['nhà cung cấp dịch vụ', 'doanh nghiệp cung cấp dịch vụ'] },
+  { en: 'trader', vi: ['thương nhân'] },
+
+  // Rights and obligations
+  { en: 'right', vi: ['quyền'] },
+  { en: 'obligation', vi: ['nghĩa vụ'] },
+  { en: 'duty', vi: ['nghĩa vụ', 'trách nhiệm'] },
+  { en: 'responsibility', vi: ['trách nhiệm'] },
+  { en: 'human right', vi: ['quyền con người'] },
+  { en: 'lawful rights and interests', vi: ['quyền và lợi ích hợp pháp'] },
+  { en: 'legitimate interest', vi: ['lợi ích hợp pháp'] },
+  { en: 'privacy', vi: ['bí mật cá nhân', 'quyền riêng tư', 'đời sống riêng tư'] },
+  { en: 'private life', vi: ['đời sống riêng tư'] },
+  { en: 'freedom of speech', vi: ['tự do ngôn luận'] },
+  { en: 'freedom of business', vi: ['tự do kinh doanh'] },
+  { en: 'equality', vi: ['bình đẳng'] },
+  { en: 'ownership', vi: ['quyền sở hữu', 'sở hữu'] },
+  { en: 'property', vi: ['tài sản'] },
+  { en: 'intellectual property', vi: ['sở hữu trí tuệ'] },
+  { en: 'copyright', vi: ['quyền tác giả'] },
+  { en: 'contract', vi: ['hợp đồng'] },
+  { en: 'transaction', vi: ['giao dịch'] },
+  { en: 'compensation', vi: ['bồi thường thiệt hại', 'bồi thường'] },
+  { en: 'damage', vi: ['thiệt hại'] },
+  { en: 'complaint', vi: ['khiếu nại'] },
+  { en: 'denunciation', vi: ['tố cáo'] },
+  { en: 'dispute', vi: ['tranh chấp'] },
+  { en: 'dispute resolution', vi: ['giải quyết tranh chấp'] },
+  { en: 'arbitration', vi: ['trọng tài'] },
+  { en: 'mediation', vi: ['hòa giải'] },
+  { en: 'consent', vi: ['đồng ý', 'sự đồng ý'] },
+
+  // Offences and penalties
+  { en: 'crime', vi: ['tội phạm'] },
+  { en: 'offence', vi: ['tội phạm', 'hành vi vi phạm'] },
+  { en: 'offense', vi: ['tội phạm', 'hành vi vi phạm'] },
+  { en: 'penalty', vi: ['hình phạt', 'xử phạt'] },
+  { en: 'sanction', vi: ['xử phạt', 'chế tài'] },
+  { en: 'fine', vi: ['phạt tiền'] },
+  { en: 'imprisonment', vi: ['phạt tù', 'tù có thời hạn'] },
+  { en: 'life imprisonment', vi: ['tù chung thân'] },
+  { en: 'death penalty', vi: ['tử hình'] },
+  { en: 'criminal liability', vi: ['trách nhiệm hình sự'] },
+  { en: 'criminal responsibility', vi: ['trách nhiệm hình sự'] },
+  { en: 'civil liability', vi: ['trách nhiệm dân sự'] },
+  { en: 'administrative violation', vi: ['vi phạm hành chính'] },
+  { en: 'administrative penalty', vi: ['xử phạt vi phạm hành chính'] },
+  { en: 'violation', vi: ['vi phạm', 'hành vi vi phạm'] },
+  { en: 'breach', vi: ['vi phạm'] },
+  { en: 'confiscation', vi: ['tịch thu'] },
+  { en: 'warning', vi: ['cảnh cáo'] },
+  { en: 'remedial measure', vi: ['biện pháp khắc phục hậu quả'] },
+  { en: 'aggravating circumstance', vi: ['tình tiết tăng nặng'] },
+  { en: 'mitigating circumstance', vi: ['tình tiết giảm nhẹ'] },
+  { en: 'fraud', vi: ['lừa đảo'] },
+  { en: 'appropriation', vi: ['chiếm đoạt tài sản'] },
+  { en: 'corruption', vi: ['tham nhũng'] },
+  { en: 'bribery', vi: ['hối lộ'] },
+  { en: 'money laundering', vi: ['rửa tiền'] },
+  { en: 'tax evasion', vi: ['trốn thuế'] },
+  { en: 'smuggling', vi: ['buôn lậu'] },
+  { en: 'drug', vi: ['ma túy', 'chất ma túy'] },
+  { en: 'terrorism', vi: ['khủng bố'] },
+  { en: 'espionage', vi: ['gián điệp'] },
+
+  // Security and technology
+  { en: 'national security', vi: ['an ninh quốc gia'] },
+  { en: 'security', vi: ['an ninh', 'an toàn'] },
+  { en: 'public order', vi: ['trật tự an toàn xã hội', 'trật tự công cộng'] },
+  { en: 'cybersecurity', vi: ['an ninh mạng'] },
+  { en: 'cyber security', vi: ['an ninh mạng'] },
+  { en: 'cybersecurity protection', vi: ['bảo vệ an ninh mạng'] },
+  { en: 'information security', vi: ['an toàn thông tin', 'an toàn thông tin mạng'] },
+  { en: 'network information security', vi: ['an toàn thông tin mạng'] },
+  { en: 'cyberspace', vi: ['không gian mạng'] },
+  { en: 'national cyberspace', vi: ['không gian mạng quốc gia'] },
+  { en: 'cyberattack', vi: ['tấn công mạng'] },
+  { en: 'cyber attack', vi: ['tấn công mạng'] },
+  { en: 'cyberterrorism', vi: ['khủng bố mạng'] },
+  { en: 'cyber espionage', vi: ['gián điệp mạng'] },
+  { en: 'cybercrime', vi: ['tội phạm mạng'] },
+  { en: 'cybersecurity incident', vi: ['sự cố an ninh mạng'] },
+  { en: 'incident response', vi: ['ứng cứu sự cố'] },
+  { en: 'information system', vi: ['hệ thống thông tin'] },
+  { en: 'critical information system', vi: ['hệ thống thông tin quan trọng về an ninh quốc gia'] },
+  { en: 'critical infrastructure', vi: ['hệ thống thông tin quan trọng về an ninh quốc gia', 'cơ sở hạ tầng'] },
+  { en: 'infrastructure', vi: ['cơ sở hạ tầng'] },
+  { en: 'information infrastructure', vi: ['cơ sở hạ tầng thông tin'] },
+  { en: 'database', vi: ['cơ sở dữ liệu'] },
+  { en: 'data', vi: ['dữ liệu'] },
+  { en: 'information', vi: ['thông tin'] },
+  { en: 'personal data', vi: ['dữ liệu cá nhân', 'thông tin cá nhân'] },
+  { en: 'personal information', vi: ['thông tin cá nhân', 'dữ liệu cá nhân'] },
+  { en: 'sensitive personal data', vi: ['dữ liệu cá nhân nhạy cảm'] },
+  { en: 'basic personal data', vi: ['dữ liệu cá nhân cơ bản'] },
+  { en: 'personal data protection', vi: ['bảo vệ dữ liệu cá nhân'] },
+  { en: 'data protection', vi: ['bảo vệ dữ liệu cá nhân', 'bảo vệ dữ liệu'] },
+  { en: 'data processing', vi: ['xử lý dữ liệu cá nhân', 'xử lý dữ liệu'] },
+  { en: 'processing', vi: ['xử lý'] },
+  { en: 'data controller', vi: ['bên kiểm soát dữ liệu cá nhân', 'bên kiểm soát dữ liệu'] },
+  { en: 'controller', vi: ['bên kiểm soát dữ liệu'] },
+  { en: 'data processor', vi: ['bên xử lý dữ liệu cá nhân', 'bên xử lý dữ liệu'] },
+  { en: 'processor', vi: ['bên xử lý dữ liệu'] },
+  { en: 'data breach', vi: ['vi phạm quy định bảo vệ dữ liệu cá nhân', 'lộ lọt dữ liệu'] },
+  { en: 'data localization', vi: ['lưu trữ dữ liệu tại Việt Nam', 'lưu trữ dữ liệu'] },
+  { en: 'data localisation', vi: ['lưu trữ dữ liệu tại Việt Nam', 'lưu trữ dữ liệu'] },
+  { en: 'data storage', vi: ['lưu trữ dữ liệu'] },
+  { en: 'storage', vi: ['lưu trữ'] },
+  { en: 'cross-border data transfer', vi: ['chuyển dữ liệu cá nhân ra nước ngoài', 'chuyển dữ liệu ra nước ngoài'] },
+  { en: 'cross-border transfer', vi: ['chuyển dữ liệu ra nước ngoài'] },
+  { en: 'data transfer', vi: ['chuyển dữ liệu'] },
+  { en: 'collection', vi: ['thu thập'] },
+  { en: 'disclosure', vi: ['tiết lộ', 'công khai'] },
+  { en: 'information technology', vi: ['công nghệ thông tin'] },
+  { en: 'software', vi: ['phần mềm'] },
+  { en: 'hardware', vi: ['phần cứng'] },
+  { en: 'source code', vi: ['mã nguồn'] },
+  { en: 'malware', vi: ['mã độc', 'phần mềm độc hại'] },
+  { en: 'computer virus', vi: ['vi rút máy tính'] },
+  { en: 'spam', vi: ['thư rác'] },
+  { en: 'website', vi: ['trang thông tin điện tử'] },
+  { en: 'digital account', vi: ['tài khoản số'] },
+  { en: 'digital signature', vi: ['chữ ký số'] },
+  { en: 'electronic signature', vi: ['chữ ký điện tử'] },
+  { en: 'digital certificate', vi: ['chứng thư số'] },
+  { en: 'electronic transaction', vi: ['giao dịch điện tử'] },
+  { en: 'data message', vi: ['thông điệp dữ liệu'] },
+  { en: 'electronic document', vi: ['chứng từ điện tử', 'văn bản điện tử'] },
+  { en: 'electronic contract', vi: ['hợp đồng điện tử'] },
+  { en: 'e-commerce', vi: ['thương mại điện tử'] },
+  { en: 'electronic commerce', vi: ['thương mại điện tử'] },
+  { en: 'telecommunications', vi: ['viễn thông'] },
+  { en: 'telecommunications service', vi: ['dịch vụ viễn thông'] },
+  { en: 'internet', vi: ['internet'] },
+  { en: 'social network', vi: ['mạng xã hội'] },
+  { en: 'domain name', vi: ['tên miền'] },
+  { en: 'cloud computing', vi: ['điện toán đám mây'] },
+  { en: 'digital transformation', vi: ['chuyển đổi số'] },
+  { en: 'e-government', vi: ['chính phủ điện tử'] },
+  { en: 'electronic identification', vi: ['định danh điện tử'] },
+  { en: 'authentication', vi: ['xác thực'] },
+
+  // Economy and competition
+  { en: 'competition', vi: ['cạnh tranh'] },
+  { en: 'unfair competition', vi: ['cạnh tranh không lành mạnh'] },
+  { en: 'anti-competitive agreement', vi: ['thỏa thuận hạn chế cạnh tranh'] },
+  { en: 'dominant position', vi: ['vị trí thống lĩnh thị trường'] },
+  { en: 'abuse of dominant position', vi: ['lạm dụng vị trí thống lĩnh thị trường'] },
+  { en: 'monopoly', vi: ['vị trí độc quyền'] },
+  { en: 'economic concentration', vi: ['tập trung kinh tế'] },
+  { en: 'merger', vi: ['sáp nhập', 'hợp nhất'] },
+  { en: 'acquisition', vi: ['mua lại'] },
+  { en: 'joint venture', vi: ['liên doanh'] },
+  { en: 'consumer protection', vi: ['bảo vệ quyền lợi người tiêu dùng'] },
+  { en: 'goods', vi: ['hàng hóa'] },
+  { en: 'service', vi: ['dịch vụ'] },
+  { en: 'product', vi: ['sản phẩm'] },
+  { en: 'market', vi: ['thị trường'] },
+  { en: 'business registration', vi: ['đăng ký doanh nghiệp', 'đăng ký kinh doanh'] },
+  { en: 'enterprise registration', vi: ['đăng ký doanh nghiệp'] },
+  { en: 'license', vi: ['giấy phép'] },
+  { en: 'licence', vi: ['giấy phép'] },
+  { en: 'certificate', vi: ['giấy chứng nhận'] },
+  { en: 'tax', vi: ['thuế'] },
+  { en: 'fee', vi: ['phí', 'lệ phí'] },
+  { en: 'investment', vi: ['đầu tư'] },
+  { en: 'foreign investment', vi: ['đầu tư nước ngoài'] },
+  { en: 'bank', vi: ['ngân hàng'] },
+  { en: 'insurance', vi: ['bảo hiểm'] },
+  { en: 'securities', vi: ['chứng khoán'] },
+  { en: 'advertising', vi: ['quảng cáo'] },
+
+  // Society, land and procedure
+  { en: 'land', vi: ['đất đai'] },
+  { en: 'environment', vi: ['môi trường'] },
+  { en: 'environmental protection', vi: ['bảo vệ môi trường'] },
+  { en: 'natural resource', vi: ['tài nguyên thiên nhiên'] },
+  { en: 'sovereignty', vi: ['chủ quyền'] },
+  { en: 'territory', vi: ['lãnh thổ'] },
+  { en: 'education', vi: ['giáo dục'] },
+  { en: 'health', vi: ['y tế', 'sức khỏe'] },
+  { en: 'religion', vi: ['tôn giáo'] },
+  { en: 'family', vi: ['gia đình'] },
+  { en: 'marriage', vi: ['hôn nhân'] },
+  { en: 'labour', vi: ['lao động'] },
+  { en: 'labor', vi: ['lao động'] },
+  { en: 'employment', vi: ['việc làm', 'lao động'] },
+  { en: 'salary', vi: ['tiền lương'] },
+  { en: 'wage', vi: ['tiền lương'] },
+  { en: 'social insurance', vi: ['bảo hiểm xã hội'] },
+  { en: 'procedure', vi: ['thủ tục'] },
+  { en: 'administrative procedure', vi: ['thủ tục hành chính'] },
+  { en: 'dossier', vi: ['hồ sơ'] },
+  { en: 'time limit', vi: ['thời hạn'] },
+  { en: 'statute of limitations', vi: ['thời hiệu'] },
+  { en: 'inspection', vi: ['thanh tra', 'kiểm tra'] },
+  { en: 'supervision', vi: ['giám sát'] },
+  { en: 'monitoring', vi: ['giám sát'] },
+  { en: 'investigation', vi: ['điều tra'] },
+  { en: 'prosecution', vi: ['truy tố'] },
+  { en: 'trial', vi: ['xét xử'] },
+  { en: 'judgment', vi: ['bản án'] },
+  { en: 'evidence', vi: ['chứng cứ'] },
+  { en: 'enforcement', vi: ['thi hành'] },
+  { en: 'management', vi: ['quản lý'] },
+  { en: 'protection', vi: ['bảo vệ'] },
+  { en: 'prevention', vi: ['phòng ngừa'] },
+  { en: 'report', vi: ['báo cáo'] },
+  { en: 'notification', vi: ['thông báo'] },
+  { en: 'assessment', vi: ['đánh giá'] },
+  { en: 'impact assessment', vi: ['đánh giá tác động'] },
+  { en: 'standard', vi: ['tiêu chuẩn'] },
+  { en: 'technical regulation', vi: ['quy chuẩn kỹ thuật'] },
+  { en: 'foreign', vi: ['nước ngoài'] },
+];
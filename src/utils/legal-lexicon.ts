@@ -0,0 +1,107 @@
+/**
+ * Vietnamese legal lexicon for query segmentation.
+ *
+ * Vietnamese writes one syllable per word, so "dữ liệu cá nhân" is four
+ * tokens to FTS5 but two words ("dữ liệu", "cá nhân") to a reader. These are
+ * the multi-syllable words and fixed phrases of Vietnamese legislation that
+ * search queries are grouped into. Longer phrases are listed alongside their
+ * parts; segmentation prefers the longest match.
+ */
+
+export const LEGAL_LEXICON: readonly string[] = [
+  // Legal instruments and drafting
+  'hiến pháp', 'bộ luật', 'pháp lệnh', 'nghị quyết', 'nghị định', 'thông tư', 'quyết định',
+  'văn bản quy phạm pháp luật', 'văn bản pháp luật', 'văn bản hợp nhất', 'quy phạm pháp luật',
+  'điều ước quốc tế', 'thỏa thuận quốc tế', 'hiệp định', 'công ước',
+  'quy định', 'quy định chi tiết', 'hướng dẫn thi hành', 'hiệu lực thi hành', 'hiệu lực',
+  'điều khoản chuyển tiếp', 'quy định chuyển tiếp', 'phạm vi điều chỉnh', 'đối tượng áp dụng',
+  'giải thích từ ngữ', 'nguyên tắc', 'sửa đổi', 'bổ sung', 'sửa đổi bổ sung', 'bãi bỏ', 'thay thế',
+  'hết hiệu lực', 'ban hành', 'có hiệu lực',
+
+  // State bodies and officials
+  'nhà nước', 'cơ quan nhà nước', 'quản lý nhà nước', 'bí mật nhà nước', 'ngân sách nhà nước',
+  'quốc hội', 'ủy ban thường vụ quốc hội', 'chủ tịch nước', 'chính phủ', 'thủ tướng',
+  'thủ tướng chính phủ', 'bộ trưởng', 'bộ công an', 'bộ quốc phòng', 'bộ thông tin và truyền thông',
+  'bộ tư pháp', 'bộ tài chính', 'bộ công thương', 'ủy ban nhân dân', 'hội đồng nhân dân',
+  'tòa án', 'tòa án nhân dân', 'viện kiểm sát', 'viện kiểm sát nhân dân', 'cơ quan điều tra',
+  'cơ quan có thẩm quyền', 'cơ quan chức năng', 'cơ quan chuyên trách', 'lực lượng chuyên trách',
+  'chính quyền địa phương', 'đơn vị hành chính', 'cán bộ', 'công chức', 'viên chức',
+  'người có thẩm quyền', 'thẩm quyền', 'trách nhiệm', 'nhiệm vụ', 'quyền hạn',
+
+  // Persons and organisations
+  'cá nhân', 'tổ chức', 'tổ chức cá nhân', 'pháp nhân', 'pháp nhân thương mại', 'công dân',
+  'người nước ngoài', 'tổ chức nước ngoài', 'doanh nghiệp', 'doanh nghiệp nhà nước',
+  'doanh nghiệp tư nhân', 'công ty', 'công ty cổ phần', 'công ty trách nhiệm hữu hạn',
+  'công ty hợp danh', 'nhóm công ty', 'công ty mẹ', 'công ty con', 'chi nhánh', 'văn phòng đại diện',
+  'người đại diện', 'người đại diện theo pháp luật', 'người đại diện theo ủy quyền',
+  'thành viên', 'cổ đông', 'cổ phần', 'cổ phiếu', 'vốn điều lệ', 'vốn góp', 'góp vốn',
+  'hội đồng quản trị', 'hội đồng thành viên', 'đại hội đồng cổ đông', 'ban kiểm soát',
+  'giám đốc', 'tổng giám đốc', 'chủ sở hữu', 'người lao động', 'người sử dụng lao động',
+  'người tiêu dùng', 'bên thứ ba', 'chủ thể dữ liệu', 'người chưa thành niên', 'người thân thích',
+
+  // Rights and obligations
+  'nghĩa vụ', 'quyền con người', 'quyền công dân', 'quyền và nghĩa vụ',
+  'quyền lợi', 'lợi ích hợp pháp', 'quyền và lợi ích hợp pháp', 'quyền riêng tư', 'bí mật cá nhân',
+  'bí mật gia đình', 'đời sống riêng tư', 'tự do ngôn luận', 'tự do kinh doanh', 'bình đẳng',
+  'sở hữu', 'quyền sở hữu', 'sở hữu trí tuệ', 'quyền tác giả', 'bản quyền', 'tài sản',
+  'hợp đồng', 'giao dịch', 'giao dịch dân sự', 'bồi thường', 'bồi thường thiệt hại', 'thiệt hại',
+  'khiếu nại', 'tố cáo', 'khởi kiện', 'tranh chấp', 'giải quyết tranh chấp', 'trọng tài', 'hòa giải',
+
+  // Offences, liability and penalties
+  'tội phạm', 'hình phạt', 'trách nhiệm hình sự', 'truy cứu trách nhiệm hình sự', 'trách nhiệm dân sự',
+  'xử lý vi phạm', 'vi phạm hành chính', 'xử phạt vi phạm hành chính', 'xử phạt', 'xử lý kỷ luật',
+  'phạt tiền', 'phạt tù', 'tù có thời hạn', 'tù chung thân', 'tử hình', 'cải tạo không giam giữ',
+  'cảnh cáo', 'tịch thu', 'biện pháp khắc phục hậu quả', 'hình phạt bổ sung', 'hình phạt chính',
+  'án treo', 'tiền án', 'tái phạm', 'tái phạm nguy hiểm', 'đồng phạm', 'chuẩn bị phạm tội',
+  'phạm tội', 'người phạm tội', 'tình tiết tăng nặng', 'tình tiết giảm nhẹ', 'vô ý', 'cố ý',
+  'hành vi bị nghiêm cấm', 'hành vi vi phạm', 'vi phạm pháp luật', 'lừa đảo', 'chiếm đoạt tài sản',
+  'tham nhũng', 'nhận hối lộ', 'đưa hối lộ', 'rửa tiền', 'trốn thuế', 'buôn lậu', 'ma túy',
+  'chất ma túy', 'khủng bố', 'gián điệp', 'phản bội tổ quốc',
+
+  // Security and information technology
+  'an ninh', 'an ninh quốc gia', 'an ninh mạng', 'an toàn', 'an toàn thông tin', 'an toàn thông tin mạng',
+  'trật tự an toàn xã hội', 'trật tự công cộng', 'quốc phòng', 'bảo vệ an ninh mạng',
+  'không gian mạng', 'không gian mạng quốc gia', 'mạng máy tính', 'mạng viễn thông', 'mạng internet',
+  'hệ thống thông tin', 'hệ thống thông tin quan trọng về an ninh quốc gia', 'cơ sở hạ tầng',
+  'cơ sở hạ tầng thông tin', 'cơ sở dữ liệu', 'dữ liệu', 'thông tin', 'thông tin số', 'thông tin cá nhân',
+  'dữ liệu cá nhân', 'dữ liệu cá nhân cơ bản', 'dữ liệu cá nhân nhạy cảm', 'bảo vệ dữ liệu cá nhân',
+  'xử lý dữ liệu', 'xử lý dữ liệu cá nhân', 'bên kiểm soát dữ liệu', 'bên xử lý dữ liệu',
+  'bên kiểm soát và xử lý dữ liệu', 'chuyển dữ liệu ra nước ngoài', 'lưu trữ dữ liệu', 'lưu trữ',
+  'công nghệ thông tin', 'ứng dụng công nghệ thông tin', 'công nghiệp công nghệ thông tin',
+  'phần mềm', 'phần cứng', 'mã nguồn', 'mã độc', 'vi rút máy tính', 'thư rác', 'trang thông tin điện tử',
+  'tấn công mạng', 'khủng bố mạng', 'gián điệp mạng', 'tội phạm mạng', 'sự cố an ninh mạng',
+  'nguy cơ đe dọa an ninh mạng', 'tình huống nguy hiểm về an ninh mạng', 'ứng cứu sự cố',
+  'tài khoản số', 'chữ ký số', 'chữ ký điện tử', 'chứng thư số', 'giao dịch điện tử', 'thông điệp dữ liệu',
+  'chứng từ điện tử', 'hợp đồng điện tử', 'thương mại điện tử', 'dịch vụ viễn thông', 'viễn thông',
+  'nhà cung cấp dịch vụ', 'dịch vụ trực tuyến', 'mạng xã hội', 'tên miền', 'điện toán đám mây',
+  'chuyển đổi số', 'chính phủ điện tử', 'định danh điện tử', 'xác thực điện tử',
+
+  // Economy, consumers and competition
+  'kinh tế', 'nền kinh tế', 'kinh tế thị trường', 'thị trường', 'cạnh tranh', 'cạnh tranh không lành mạnh',
+  'hạn chế cạnh tranh', 'thỏa thuận hạn chế cạnh tranh', 'vị trí thống lĩnh thị trường',
+  'vị trí độc quyền', 'lạm dụng vị trí thống lĩnh', 'tập trung kinh tế', 'sáp nhập', 'hợp nhất',
+  'mua lại', 'liên doanh', 'bảo vệ quyền lợi người tiêu dùng', 'hàng hóa', 'dịch vụ', 'sản phẩm',
+  'thương nhân', 'kinh doanh', 'hoạt động kinh doanh', 'ngành nghề kinh doanh', 'đăng ký kinh doanh',
+  'đăng ký doanh nghiệp', 'giấy chứng nhận', 'giấy phép', 'cấp phép', 'lệ phí',
+  'đầu tư', 'nhà đầu tư', 'đầu tư nước ngoài', 'ngân hàng', 'tín dụng', 'bảo hiểm', 'chứng khoán',
+
+  // Land, society and the constitution
+  'đất đai', 'tài nguyên', 'môi trường', 'bảo vệ môi trường', 'tài nguyên thiên nhiên', 'quốc gia',
+  'tổ quốc', 'chủ quyền', 'lãnh thổ', 'độc lập', 'nhân dân', 'dân tộc', 'xã hội', 'xã hội chủ nghĩa',
+  'giáo dục', 'y tế', 'văn hóa', 'tôn giáo', 'tín ngưỡng', 'gia đình', 'hôn nhân', 'trẻ em',
+  'lao động', 'việc làm', 'tiền lương', 'bảo hiểm xã hội', 'an sinh xã hội',
+
+  // Common legal vocabulary
+  'quản lý', 'bảo vệ', 'bảo đảm', 'xử lý', 'cung cấp', 'sử dụng', 'hoạt động', 'thu thập', 'chia sẻ',
+  'công khai', 'vi phạm', 'phòng ngừa', 'ngăn chặn', 'phát hiện', 'phát triển', 'đăng ký', 'chấm dứt',
+  'đình chỉ', 'tạm đình chỉ', 'thu hồi', 'thông báo', 'đồng ý', 'cho phép', 'yêu cầu', 'điều kiện',
+  'biện pháp', 'chính sách', 'mục đích', 'nội dung', 'hành vi', 'tài liệu', 'nước ngoài', 'trong nước',
+  'quốc tế', 'công nghệ', 'kỹ thuật', 'điện tử', 'trực tuyến', 'máy tính', 'hợp pháp', 'bất hợp pháp',
+  'trái phép', 'nghiêm cấm', 'hợp tác', 'phối hợp', 'báo cáo', 'đánh giá', 'chứng nhận', 'tiêu chuẩn',
+  'quy chuẩn', 'quy chuẩn kỹ thuật', 'tiêu chuẩn kỹ thuật', 'bí mật', 'riêng tư', 'nhạy cảm',
+
+  // Procedure
+  'thủ tục', 'thủ tục hành chính', 'hồ sơ', 'thời hạn', 'thời hiệu', 'kiểm tra', 'thanh tra',
+  'giám sát', 'điều tra', 'truy tố', 'xét xử', 'thi hành án', 'bản án', 'quyết định hành chính',
+  'chứng cứ', 'tố tụng', 'tố tụng hình sự', 'tố tụng dân sự', 'tố tụng hành chính',
+];
@@ -0,0 +1,87 @@
+/**
+ * Paging through long provisions.
+ *
+ * Long articles (definition lists, penalty tables) are returned in ordered
+ * chunks. Chunks end at a line break, clause or sentence boundary where one
+ * falls in the second half of the window, so a clause is rarely split.
+ * Continuation tokens are opaque to clients: base64url-encoded JSON naming
+ * the document, provision, chunk size and next chunk.
+ */
+
+export const DEFAULT_CHUNK_CHARS = 8000;
+export const MIN_CHUNK_CHARS = 1000;
+export const MAX_CHUNK_CHARS = 50000;
+
+export interface ContinuationToken {
+  document_id: string;
+  provision_ref: string;
+  chunk: number;
+  max_chars: number;
+  /** The as_of_date the provision version was chosen for */
+  as_of_date?: string;
+}
+
+/**
+ * Clamp a requested chunk size to the supported range.
+ */
+export function chunkSize(requested?: number): number {
+  if (!requested || !Number.isFinite(requested)) return DEFAULT_CHUNK_CHARS;
+  return Math.min(Math.max(Math.floor(requested), MIN_CHUNK_CHARS), MAX_CHUNK_CHARS);
+}
+
+/**
+ * Split text into chunks of at most maxChars characters.
+ */
+export function chunkText(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (text.length - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    const minBreak = Math.floor(maxChars / 2);
+    const candidates = [
+      window.lastIndexOf('\n'),
+      lastMatch(window, /\s\d{1,3}\s*\.\s/g),
+      lastMatch(window, /[.;:]\s/g) + 1,
+    ].filter(i => i >= minBreak);
+
+    const cut = candidates.length > 0 ? Math.max(...candidates) : maxChars;
+    chunks.push(text.slice(start, start + cut).trim());
+    start += cut;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest || chunks.length === 0) chunks.push(rest);
+  return chunks;
+}
+
+function lastMatch(text: string, pattern: RegExp): number {
+  let last = -1;
+  for (const match of text.matchAll(pattern)) last = match.index;
+  return last;
+}
+
+export function encodeContinuationToken(token: ContinuationToken): string {
+  return Buffer.from(JSON.stringify(token), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a continuation token. Returns null for anything malformed.
+ */
+export function decodeContinuationToken(raw: string): ContinuationToken | null {
+  try {
+    const token = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8')) as Partial<ContinuationToken>;
+    if (
+      typeof token.document_id !== 'string' ||
+      typeof token.provision_ref !== 'string' ||
+      typeof token.chunk !== 'number' ||
+      typeof token.max_chars !== 'number' ||
+      (token.as_of_date !== undefined && typeof token.as_of_date !== 'string')
+    ) {
+      return null;
+    }
+    return token as ContinuationToken;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Clause-aware word diff of two wordings of an article.
+ *
+ * Both texts are split into the article lead (heading and text before the
+ * first clause) and numbered clauses; clauses are paired by number and the
+ * words of each changed pair are diffed. Output is structured for tools and
+ * can be rendered as a unified diff for people.
+ */
+
+import { segmentProvision, segmentRef } from './provision-segments.js';
+
+export interface DiffOp {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ClauseDiff {
+  /** "dieu6" for the article lead, "dieu6.k2" for a clause */
+  segment_ref: string;
+  clause: string | null;
+  status: 'unchanged' | 'modified' | 'added' | 'removed';
+  old_text: string | null;
+  new_text: string | null;
+  /** Word-level changes of a modified clause */
+  changes?: DiffOp[];
+}
+
+export interface ProvisionDiff {
+  provision_ref: string;
+  identical: boolean;
+  summary: {
+    unchanged: number;
+    modified: number;
+    added: number;
+    removed: number;
+    words_deleted: number;
+    words_inserted: number;
+  };
+  clauses: ClauseDiff[];
+}
+
+/** Above this many word pairs the changed middle is reported as one replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+interface Unit {
+  segment_ref: string;
+  clause: string | null;
+  text: string;
+}
+
+/**
+ * Words and punctuation marks, so "mạng," and "mạng;" differ only in the
+ * mark. Numbers keep their separators ("24/2018/QH14", "5.000.000").
+ */
+function tokens(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(?:[./-][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu) ?? [];
+}
+
+function words(text: string): string[] {
+  return tokens(text).filter(t => /[\p{L}\p{N}]/u.test(t));
+}
+
+/** Tokens back to text: no space before closing marks or after opening ones */
+function join(parts: string[]): string {
+  let text = '';
+  for (const part of parts) {
+    if (text && !/^[,.;:!?)\]”’]$/.test(part) && !/[(\[“‘]$/.test(text)) text += ' ';
+    text += part;
+  }
+  return text;
+}
+
+function push(ops: DiffOp[], op: DiffOp['op'], parts: string[]): void {
+  if (parts.length === 0) return;
+  const last = ops[ops.length - 1];
+  if (last?.op === op) {
+    last.text = join([last.text, ...parts]);
+  } else {
+    ops.push({ op, text: join(parts) });
+  }
+}
+
+/**
+ * Word diff (longest common subsequence) of two texts, with punctuation marks
+ * as tokens of their own. Whitespace differences are ignored; runs of the same
+ * operation are merged.
+ */
+export function diffWords(oldText: string, newText: string): DiffOp[] {
+  const a = tokens(oldText);
+  const b = tokens(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = [];
+  push(ops, 'equal', a.slice(0, prefix));
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    push(ops, 'delete', midA);
+    push(ops, 'insert', midB);
+  } else {
+    // lengths[i][j] = LCS of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push(ops, 'equal', [midA[i++]]);
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push(ops, 'delete', [midA[i++]]);
+      } else {
+        push(ops, 'insert', [midB[j++]]);
+      }
+    }
+    push(ops, 'delete', midA.slice(i));
+    push(ops, 'insert', midB.slice(j));
+  }
+
+  push(ops, 'equal', a.slice(a.length - suffix));
+  return ops;
+}
+
+/**
+ * The article lead and its numbered clauses, in order.
+ */
+function units(provisionRef: string, text: string): Unit[] {
+  const clauses = segmentProvision(text);
+  if (clauses.length === 0) {
+    return text.trim() ? [{ segment_ref: provisionRef, clause: null, text: text.trim() }] : [];
+  }
+
+  const result: Unit[] = [];
+  const lead = text.slice(0, clauses[0].start).trim();
+  if (lead) result.push({ segment_ref: provisionRef, clause: null, text: lead });
+  for (const clause of clauses) {
+    result.push({ segment_ref: segmentRef(provisionRef, clause.number), clause: clause.number, text: clause.text });
+  }
+  return result;
+}
+
+/**
+ * Diff two wordings of one article, clause by clause.
+ */
+export function diffProvisionText(provisionRef: string, oldText: string, newText: string): ProvisionDiff {
+  const oldUnits = units(provisionRef, oldText);
+  const newUnits = units(provisionRef, newText);
+  const oldByRef = new Map(oldUnits.map(u => [u.segment_ref, u]));
+  const newByRef = new Map(newUnits.map(u => [u.segment_ref, u]));
+
+  // New order, with removed clauses placed after the clause that preceded them
+  const order = newUnits.map(u => u.segment_ref);
+  oldUnits.forEach((unit, index) => {
+    if (newByRef.has(unit.segment_ref)) return;
+    const previous = oldUnits[index - 1]?.segment_ref;
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, unit.segment_ref);
+  });
+
+  const summary = { unchanged: 0, modified: 0, added: 0, removed: 0, words_deleted: 0, words_inserted: 0 };
+  const clauses = order.map((ref): ClauseDiff => {
+    const before = oldByRef.get(ref);
+    const after = newByRef.get(ref);
+    const base = {
+      segment_ref: ref,
+      clause: (after ?? before)?.clause ?? null,
+      old_text: before?.text ?? null,
+      new_text: after?.text ?? null,
+    };
+
+    if (!before) {
+      summary.added++;
+      summary.words_inserted += words(base.new_text ?? '').length;
+      return { ...base, status: 'added' };
+    }
+    if (!after) {
+      summary.removed++;
+      summary.words_deleted += words(base.old_text ?? '').length;
+      return { ...base, status: 'removed' };
+    }
+
+    const changes = diffWords(before.text, after.text);
+    if (changes.every(c => c.op === 'equal')) {
+      summary.unchanged++;
+      return { ...base, status: 'unchanged' };
+    }
+    summary.modified++;
+    for (const change of changes) {
+      if (change.op === 'delete') summary.words_deleted += words(change.text).length;
+      if (change.op === 'insert') summary.words_inserted += words(change.text).length;
+    }
+    return { ...base, status: 'modified', changes };
+  });
+
+  return {
+    provision_ref: provisionRef,
+    identical: summary.modified + summary.added + summary.removed === 0,
+    summary,
+    clauses,
+  };
+}
+
+/**
+ * Render a diff as a unified diff with one hunk per changed clause. With
+ * wordDiff, modified clauses are one line marked [-deleted-]{+inserted+}
+ * instead of a -/+ pair.
+ */
+export function formatUnifiedDiff(
+  diff: ProvisionDiff,
+  oldLabel: string,
+  newLabel: string,
+  wordDiff = false,
+): string {
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const clause of diff.clauses) {
+    if (clause.status === 'unchanged') continue;
+    lines.push(`@@ ${clause.segment_ref} (${clause.status}) @@`);
+    if (wordDiff && clause.changes) {
+      lines.push(` ${clause.changes.map(c =>
+        c.op === 'delete' ? `[-${c.text}-]` : c.op === 'insert' ? `{+${c.text}+}` : c.text
+      ).join(' ')}`);
+      continue;
+    }
+    // One line per side, whatever line breaks the source had
+    if (clause.old_text !== null) lines.push(`-${clause.old_text.replace(/\s+/g, ' ')}`);
+    if (clause.new_text !== null) lines.push(`+${clause.new_text.replace(/\s+/g, ' ')}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
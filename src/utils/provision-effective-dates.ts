@@ -0,0 +1,77 @@
+/**
+ * Articles and clauses that enter into force on their own date.
+ *
+ * provision_effective_dates records the carve-outs of a statute's "Hiệu lực
+ * thi hành" article ("Khoản 3 Điều 10 có hiệu lực từ ngày ...") and the end
+ * of each transitional period. Articles not listed start with the statute.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface ProvisionEffectiveDate {
+  provision_ref: string;
+  /** Set when only a clause starts on its own date */
+  segment_ref: string | null;
+  kind: 'in_force' | 'transitional';
+  /** In-force date, or the last day named for a transitional period */
+  date: string | null;
+  /** Article the date was read from */
+  source_provision: string | null;
+}
+
+export interface ClauseInForceDate {
+  segment_ref: string;
+  in_force_date: string;
+}
+
+/**
+ * Recorded dates of a document, optionally for one article. Databases built
+ * before the provision_effective_dates table existed have none.
+ */
+export function loadEffectiveDates(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef?: string,
+): ProvisionEffectiveDate[] {
+  try {
+    return db.prepare(
+      `SELECT provision_ref, segment_ref, kind, date, source_provision
+       FROM provision_effective_dates
+       WHERE document_id = ? AND (? IS NULL OR provision_ref = ?)
+       ORDER BY date, provision_ref, segment_ref`
+    ).all(documentId, provisionRef ?? null, provisionRef ?? null) as ProvisionEffectiveDate[];
+  } catch {
+    return [];
+  }
+}
+
+/** The article's own in-force date, when it differs from the statute's. */
+export function articleInForceDate(dates: ProvisionEffectiveDate[], provisionRef: string): string | null {
+  return dates.find(d => d.kind === 'in_force' && d.provision_ref === provisionRef && !d.segment_ref)?.date ?? null;
+}
+
+/** Clauses of an article with their own in-force date. */
+export function clauseInForceDates(dates: ProvisionEffectiveDate[], provisionRef: string): ClauseInForceDate[] {
+  return dates
+    .filter(d => d.kind === 'in_force' && d.provision_ref === provisionRef && d.segment_ref && d.date)
+    .map(d => ({ segment_ref: d.segment_ref!, in_force_date: d.date! }));
+}
+
+/**
+ * In-force date of a clause or point: its clause's own date if recorded,
+ * else the article's. "dieu10.k3.a" falls under "dieu10.k3".
+ */
+export function segmentInForceDate(
+  dates: ProvisionEffectiveDate[],
+  provisionRef: string,
+  segmentRef: string,
+): string | null {
+  const clause = clauseInForceDates(dates, provisionRef)
+    .find(c => segmentRef === c.segment_ref || segmentRef.startsWith(`${c.segment_ref}.`));
+  return clause?.in_force_date ?? articleInForceDate(dates, provisionRef);
+}
+
+/** Transitional articles whose stated period runs past an ISO date. */
+export function transitionalPeriodsOn(dates: ProvisionEffectiveDate[], date: string): ProvisionEffectiveDate[] {
+  return dates.filter(d => d.kind === 'transitional' && d.date !== null && date < d.date);
+}
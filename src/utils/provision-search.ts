@@ -0,0 +1,282 @@
+/**
+ * Provision full-text search with diacritic folding.
+ *
+ * provisions_fts matches diacritics exactly ("mạng" does not match "mang").
+ * provisions_fts_folded indexes the same text with tone marks and vowel
+ * diacritics removed, so unaccented input ("an ninh mang") still finds
+ * provisions. Exact matches rank first; folded matches fill the remaining
+ * places. Databases built before the folded index existed get exact matches only.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput, segmentTerms } from './fts-query.js';
+import { documentStatuses, documentsInForce } from './as-of-date.js';
+import { normalizeForMatch } from './vietnamese-text.js';
+import { translateQuery, type QueryTranslation } from './query-translation.js';
+
+export interface ProvisionSearchOptions {
+  documentId?: string;
+  /** Status of the document on asOfDate, or today */
+  status?: string;
+  /** ISO date: only documents in force on that day */
+  asOfDate?: string;
+  limit: number;
+  /** Approximate snippet length in tokens */
+  snippetTokens: number;
+}
+
+export interface ProvisionSearchRow {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  snippet: string;
+  relevance: number;
+  /** Whether the query matched with its diacritics, or only once folded */
+  match: 'exact' | 'folded';
+}
+
+type ProvisionRow = Omit<ProvisionSearchRow, 'match'> & { id: number; content?: string };
+
+function filters(
+  db: InstanceType<typeof Database>,
+  options: ProvisionSearchOptions,
+): { sql: string; params: (string | number)[] } {
+  let sql = '';
+  const params: (string | number)[] = [];
+  if (options.documentId) {
+    sql += ' AND lp.document_id = ?';
+    params.push(options.documentId);
+  }
+  const inDocuments = (ids: string[]) => {
+    sql += ids.length > 0 ? ` AND lp.document_id IN (${ids.map(() => '?').join(', ')})` : ' AND 0';
+    params.push(...ids);
+  };
+  if (options.status) {
+    const date = options.asOfDate ?? new Date().toISOString().slice(0, 10);
+    inDocuments([...documentStatuses(db, date)].filter(([, status]) => status === options.status).map(([id]) => id));
+  }
+  if (options.asOfDate) inDocuments(documentsInForce(db, options.asOfDate));
+  return { sql, params };
+}
+
+/**
+ * Run one FTS query. Syntax errors and a missing folded index give no rows.
+ */
+function runQuery(
+  db: InstanceType<typeof Database>,
+  sql: string,
+  params: (string | number)[],
+): ProvisionRow[] {
+  try {
+    return db.prepare(sql).all(...params) as ProvisionRow[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Snippet around the best folded matches in the original text, with matches
+ * marked ">>>" / "<<<" like FTS5 snippet(). Folding is length-preserving,
+ * so offsets in the folded text are offsets in the original.
+ *
+ * A match counts by the square of its syllables, so the window goes to the
+ * phrase or a compound ("an ninh") rather than to the first stray "mạng".
+ */
+export function foldedSnippet(content: string, terms: string[], tokens: number): string {
+  const text = content.normalize('NFC');
+  const folded = normalizeForMatch(text);
+  // The whole phrase first, then lexicon words, so "an ninh mang" is marked
+  // as one match where it occurs and "an ninh" + "mang" elsewhere
+  const needles = terms.length > 1 ? [terms.join(' '), ...segmentTerms(terms), ...terms] : terms;
+
+  const hits: { start: number; end: number; weight: number }[] = [];
+  for (const needle of needles) {
+    const prefix = needle.endsWith('*');
+    const word = needle.replace(/\*$/, '');
+    if (!word) continue;
+    let from = 0;
+    let index: number;
+    while ((index = folded.indexOf(word, from)) !== -1) {
+      const end = index + word.length;
+      from = end;
+      // Whole words only, except for a trailing prefix term
+      if (index > 0 && /[\p{L}\p{N}]/u.test(folded[index - 1])) continue;
+      if (!prefix && end < folded.length && /[\p{L}\p{N}]/u.test(folded[end])) continue;
+      if (hits.some(h => index < h.end && end > h.start)) continue;
+      hits.push({ start: index, end, weight: word.split(' ').length ** 2 });
+    }
+  }
+  hits.sort((a, b) => a.start - b.start);
+
+  const width = tokens * 6;
+  const windowAt = (hit: { start: number }) => Math.max(0, hit.start - Math.floor(width / 3));
+  let start = 0;
+  let best = -1;
+  for (const hit of hits) {
+    const from = windowAt(hit);
+    const score = hits
+      .filter(h => h.start >= from && h.end <= from + width)
+      .reduce((sum, h) => sum + h.weight, 0);
+    if (score > best) {
+      best = score;
+      start = from;
+    }
+  }
+  let end = Math.min(text.length, start + width);
+  // Widen to word boundaries
+  while (start > 0 && /\S/.test(text[start - 1])) start--;
+  while (end < text.length && /\S/.test(text[end])) end++;
+
+  let snippet = '';
+  let cursor = start;
+  for (const hit of hits) {
+    if (hit.start < cursor || hit.end > end) continue;
+    snippet += `${text.slice(cursor, hit.start)}>>>${text.slice(hit.start, hit.end)}<<<`;
+    cursor = hit.end;
+  }
+  snippet += text.slice(cursor, end);
+
+  return `${start > 0 ? '...' : ''}${snippet.trim()}${end < text.length ? '...' : ''}`;
+}
+
+/**
+ * Run query variants from most to least specific; at each level exact-diacritic
+ * matches come before folded ones. terms (folded) mark folded snippets.
+ */
+function runVariants(
+  db: InstanceType<typeof Database>,
+  exactVariants: string[],
+  foldedVariants: string[],
+  terms: string[],
+  options: ProvisionSearchOptions,
+): ProvisionSearchRow[] {
+  const filter = filters(db, options);
+
+  const exactSql = `
+    SELECT
+      lp.id,
+      lp.document_id,
+      ld.title as document_title,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      snippet(provisions_fts, 0, '>>>', '<<<', '...', ${options.snippetTokens}) as snippet,
+      bm25(provisions_fts) as relevance
+    FROM provisions_fts
+    JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE provisions_fts MATCH ?${filter.sql}
+    ORDER BY relevance LIMIT ?
+  `;
+  const foldedSql = `
+    SELECT
+      lp.id,
+      lp.document_id,
+      ld.title as document_title,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      lp.content,
+      bm25(provisions_fts_folded) as relevance
+    FROM provisions_fts_folded
+    JOIN legal_provisions lp ON lp.id = provisions_fts_folded.rowid
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE provisions_fts_folded MATCH ?${filter.sql}
+    ORDER BY relevance LIMIT ?
+  `;
+
+  const seen = new Set<number>();
+  const results: ProvisionSearchRow[] = [];
+  const add = (rows: ProvisionRow[], match: 'exact' | 'folded') => {
+    for (const { id, content, ...row } of rows) {
+      if (results.length >= options.limit) return;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      results.push({
+        ...row,
+        snippet: match === 'folded' ? foldedSnippet(content ?? '', terms, options.snippetTokens) : row.snippet,
+        match,
+      });
+    }
+  };
+
+  for (let i = 0; i < Math.max(exactVariants.length, foldedVariants.length); i++) {
+    if (results.length >= options.limit) break;
+    // Rows already returned may reappear, so fetch enough to fill the limit
+    const fetch = options.limit + seen.size;
+    if (exactVariants[i]) add(runQuery(db, exactSql, [exactVariants[i], ...filter.params, fetch]), 'exact');
+    if (foldedVariants[i]) add(runQuery(db, foldedSql, [foldedVariants[i], ...filter.params, fetch]), 'folded');
+  }
+
+  return results;
+}
+
+/**
+ * Search provisions. Query variants run from most to least specific (phrase,
+ * lexicon words, all terms, prefix), so a folded phrase match outranks
+ * scattered exact terms.
+ */
+export function searchProvisions(
+  db: InstanceType<typeof Database>,
+  query: string,
+  options: ProvisionSearchOptions,
+): ProvisionSearchRow[] {
+  const sanitized = sanitizeFtsInput(query);
+  const foldedQuery = normalizeForMatch(sanitized);
+  const terms = foldedQuery.split(/\s+/).filter(t => t.length > 0);
+  return runVariants(db, buildFtsQueryVariants(sanitized), buildFtsQueryVariants(foldedQuery), terms, options);
+}
+
+/**
+ * Search with English legal terms translated to Vietnamese. The translated
+ * queries run first, each requiring its Vietnamese terms as whole phrases;
+ * then the original query, then the translated terms word by word.
+ * translation is null when the query was searched as given.
+ */
+export function searchProvisionsTranslated(
+  db: InstanceType<typeof Database>,
+  query: string,
+  options: ProvisionSearchOptions,
+): { rows: ProvisionSearchRow[]; translation: QueryTranslation | null } {
+  const translation = translateQuery(query);
+  if (!translation) {
+    return { rows: searchProvisions(db, query, options), translation };
+  }
+
+  const asFts = (phrases: string[]) => phrases.map(p => `"${sanitizeFtsInput(p)}"`).join(' AND ');
+  const seen = new Set<string>();
+  const rows: ProvisionSearchRow[] = [];
+  const add = (found: ProvisionSearchRow[]) => {
+    for (const row of found) {
+      if (rows.length >= options.limit) return;
+      const key = `${row.document_id}#${row.provision_ref}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      rows.push(row);
+    }
+  };
+
+  // Each query as whole phrases, then as two-syllable words anywhere in the
+  // provision. The loose word matches go after the query as given, since
+  // they also find provisions about something else that share a syllable pair
+  const relaxed = (phrases: string[]) =>
+    phrases.flatMap(p => segmentTerms(sanitizeFtsInput(p).split(' '), 2)).map(w => `"${w}"`).join(' AND ');
+  const run = (build: (phrases: string[]) => string) => {
+    for (const phrases of translation.queries) {
+      if (rows.length >= options.limit) return;
+      const folded = phrases.map(normalizeForMatch);
+      const terms = folded.join(' ').split(/\s+/);
+      add(runVariants(db, [build(phrases)], [build(folded)], terms, options));
+    }
+  };
+  run(asFts);
+  if (rows.length < options.limit) add(searchProvisions(db, query, options));
+  run(relaxed);
+
+  return { rows, translation };
+}
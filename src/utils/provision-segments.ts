@@ -0,0 +1,224 @@
+/**
+ * Clause (khoản) and point (điểm) segmentation of Vietnamese articles.
+ *
+ * An article (Điều) is divided into numbered clauses ("1.", "2.", ...), and a
+ * clause into lettered points ("a)", "b)", ...). Ingested text often has the
+ * markers glued to the preceding word ("an ninh mạng1. Ưu tiên"), so markers
+ * are accepted anywhere as long as they continue the expected sequence. An
+ * amended article may skip clause numbers ("1. ... 3. ..." once clause 2 is
+ * repealed), so a clause may be up to MAX_CLAUSE_GAP numbers ahead.
+ */
+
+/** Vietnamese point letters in order (no f, j, w, z; đ follows d). */
+export const POINT_LETTERS = [
+  'a', 'b', 'c', 'd', 'đ', 'e', 'g', 'h', 'i', 'k', 'l', 'm',
+  'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'x', 'y',
+];
+
+export interface PointSegment {
+  letter: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ClauseSegment {
+  number: string;
+  text: string;
+  start: number;
+  end: number;
+  points: PointSegment[];
+}
+
+export interface PinpointLocation {
+  clause_found?: boolean;
+  point_found?: boolean;
+  text?: string;
+}
+
+/** Clause numbers that may be skipped between two clauses */
+const MAX_CLAUSE_GAP = 2;
+
+const ARTICLE_HEADER = /^\s*Đi[eề]u\s+\d+[a-zA-Z]?\s*\.\s*/;
+const REFERENCE_WORD_BEFORE = /(?:đi[eề]u|kho[ảa]n|đi[ểe]m|ch[uư][oơ]ng|m[ụu]c|s[ốo]|n[ăa]m|ngày|tháng)\s*$/i;
+
+/**
+ * Split article text into clauses and points.
+ * Offsets are relative to the given content. Returns an empty array when the
+ * article has no numbered clauses.
+ */
+export function segmentProvision(content: string): ClauseSegment[] {
+  const header = content.match(ARTICLE_HEADER);
+  const bodyStart = header ? header[0].length : 0;
+
+  // "2..Thông tin số": some sources double the dot
+  const clauseMarker = /(\d{1,3})\s*\.{1,2}(?=\s|\p{Lu})/gu;
+  clauseMarker.lastIndex = bodyStart;
+
+  const starts: { number: number; index: number; textStart: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = clauseMarker.exec(content)) !== null) {
+    const expected = (starts.at(-1)?.number ?? 0) + 1;
+    const num = Number.parseInt(match[1], 10);
+    // The first clause is always 1
+    if (num < expected || num > expected + (starts.length > 0 ? MAX_CLAUSE_GAP : 0)) continue;
+
+    const prev = match.index > 0 ? content[match.index - 1] : '';
+    if (/[\d/,]/.test(prev)) continue;
+    if (REFERENCE_WORD_BEFORE.test(content.slice(Math.max(0, match.index - 12), match.index))) continue;
+
+    starts.push({ number: num, index: match.index, textStart: match.index + match[0].length });
+  }
+
+  return starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : content.length;
+    const text = content.slice(start.textStart, end).trim();
+    return {
+      number: String(start.number),
+      text,
+      start: start.index,
+      end,
+      points: segmentPoints(content, start.textStart, end),
+    };
+  });
+}
+
+/**
+ * Find lettered points inside content[from, to).
+ */
+function segmentPoints(content: string, from: number, to: number): PointSegment[] {
+  // "dd)" is the ASCII spelling of point đ in some sources
+  const pointMarker = /(^|[\s.;:,])(dd|[a-zđ])\s*\)/g;
+  const region = content.slice(from, to);
+
+  const starts: { letter: string; index: number; textStart: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pointMarker.exec(region)) !== null) {
+    const letter = match[2] === 'dd' ? 'đ' : match[2];
+    if (letter !== POINT_LETTERS[starts.length]) continue;
+    const markerIndex = match.index + match[1].length;
+    starts.push({ letter, index: markerIndex, textStart: match.index + match[0].length });
+  }
+
+  return starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : region.length;
+    return {
+      letter: start.letter,
+      text: region.slice(start.textStart, end).trim().replace(/[;.]$/, '').trim(),
+      start: from + start.index,
+      end: from + end,
+    };
+  });
+}
+
+/**
+ * Check whether a clause and point exist in the article text.
+ * Returns the text of the most specific part found.
+ */
+export function locatePinpoint(content: string, clause?: string, point?: string): PinpointLocation {
+  if (!clause && !point) return {};
+
+  const clauses = segmentProvision(content);
+  const result: PinpointLocation = {};
+
+  if (!clause) {
+    // Point without clause: only meaningful for articles without numbered clauses
+    const points = clauses.length === 0 ? segmentPoints(content, 0, content.length) : [];
+    const found = points.find(p => p.letter === point?.toLowerCase());
+    result.point_found = Boolean(found);
+    if (found) result.text = found.text;
+    return result;
+  }
+
+  const foundClause = clauses.find(c => c.number === clause);
+  result.clause_found = Boolean(foundClause);
+  if (foundClause) result.text = foundClause.text;
+
+  if (point) {
+    const foundPoint = foundClause?.points.find(p => p.letter === point.toLowerCase());
+    result.point_found = Boolean(foundPoint);
+    if (foundPoint) result.text = foundPoint.text;
+  }
+
+  return result;
+}
+
+/**
+ * One row of the provision_segments table: a clause, or a point within it.
+ */
+export interface SegmentRow {
+  segment_ref: string;
+  clause: string | null;
+  point: string | null;
+  content: string;
+}
+
+export interface SegmentRefParts {
+  provision_ref: string;
+  clause?: string;
+  point?: string;
+}
+
+/**
+ * Build a segment reference: ("dieu8", "2", "a") -> "dieu8.k2.a".
+ * Point đ is written "dd" to keep references ASCII.
+ */
+export function segmentRef(provisionRef: string, clause?: string, point?: string): string {
+  let ref = provisionRef;
+  if (clause) ref += `.k${clause}`;
+  if (point) ref += `.${point === 'đ' ? 'dd' : point}`;
+  return ref;
+}
+
+/**
+ * Split a segment reference into article, clause and point.
+ * Accepts "dieu8", "dieu8.k2", "dieu8.k2.a", "dieu8.a" (point of an article
+ * without clauses) and "đ" or "dd" for point đ. Returns null for other input.
+ */
+export function parseSegmentRef(ref: string): SegmentRefParts | null {
+  const match = ref.trim().toLowerCase().match(/^(dieu\d+[a-z]?)(?:\.k(\d{1,3}))?(?:\.(dd|[a-zđ]))?$/);
+  if (!match) return null;
+  const parts: SegmentRefParts = { provision_ref: match[1] };
+  if (match[2]) parts.clause = match[2];
+  if (match[3]) parts.point = match[3] === 'dd' ? 'đ' : match[3];
+  return parts;
+}
+
+/**
+ * Flatten an article into segment rows: each clause followed by its points.
+ * Articles without numbered clauses yield their lettered points, if any.
+ */
+export function flattenSegments(provisionRef: string, content: string): SegmentRow[] {
+  const rows: SegmentRow[] = [];
+  const clauses = segmentProvision(content);
+
+  if (clauses.length === 0) {
+    for (const point of segmentPoints(content, 0, content.length)) {
+      rows.push({
+        segment_ref: segmentRef(provisionRef, undefined, point.letter),
+        clause: null,
+        point: point.letter,
+        content: point.text,
+      });
+    }
+    return rows;
+  }
+
+  for (const clause of clauses) {
+    rows.push({
+      segment_ref: segmentRef(provisionRef, clause.number),
+      clause: clause.number,
+      point: null,
+      content: clause.text,
+    });
+    for (const point of clause.points) {
+      rows.push({
+        segment_ref: segmentRef(provisionRef, clause.number, point.letter),
+        clause: clause.number,
+        point: point.letter,
+        content: point.text,
+      });
+    }
+  }
+  return rows;
+}
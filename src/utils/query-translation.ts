@@ -0,0 +1,109 @@
+/**
+ * English → Vietnamese query translation for provision search.
+ *
+ * Provision text is Vietnamese, so an English query such as "data
+ * localization" finds little on its own. English legal terms in the query
+ * are looked up in the bundled glossary (longest phrase first) and the
+ * Vietnamese renderings become the queries that search runs first.
+ */
+
+import { LEGAL_GLOSSARY, type GlossaryEntry } from './legal-glossary.js';
+
+export interface TranslatedTerm {
+  /** The English term as it appeared in the query */
+  english: string;
+  /** Vietnamese renderings, usual statutory term first */
+  vietnamese: string[];
+}
+
+export interface QueryTranslation {
+  terms: TranslatedTerm[];
+  /** Query words with no glossary entry (stopwords excluded) */
+  untranslated: string[];
+  /** Vietnamese queries in the order they are searched; each lists phrases that must all match */
+  queries: string[][];
+}
+
+/** At most this many Vietnamese queries per search */
+const MAX_QUERIES = 8;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'in', 'on', 'at', 'for', 'to', 'from', 'by', 'with', 'about', 'under',
+  'and', 'or', 'not', 'is', 'are', 'be', 'what', 'which', 'who', 'how', 'when', 'does', 'do',
+  'vietnam', 'vietnamese', 'viet', 'nam',
+]);
+
+/** "penalties" -> "penalty", "breaches" -> "breach"; leaves "business", "status" alone. */
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/’/g, '\'').match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) ?? [];
+}
+
+// Exact keys win over singularised ones ("securities" is not "security")
+const EXACT = new Map<string, GlossaryEntry>();
+const SINGULAR = new Map<string, GlossaryEntry>();
+for (const entry of LEGAL_GLOSSARY) {
+  EXACT.set(entry.en, entry);
+  const key = words(entry.en).map(singular).join(' ');
+  if (!SINGULAR.has(key)) SINGULAR.set(key, entry);
+}
+const MAX_TERM_WORDS = Math.max(...LEGAL_GLOSSARY.map(e => words(e.en).length));
+
+function lookup(tokens: string[]): GlossaryEntry | undefined {
+  return EXACT.get(tokens.join(' ')) ?? SINGULAR.get(tokens.map(singular).join(' '));
+}
+
+/**
+ * Translate the English legal terms in a query. Returns null when the query
+ * is already Vietnamese (has Vietnamese letters) or no glossary term matches.
+ */
+export function translateQuery(query: string): QueryTranslation | null {
+  if (/[À-ỹ]/.test(query)) return null;
+
+  // FTS5 operators are not words to translate
+  const tokens = words(query.replace(/\b(AND|OR|NOT|NEAR)\b/g, ' '));
+  const terms: TranslatedTerm[] = [];
+  const untranslated: string[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let matched: GlossaryEntry | undefined;
+    let length = 1;
+    for (let n = Math.min(MAX_TERM_WORDS, tokens.length - i); n >= 1; n--) {
+      matched = lookup(tokens.slice(i, i + n));
+      if (matched) {
+        length = n;
+        break;
+      }
+    }
+    if (matched) {
+      terms.push({ english: tokens.slice(i, i + length).join(' '), vietnamese: [...matched.vi] });
+    } else if (!STOPWORDS.has(tokens[i])) {
+      untranslated.push(tokens[i]);
+    }
+    i += length;
+  }
+
+  if (terms.length === 0) return null;
+
+  // All terms together first, then each term alone, longest English term first
+  const queries: string[][] = [];
+  const add = (phrases: string[]) => {
+    const unique = [...new Set(phrases)];
+    const key = unique.join('\n');
+    if (!queries.some(q => q.join('\n') === key)) queries.push(unique);
+  };
+  if (terms.length > 1) add(terms.map(t => t.vietnamese[0]));
+  const bySpecificity = [...terms].sort((a, b) => words(b.english).length - words(a.english).length);
+  for (const term of bySpecificity) {
+    for (const vietnamese of term.vietnamese) add([vietnamese]);
+  }
+
+  return { terms, untranslated, queries: queries.slice(0, MAX_QUERIES) };
+}
@@ -1,26 +1,57 @@
 /**
- * Statute ID resolution for Australian Law MCP.
+ * Statute ID resolution for Vietnamese Law MCP.
  *
- * Resolves fuzzy document references (titles, IDs) to database document IDs.
- * Australian legislation uses Act title + year as the canonical identifier
- * (e.g., "Privacy Act 1988", "Corporations Act 2001").
+ * Resolves fuzzy document references (titles, IDs, official numbers) to
+ * database document IDs. Vietnamese practice cites documents by official
+ * number: Number/Year/Issuing body (e.g., "24/2018/QH14" for a law of the
+ * 14th National Assembly, "13/2023/NĐ-CP" for a Government decree).
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { foldDiacritics, normalizeForMatch } from './vietnamese-text.js';
+
+const OFFICIAL_NUMBER_PATTERN =
+  /(\d{1,4})\s*\/\s*(\d{4})\s*\/\s*([A-Za-zĐđ]+\d*(?:\s*-\s*[A-Za-zĐđ]+\d*)*)/;
+
+/**
+ * Extract an official document number from free text.
+ * "Luật số 59/2020/QH14" -> "59/2020/QH14", "Nghị định 13/2023/NĐ-CP" -> "13/2023/NĐ-CP".
+ */
+export function extractOfficialNumber(input: string): string | null {
+  const match = input.normalize('NFC').match(OFFICIAL_NUMBER_PATTERN);
+  if (!match) return null;
+  return `${match[1]}/${match[2]}/${match[3].replace(/\s+/g, '')}`;
+}
+
+/**
+ * Normalise an official document number to a comparison key.
+ * Ignores "số"/"No." prefixes, spacing, case, leading zeros and the Đ/D
+ * spelling of issuing bodies: "số 13/2023/NĐ-CP" and "13/2023/nd-cp" both
+ * become "13/2023/ND-CP". Returns null when no number is present.
+ */
+export function normalizeOfficialNumber(input: string): string | null {
+  const match = input.normalize('NFC').match(OFFICIAL_NUMBER_PATTERN);
+  if (!match) return null;
+  const issuer = foldDiacritics(match[3]).replace(/\s+/g, '').toUpperCase();
+  return `${Number.parseInt(match[1], 10)}/${match[2]}/${issuer}`;
+}
 
 /**
  * Resolve a document identifier to a database document ID.
  * Supports:
  * - Direct ID match (e.g., "privacy-act-1988")
+ * - Official number (e.g., "24/2018/QH14", "Luật số 59/2020/QH14", "13/2023/ND-CP")
  * - Title match (e.g., "Privacy Act 1988", "Privacy Act")
  * - Short name/abbreviation match (e.g., "SOCI Act")
  * - Fuzzy title substring match
+ * - Diacritic-insensitive title match (e.g., "Luat Doanh nghiep")
  */
 export function resolveDocumentId(
   db: InstanceType<typeof Database>,
   input: string,
 ): string | null {
-  const trimmed = input.trim();
+  // "Luật Doanh nghiệp năm 2020" -> "Luật Doanh nghiệp 2020" (titles omit "năm")
+  const trimmed = input.trim().replace(/\s+n[ăa]m\s+(\d{4})\b/giu, ' $1');
   if (!trimmed) return null;
 
   // Direct ID match
@@ -29,6 +60,19 @@ export function resolveDocumentId(
   ).get(trimmed) as { id: string } | undefined;
   if (directMatch) return directMatch.id;
 
+  // Official number match
+  const officialNumber = normalizeOfficialNumber(trimmed);
+  if (officialNumber) {
+    try {
+      const numberMatch = db.prepare(
+        'SELECT id FROM legal_documents WHERE official_number_normalized = ?'
+      ).get(officialNumber) as { id: string } | undefined;
+      if (numberMatch) return numberMatch.id;
+    } catch {
+      // official_number columns may not exist in older databases
+    }
+  }
+
   // Title/short_name exact match
   const titleResult = db.prepare(
     "SELECT id FROM legal_documents WHERE title LIKE ? OR short_name LIKE ? OR title_en LIKE ? LIMIT 1"
@@ -41,5 +85,15 @@ export function resolveDocumentId(
   ).get(`%${trimmed}%`, `%${trimmed}%`, `%${trimmed}%`) as { id: string } | undefined;
   if (lowerResult) return lowerResult.id;
 
+  // Diacritic-insensitive fallback (LIKE/LOWER only fold ASCII)
+  const needle = normalizeForMatch(trimmed);
+  const docs = db.prepare(
+    'SELECT id, title, short_name, title_en FROM legal_documents'
+  ).all() as { id: string; title: string; short_name: string | null; title_en: string | null }[];
+  for (const doc of docs) {
+    const names = [doc.title, doc.short_name, doc.title_en].filter((n): n is string => Boolean(n));
+    if (names.some(name => normalizeForMatch(name).includes(needle))) return doc.id;
+  }
+
   return null;
 }
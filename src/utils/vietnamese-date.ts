@@ -0,0 +1,125 @@
+/**
+ * Dates as Vietnamese statutes and their readers write them.
+ *
+ * Statute text writes dates out: "ngày 01 tháng 7 năm 2016"; decrees and
+ * official letters also use "ngày 01/7/2016". Scraped text often loses the
+ * spaces around the numbers ("ngày 01tháng 01 năm 2019", "tháng 6năm 2006"),
+ * so whitespace is optional throughout.
+ *
+ * Numeric dates are always read day first (01/07/2023 is 1 July), as in
+ * Vietnam; month-first forms are not accepted.
+ */
+
+const WRITTEN_DATE = /ng[àa]y\s*(\d{1,2})\s*th[áa]ng\s*(\d{1,2})\s*n[ăa]m\s*(\d{4})/giu;
+/** "ngày 01/7/2016": a bare "01/7/2016" in running text is too easily part of something else */
+const NUMERIC_DATE_IN_TEXT = /ng[àa]y\s*(\d{1,2})\s*[/.-]\s*(\d{1,2})\s*[/.-]\s*(\d{4})(?!\d)/giu;
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const YEAR_FIRST_DATE = /^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/;
+const DAY_FIRST_DATE = /^(\d{1,2})\s*[/.-]\s*(\d{1,2})\s*[/.-]\s*(\d{4})$/;
+/** "ngày 01 tháng 7 năm 2023", "1 tháng 7, 2023", "Hà Nội, ngày 12 tháng 6 năm 2018" */
+const LONG_VIETNAMESE_DATE = /^(?:[^,\d]*,\s*)?(?:ng[àa]y\s*)?(\d{1,2})\s*th[áa]ng\s*(\d{1,2})\s*(?:n[ăa]m|,)?\s*(\d{4})$/iu;
+/** "1 July 2023", "1st of July, 2023" */
+const ENGLISH_DAY_FIRST = /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)\.?,?\s+(\d{4})$/i;
+/** "July 1, 2023", "Jul 1st 2023" */
+const ENGLISH_MONTH_FIRST = /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i;
+
+const ENGLISH_MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*';
+/** "January 01, 2019" or "1 July 2016" in running text, as English translations write them */
+const ENGLISH_DATE_IN_TEXT = new RegExp(
+  `\\b(?:(${MONTH_NAME})\\.?\\s*(\\d{1,2})(?:st|nd|rd|th)?,?\\s*(\\d{4})` +
+  `|(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAME})\\.?,?\\s*(\\d{4}))(?!\\d)`,
+  'gi',
+);
+
+export interface DateMatch {
+  /** ISO date */
+  date: string;
+  /** Position and length of the date in the searched text */
+  index: number;
+  length: number;
+}
+
+/** ISO date from day, month and year, or null when they do not form a real date. */
+export function isoDate(day: number, month: number, year: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/** Month number of an English month name or its abbreviation ("Sept", "jul"). */
+function englishMonth(name: string): number | null {
+  const lower = name.toLowerCase();
+  if (lower.length < 3) return null;
+  const index = ENGLISH_MONTHS.findIndex(m => m.startsWith(lower) || (lower === 'sept' && m === 'september'));
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * The first date written in a text, with its position: the long form
+ * ("ngày 01 tháng 7 năm 2016") or "ngày 01/7/2016".
+ */
+export function findVietnameseDate(text: string): DateMatch | null {
+  const normalized = text.normalize('NFC');
+  const found = [...normalized.matchAll(WRITTEN_DATE), ...normalized.matchAll(NUMERIC_DATE_IN_TEXT)]
+    .sort((a, b) => a.index! - b.index!);
+
+  for (const match of found) {
+    const date = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (date) return { date, index: match.index!, length: match[0].length };
+  }
+  return null;
+}
+
+/**
+ * The first English date in a text, with its position: "January 01, 2019",
+ * "Jan 1st 2019" or "1 January 2019". Spaces may be missing, as in scraped
+ * translations ("intoforce from January 01,2019").
+ */
+export function findEnglishDate(text: string): DateMatch | null {
+  for (const match of text.matchAll(ENGLISH_DATE_IN_TEXT)) {
+    const month = englishMonth(match[1] ?? match[5]);
+    const day = Number(match[2] ?? match[4]);
+    const date = month ? isoDate(day, month, Number(match[3] ?? match[6])) : null;
+    if (date) return { date, index: match.index!, length: match[0].length };
+  }
+  return null;
+}
+
+/**
+ * ISO date from a date as a user or a document writes it, or null when the
+ * input is not one. Accepts YYYY-MM-DD (with or without a time), YYYY/MM/DD,
+ * day-first DD/MM/YYYY, DD-MM-YYYY and DD.MM.YYYY, the Vietnamese long form
+ * with or without "ngày" and a place name, and English "1 July 2023" and
+ * "July 1, 2023".
+ */
+export function parseDate(input: string): string | null {
+  const text = input.normalize('NFC').trim().replace(/\s+/g, ' ');
+  if (text.length === 0) return null;
+
+  let match = text.match(ISO_DATE) ?? text.match(YEAR_FIRST_DATE);
+  if (match) return isoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(DAY_FIRST_DATE) ?? text.match(LONG_VIETNAMESE_DATE);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(ENGLISH_DAY_FIRST);
+  if (match) {
+    const month = englishMonth(match[2]);
+    return month ? isoDate(Number(match[1]), month, Number(match[3])) : null;
+  }
+
+  match = text.match(ENGLISH_MONTH_FIRST);
+  if (match) {
+    const month = englishMonth(match[1]);
+    return month ? isoDate(Number(match[2]), month, Number(match[3])) : null;
+  }
+
+  return null;
+}
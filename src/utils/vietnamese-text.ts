@@ -0,0 +1,106 @@
+/**
+ * Vietnamese text helpers for Vietnamese Law MCP.
+ *
+ * Diacritic folding is length-preserving for NFC input: every character maps
+ * to exactly one character, so offsets into folded text are valid offsets into
+ * the original. Citation parsing and snippet mapping rely on this.
+ */
+
+/**
+ * Remove Vietnamese tone marks and vowel diacritics ("điều" -> "dieu").
+ * The input is normalised to NFC first; the output has the same length as
+ * the NFC form of the input.
+ */
+export function foldDiacritics(input: string): string {
+  let out = '';
+  for (const ch of input.normalize('NFC')) {
+    if (ch === 'đ') {
+      out += 'd';
+    } else if (ch === 'Đ') {
+      out += 'D';
+    } else if (ch.charCodeAt(0) < 0x80) {
+      out += ch;
+    } else {
+      const base = ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      out += base.length === ch.length ? base : ch;
+    }
+  }
+  return out;
+}
+
+/**
+ * Fold diacritics and lowercase, for case- and accent-insensitive comparison.
+ */
+export function normalizeForMatch(input: string): string {
+  return foldDiacritics(input).toLowerCase();
+}
+
+/** Initial consonants, longest first so "ngh" wins over "ng". */
+const ONSETS = [
+  'ngh', 'ng', 'gh', 'gi', 'ch', 'kh', 'nh', 'ph', 'qu', 'th', 'tr',
+  'b', 'c', 'd', 'đ', 'g', 'h', 'k', 'l', 'm', 'n', 'p', 'r', 's', 't', 'v', 'x', '',
+];
+
+/** Rhymes (vần) without tone marks, grouped by nucleus and allowed codas. */
+const RHYMES = new Set<string>([
+  // Open rhymes
+  'a', 'ai', 'ao', 'au', 'ay', 'âu', 'ây', 'e', 'eo', 'ê', 'êu', 'i', 'ia', 'iu', 'iêu',
+  'o', 'oa', 'oai', 'oay', 'oe', 'oeo', 'oi', 'ô', 'ôi', 'ơ', 'ơi', 'u', 'ua', 'uây', 'uê',
+  'ui', 'uôi', 'uơ', 'uy', 'uya', 'uyu', 'ư', 'ưa', 'ưi', 'ưu', 'ươi', 'ươu', 'y', 'yêu',
+  // Closed rhymes: nucleus + coda
+  ...withCodas('a', ['c', 'ch', 'm', 'n', 'ng', 'nh', 'p', 't']),
+  ...withCodas('ă', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('â', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('e', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('ê', ['ch', 'm', 'n', 'nh', 'p', 't']),
+  ...withCodas('i', ['ch', 'm', 'n', 'nh', 'p', 't']),
+  ...withCodas('o', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('oo', ['c', 'ng']),
+  ...withCodas('ô', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('ơ', ['m', 'n', 'p', 't']),
+  ...withCodas('u', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('ư', ['c', 'm', 'n', 'ng', 't']),
+  ...withCodas('iê', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('yê', ['m', 'n', 't']),
+  ...withCodas('oa', ['c', 'ch', 'm', 'n', 'ng', 'nh', 'p', 't']),
+  ...withCodas('oă', ['c', 'm', 'n', 'ng', 't']),
+  ...withCodas('oe', ['m', 'n', 't']),
+  ...withCodas('uâ', ['n', 'ng', 't']),
+  ...withCodas('uê', ['ch', 'n', 'nh']),
+  ...withCodas('uô', ['c', 'm', 'n', 'ng', 't']),
+  ...withCodas('ươ', ['c', 'm', 'n', 'ng', 'p', 't']),
+  ...withCodas('uy', ['ch', 'n', 'nh', 't']),
+  ...withCodas('uyê', ['n', 't']),
+]);
+
+/** Tone marks; vowel quality marks (circumflex, breve, horn) are not tones. */
+const TONE_MARKS = /[\u0300\u0301\u0303\u0309\u0323]/g;
+/** Stop codas only take the sắc (acute) or nặng (dot below) tone. */
+const STOP_CODA = /(?:c|ch|p|t)$/;
+
+function withCodas(nucleus: string, codas: string[]): string[] {
+  return codas.map(coda => nucleus + coda);
+}
+
+/**
+ * Whether a single word is a well-formed Vietnamese syllable: a known onset,
+ * a known rhyme, at most one tone mark, and a sắc/nặng tone on syllables
+ * ending in c, ch, p or t. Case-insensitive.
+ */
+export function isVietnameseSyllable(word: string): boolean {
+  const decomposed = word.normalize('NFC').toLowerCase().normalize('NFD');
+  const tones = decomposed.match(TONE_MARKS) ?? [];
+  if (tones.length > 1) return false;
+
+  const base = decomposed.replace(TONE_MARKS, '').normalize('NFC');
+  for (const onset of ONSETS) {
+    if (!base.startsWith(onset)) continue;
+    const rhyme = base.slice(onset.length);
+    if (!RHYMES.has(rhyme)) continue;
+    // "gi" + "i..." and "qu" + "u..." double the glide letter
+    if ((onset === 'qu' && rhyme.startsWith('u')) || (onset === 'gi' && rhyme.startsWith('i'))) continue;
+    if (STOP_CODA.test(rhyme) && !(tones[0] === '\u0301' || tones[0] === '\u0323')) continue;
+    return true;
+  }
+  return false;
+}